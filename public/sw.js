@@ -0,0 +1,48 @@
+// AutiCare service worker: shows Web Push notifications sent by the send-push edge function,
+// including when no AutiCare tab is open. Paths resolve against the worker's scope, which is the
+// site's base path (e.g. /AUTICARE.in/ on GitHub Pages) rather than the domain root.
+
+self.addEventListener('install', () => {
+  self.skipWaiting();
+});
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil(self.clients.claim());
+});
+
+self.addEventListener('push', (event) => {
+  let payload = {};
+  try {
+    payload = event.data ? event.data.json() : {};
+  } catch {
+    payload = { body: event.data ? event.data.text() : '' };
+  }
+
+  const title = payload.title || 'AutiCare';
+  event.waitUntil(
+    self.registration.showNotification(title, {
+      body: payload.body || '',
+      icon: payload.icon || new URL('favicon.ico', self.registration.scope).href,
+      badge: new URL('favicon.ico', self.registration.scope).href,
+      tag: payload.tag,
+      data: { url: payload.url || '' },
+    })
+  );
+});
+
+// Focus an open AutiCare tab if there is one, otherwise open the notification's page
+self.addEventListener('notificationclick', (event) => {
+  event.notification.close();
+  const url = new URL(event.notification.data?.url || '', self.registration.scope).href;
+
+  event.waitUntil(
+    self.clients.matchAll({ type: 'window', includeUncontrolled: true }).then((windows) => {
+      const existing = windows.find((client) => client.url.startsWith(self.registration.scope));
+      if (existing) {
+        existing.focus();
+        return existing.navigate(url);
+      }
+      return self.clients.openWindow(url);
+    })
+  );
+});
@@ -4,6 +4,10 @@ import { TooltipProvider } from "@/components/ui/tooltip";
 import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
 import { BrowserRouter, Routes, Route, Navigate } from "react-router-dom";
 import Index from "./pages/Index";
+import QuestionBankAdmin from "./pages/QuestionBankAdmin";
+import NotificationPreferences from "./pages/NotificationPreferences";
+import SharedAchievement from "./pages/SharedAchievement";
+import Unsubscribe from "./pages/Unsubscribe";
 import "./App.css";
 
 const queryClient = new QueryClient();
@@ -16,6 +20,10 @@ const App = () => (
       <BrowserRouter>
         <Routes>
           <Route path="/" element={<Index />} />
+          <Route path="/admin/question-banks" element={<QuestionBankAdmin />} />
+          <Route path="/settings/notifications" element={<NotificationPreferences />} />
+          <Route path="/share/:token" element={<SharedAchievement />} />
+          <Route path="/unsubscribe" element={<Unsubscribe />} />
           <Route path="*" element={<Navigate to="/" replace />} />
         </Routes>
       </BrowserRouter>
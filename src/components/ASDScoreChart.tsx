@@ -1,14 +1,39 @@
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { ChartContainer, ChartTooltip, ChartTooltipContent } from '@/components/ui/chart';
-import { BarChart, Bar, XAxis, YAxis, ResponsiveContainer, Cell, RadialBarChart, RadialBar, Legend, PolarAngleAxis } from 'recharts';
+import {
+  BarChart,
+  Bar,
+  XAxis,
+  YAxis,
+  ResponsiveContainer,
+  Cell,
+  RadialBarChart,
+  RadialBar,
+  Legend,
+  PolarAngleAxis,
+  RadarChart,
+  Radar,
+  PolarGrid,
+  PolarRadiusAxis,
+} from 'recharts';
+import { CATEGORY_LABELS, ScoringResult } from '@/utils/scoring';
 
 interface ASDScoreChartProps {
   normalizedScore: number;
   mlScore?: number;
   fusedScore?: number;
+  categoryScores?: ScoringResult['categoryScores'];
 }
 
-export default function ASDScoreChart({ normalizedScore, mlScore, fusedScore }: ASDScoreChartProps) {
+export default function ASDScoreChart({ normalizedScore, mlScore, fusedScore, categoryScores }: ASDScoreChartProps) {
+  // Every category is plotted so the radar keeps its shape; unscored ones sit at 0
+  const categoryData = categoryScores
+    ? (Object.keys(CATEGORY_LABELS) as Array<keyof typeof CATEGORY_LABELS>).map((category) => ({
+        category: CATEGORY_LABELS[category],
+        score: categoryScores[category] ?? 0,
+      }))
+    : [];
+
   const scoreData = [
     { name: 'Questionnaire', score: normalizedScore, fill: 'hsl(var(--bright-blue))' },
     ...(mlScore ? [{ name: 'ML Analysis', score: mlScore, fill: 'hsl(var(--lavender))' }] : []),
@@ -115,6 +140,40 @@ export default function ASDScoreChart({ normalizedScore, mlScore, fusedScore }:
         </CardContent>
       </Card>
 
+      {categoryData.length > 0 && (
+        <Card className="md:col-span-2">
+          <CardHeader>
+            <CardTitle className="text-lg">Category Breakdown</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <ChartContainer
+              config={{
+                score: {
+                  label: 'Category score',
+                  color: 'hsl(var(--primary))',
+                },
+              }}
+              className="h-[280px]"
+            >
+              <ResponsiveContainer width="100%" height="100%">
+                <RadarChart data={categoryData} outerRadius="75%">
+                  <PolarGrid />
+                  <PolarAngleAxis dataKey="category" tick={{ fontSize: 12 }} />
+                  <PolarRadiusAxis domain={[0, 100]} tick={{ fontSize: 10 }} />
+                  <ChartTooltip content={<ChartTooltipContent />} />
+                  <Radar
+                    dataKey="score"
+                    stroke="hsl(var(--primary))"
+                    fill="hsl(var(--primary))"
+                    fillOpacity={0.35}
+                  />
+                </RadarChart>
+              </ResponsiveContainer>
+            </ChartContainer>
+          </CardContent>
+        </Card>
+      )}
+
       <Card className="md:col-span-2">
         <CardHeader>
           <CardTitle className="text-lg">Severity Ranges</CardTitle>
@@ -39,7 +39,7 @@ export function Auth({ onAuthSuccess }: AuthProps) {
       
       if (session?.user) {
         setTimeout(() => {
-          fetchUserProfile(session.user.id);
+          fetchUserProfile(session.user);
         }, 0);
       }
     });
@@ -48,22 +48,22 @@ export function Auth({ onAuthSuccess }: AuthProps) {
       setSession(session);
       setUser(session?.user ?? null);
       if (session?.user) {
-        fetchUserProfile(session.user.id);
+        fetchUserProfile(session.user);
       }
     });
 
     return () => subscription.unsubscribe();
   }, []);
 
-  const fetchUserProfile = async (userId: string) => {
+  const fetchUserProfile = async (sessionUser: User) => {
     const { data, error } = await supabase
       .from('profiles')
       .select('role')
-      .eq('user_id', userId)
+      .eq('user_id', sessionUser.id)
       .maybeSingle();
 
     if (data && !error) {
-      onAuthSuccess(user!, data.role);
+      onAuthSuccess(sessionUser, data.role);
     }
   };
 
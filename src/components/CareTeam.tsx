@@ -0,0 +1,209 @@
+import { useState, useEffect } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Stethoscope, Copy, UserX, KeyRound, Mail } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { supabase } from "@/integrations/supabase/client";
+import {
+  CareLinkRecord,
+  createCareInvite,
+  emailCareInvite,
+  listPatientCareLinks,
+  revokeCareLink,
+} from "@/integrations/supabase/careLinks";
+
+export function CareTeam() {
+  const [userId, setUserId] = useState<string | null>(null);
+  const [links, setLinks] = useState<CareLinkRecord[]>([]);
+  const [loading, setLoading] = useState(false);
+  // Clinician address typed in for each pending invite
+  const [inviteEmails, setInviteEmails] = useState<Record<string, string>>({});
+  const [emailingLinkId, setEmailingLinkId] = useState<string | null>(null);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    loadLinks();
+  }, []);
+
+  const loadLinks = async () => {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) return;
+
+    setUserId(user.id);
+    try {
+      setLinks(await listPatientCareLinks(user.id));
+    } catch (error) {
+      console.error('Failed to load care links:', error);
+    }
+  };
+
+  const handleGenerateInvite = async () => {
+    if (!userId) return;
+    setLoading(true);
+    try {
+      const link = await createCareInvite(userId);
+      setLinks([link, ...links]);
+      toast({
+        title: "Invite code created",
+        description: `Share ${link.inviteCode} with your clinician. It expires in 7 days.`,
+      });
+    } catch (error) {
+      toast({
+        title: "Error creating invite",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleRevoke = async (link: CareLinkRecord) => {
+    try {
+      await revokeCareLink(link.id);
+      setLinks(links.map((l) => (l.id === link.id ? { ...l, status: 'revoked' } : l)));
+      toast({
+        title: link.status === 'active' ? "Access revoked" : "Invite cancelled",
+        description: link.status === 'active'
+          ? "This clinician can no longer view your assessments."
+          : "The invite code can no longer be used.",
+      });
+    } catch (error) {
+      toast({
+        title: "Error revoking access",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleEmailInvite = async (link: CareLinkRecord) => {
+    const email = inviteEmails[link.id]?.trim();
+    if (!email) return;
+    setEmailingLinkId(link.id);
+    try {
+      await emailCareInvite(link.id, email);
+      setLinks(links.map((l) => (l.id === link.id ? { ...l, inviteEmailedAt: new Date().toISOString() } : l)));
+      toast({
+        title: "Invite sent",
+        description: `We emailed the invite code to ${email}.`,
+      });
+    } catch (error) {
+      toast({
+        title: "Could not email invite",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    } finally {
+      setEmailingLinkId(null);
+    }
+  };
+
+  const copyCode = async (code: string) => {
+    await navigator.clipboard.writeText(code);
+    toast({
+      title: "Copied!",
+      description: "Invite code copied to clipboard",
+    });
+  };
+
+  const visibleLinks = links.filter((l) => l.status !== 'revoked' && !(l.status === 'pending' && new Date(l.inviteExpiresAt) < new Date()));
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <Stethoscope className="h-5 w-5 text-primary" />
+              Care Team
+            </CardTitle>
+            <CardDescription>
+              Let a clinician view your assessments, mood check-ins and progress
+            </CardDescription>
+          </div>
+          <Button size="sm" onClick={handleGenerateInvite} disabled={loading || !userId}>
+            <KeyRound className="h-4 w-4 mr-2" />
+            Invite Clinician
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent>
+        <div className="space-y-3">
+          {visibleLinks.length === 0 ? (
+            <div className="text-center py-6 text-muted-foreground">
+              <p>No clinicians linked yet</p>
+              <p className="text-sm">Generate an invite code and share it with your clinician</p>
+            </div>
+          ) : (
+            visibleLinks.map((link) => (
+              <div
+                key={link.id}
+                className="flex items-center justify-between p-3 rounded-lg border bg-card"
+              >
+                <div>
+                  {link.status === 'active' ? (
+                    <>
+                      <p className="font-medium">{link.counterpartName ?? 'Clinician'}</p>
+                      <p className="text-xs text-muted-foreground">
+                        Linked {new Date(link.acceptedAt!).toLocaleDateString()}
+                      </p>
+                    </>
+                  ) : (
+                    <>
+                      <div className="flex items-center gap-2">
+                        <span className="font-mono text-sm font-semibold break-all">{link.inviteCode}</span>
+                        <Button size="icon" variant="ghost" className="h-6 w-6" onClick={() => copyCode(link.inviteCode)}>
+                          <Copy className="h-3 w-3" />
+                        </Button>
+                      </div>
+                      <p className="text-xs text-muted-foreground">
+                        Expires {new Date(link.inviteExpiresAt).toLocaleDateString()}
+                        {link.inviteEmailedAt && ` · Emailed ${new Date(link.inviteEmailedAt).toLocaleDateString()}`}
+                      </p>
+                      {!link.inviteEmailedAt && (
+                        <div className="flex items-center gap-2 mt-2">
+                          <Input
+                            type="email"
+                            placeholder="Clinician's email"
+                            value={inviteEmails[link.id] ?? ""}
+                            onChange={(e) => setInviteEmails({ ...inviteEmails, [link.id]: e.target.value })}
+                            className="h-8"
+                          />
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            onClick={() => handleEmailInvite(link)}
+                            disabled={emailingLinkId === link.id || !inviteEmails[link.id]?.trim()}
+                          >
+                            <Mail className="h-3 w-3 mr-1" />
+                            Email
+                          </Button>
+                        </div>
+                      )}
+                    </>
+                  )}
+                </div>
+                <div className="flex items-center gap-2">
+                  <Badge variant={link.status === 'active' ? 'default' : 'outline'}>
+                    {link.status === 'active' ? 'Active' : 'Pending'}
+                  </Badge>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => handleRevoke(link)}
+                    aria-label={link.status === 'active' ? 'Revoke access' : 'Cancel invite'}
+                  >
+                    <UserX className="h-4 w-4 text-destructive" />
+                  </Button>
+                </div>
+              </div>
+            ))
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
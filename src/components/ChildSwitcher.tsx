@@ -0,0 +1,58 @@
+import { useState, useEffect } from 'react';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { supabase } from '@/integrations/supabase/client';
+import { ChildProfile, listChildren } from '@/integrations/supabase/children';
+
+interface ChildSwitcherProps {
+  activeChildId?: string;
+  onSelectChild: (child: ChildProfile) => void;
+  onAddChild: () => void;
+}
+
+const ADD_CHILD_VALUE = '__add_child__';
+
+export default function ChildSwitcher({ activeChildId, onSelectChild, onAddChild }: ChildSwitcherProps) {
+  const [savedChildren, setSavedChildren] = useState<ChildProfile[]>([]);
+
+  useEffect(() => {
+    loadChildren();
+  }, [activeChildId]);
+
+  const loadChildren = async () => {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) return;
+
+    try {
+      setSavedChildren(await listChildren(user.id));
+    } catch (error) {
+      console.error('Failed to load children:', error);
+    }
+  };
+
+  const handleChange = (value: string) => {
+    if (value === ADD_CHILD_VALUE) {
+      onAddChild();
+      return;
+    }
+    const child = savedChildren.find((c) => c.id === value);
+    if (child) onSelectChild(child);
+  };
+
+  if (savedChildren.length === 0) return null;
+
+  return (
+    <Select value={activeChildId ?? ''} onValueChange={handleChange}>
+      <SelectTrigger className="w-[200px]" aria-label="Switch child">
+        <SelectValue placeholder="Select child" />
+      </SelectTrigger>
+      <SelectContent>
+        {savedChildren.map((child) => (
+          <SelectItem key={child.id} value={child.id}>
+            {child.name}{child.age ? ` (${child.age})` : ''}
+          </SelectItem>
+        ))}
+        <SelectItem value={ADD_CHILD_VALUE}>+ Add another child</SelectItem>
+      </SelectContent>
+    </Select>
+  );
+}
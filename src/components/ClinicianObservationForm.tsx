@@ -0,0 +1,198 @@
+import { useState } from 'react';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { Paperclip } from 'lucide-react';
+import { ClinicianInput } from '@/data/questionBanks';
+import { ADI_R_MAX, ADOS_CSS_MAX, ADOS_CSS_MIN } from '@/utils/scoring';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+
+interface ClinicianObservationFormProps {
+  value: ClinicianInput;
+  onChange: (value: ClinicianInput) => void;
+}
+
+const ratingOptions = [
+  { value: 0, label: 'None' },
+  { value: 1, label: 'Minimal' },
+  { value: 2, label: 'Mild' },
+  { value: 3, label: 'Moderate' },
+  { value: 4, label: 'Marked' },
+];
+
+const MAX_ATTACHMENT_SIZE = 20 * 1024 * 1024;
+
+// Parse an optional numeric instrument score; empty input means "not administered"
+const parseScore = (raw: string): number | null => {
+  if (raw.trim() === '') return null;
+  const num = Number(raw);
+  return Number.isFinite(num) ? num : null;
+};
+
+export default function ClinicianObservationForm({ value, onChange }: ClinicianObservationFormProps) {
+  const [uploading, setUploading] = useState(false);
+  const { toast } = useToast();
+
+  const handleAttachmentUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files ?? []);
+    if (files.length === 0) return;
+
+    const oversized = files.find((file) => file.size > MAX_ATTACHMENT_SIZE);
+    if (oversized) {
+      toast({
+        title: "File too large",
+        description: `${oversized.name} must be under 20MB`,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setUploading(true);
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) {
+      toast({
+        title: "Error",
+        description: "You must be logged in to upload files",
+        variant: "destructive",
+      });
+      setUploading(false);
+      return;
+    }
+
+    const uploadedFiles: File[] = [];
+    const attachmentPaths: string[] = [];
+
+    for (const file of files) {
+      const safeName = file.name.replace(/[^a-zA-Z0-9._-]/g, '_');
+      const filePath = `${user.id}/${Date.now()}-${safeName}`;
+
+      const { error } = await supabase.storage
+        .from('clinician-attachments')
+        .upload(filePath, file);
+
+      if (error) {
+        toast({
+          title: "Upload failed",
+          description: `${file.name}: ${error.message}`,
+          variant: "destructive",
+        });
+        continue;
+      }
+
+      uploadedFiles.push(file);
+      attachmentPaths.push(filePath);
+    }
+
+    onChange({
+      ...value,
+      uploadedFiles: [...value.uploadedFiles, ...uploadedFiles],
+      attachmentPaths: [...value.attachmentPaths, ...attachmentPaths],
+    });
+    setUploading(false);
+    e.target.value = '';
+  };
+
+  const renderRating = (
+    id: string,
+    label: string,
+    field: 'observedSocialReciprocity' | 'observedRepetitiveBehavior'
+  ) => (
+    <div className="space-y-3">
+      <Label>{label} *</Label>
+      <RadioGroup
+        value={value[field] === null ? '' : String(value[field])}
+        onValueChange={(rating) => onChange({ ...value, [field]: Number(rating) })}
+        className="grid grid-cols-5 gap-2"
+      >
+        {ratingOptions.map((option) => (
+          <div
+            key={option.value}
+            className="flex flex-col items-center gap-1 p-2 rounded-lg border-2 hover:bg-accent/50 transition-colors"
+          >
+            <RadioGroupItem value={String(option.value)} id={`${id}-${option.value}`} />
+            <Label htmlFor={`${id}-${option.value}`} className="text-xs cursor-pointer text-center">
+              {option.value} · {option.label}
+            </Label>
+          </div>
+        ))}
+      </RadioGroup>
+    </div>
+  );
+
+  return (
+    <div className="space-y-6">
+      <h3 className="text-xl font-semibold">Structured Observation</h3>
+
+      {renderRating('social-reciprocity', 'Observed social reciprocity difficulties', 'observedSocialReciprocity')}
+      {renderRating('repetitive-behavior', 'Observed restricted / repetitive behavior', 'observedRepetitiveBehavior')}
+
+      <div className="grid md:grid-cols-2 gap-4">
+        <div className="space-y-2">
+          <Label htmlFor="ados-score">ADOS-2 Calibrated Severity Score</Label>
+          <Input
+            id="ados-score"
+            type="number"
+            min={ADOS_CSS_MIN}
+            max={ADOS_CSS_MAX}
+            value={value.adosScore ?? ''}
+            onChange={(e) => onChange({ ...value, adosScore: parseScore(e.target.value) })}
+            placeholder={`${ADOS_CSS_MIN}-${ADOS_CSS_MAX}, leave blank if not administered`}
+          />
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="adir-score">ADI-R Algorithm Total</Label>
+          <Input
+            id="adir-score"
+            type="number"
+            min={0}
+            max={ADI_R_MAX}
+            value={value.adiRScore ?? ''}
+            onChange={(e) => onChange({ ...value, adiRScore: parseScore(e.target.value) })}
+            placeholder={`0-${ADI_R_MAX}, leave blank if not administered`}
+          />
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="clinical-notes">Clinical Notes</Label>
+        <Textarea
+          id="clinical-notes"
+          value={value.clinicalNotes}
+          onChange={(e) => onChange({ ...value, clinicalNotes: e.target.value })}
+          placeholder="Observations, context and differential considerations"
+          className="min-h-[120px]"
+        />
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="clinician-attachments" className="flex items-center gap-2">
+          <Paperclip className="w-4 h-4" />
+          Attach Reports or Score Sheets
+        </Label>
+        <Input
+          id="clinician-attachments"
+          type="file"
+          multiple
+          accept=".pdf,.doc,.docx,image/*"
+          onChange={handleAttachmentUpload}
+          disabled={uploading}
+          className="cursor-pointer"
+        />
+        {uploading && <p className="text-sm text-muted-foreground">Uploading files...</p>}
+        {value.uploadedFiles.length > 0 && (
+          <ul className="text-xs text-green-600 space-y-1">
+            {value.uploadedFiles.map((file, index) => (
+              <li key={`${file.name}-${index}`}>✓ {file.name}</li>
+            ))}
+          </ul>
+        )}
+        <p className="text-xs text-muted-foreground">
+          Files are stored privately and are only visible to you.
+        </p>
+      </div>
+    </div>
+  );
+}
@@ -12,9 +12,15 @@ import AccessibilityControls from './AccessibilityControls';
 import ProgressChart from './ProgressChart';
 import MiniGames from './MiniGames';
 import { Reminders } from './Reminders';
+import { NotificationSettings } from './NotificationSettings';
 import { CommunityResources } from './CommunityResources';
 import { Timer } from './Timer';
 import { RewardsDisplay } from './RewardsDisplay';
+import { SharedLinks } from './SharedLinks';
+import { CareTeam } from './CareTeam';
+import { LinkedPatients } from './LinkedPatients';
+import ChildSwitcher from './ChildSwitcher';
+import { ChildProfile } from '@/integrations/supabase/children';
 import { useProgressTracking } from '@/hooks/useProgressTracking';
 import { useEffect, useState } from 'react';
 
@@ -23,11 +29,13 @@ interface DashboardProps {
   result: ScoringResult;
   metadata?: ParentMetadata;
   onNavigateToCalmZone: () => void;
+  onSelectChild?: (child: ChildProfile) => void;
+  onAddChild?: () => void;
 }
 
-export default function Dashboard({ role, result, metadata, onNavigateToCalmZone }: DashboardProps) {
+export default function Dashboard({ role, result, metadata, onNavigateToCalmZone, onSelectChild, onAddChild }: DashboardProps) {
   const schedule = getScheduleComplexity(result.severity);
-  const { addEntry, history, getTrend } = useProgressTracking();
+  const { addEntry, history, getTrend } = useProgressTracking(metadata?.childId);
   const [showGames, setShowGames] = useState(false);
   
   const severityColors = {
@@ -213,6 +221,13 @@ export default function Dashboard({ role, result, metadata, onNavigateToCalmZone
           </div>
           
           <div className="flex gap-3">
+            {role === 'parent' && onSelectChild && onAddChild && (
+              <ChildSwitcher
+                activeChildId={metadata?.childId}
+                onSelectChild={onSelectChild}
+                onAddChild={onAddChild}
+              />
+            )}
             {result.normalizedScore > 70 && (
               <Button 
                 variant="outline" 
@@ -321,21 +336,28 @@ export default function Dashboard({ role, result, metadata, onNavigateToCalmZone
               <Progress value={(2 / tasks.length) * 100} className="h-2" />
             </div>
 
-            <ProgressChart history={history} trend={trend} />
+            <ProgressChart history={history} trend={trend} childId={metadata?.childId} />
           </div>
         </div>
 
-        {/* Reminders, Timer, and Community Resources */}
+        {/* Reminders, Timer, Notifications, and Community Resources */}
         <div className="grid md:grid-cols-3 gap-6">
           <Reminders />
           <div className="space-y-6">
             <Timer />
+            <NotificationSettings />
           </div>
           <CommunityResources severity={result.severity} />
         </div>
 
+        {/* Care Team: clinicians see linked families, families manage clinician access */}
+        {role === 'clinician' ? <LinkedPatients /> : <CareTeam />}
+
         {/* Rewards System */}
         <RewardsDisplay />
+
+        {/* Share links created from achievements and progress */}
+        <SharedLinks />
       </div>
     </div>
   );
@@ -0,0 +1,194 @@
+import { useState, useEffect } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Users, UserX, Link2, Smile, Meh, Frown } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { supabase } from "@/integrations/supabase/client";
+import { CareLinkRecord, listClinicianCareLinks, redeemCareInvite, revokeCareLink } from "@/integrations/supabase/careLinks";
+import { AssessmentRecord, listAssessments } from "@/integrations/supabase/assessments";
+import { MoodLogRecord, listMoodLogs } from "@/integrations/supabase/moodLogs";
+
+interface PatientSummary {
+  assessments: AssessmentRecord[];
+  moods: MoodLogRecord[];
+}
+
+const moodIcons = {
+  good: <Smile className="w-4 h-4 text-mint" />,
+  okay: <Meh className="w-4 h-4 text-bright-blue" />,
+  tough: <Frown className="w-4 h-4 text-coral" />,
+};
+
+const severityColors = {
+  low: 'bg-mint text-mint-foreground',
+  mild: 'bg-bright-blue text-bright-blue-foreground',
+  moderate: 'bg-lavender text-lavender-foreground',
+  high: 'bg-coral text-coral-foreground',
+};
+
+export function LinkedPatients() {
+  const [links, setLinks] = useState<CareLinkRecord[]>([]);
+  const [summaries, setSummaries] = useState<Record<string, PatientSummary>>({});
+  const [inviteCode, setInviteCode] = useState("");
+  const [loading, setLoading] = useState(false);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    loadPatients();
+  }, []);
+
+  const loadPatients = async () => {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) return;
+
+    try {
+      const activeLinks = (await listClinicianCareLinks(user.id)).filter((l) => l.status === 'active');
+      setLinks(activeLinks);
+
+      const entries = await Promise.all(
+        activeLinks.map(async (link) => {
+          const [assessments, moods] = await Promise.all([
+            listAssessments(link.patientUserId, 5),
+            listMoodLogs(link.patientUserId, 5),
+          ]);
+          return [link.patientUserId, { assessments, moods }] as const;
+        })
+      );
+      setSummaries(Object.fromEntries(entries));
+    } catch (error) {
+      console.error('Failed to load linked patients:', error);
+    }
+  };
+
+  const handleRedeem = async () => {
+    if (!inviteCode.trim()) return;
+    setLoading(true);
+    try {
+      await redeemCareInvite(inviteCode);
+      setInviteCode("");
+      toast({
+        title: "Patient linked",
+        description: "You can now view their assessments, mood check-ins and progress.",
+      });
+      await loadPatients();
+    } catch (error) {
+      toast({
+        title: "Could not redeem invite",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleRevoke = async (link: CareLinkRecord) => {
+    try {
+      await revokeCareLink(link.id);
+      setLinks(links.filter((l) => l.id !== link.id));
+      toast({
+        title: "Patient unlinked",
+        description: "You no longer have access to this family's data.",
+      });
+    } catch (error) {
+      toast({
+        title: "Error unlinking patient",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Users className="h-5 w-5 text-primary" />
+          Linked Patients
+        </CardTitle>
+        <CardDescription>
+          Families who have shared their assessments with you
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex gap-2">
+          <Input
+            placeholder="Enter invite code"
+            value={inviteCode}
+            onChange={(e) => setInviteCode(e.target.value.replace(/\s/g, "").toUpperCase())}
+            className="font-mono"
+          />
+          <Button onClick={handleRedeem} disabled={loading || !inviteCode.trim()}>
+            <Link2 className="h-4 w-4 mr-2" />
+            Link
+          </Button>
+        </div>
+
+        {links.length === 0 ? (
+          <div className="text-center py-6 text-muted-foreground">
+            <p>No linked patients yet</p>
+            <p className="text-sm">Ask a family to generate an invite code from their dashboard</p>
+          </div>
+        ) : (
+          links.map((link) => {
+            const summary = summaries[link.patientUserId];
+            const latest = summary?.assessments[0];
+
+            return (
+              <div key={link.id} className="p-3 rounded-lg border bg-card space-y-3">
+                <div className="flex items-center justify-between">
+                  <div>
+                    <p className="font-medium">{link.counterpartName ?? 'Patient'}</p>
+                    <p className="text-xs text-muted-foreground">
+                      Linked {new Date(link.acceptedAt!).toLocaleDateString()}
+                    </p>
+                  </div>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => handleRevoke(link)}
+                    aria-label="Unlink patient"
+                  >
+                    <UserX className="h-4 w-4 text-destructive" />
+                  </Button>
+                </div>
+
+                {latest ? (
+                  <div className="flex items-center justify-between text-sm">
+                    <span className="text-muted-foreground">
+                      Latest assessment ({new Date(latest.createdAt).toLocaleDateString()})
+                    </span>
+                    <Badge className={severityColors[latest.result.severity]}>
+                      {latest.result.fusedScore ?? latest.result.normalizedScore} · {latest.result.severityLabel}
+                    </Badge>
+                  </div>
+                ) : (
+                  <p className="text-sm text-muted-foreground">No assessments yet</p>
+                )}
+
+                {summary && summary.assessments.length > 1 && (
+                  <div className="text-xs text-muted-foreground">
+                    Progress: {summary.assessments.slice().reverse().map((a) => a.result.normalizedScore).join(' → ')}
+                  </div>
+                )}
+
+                {summary && summary.moods.length > 0 && (
+                  <div className="flex items-center gap-2 text-xs text-muted-foreground">
+                    <span>Recent moods:</span>
+                    {summary.moods.map((m) => (
+                      <span key={m.id} title={`${new Date(m.createdAt).toLocaleString()}${m.note ? ` — ${m.note}` : ''}`}>
+                        {moodIcons[m.mood]}
+                      </span>
+                    ))}
+                  </div>
+                )}
+              </div>
+            );
+          })
+        )}
+      </CardContent>
+    </Card>
+  );
+}
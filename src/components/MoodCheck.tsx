@@ -5,6 +5,8 @@ import { Button } from '@/components/ui/button';
 import { Textarea } from '@/components/ui/textarea';
 import { Heart, Smile, Meh, Frown, Sparkles } from 'lucide-react';
 import { ScoringResult } from '@/utils/scoring';
+import { supabase } from '@/integrations/supabase/client';
+import { logMood, updateMoodNote } from '@/integrations/supabase/moodLogs';
 
 interface MoodCheckProps {
   result: ScoringResult;
@@ -33,11 +35,26 @@ export default function MoodCheck({ result }: MoodCheckProps) {
   const [showDialog, setShowDialog] = useState(false);
   const [reason, setReason] = useState('');
   const [response, setResponse] = useState('');
+  const [moodLogId, setMoodLogId] = useState<string | null>(null);
+
+  const recordMood = async (mood: Exclude<Mood, null>) => {
+    setMoodLogId(null);
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) return;
+
+    try {
+      const log = await logMood(user.id, mood);
+      setMoodLogId(log.id);
+    } catch (error) {
+      console.error('Failed to log mood:', error);
+    }
+  };
 
   const handleMoodClick = (mood: Mood) => {
     setSelectedMood(mood);
     setReason('');
     setResponse('');
+    if (mood) recordMood(mood);
     
     if (mood === 'good') {
       const randomQuote = positiveQuotes[Math.floor(Math.random() * positiveQuotes.length)];
@@ -57,6 +74,10 @@ export default function MoodCheck({ result }: MoodCheckProps) {
     if (selectedMood === 'tough' && reason.trim()) {
       const tips = getTipsForChallenge(reason, result);
       setResponse(tips);
+
+      if (moodLogId) {
+        updateMoodNote(moodLogId, reason.trim()).catch((error) => console.error('Failed to save mood note:', error));
+      }
     }
   };
 
@@ -0,0 +1,99 @@
+import { useState, useEffect } from "react";
+import { Link } from "react-router-dom";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { BellRing, SlidersHorizontal } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { supabase } from "@/integrations/supabase/client";
+import {
+  disablePushNotifications,
+  enablePushNotifications,
+  getPushSubscription,
+  isPushSupported,
+} from "@/utils/pushNotifications";
+
+export function NotificationSettings() {
+  const [userId, setUserId] = useState<string | null>(null);
+  const [deviceSubscribed, setDeviceSubscribed] = useState(false);
+  const [updatingDevice, setUpdatingDevice] = useState(false);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    loadSettings();
+  }, []);
+
+  const loadSettings = async () => {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) return;
+
+    setUserId(user.id);
+    try {
+      setDeviceSubscribed((await getPushSubscription()) !== null);
+    } catch (error) {
+      console.error('Failed to load notification settings:', error);
+    }
+  };
+
+  const toggleDevice = async (enabled: boolean) => {
+    if (!userId) return;
+    setUpdatingDevice(true);
+    try {
+      if (enabled) {
+        await enablePushNotifications(userId);
+        toast({
+          title: "Push notifications on",
+          description: "This device will get reminders and badge alerts, even when AutiCare is closed.",
+        });
+      } else {
+        await disablePushNotifications();
+      }
+      setDeviceSubscribed(enabled);
+    } catch (error) {
+      toast({
+        title: "Couldn't update push notifications",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    } finally {
+      setUpdatingDevice(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <BellRing className="h-5 w-5 text-primary" />
+          Notifications
+        </CardTitle>
+        <CardDescription>How reminders and badge unlocks reach you</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isPushSupported() ? (
+          <div className="flex items-center justify-between">
+            <div>
+              <Label htmlFor="notify-device">This device</Label>
+              <p className="text-xs text-muted-foreground">Receive push notifications in this browser</p>
+            </div>
+            <Switch
+              id="notify-device"
+              checked={deviceSubscribed}
+              disabled={!userId || updatingDevice}
+              onCheckedChange={toggleDevice}
+            />
+          </div>
+        ) : (
+          <p className="text-xs text-muted-foreground">Push notifications aren't available in this browser.</p>
+        )}
+        <Button asChild variant="outline" size="sm" className="w-full">
+          <Link to="/settings/notifications">
+            <SlidersHorizontal className="h-4 w-4 mr-2" />
+            Notification Preferences
+          </Link>
+        </Button>
+      </CardContent>
+    </Card>
+  );
+}
@@ -7,9 +7,10 @@ import { ProgressShare } from './ProgressShare';
 interface ProgressChartProps {
   history: ProgressEntry[];
   trend: 'improving' | 'declining' | 'stable';
+  childId?: string;
 }
 
-export default function ProgressChart({ history, trend }: ProgressChartProps) {
+export default function ProgressChart({ history, trend, childId }: ProgressChartProps) {
   if (history.length === 0) {
     return (
       <Card>
@@ -92,7 +93,7 @@ export default function ProgressChart({ history, trend }: ProgressChartProps) {
                 </>
               )}
             </div>
-            <ProgressShare />
+            <ProgressShare childId={childId} />
           </CardTitle>
         </CardHeader>
         <CardContent>
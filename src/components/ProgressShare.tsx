@@ -1,8 +1,12 @@
 import { SocialShare } from "./SocialShare";
 import { useProgressTracking } from "@/hooks/useProgressTracking";
 
-export function ProgressShare() {
-  const { history, getTrend } = useProgressTracking();
+interface ProgressShareProps {
+  childId?: string;
+}
+
+export function ProgressShare({ childId }: ProgressShareProps) {
+  const { history, getTrend } = useProgressTracking(childId);
 
   if (history.length === 0) return null;
 
@@ -1,4 +1,4 @@
-import { useState } from 'react';
+import { useState, useEffect } from 'react';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Progress } from '@/components/ui/progress';
@@ -6,26 +6,43 @@ import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Checkbox } from '@/components/ui/checkbox';
 import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Volume2, ArrowLeft, ArrowRight, Upload } from 'lucide-react';
-import { Question, ParentMetadata } from '@/data/questionBanks';
-import { AnswerValue } from '@/utils/scoring';
+import { Question, ParentMetadata, ClinicianInput, ClinicianMetadata } from '@/data/questionBanks';
+import {
+  AnswerValue,
+  ADOS_CSS_MAX,
+  ADOS_CSS_MIN,
+  ADI_R_MAX,
+  VideoOutcome,
+  isVideoPredictionAvailable,
+} from '@/utils/scoring';
 import { supabase } from '@/integrations/supabase/client';
 import { useToast } from '@/hooks/use-toast';
+import ClinicianObservationForm from './ClinicianObservationForm';
+import { ChildProfile, listChildren, toParentMetadata } from '@/integrations/supabase/children';
+import { InstrumentAnswers, InstrumentId, getInstrumentsForRole, instruments } from '@/data/instruments';
+import { buildQuestionRoute, getAgeBand, parseAgeInMonths, pickRouteAnswers } from '@/utils/questionRouting';
+import { QuestionnaireDraft } from '@/integrations/supabase/assessmentDrafts';
+import { saveLocalDraft, syncDraft } from '@/utils/assessmentDrafts';
+import { DEFAULT_FUSION_STRATEGY, FusionStrategyId, fusionStrategies } from '@/utils/fusion';
+import { requestVideoAnalysis } from '@/integrations/supabase/videoAnalysisJobs';
+import { useVideoAnalysisJob } from '@/hooks/useVideoAnalysisJob';
 
 interface QuestionnaireProps {
   role: 'individual' | 'parent' | 'clinician';
   questions: Question[];
   onComplete: (answers: Record<string, AnswerValue>, metadata?: any) => void;
   onBack: () => void;
+  initialMetadata?: ParentMetadata; // Prefills the parent step, e.g. when switching to a saved child
+  onInstrumentComplete?: (instrumentId: InstrumentId, answers: InstrumentAnswers, metadata?: ParentMetadata) => void;
+  draft?: QuestionnaireDraft; // Restores an interrupted questionnaire
+  userId?: string; // When set, drafts are also synced to Supabase
+  questionBankVersion?: string; // Recorded in drafts so a resumed questionnaire keeps its bank
 }
 
-interface ClinicianMetadata {
-  childName: string;
-  childAge: string;
-  pronoun: string;
-  homeLanguage: string;
-  problemsFaced: string;
-}
+// Wait for a pause in editing before syncing a draft to Supabase
+const DRAFT_SYNC_DELAY_MS = 1500;
 
 const answerOptions: { value: AnswerValue; label: string }[] = [
   { value: 'never', label: 'Never' },
@@ -35,9 +52,24 @@ const answerOptions: { value: AnswerValue; label: string }[] = [
   { value: 'always', label: 'Always' },
 ];
 
-export default function Questionnaire({ role, questions, onComplete, onBack }: QuestionnaireProps) {
-  const [currentStep, setCurrentStep] = useState(role !== 'individual' ? 0 : 1);
-  const [answers, setAnswers] = useState<Record<string, AnswerValue>>({});
+const NEW_CHILD_VALUE = '__new_child__';
+const AUTICARE_QUESTIONNAIRE_VALUE = '__auticare__';
+
+export default function Questionnaire({
+  role,
+  questions,
+  onComplete,
+  onBack,
+  initialMetadata,
+  onInstrumentComplete,
+  draft,
+  userId,
+  questionBankVersion,
+}: QuestionnaireProps) {
+  const [currentStep, setCurrentStep] = useState(draft?.currentStep ?? (role !== 'individual' ? 0 : 1));
+  const [answers, setAnswers] = useState<Record<string, AnswerValue>>(draft?.answers ?? {});
+  const [instrumentId, setInstrumentId] = useState<InstrumentId | null>(draft?.instrumentId ?? null);
+  const [instrumentAnswers, setInstrumentAnswers] = useState<InstrumentAnswers>(draft?.instrumentAnswers ?? {});
   const [ttsEnabled, setTtsEnabled] = useState(false);
   const [uploading, setUploading] = useState(false);
   const [predictingVideo, setPredictingVideo] = useState(false);
@@ -53,10 +85,43 @@ export default function Questionnaire({ role, questions, onComplete, onBack }: Q
     diagnosedConditions: [],
     videoUrl: '',
     videoPrediction: null,
+    ...initialMetadata,
+    ...draft?.metadata,
   });
+  const [savedChildren, setSavedChildren] = useState<ChildProfile[]>([]);
+
+  useEffect(() => {
+    if (role !== 'parent') return;
+
+    const loadChildren = async () => {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) return;
+
+      try {
+        setSavedChildren(await listChildren(user.id));
+      } catch (error) {
+        console.error('Failed to load children:', error);
+      }
+    };
+    loadChildren();
+  }, [role]);
+
+  const handleChildSelect = (value: string) => {
+    const child = savedChildren.find((c) => c.id === value);
+    setMetadata((prev) => ({
+      ...(child
+        ? toParentMetadata(child)
+        : { childName: '', childAge: '', pronouns: '', homeLanguage: '', schoolType: '', diagnosedConditions: [] }),
+      videoUrl: prev.videoUrl,
+      videoPrediction: prev.videoPrediction,
+      videoAnalysisJobId: prev.videoAnalysisJobId,
+    }));
+  };
 
   // Clinician metadata state
-  const [clinicianMetadata, setClinicianMetadata] = useState<ClinicianMetadata & { videoUrl?: string; videoPrediction?: any }>({
+  const [clinicianMetadata, setClinicianMetadata] = useState<
+    ClinicianMetadata & Pick<ParentMetadata, 'videoUrl' | 'videoPrediction' | 'videoAnalysisJobId'>
+  >({
     childName: '',
     childAge: '',
     pronoun: '',
@@ -64,12 +129,66 @@ export default function Questionnaire({ role, questions, onComplete, onBack }: Q
     problemsFaced: '',
     videoUrl: '',
     videoPrediction: null,
+    ...draft?.clinicianMetadata,
+  });
+
+  // Clinician structured observation state (ratings stay null until chosen)
+  const [clinicianInput, setClinicianInput] = useState<ClinicianInput>({
+    observedSocialReciprocity: null,
+    observedRepetitiveBehavior: null,
+    adosScore: null,
+    adiRScore: null,
+    clinicalNotes: '',
+    attachmentPaths: [],
+    ...draft?.clinicianInput,
+    uploadedFiles: [],
   });
 
-  const totalSteps = role !== 'individual' ? questions.length + 1 : questions.length;
+  // Autosave once there is something worth resuming
+  useEffect(() => {
+    const hasProgress =
+      Object.keys(answers).length > 0 ||
+      Object.keys(instrumentAnswers).length > 0 ||
+      !!metadata.childName ||
+      !!clinicianMetadata.childName;
+    if (!hasProgress) return;
+
+    const { uploadedFiles, ...clinicianObservation } = clinicianInput;
+    const snapshot: QuestionnaireDraft = {
+      role,
+      currentStep,
+      answers,
+      instrumentId,
+      instrumentAnswers,
+      metadata: role === 'parent' ? metadata : null,
+      clinicianMetadata: role === 'clinician' ? clinicianMetadata : null,
+      clinicianInput: role === 'clinician' ? clinicianObservation : null,
+      questionBankVersion,
+      savedAt: new Date().toISOString(),
+    };
+    saveLocalDraft(snapshot);
+
+    if (!userId) return;
+    const timer = setTimeout(() => syncDraft(userId, snapshot), DRAFT_SYNC_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [role, userId, questionBankVersion, currentStep, answers, instrumentId, instrumentAnswers, metadata, clinicianMetadata, clinicianInput]);
+
+  // A standard instrument replaces the question list; its items can change as answers come in
+  const availableInstruments = onInstrumentComplete ? getInstrumentsForRole(role) : [];
+  const instrument = instrumentId ? instruments[instrumentId] : null;
+  const instrumentItems = instrument ? instrument.getItems(instrumentAnswers) : [];
+
+  // Parents get questions for their child's age band, with follow-ups added as answers come in
+  const ageBand = role === 'parent' ? getAgeBand(parseAgeInMonths(metadata.childAge)) : null;
+  const route = buildQuestionRoute(questions, answers, ageBand);
+  const questionCount = instrument ? instrumentItems.length : route.length;
+
+  // Clinicians complete a single structured observation step instead of the question list
+  const totalSteps = role === 'clinician' ? 1 : role !== 'individual' ? questionCount + 1 : questionCount;
   const progress = (currentStep / totalSteps) * 100;
   const currentQuestionIndex = role !== 'individual' ? currentStep - 1 : currentStep - 1;
-  const currentQuestion = questions[currentQuestionIndex];
+  const currentQuestion = route[currentQuestionIndex];
+  const currentItem = instrumentItems[currentQuestionIndex];
 
   const handleVideoUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
@@ -114,58 +233,38 @@ export default function Questionnaire({ role, questions, onComplete, onBack }: Q
         .from('assessment-videos')
         .getPublicUrl(filePath);
       
+      // A new video replaces any earlier analysis
+      const videoFields = { videoUrl: publicUrl, videoPrediction: null, videoAnalysisJobId: undefined };
       if (role === 'parent') {
-        setMetadata({ ...metadata, videoUrl: publicUrl });
+        setMetadata((prev) => ({ ...prev, ...videoFields }));
       } else if (role === 'clinician') {
-        setClinicianMetadata({ ...clinicianMetadata, videoUrl: publicUrl });
+        setClinicianMetadata((prev) => ({ ...prev, ...videoFields }));
       }
       toast({
         title: "Success",
         description: "Video uploaded successfully",
       });
 
-        
-      setPredictingVideo(true);     
+      // Analysis runs in the background; its progress is followed by useVideoAnalysisJob
+      setPredictingVideo(true);
       try {
-        const response = await fetch(
-          `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/predict-video`,
-          {
-            method: "POST",
-            headers: {
-              "Content-Type": "application/json",
-              Authorization: `Bearer ${import.meta.env.VITE_SUPABASE_ANON_KEY}`
-            },
-            body: JSON.stringify({ video_url: publicUrl }) // FIXED HERE
-          }
-        );
-      
-        const predictionData = await response.json();
-      
-        if (predictionData?.error) {
-          console.error("Prediction error:", predictionData.error);
-          toast({
-            title: "Analysis Warning",
-            description: "ML prediction failed. Using fallback values.",
-            variant: "destructive",
-          });
+        const job = await requestVideoAnalysis(publicUrl);
+        if (role === 'parent') {
+          setMetadata((prev) => ({ ...prev, videoAnalysisJobId: job.id }));
+        } else if (role === 'clinician') {
+          setClinicianMetadata((prev) => ({ ...prev, videoAnalysisJobId: job.id }));
         }
-      
-        if (role === "parent") {
-          setMetadata(prev => ({ ...prev, videoPrediction: predictionData }));
-        } else if (role === "clinician") {
-          setClinicianMetadata(prev => ({ ...prev, videoPrediction: predictionData }));
-        }
-      
-        toast({
-          title: "Video Analyzed",
-          description: `ML model completed (Score: ${predictionData.prediction_score?.toFixed(1)})`,
-        });
-      
       } catch (error) {
-        console.error("Prediction failed:", error);
+        console.error("Failed to queue video analysis:", error);
+        const videoPrediction: VideoOutcome = { source: 'unavailable', reason: 'Video analysis could not be started' };
+        if (role === 'parent') {
+          setMetadata((prev) => ({ ...prev, videoPrediction }));
+        } else if (role === 'clinician') {
+          setClinicianMetadata((prev) => ({ ...prev, videoPrediction }));
+        }
         toast({
           title: "Analysis Warning",
-          description: "Could not connect to backend.",
+          description: "Video analysis could not be started. You can continue without it.",
           variant: "destructive",
         });
       } finally {
@@ -176,18 +275,91 @@ export default function Questionnaire({ role, questions, onComplete, onBack }: Q
     setUploading(false);
   };
 
+  const videoJob = useVideoAnalysisJob(
+    role === 'clinician' ? clinicianMetadata.videoAnalysisJobId : metadata.videoAnalysisJobId,
+    (job) => {
+      // A failed analysis is recorded as unavailable, so scoring knows to leave the video out
+      const videoPrediction: VideoOutcome =
+        job.status === 'succeeded' && job.result
+          ? job.result
+          : { source: 'unavailable', reason: job.error ?? 'Video analysis failed' };
+      if (role === 'clinician') {
+        setClinicianMetadata((prev) => ({ ...prev, videoPrediction }));
+      } else {
+        setMetadata((prev) => ({ ...prev, videoPrediction }));
+      }
+
+      if (isVideoPredictionAvailable(videoPrediction)) {
+        toast({
+          title: "Video Analyzed",
+          description: `ML model completed (Score: ${videoPrediction.prediction_score.toFixed(1)})`,
+        });
+      } else {
+        toast({
+          title: "Analysis Warning",
+          description: "Video analysis failed. The assessment will be scored without it.",
+          variant: "destructive",
+        });
+      }
+    }
+  );
+
+  // Shown under both video inputs: queued/running progress, then the outcome
+  const videoAnalysisStatus = (videoPrediction: VideoOutcome | null | undefined) => {
+    if (predictingVideo) return <p className="text-sm text-muted-foreground">🤖 Queuing video analysis...</p>;
+    if (isVideoPredictionAvailable(videoPrediction)) {
+      return (
+        <p className="text-sm text-green-600">
+          ✓ Video analysis complete (Score: {videoPrediction.prediction_score.toFixed(1)}, source: ML model)
+        </p>
+      );
+    }
+    if (videoPrediction) {
+      return (
+        <p className="text-sm text-destructive">
+          Video analysis unavailable ({videoPrediction.reason}). The score will be based on the questionnaire only.
+        </p>
+      );
+    }
+    if (!videoJob || videoJob.status === 'succeeded' || videoJob.status === 'failed') return null;
+    return (
+      <p className="text-sm text-muted-foreground">
+        🤖 {videoJob.status === 'queued' && videoJob.attempts === 0 ? 'Waiting to analyze video' : 'Analyzing video with ML model'}
+        {videoJob.attempts > 1 ? ` (attempt ${videoJob.attempts} of ${videoJob.maxAttempts})` : ''}... You can keep
+        answering; the result is added when it arrives.
+      </p>
+    );
+  };
+
   const handleAnswer = (questionId: string, value: AnswerValue) => {
     setAnswers((prev) => ({ ...prev, [questionId]: value }));
   };
 
+  const handleInstrumentAnswer = (itemId: string, value: string) => {
+    setInstrumentAnswers((prev) => ({ ...prev, [itemId]: value }));
+  };
+
+  const handleInstrumentSelect = (value: string) => {
+    setInstrumentId(value === AUTICARE_QUESTIONNAIRE_VALUE ? null : (value as InstrumentId));
+    setInstrumentAnswers({});
+  };
+
   const handleNext = () => {
-    if (currentStep === totalSteps) {
-      const metadataToSend = role === 'parent' ? metadata : role === 'clinician' ? clinicianMetadata : undefined;
-      onComplete(answers, metadataToSend);
+    if (currentStep === totalSteps && instrument && onInstrumentComplete) {
+      onInstrumentComplete(instrument.id, instrumentAnswers, role === 'parent' ? metadata : undefined);
+    } else if (currentStep === totalSteps) {
+      // File objects don't serialise; the uploaded paths are kept in attachmentPaths
+      const { uploadedFiles, ...clinicianObservation } = clinicianInput;
+      const metadataToSend = role === 'parent'
+        ? metadata
+        : role === 'clinician'
+        ? { ...clinicianMetadata, clinicianInput: clinicianObservation }
+        : undefined;
+      onComplete(pickRouteAnswers(route, answers), metadataToSend);
     } else {
       setCurrentStep((prev) => prev + 1);
       if (ttsEnabled && currentStep < totalSteps) {
-        speakQuestion(questions[currentQuestionIndex + 1]?.text);
+        speakQuestion((instrument ? instrumentItems : route)[currentQuestionIndex + 1]?.text);
       }
     }
   };
@@ -201,7 +373,7 @@ export default function Questionnaire({ role, questions, onComplete, onBack }: Q
   };
 
   const speakQuestion = (text: string) => {
-    if ('speechSynthesis' in window) {
+    if ('speechSynthesis' in window && text) {
       const utterance = new SpeechSynthesisUtterance(text);
       speechSynthesis.speak(utterance);
     }
@@ -209,8 +381,9 @@ export default function Questionnaire({ role, questions, onComplete, onBack }: Q
 
   const toggleTTS = () => {
     setTtsEnabled(!ttsEnabled);
-    if (!ttsEnabled && currentQuestion) {
-      speakQuestion(currentQuestion.text);
+    const text = instrument ? currentItem?.text : currentQuestion?.text;
+    if (!ttsEnabled && text) {
+      speakQuestion(text);
     }
   };
 
@@ -225,8 +398,16 @@ export default function Questionnaire({ role, questions, onComplete, onBack }: Q
                clinicianMetadata.problemsFaced;
       }
     }
-    if (currentStep > 0 && currentStep <= questions.length) {
-      return answers[currentQuestion?.id] !== undefined;
+    if (role === 'clinician' && currentStep === 1) {
+      const { observedSocialReciprocity, observedRepetitiveBehavior, adosScore, adiRScore } = clinicianInput;
+      const adosValid = adosScore === null || (adosScore >= ADOS_CSS_MIN && adosScore <= ADOS_CSS_MAX);
+      const adiRValid = adiRScore === null || (adiRScore >= 0 && adiRScore <= ADI_R_MAX);
+      return observedSocialReciprocity !== null && observedRepetitiveBehavior !== null && adosValid && adiRValid;
+    }
+    if (currentStep > 0 && currentStep <= questionCount) {
+      return instrument
+        ? instrumentAnswers[currentItem?.id] !== undefined
+        : answers[currentQuestion?.id] !== undefined;
     }
     return true;
   };
@@ -252,10 +433,34 @@ export default function Questionnaire({ role, questions, onComplete, onBack }: Q
           </div>
           
           <CardTitle className="text-2xl mb-4">
-            {role === 'individual' && 'Self-Assessment'}
-            {role === 'parent' && 'Caregiver Assessment'}
-            {role === 'clinician' && 'Clinical Assessment'}
+            {instrument ? instrument.shortName : (
+              <>
+                {role === 'individual' && 'Self-Assessment'}
+                {role === 'parent' && 'Caregiver Assessment'}
+                {role === 'clinician' && 'Clinical Assessment'}
+              </>
+            )}
           </CardTitle>
+
+          {availableInstruments.length > 0 && currentStep <= 1 && (
+            <div className="space-y-2 mb-4">
+              <Label htmlFor="instrumentSelect">Screening tool</Label>
+              <Select value={instrumentId ?? AUTICARE_QUESTIONNAIRE_VALUE} onValueChange={handleInstrumentSelect}>
+                <SelectTrigger id="instrumentSelect">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={AUTICARE_QUESTIONNAIRE_VALUE}>AutiCare questionnaire</SelectItem>
+                  {availableInstruments.map((option) => (
+                    <SelectItem key={option.id} value={option.id}>
+                      {option.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              {instrument && <p className="text-sm text-muted-foreground">{instrument.description}</p>}
+            </div>
+          )}
           
           <div className="space-y-2">
             <div className="flex justify-between text-sm text-muted-foreground">
@@ -270,6 +475,25 @@ export default function Questionnaire({ role, questions, onComplete, onBack }: Q
           {role === 'parent' && currentStep === 0 ? (
             <div className="space-y-6">
               <h3 className="text-xl font-semibold">Client Information</h3>
+
+              {savedChildren.length > 0 && (
+                <div className="space-y-2">
+                  <Label htmlFor="childSelect">Child</Label>
+                  <Select value={metadata.childId ?? NEW_CHILD_VALUE} onValueChange={handleChildSelect}>
+                    <SelectTrigger id="childSelect">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {savedChildren.map((child) => (
+                        <SelectItem key={child.id} value={child.id}>
+                          {child.name}
+                        </SelectItem>
+                      ))}
+                      <SelectItem value={NEW_CHILD_VALUE}>Add a new child</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+              )}
               
               <div className="space-y-2">
                 <Label htmlFor="childName">Client's Name *</Label>
@@ -290,6 +514,13 @@ export default function Questionnaire({ role, questions, onComplete, onBack }: Q
                     onChange={(e) => setMetadata({ ...metadata, childAge: e.target.value })}
                     placeholder="e.g., 5 years"
                   />
+                  {metadata.childAge && (
+                    <p className="text-xs text-muted-foreground">
+                      {ageBand
+                        ? `Questions will be tailored to the ${ageBand} age group`
+                        : 'Enter an age like "18 months" or "5 years" to tailor the questions'}
+                    </p>
+                  )}
                 </div>
 
                 <div className="space-y-2">
@@ -369,10 +600,7 @@ export default function Questionnaire({ role, questions, onComplete, onBack }: Q
                       className="cursor-pointer"
                     />
                     {uploading && <p className="text-sm text-muted-foreground">Uploading video...</p>}
-                    {predictingVideo && <p className="text-sm text-muted-foreground">🤖 Analyzing video with ML model...</p>}
-                    {metadata.videoPrediction && (
-                      <p className="text-sm text-green-600">✓ Video analysis complete (Score: {metadata.videoPrediction.prediction_score?.toFixed(1)})</p>
-                    )}
+                    {videoAnalysisStatus(metadata.videoPrediction)}
                     {uploading && <p className="text-xs text-muted-foreground">Uploading...</p>}
                     {metadata.videoUrl && (
                       <p className="text-xs text-green-600">✓ Video uploaded successfully</p>
@@ -458,17 +686,74 @@ export default function Questionnaire({ role, questions, onComplete, onBack }: Q
                       className="cursor-pointer"
                     />
                     {uploading && <p className="text-sm text-muted-foreground">Uploading video...</p>}
-                    {predictingVideo && <p className="text-sm text-muted-foreground">🤖 Analyzing video with ML model...</p>}
-                    {clinicianMetadata.videoPrediction && (
-                      <p className="text-sm text-green-600">✓ Video analysis complete (Score: {clinicianMetadata.videoPrediction.prediction_score?.toFixed(1)})</p>
-                    )}
+                    {videoAnalysisStatus(clinicianMetadata.videoPrediction)}
                     {clinicianMetadata.videoUrl && !clinicianMetadata.videoPrediction && !predictingVideo && (
                       <p className="text-xs text-green-600">✓ Video uploaded successfully</p>
                     )}
                   </div>
+
+                  <div className="space-y-2 mt-4">
+                    <Label htmlFor="clinician-fusion">Score Fusion Strategy</Label>
+                    <Select
+                      value={clinicianMetadata.fusionStrategy ?? DEFAULT_FUSION_STRATEGY}
+                      onValueChange={(value) =>
+                        setClinicianMetadata({ ...clinicianMetadata, fusionStrategy: value as FusionStrategyId })
+                      }
+                    >
+                      <SelectTrigger id="clinician-fusion">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {Object.values(fusionStrategies).map((strategy) => (
+                          <SelectItem key={strategy.id} value={strategy.id}>
+                            {strategy.name}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <p className="text-xs text-muted-foreground">
+                      {fusionStrategies[clinicianMetadata.fusionStrategy ?? DEFAULT_FUSION_STRATEGY].description}.
+                      Only applies when a video is analysed; all strategies are compared on the results screen.
+                    </p>
+                  </div>
                 </div>
               </div>
             </div>
+          ) : role === 'clinician' && currentStep === 1 ? (
+            <ClinicianObservationForm value={clinicianInput} onChange={setClinicianInput} />
+          ) : instrument && currentItem ? (
+            <div className="space-y-6">
+              <div className="min-h-[120px] space-y-2">
+                <h3 className="text-xl font-medium leading-relaxed">
+                  {currentItem.text}
+                </h3>
+                {currentItem.hint && <p className="text-sm text-muted-foreground">{currentItem.hint}</p>}
+              </div>
+
+              <RadioGroup
+                value={instrumentAnswers[currentItem.id] || ''}
+                onValueChange={(value) => handleInstrumentAnswer(currentItem.id, value)}
+                className="space-y-3"
+              >
+                {currentItem.options.map((option) => (
+                  <div
+                    key={option.value}
+                    className="flex items-center space-x-3 p-4 rounded-lg border-2 hover:bg-accent/50 transition-colors cursor-pointer"
+                    onClick={() => handleInstrumentAnswer(currentItem.id, option.value)}
+                  >
+                    <RadioGroupItem value={option.value} id={`${currentItem.id}-${option.value}`} />
+                    <Label
+                      htmlFor={`${currentItem.id}-${option.value}`}
+                      className="flex-1 cursor-pointer text-lg font-medium"
+                    >
+                      {option.label}
+                    </Label>
+                  </div>
+                ))}
+              </RadioGroup>
+
+              <p className="text-xs text-muted-foreground">{instrument.copyright}</p>
+            </div>
           ) : currentQuestion ? (
             <div className="space-y-6">
               <div className="min-h-[120px]">
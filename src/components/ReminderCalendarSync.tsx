@@ -0,0 +1,164 @@
+import { useState } from "react";
+import { CalendarDays, Copy, Download, RefreshCw, Upload } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { toast } from "sonner";
+import { CalendarFeedRecord, getOrCreateCalendarFeed, resetCalendarFeed } from "@/integrations/supabase/calendarFeeds";
+import { ReminderRecord, getBrowserTimezone, importReminders } from "@/integrations/supabase/reminders";
+import { SkippedEvent, parseICalendar } from "@/utils/ical";
+
+interface ReminderCalendarSyncProps {
+  userId: string | null;
+  onImported: (reminders: ReminderRecord[]) => void;
+}
+
+export const ReminderCalendarSync = ({ userId, onImported }: ReminderCalendarSyncProps) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [feed, setFeed] = useState<CalendarFeedRecord | null>(null);
+  const [importing, setImporting] = useState(false);
+  const [skipped, setSkipped] = useState<SkippedEvent[]>([]);
+
+  const handleOpenChange = async (open: boolean) => {
+    setIsOpen(open);
+    setSkipped([]);
+    if (!open || feed || !userId) return;
+
+    try {
+      setFeed(await getOrCreateCalendarFeed(userId));
+    } catch (error) {
+      toast.error((error as Error).message);
+    }
+  };
+
+  const copyFeedUrl = async () => {
+    if (!feed) return;
+    await navigator.clipboard.writeText(feed.url);
+    toast.success("Calendar link copied to clipboard");
+  };
+
+  const resetFeed = async () => {
+    if (!userId) return;
+    try {
+      setFeed(await resetCalendarFeed(userId));
+      toast.success("New calendar link created", {
+        description: "Calendars using the old link will stop updating.",
+      });
+    } catch (error) {
+      toast.error((error as Error).message);
+    }
+  };
+
+  const downloadCalendar = async () => {
+    if (!feed) return;
+    try {
+      const response = await fetch(feed.url);
+      if (!response.ok) throw new Error(`Download failed (${response.status})`);
+
+      const url = URL.createObjectURL(await response.blob());
+      const link = document.createElement("a");
+      link.href = url;
+      link.download = "auticare-reminders.ics";
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (error) {
+      toast.error((error as Error).message);
+    }
+  };
+
+  const importCalendar = async (file: File | undefined) => {
+    if (!file || !userId) return;
+    setImporting(true);
+    try {
+      const { events, skipped } = parseICalendar(await file.text(), getBrowserTimezone());
+      const imported = await importReminders(
+        userId,
+        events.map((event) => ({ ...event, type: "appointment" as const }))
+      );
+      onImported(imported);
+      setSkipped(skipped);
+      toast.success(`Imported ${imported.length} appointment${imported.length === 1 ? "" : "s"}`, {
+        description: skipped.length > 0 ? `${skipped.length} event(s) couldn't be imported` : undefined,
+      });
+    } catch (error) {
+      toast.error((error as Error).message);
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button size="sm" variant="outline" disabled={!userId}>
+          <CalendarDays className="h-4 w-4 mr-2" />
+          Calendar
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Calendar Sync</DialogTitle>
+          <DialogDescription>
+            See your task and appointment reminders in your phone's calendar, or bring appointments in from it
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-6 mt-4">
+          <div className="space-y-2">
+            <Label htmlFor="calendar-feed-url">Subscribe</Label>
+            <div className="flex gap-2">
+              <Input id="calendar-feed-url" readOnly value={feed?.url ?? "Loading..."} />
+              <Button variant="outline" size="icon" onClick={copyFeedUrl} disabled={!feed} aria-label="Copy calendar link">
+                <Copy className="h-4 w-4" />
+              </Button>
+            </div>
+            <p className="text-xs text-muted-foreground">
+              Add this link in Google Calendar ("From URL") or Apple Calendar ("New Calendar Subscription") and it
+              will stay up to date. Anyone with the link can see these reminders.
+            </p>
+            <div className="flex flex-wrap gap-2">
+              <Button variant="outline" size="sm" onClick={downloadCalendar} disabled={!feed}>
+                <Download className="h-4 w-4 mr-2" />
+                Download .ics
+              </Button>
+              <Button variant="ghost" size="sm" onClick={resetFeed} disabled={!feed}>
+                <RefreshCw className="h-4 w-4 mr-2" />
+                Reset link
+              </Button>
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="calendar-import">Import appointments</Label>
+            <Input
+              id="calendar-import"
+              type="file"
+              accept=".ics,text/calendar"
+              disabled={importing}
+              onChange={(e) => {
+                importCalendar(e.target.files?.[0]);
+                e.target.value = "";
+              }}
+            />
+            <p className="text-xs text-muted-foreground flex items-center gap-1">
+              <Upload className="h-3 w-3" />
+              Events become appointment reminders. Importing the same file again updates them.
+            </p>
+            {skipped.length > 0 && (
+              <div className="rounded-lg bg-muted/50 p-3">
+                <p className="text-sm font-medium mb-1">Not imported</p>
+                <ul className="text-sm text-muted-foreground space-y-0.5">
+                  {skipped.map((event, index) => (
+                    <li key={index}>
+                      {event.title}: {event.reason}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -1,113 +1,243 @@
 import { useState, useEffect } from "react";
-import { Bell, Plus, Trash2, Clock } from "lucide-react";
+import { Bell, Plus, Trash2, Clock, MoreVertical, X } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
 import { toast } from "sonner";
 import { supabase } from "@/integrations/supabase/client";
+import { ReminderCalendarSync } from "./ReminderCalendarSync";
+import {
+  DEFAULT_NOTIFICATION_PREFERENCES,
+  NotificationPreferences,
+  fetchNotificationPreferences,
+  isChannelEnabled,
+} from "@/integrations/supabase/notificationPreferences";
+import {
+  ReminderDeliveryRecord,
+  ReminderInput,
+  ReminderRecord,
+  ReminderType,
+  createReminder,
+  deleteReminder as deleteReminderRecord,
+  listReminderDeliveries,
+  listReminders,
+  setReminderEnabled,
+  skipReminderDate,
+  snoozeReminder,
+} from "@/integrations/supabase/reminders";
+import {
+  RecurrenceFrequency,
+  WEEKDAY_LABELS,
+  defaultRecurrenceRule,
+  describeRecurrence,
+  getUpcomingOccurrences,
+  toDateStringInTimezone,
+} from "@/utils/recurrence";
 
-interface Reminder {
-  id: string;
+const SNOOZE_OPTIONS = [
+  { label: "15 minutes", minutes: 15 },
+  { label: "1 hour", minutes: 60 },
+  { label: "3 hours", minutes: 180 },
+];
+
+const INTERVAL_UNITS: Partial<Record<RecurrenceFrequency, string>> = {
+  daily: "day",
+  weekly: "week",
+  monthly: "month",
+};
+
+const emptyReminder = (): ReminderInput => ({
+  title: "",
+  time: "",
+  type: "task",
+  recurrence: defaultRecurrenceRule(),
+});
+
+// Reminders used to live only in this browser; they're moved to the account on first load
+const LEGACY_STORAGE_KEY = "reminders";
+
+interface LegacyReminder {
   title: string;
   time: string;
-  type: "task" | "assessment" | "appointment";
-  enabled: boolean;
+  type: ReminderType;
 }
 
 export const Reminders = () => {
-  const [reminders, setReminders] = useState<Reminder[]>([]);
-  const [newReminder, setNewReminder] = useState({
-    title: "",
-    time: "",
-    type: "task" as const,
-  });
+  const [userId, setUserId] = useState<string | null>(null);
+  const [reminders, setReminders] = useState<ReminderRecord[]>([]);
+  const [deliveries, setDeliveries] = useState<ReminderDeliveryRecord[]>([]);
+  const [newReminder, setNewReminder] = useState<ReminderInput>(emptyReminder);
+  const [exceptionDate, setExceptionDate] = useState("");
   const [isOpen, setIsOpen] = useState(false);
+  const [notificationPreferences, setNotificationPreferences] =
+    useState<NotificationPreferences>(DEFAULT_NOTIFICATION_PREFERENCES);
+
+  const rule = newReminder.recurrence;
+  const setRule = (changes: Partial<ReminderInput["recurrence"]>) =>
+    setNewReminder({ ...newReminder, recurrence: { ...rule, ...changes } });
+  const upcoming = getUpcomingOccurrences(rule, newReminder.time);
 
   useEffect(() => {
-    const saved = localStorage.getItem("reminders");
-    if (saved) {
-      setReminders(JSON.parse(saved));
-    }
+    loadReminders();
   }, []);
 
+  // In-app alert while this card is open; email and push are sent by the server either way
   useEffect(() => {
-    localStorage.setItem("reminders", JSON.stringify(reminders));
-  }, [reminders]);
+    if (!userId) return;
 
-  useEffect(() => {
-    const checkReminders = setInterval(async () => {
-      const now = new Date();
-      const currentTime = `${String(now.getHours()).padStart(2, '0')}:${String(now.getMinutes()).padStart(2, '0')}`;
-      
-      for (const reminder of reminders) {
-        if (reminder.enabled && reminder.time === currentTime) {
-          toast.info(`Reminder: ${reminder.title}`, {
-            description: `Time for your ${reminder.type}`,
-            duration: 5000,
-          });
-          
-          if ("Notification" in window && Notification.permission === "granted") {
-            new Notification("AutiCare Reminder", {
-              body: `${reminder.title} - ${reminder.type}`,
-              icon: "/favicon.ico",
+    const channel = supabase
+      .channel(`reminder-deliveries-${userId}`)
+      .on(
+        "postgres_changes",
+        { event: "INSERT", schema: "public", table: "reminder_deliveries", filter: `user_id=eq.${userId}` },
+        (payload) => {
+          const delivery = payload.new as { reminder_id: string };
+          const reminder = reminders.find(r => r.id === delivery.reminder_id);
+          if (!reminder) return;
+
+          const type = reminder.type === "appointment" ? "appointment" : "reminder";
+          if (isChannelEnabled(notificationPreferences, type, "in_app")) {
+            toast.info(`Reminder: ${reminder.title}`, {
+              description: `Time for your ${reminder.type}`,
+              duration: 5000,
             });
           }
-          
-          // Send email notification
-          const { data: { user } } = await supabase.auth.getUser();
-          if (user?.email) {
-            supabase.functions.invoke('send-notification', {
-              body: {
-                email: user.email,
-                type: reminder.type === 'appointment' ? 'appointment' : 'reminder',
-                data: {
-                  title: reminder.title,
-                  description: `Time for your ${reminder.type}`,
-                  time: reminder.time,
-                },
-              },
-            }).catch(err => console.error('Failed to send email:', err));
-          }
         }
-      }
-    }, 60000); // Check every minute
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [userId, reminders, notificationPreferences]);
+
+  const loadReminders = async () => {
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) return;
+      setUserId(user.id);
 
-    return () => clearInterval(checkReminders);
-  }, [reminders]);
+      const legacy = localStorage.getItem(LEGACY_STORAGE_KEY);
+      if (legacy) {
+        const saved = JSON.parse(legacy) as LegacyReminder[];
+        for (const reminder of saved) {
+          await createReminder(user.id, {
+            title: reminder.title,
+            time: reminder.time,
+            type: reminder.type,
+            recurrence: defaultRecurrenceRule(),
+          });
+        }
+        localStorage.removeItem(LEGACY_STORAGE_KEY);
+      }
 
-  const requestNotificationPermission = () => {
-    if ("Notification" in window && Notification.permission === "default") {
-      Notification.requestPermission();
+      const [loadedReminders, loadedDeliveries, loadedPreferences] = await Promise.all([
+        listReminders(user.id),
+        listReminderDeliveries(user.id),
+        fetchNotificationPreferences(user.id),
+      ]);
+      setReminders(loadedReminders);
+      setDeliveries(loadedDeliveries);
+      setNotificationPreferences(loadedPreferences);
+    } catch (error) {
+      console.error("Failed to load reminders:", error);
+      toast.error("Couldn't load your reminders");
     }
   };
 
-  const addReminder = () => {
+  const addReminder = async () => {
     if (!newReminder.title || !newReminder.time) {
       toast.error("Please fill in all fields");
       return;
     }
+    if (rule.frequency === "weekly" && rule.weekdays.length === 0) {
+      toast.error("Choose at least one day of the week");
+      return;
+    }
+    if (!userId) {
+      toast.error("Please sign in to set reminders");
+      return;
+    }
 
-    const reminder: Reminder = {
-      id: Date.now().toString(),
-      ...newReminder,
-      enabled: true,
-    };
+    try {
+      const reminder = await createReminder(userId, newReminder);
+      setReminders([...reminders, reminder].sort((a, b) => a.time.localeCompare(b.time)));
+      setNewReminder(emptyReminder());
+      setExceptionDate("");
+      setIsOpen(false);
+      toast.success("Reminder added successfully");
+    } catch (error) {
+      toast.error((error as Error).message);
+    }
+  };
 
-    setReminders([...reminders, reminder]);
-    setNewReminder({ title: "", time: "", type: "task" });
-    setIsOpen(false);
-    requestNotificationPermission();
-    toast.success("Reminder added successfully");
+  const toggleReminder = async (id: string, enabled: boolean) => {
+    try {
+      const updated = await setReminderEnabled(id, enabled);
+      setReminders(reminders.map(r => (r.id === id ? updated : r)));
+    } catch (error) {
+      toast.error((error as Error).message);
+    }
   };
 
-  const deleteReminder = (id: string) => {
-    setReminders(reminders.filter(r => r.id !== id));
-    toast.success("Reminder deleted");
+  const snooze = async (id: string, minutes: number) => {
+    try {
+      const updated = await snoozeReminder(id, new Date(Date.now() + minutes * 60 * 1000));
+      setReminders(reminders.map(r => (r.id === id ? updated : r)));
+      toast.success("Reminder snoozed");
+    } catch (error) {
+      toast.error((error as Error).message);
+    }
+  };
+
+  const skipNext = async (reminder: ReminderRecord) => {
+    if (!reminder.nextRunAt) return;
+    try {
+      const updated = await skipReminderDate(reminder, toDateStringInTimezone(reminder.nextRunAt, reminder.timezone));
+      setReminders(reminders.map(r => (r.id === reminder.id ? updated : r)));
+      toast.success("Next reminder skipped");
+    } catch (error) {
+      toast.error((error as Error).message);
+    }
   };
 
+  const handleImported = (imported: ReminderRecord[]) => {
+    const ids = new Set(imported.map(r => r.id));
+    setReminders([...reminders.filter(r => !ids.has(r.id)), ...imported].sort((a, b) => a.time.localeCompare(b.time)));
+  };
+
+  const addExceptionDate = () => {
+    if (!exceptionDate || rule.exceptionDates.includes(exceptionDate)) return;
+    setRule({ exceptionDates: [...rule.exceptionDates, exceptionDate].sort() });
+    setExceptionDate("");
+  };
+
+  const deleteReminder = async (id: string) => {
+    try {
+      await deleteReminderRecord(id);
+      setReminders(reminders.filter(r => r.id !== id));
+      toast.success("Reminder deleted");
+    } catch (error) {
+      toast.error((error as Error).message);
+    }
+  };
+
+  // Deliveries are listed newest first, so the first match is the latest
+  const lastDeliveryFor = (id: string) => deliveries.find(d => d.reminderId === id);
+
   const getTypeColor = (type: string) => {
     switch (type) {
       case "task": return "bg-primary/10 text-primary";
@@ -130,61 +260,176 @@ export const Reminders = () => {
               Set up alerts for tasks, assessments, and appointments
             </CardDescription>
           </div>
-          <Dialog open={isOpen} onOpenChange={setIsOpen}>
-            <DialogTrigger asChild>
-              <Button size="sm">
-                <Plus className="h-4 w-4 mr-2" />
-                Add Reminder
-              </Button>
-            </DialogTrigger>
-            <DialogContent>
-              <DialogHeader>
-                <DialogTitle>Create New Reminder</DialogTitle>
-                <DialogDescription>
-                  Set up a notification for your scheduled activities
-                </DialogDescription>
-              </DialogHeader>
-              <div className="space-y-4 mt-4">
-                <div className="space-y-2">
-                  <Label htmlFor="title">Title</Label>
-                  <Input
-                    id="title"
-                    placeholder="e.g., Morning Routine"
-                    value={newReminder.title}
-                    onChange={(e) => setNewReminder({ ...newReminder, title: e.target.value })}
-                  />
-                </div>
-                <div className="space-y-2">
-                  <Label htmlFor="time">Time</Label>
-                  <Input
-                    id="time"
-                    type="time"
-                    value={newReminder.time}
-                    onChange={(e) => setNewReminder({ ...newReminder, time: e.target.value })}
-                  />
-                </div>
-                <div className="space-y-2">
-                  <Label htmlFor="type">Type</Label>
-                  <Select
-                    value={newReminder.type}
-                    onValueChange={(value: any) => setNewReminder({ ...newReminder, type: value })}
-                  >
-                    <SelectTrigger>
-                      <SelectValue />
-                    </SelectTrigger>
-                    <SelectContent>
-                      <SelectItem value="task">Task</SelectItem>
-                      <SelectItem value="assessment">Assessment</SelectItem>
-                      <SelectItem value="appointment">Appointment</SelectItem>
-                    </SelectContent>
-                  </Select>
-                </div>
-                <Button onClick={addReminder} className="w-full">
-                  Create Reminder
+          <div className="flex items-center gap-2">
+            <ReminderCalendarSync userId={userId} onImported={handleImported} />
+            <Dialog open={isOpen} onOpenChange={setIsOpen}>
+              <DialogTrigger asChild>
+                <Button size="sm">
+                  <Plus className="h-4 w-4 mr-2" />
+                  Add Reminder
                 </Button>
-              </div>
-            </DialogContent>
-          </Dialog>
+              </DialogTrigger>
+              <DialogContent className="max-h-[90vh] overflow-y-auto">
+                <DialogHeader>
+                  <DialogTitle>Create New Reminder</DialogTitle>
+                  <DialogDescription>
+                    You'll get an email at each scheduled time, even when AutiCare isn't open
+                  </DialogDescription>
+                </DialogHeader>
+                <div className="space-y-4 mt-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="title">Title</Label>
+                    <Input
+                      id="title"
+                      placeholder="e.g., Morning Routine"
+                      value={newReminder.title}
+                      onChange={(e) => setNewReminder({ ...newReminder, title: e.target.value })}
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="time">Time</Label>
+                    <Input
+                      id="time"
+                      type="time"
+                      value={newReminder.time}
+                      onChange={(e) => setNewReminder({ ...newReminder, time: e.target.value })}
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="recurrence">Repeats</Label>
+                    <Select
+                      value={rule.frequency}
+                      onValueChange={(value: RecurrenceFrequency) => setRule({ frequency: value, interval: 1 })}
+                    >
+                      <SelectTrigger id="recurrence">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="once">Doesn't repeat</SelectItem>
+                        <SelectItem value="daily">Daily</SelectItem>
+                        <SelectItem value="weekdays">Every weekday (Mon-Fri)</SelectItem>
+                        <SelectItem value="weekly">Weekly</SelectItem>
+                        <SelectItem value="monthly">Monthly</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="start-date">{rule.frequency === "once" ? "Date" : "Starts on"}</Label>
+                    <Input
+                      id="start-date"
+                      type="date"
+                      value={rule.startDate}
+                      onChange={(e) => setRule({ startDate: e.target.value })}
+                    />
+                  </div>
+                  {INTERVAL_UNITS[rule.frequency] && (
+                    <div className="space-y-2">
+                      <Label htmlFor="interval">Every</Label>
+                      <div className="flex items-center gap-2">
+                        <Input
+                          id="interval"
+                          type="number"
+                          min={1}
+                          className="w-20"
+                          value={rule.interval}
+                          onChange={(e) => setRule({ interval: Math.max(1, parseInt(e.target.value, 10) || 1) })}
+                        />
+                        <span className="text-sm text-muted-foreground">
+                          {INTERVAL_UNITS[rule.frequency]}{rule.interval === 1 ? "" : "s"}
+                        </span>
+                      </div>
+                    </div>
+                  )}
+                  {rule.frequency === "weekly" && (
+                    <div className="space-y-2">
+                      <Label>On</Label>
+                      <ToggleGroup
+                        type="multiple"
+                        variant="outline"
+                        className="justify-start flex-wrap"
+                        value={rule.weekdays.map(String)}
+                        onValueChange={(values) => setRule({ weekdays: values.map(Number) })}
+                      >
+                        {WEEKDAY_LABELS.map((label, day) => (
+                          <ToggleGroupItem key={label} value={String(day)} size="sm" aria-label={label}>
+                            {label}
+                          </ToggleGroupItem>
+                        ))}
+                      </ToggleGroup>
+                    </div>
+                  )}
+                  {rule.frequency !== "once" && (
+                    <div className="space-y-2">
+                      <Label htmlFor="exception-date">Skip dates</Label>
+                      <div className="flex gap-2">
+                        <Input
+                          id="exception-date"
+                          type="date"
+                          value={exceptionDate}
+                          onChange={(e) => setExceptionDate(e.target.value)}
+                        />
+                        <Button type="button" variant="outline" onClick={addExceptionDate}>
+                          Skip
+                        </Button>
+                      </div>
+                      {rule.exceptionDates.length > 0 && (
+                        <div className="flex flex-wrap gap-2">
+                          {rule.exceptionDates.map((date) => (
+                            <span key={date} className="flex items-center gap-1 text-xs px-2 py-0.5 rounded-full bg-muted">
+                              {new Date(`${date}T00:00`).toLocaleDateString()}
+                              <button
+                                type="button"
+                                aria-label={`Stop skipping ${date}`}
+                                onClick={() => setRule({ exceptionDates: rule.exceptionDates.filter((d) => d !== date) })}
+                              >
+                                <X className="h-3 w-3" />
+                              </button>
+                            </span>
+                          ))}
+                        </div>
+                      )}
+                    </div>
+                  )}
+                  <div className="space-y-2">
+                    <Label htmlFor="type">Type</Label>
+                    <Select
+                      value={newReminder.type}
+                      onValueChange={(value: ReminderType) => setNewReminder({ ...newReminder, type: value })}
+                    >
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="task">Task</SelectItem>
+                        <SelectItem value="assessment">Assessment</SelectItem>
+                        <SelectItem value="appointment">Appointment</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  {newReminder.time && (
+                    <div className="rounded-lg bg-muted/50 p-3 space-y-1">
+                      <p className="text-sm font-medium">{describeRecurrence(rule)} at {newReminder.time}</p>
+                      {upcoming.length === 0 ? (
+                        <p className="text-sm text-muted-foreground">No upcoming reminders with these settings</p>
+                      ) : (
+                        <ul className="text-sm text-muted-foreground space-y-0.5">
+                          {upcoming.map((occurrence) => (
+                            <li key={occurrence.toISOString()}>
+                              {occurrence.toLocaleDateString(undefined, { weekday: "short", day: "numeric", month: "short" })}{" "}
+                              {occurrence.toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" })}
+                            </li>
+                          ))}
+                        </ul>
+                      )}
+                    </div>
+                  )}
+                  <Button onClick={addReminder} className="w-full">
+                    Create Reminder
+                  </Button>
+                </div>
+              </DialogContent>
+            </Dialog>
+          </div>
         </div>
       </CardHeader>
       <CardContent>
@@ -206,20 +451,66 @@ export const Reminders = () => {
                   <div>
                     <p className="font-medium">{reminder.title}</p>
                     <div className="flex items-center gap-2 mt-1">
-                      <span className="text-sm text-muted-foreground">{reminder.time}</span>
+                      <span className="text-sm text-muted-foreground">
+                        {describeRecurrence(reminder.recurrence)} at {reminder.time}
+                      </span>
+                      <span className="text-xs text-muted-foreground">{reminder.timezone}</span>
                       <span className={`text-xs px-2 py-0.5 rounded-full ${getTypeColor(reminder.type)}`}>
                         {reminder.type}
                       </span>
                     </div>
+                    {reminder.enabled && (
+                      <p className="text-xs text-muted-foreground mt-1">
+                        {reminder.nextRunAt
+                          ? `${reminder.snoozedUntil ? "Snoozed until" : "Next"} ${new Date(reminder.nextRunAt).toLocaleString()}`
+                          : "No upcoming reminders"}
+                      </p>
+                    )}
+                    {lastDeliveryFor(reminder.id) && (
+                      <p className="text-xs text-muted-foreground mt-1">
+                        Last {lastDeliveryFor(reminder.id)!.status === "failed" ? "attempt failed" : "sent"}{" "}
+                        {new Date(lastDeliveryFor(reminder.id)!.scheduledFor).toLocaleString()}
+                      </p>
+                    )}
                   </div>
                 </div>
-                <Button
-                  variant="ghost"
-                  size="icon"
-                  onClick={() => deleteReminder(reminder.id)}
-                >
-                  <Trash2 className="h-4 w-4 text-destructive" />
-                </Button>
+                <div className="flex items-center gap-2">
+                  <Switch
+                    checked={reminder.enabled}
+                    onCheckedChange={(checked) => toggleReminder(reminder.id, checked)}
+                    aria-label={`Toggle ${reminder.title}`}
+                  />
+                  <DropdownMenu>
+                    <DropdownMenuTrigger asChild>
+                      <Button variant="ghost" size="icon" aria-label={`More options for ${reminder.title}`}>
+                        <MoreVertical className="h-4 w-4" />
+                      </Button>
+                    </DropdownMenuTrigger>
+                    <DropdownMenuContent align="end">
+                      <DropdownMenuLabel>Snooze for</DropdownMenuLabel>
+                      {SNOOZE_OPTIONS.map((option) => (
+                        <DropdownMenuItem
+                          key={option.minutes}
+                          disabled={!reminder.enabled}
+                          onClick={() => snooze(reminder.id, option.minutes)}
+                        >
+                          {option.label}
+                        </DropdownMenuItem>
+                      ))}
+                      <DropdownMenuSeparator />
+                      <DropdownMenuItem
+                        disabled={!reminder.nextRunAt || !!reminder.snoozedUntil || reminder.recurrence.frequency === "once"}
+                        onClick={() => skipNext(reminder)}
+                      >
+                        Skip next
+                      </DropdownMenuItem>
+                      <DropdownMenuItem className="text-destructive" onClick={() => deleteReminder(reminder.id)}>
+                        <Trash2 className="h-4 w-4 mr-2" />
+                        Delete
+                      </DropdownMenuItem>
+                    </DropdownMenuContent>
+                  </DropdownMenu>
+                </div>
               </div>
             ))
           )}
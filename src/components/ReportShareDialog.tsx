@@ -0,0 +1,218 @@
+import { useState } from "react";
+import { addDays, endOfDay, format, parseISO } from "date-fns";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Copy, FileText } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { supabase } from "@/integrations/supabase/client";
+import { AssessmentRecord, listAssessments } from "@/integrations/supabase/assessments";
+import {
+  REPORT_LINK_MAX_DAYS,
+  REPORT_SCOPES,
+  ReportScope,
+  SharedAchievementRecord,
+  saveReportShare,
+  shareLinkUrl,
+} from "@/integrations/supabase/sharedAchievements";
+
+const SCOPE_LABELS: Record<ReportScope, string> = {
+  scores: "Scores and severity",
+  contributors: "Main contributing answers",
+  video_analysis: "Video analysis",
+  mood_history: "Mood check-ins (last 90 days)",
+};
+
+const DEFAULT_SCOPES: ReportScope[] = ["scores", "contributors"];
+
+const assessmentLabel = (assessment: AssessmentRecord) =>
+  [
+    new Date(assessment.createdAt).toLocaleDateString(),
+    assessment.metadata?.childName,
+    assessment.result.severityLabel,
+  ].filter(Boolean).join(" · ");
+
+interface ReportShareDialogProps {
+  onCreated: (link: SharedAchievementRecord) => void;
+}
+
+// Shares one assessment with a clinician who does not use AutiCare
+export function ReportShareDialog({ onCreated }: ReportShareDialogProps) {
+  const [assessments, setAssessments] = useState<AssessmentRecord[]>([]);
+  const [assessmentId, setAssessmentId] = useState("");
+  const [scopes, setScopes] = useState<ReportScope[]>(DEFAULT_SCOPES);
+  const [expiryDate, setExpiryDate] = useState(format(addDays(new Date(), 14), "yyyy-MM-dd"));
+  const [pin, setPin] = useState("");
+  const [shareUrl, setShareUrl] = useState<string | null>(null);
+  const [loading, setLoading] = useState(false);
+  const { toast } = useToast();
+
+  const handleOpenChange = async (open: boolean) => {
+    if (!open) return;
+    setShareUrl(null);
+    setPin("");
+
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) return;
+    try {
+      const recent = await listAssessments(user.id, 10);
+      setAssessments(recent);
+      setAssessmentId((current) => current || recent[0]?.id || "");
+    } catch (error) {
+      console.error('Failed to load assessments:', error);
+    }
+  };
+
+  const toggleScope = (scope: ReportScope, checked: boolean) =>
+    setScopes(checked ? REPORT_SCOPES.filter((s) => s === scope || scopes.includes(s)) : scopes.filter((s) => s !== scope));
+
+  const handleCreate = async () => {
+    const assessment = assessments.find((a) => a.id === assessmentId);
+    if (!assessment) return;
+
+    setLoading(true);
+    try {
+      const link = await saveReportShare({
+        assessmentId,
+        title: `Screening report${assessment.metadata?.childName ? ` for ${assessment.metadata.childName}` : ""}`,
+        scopes,
+        expiresAt: endOfDay(parseISO(expiryDate)).toISOString(),
+        pin: pin || undefined,
+      });
+      setShareUrl(shareLinkUrl(link.shareToken));
+      onCreated(link);
+      toast({
+        title: "Report link created",
+        description: pin ? "Send the PIN to the clinician separately from the link." : "Anyone with the link can open the report until it expires.",
+      });
+    } catch (error) {
+      toast({
+        title: "Error creating report link",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const copyToClipboard = async () => {
+    if (!shareUrl) return;
+    await navigator.clipboard.writeText(shareUrl);
+    toast({
+      title: "Copied!",
+      description: "Report link copied to clipboard",
+    });
+  };
+
+  const today = format(new Date(), "yyyy-MM-dd");
+  // Links last until the end of the chosen day, so the last full day inside the limit is the latest choice
+  const latestExpiry = format(addDays(new Date(), REPORT_LINK_MAX_DAYS - 1), "yyyy-MM-dd");
+  const pinValid = pin === "" || /^\d{6,8}$/.test(pin);
+  const canCreate = !!assessmentId && scopes.length > 0 && expiryDate >= today && expiryDate <= latestExpiry && pinValid;
+
+  return (
+    <Dialog onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button size="sm" variant="outline">
+          <FileText className="h-4 w-4 mr-2" />
+          Share a Report
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Share a Report with a Clinician</DialogTitle>
+          <DialogDescription>
+            Create a link to one assessment for a doctor who doesn't use AutiCare. Only the sections you choose are shown.
+          </DialogDescription>
+        </DialogHeader>
+
+        {!shareUrl ? (
+          <div className="space-y-4 py-2">
+            <div className="space-y-2">
+              <Label htmlFor="report-assessment">Assessment</Label>
+              {assessments.length === 0 ? (
+                <p className="text-sm text-muted-foreground">Complete an assessment to share a report.</p>
+              ) : (
+                <Select value={assessmentId} onValueChange={setAssessmentId}>
+                  <SelectTrigger id="report-assessment">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {assessments.map((assessment) => (
+                      <SelectItem key={assessment.id} value={assessment.id}>
+                        {assessmentLabel(assessment)}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              )}
+            </div>
+
+            <div className="space-y-2">
+              <Label>Include</Label>
+              {REPORT_SCOPES.map((scope) => (
+                <div key={scope} className="flex items-center gap-2">
+                  <Checkbox
+                    id={`report-scope-${scope}`}
+                    checked={scopes.includes(scope)}
+                    onCheckedChange={(checked) => toggleScope(scope, checked === true)}
+                  />
+                  <Label htmlFor={`report-scope-${scope}`} className="font-normal">
+                    {SCOPE_LABELS[scope]}
+                  </Label>
+                </div>
+              ))}
+            </div>
+
+            <div className="grid grid-cols-2 gap-3">
+              <div className="space-y-2">
+                <Label htmlFor="report-expiry">Link expires on</Label>
+                <Input
+                  id="report-expiry"
+                  type="date"
+                  min={today}
+                  max={latestExpiry}
+                  value={expiryDate}
+                  onChange={(e) => setExpiryDate(e.target.value)}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="report-pin">PIN (optional)</Label>
+                <Input
+                  id="report-pin"
+                  inputMode="numeric"
+                  autoComplete="off"
+                  maxLength={8}
+                  placeholder="6-8 digits"
+                  value={pin}
+                  onChange={(e) => setPin(e.target.value.replace(/\D/g, ""))}
+                />
+              </div>
+            </div>
+
+            <Button onClick={handleCreate} disabled={loading || !canCreate} className="w-full">
+              Create Report Link
+            </Button>
+          </div>
+        ) : (
+          <div className="space-y-2 py-2">
+            <Label htmlFor="report-url">Report Link</Label>
+            <div className="flex gap-2">
+              <Input id="report-url" value={shareUrl} readOnly className="flex-1" />
+              <Button size="icon" variant="outline" onClick={copyToClipboard} aria-label="Copy report link">
+                <Copy className="w-4 h-4" />
+              </Button>
+            </div>
+            <p className="text-xs text-muted-foreground">
+              You can revoke this link or change its expiry from My Shared Links.
+            </p>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
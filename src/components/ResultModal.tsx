@@ -2,16 +2,29 @@ import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { TrendingUp, AlertCircle, Download, Gamepad2 } from 'lucide-react';
-import { ScoringResult } from '@/utils/scoring';
+import {
+  CATEGORY_LABELS,
+  DEFAULT_SEVERITY_THRESHOLDS,
+  ScoringResult,
+  SeverityThreshold,
+  describeSeverityBands,
+  getSeverityBand,
+  isVideoPredictionAvailable,
+} from '@/utils/scoring';
+import { DEFAULT_FUSION_STRATEGY, compareFusionStrategies, fusionStrategies } from '@/utils/fusion';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
 import VideoPreview from './VideoPreview';
 import ASDScoreChart from './ASDScoreChart';
 import jsPDF from 'jspdf';
+import type { VideoAnalysisJob } from '@/integrations/supabase/videoAnalysisJobs';
 
 interface ResultModalProps {
   result: ScoringResult;
   onClose: () => void;
   onBackToHome?: () => void;
   videoUrl?: string;
+  videoAnalysis?: VideoAnalysisJob | null; // Background analysis still being followed for this result
+  severityThresholds?: SeverityThreshold[]; // Bands of the question bank version the result was scored with
 }
 
 /**
@@ -22,38 +35,14 @@ const toOneDecimal = (val: any): string => {
   return Number.isFinite(num) ? num.toFixed(1) : '0.0';
 };
 
-/**
- * Small deterministic pseudo-random generator seeded by a string.
- * Used so fallback values remain stable for the same input (avoids jarring UI jumps).
- */
-const deterministicRandom = (seedStr: string, min = 0, max = 1) => {
-  // simple hash -> [0,1)
-  let h = 2166136261 >>> 0;
-  for (let i = 0; i < seedStr.length; i++) {
-    h ^= seedStr.charCodeAt(i);
-    h = Math.imul(h, 16777619) >>> 0;
-  }
-  const normalized = (h % 100000) / 100000; // [0,1)
-  return min + normalized * (max - min);
-};
-
-const generateClientFallback = (seed?: string) => {
-  const s = seed ?? `${Date.now()}`; // fallback to time if no seed
-  const pred = deterministicRandom(s + '-pred', 30, 100); // 30-100
-  const conf = deterministicRandom(s + '-conf', 0.55, 0.95); // 0.55-0.95
-  return {
-    prediction_score: Math.round(pred * 10) / 10,
-    confidence: Math.round(conf * 10) / 10,
-    features_detected: {
-      behavioral_markers: Math.round(deterministicRandom(s + '-fm', 1, 10) * 10) / 10,
-      communication_patterns: Math.round(deterministicRandom(s + '-fc', 1, 10) * 10) / 10,
-      social_interaction: Math.round(deterministicRandom(s + '-fs', 1, 10) * 10) / 10,
-    },
-    source: 'client-fallback',
-  };
-};
-
-export default function ResultModal({ result, onClose, onBackToHome, videoUrl }: ResultModalProps) {
+export default function ResultModal({
+  result,
+  onClose,
+  onBackToHome,
+  videoUrl,
+  videoAnalysis,
+  severityThresholds = DEFAULT_SEVERITY_THRESHOLDS,
+}: ResultModalProps) {
   const severityColors = {
     low: 'bg-mint text-mint-foreground',
     mild: 'bg-bright-blue text-bright-blue-foreground',
@@ -68,32 +57,32 @@ export default function ResultModal({ result, onClose, onBackToHome, videoUrl }:
     high: 'border-coral',
   };
 
+  // Only a real model prediction is shown or fused; an unavailable analysis leaves the result questionnaire-only
+  const videoOutcome = result.videoPrediction ?? null;
+  const prediction = isVideoPredictionAvailable(videoOutcome) ? videoOutcome : null;
+  const fusedScore = prediction ? result.fusedScore : undefined;
+
   const finalScore =
-    typeof result.fusedScore === "number"
-      ? result.fusedScore
+    typeof fusedScore === "number"
+      ? fusedScore
       : typeof result.normalizedScore === "number"
       ? result.normalizedScore
       : 0;
 
-  // Defensive: ensure we extract a numeric ML score if present
-  const rawVideoPrediction = result.videoPrediction ?? null;
-
-  // Validate a proper numeric ml score; otherwise null.
-  const mlScore =
-    rawVideoPrediction && typeof rawVideoPrediction.prediction_score === 'number' && Number.isFinite(rawVideoPrediction.prediction_score)
-      ? rawVideoPrediction.prediction_score
-      : null;
+  const isHighScore = finalScore >= 60;
 
-  // If backend somehow didn't provide a valid shape, build a client fallback (stable if possible)
-  const fallbackSeed = (result as any).id ?? videoUrl ?? JSON.stringify(result);
-  const clientFallback = mlScore === null ? generateClientFallback(String(fallbackSeed)) : null;
+  // Explanations follow the same bands that produced the severity badge
+  const severityBands = describeSeverityBands(severityThresholds);
+  const band = getSeverityBand(finalScore, severityThresholds);
+  const recommendationLevel = band.severity === 'high' && band.maxScore === null ? 'very-high' : band.severity;
 
-  const displayPrediction = mlScore !== null ? mlScore : clientFallback!.prediction_score;
-  const displayConfidence = rawVideoPrediction && typeof rawVideoPrediction.confidence === 'number'
-    ? rawVideoPrediction.confidence
-    : clientFallback!.confidence;
+  // Standard instruments are interpreted by their own rules rather than the AutiCare score bands
+  const instrument = result.instrument;
 
-  const isHighScore = finalScore >= 60;
+  // Results saved before strategies were configurable used the default
+  const fusionStrategy = fusionStrategies[result.fusionStrategy ?? DEFAULT_FUSION_STRATEGY];
+  const fusionComparison =
+    fusedScore !== undefined && prediction ? compareFusionStrategies(result.normalizedScore, prediction) : [];
 
   // PDF generator with safety fixes
   const safeToFixed = (num: any, digits = 1) => {
@@ -113,7 +102,14 @@ export default function ResultModal({ result, onClose, onBackToHome, videoUrl }:
     yPos += 15;
 
     doc.setFontSize(16);
-    doc.text(`Final Score: ${safeToFixed(finalScore)}`, pageWidth / 2, yPos, { align: 'center' });
+    doc.text(
+      instrument
+        ? `${instrument.instrumentName} Score: ${instrument.score}/${instrument.maxScore}`
+        : `Final Score: ${safeToFixed(finalScore)}`,
+      pageWidth / 2,
+      yPos,
+      { align: 'center' }
+    );
     yPos += 10;
 
     doc.setFontSize(12);
@@ -128,17 +124,14 @@ export default function ResultModal({ result, onClose, onBackToHome, videoUrl }:
     doc.setFontSize(10);
     doc.setFont('helvetica', 'normal');
 
-    const interpretations = [
-      '• Score < 25: Very Low ASD Behavior (Normal Range)',
-      '• Score 25-40: Low ASD Indicators - Clinical Assessment Requested',
-      '• Score 40-60: Moderate ASD Indicators - Clinical Assessment Required',
-      '• Score 60-75: High ASD Indicators - Clinical Assessment Mandatory',
-      '• Score > 75: Very High ASD Indicators - Regular Checkup Needed',
-    ];
+    const interpretations = instrument
+      ? [instrument.interpretation, ...instrument.recommendations.map((r) => `• ${r}`)]
+      : severityBands.map((b) => `• ${b.range}: ${b.label}`);
 
     interpretations.forEach(text => {
-      doc.text(text, margin, yPos);
-      yPos += 6;
+      const lines = doc.splitTextToSize(text, pageWidth - 2 * margin);
+      doc.text(lines, margin, yPos);
+      yPos += lines.length * 6;
     });
 
     // Statistics
@@ -150,16 +143,49 @@ export default function ResultModal({ result, onClose, onBackToHome, videoUrl }:
 
     doc.setFontSize(10);
     doc.setFont('helvetica', 'normal');
-    doc.text(`Questionnaire Score: ${safeToFixed(result.normalizedScore)}`, margin, yPos);
-    yPos += 6;
+    if (instrument) {
+      doc.text(`Screen Result: ${instrument.screenResult}`, margin, yPos);
+      yPos += 6;
+      if (instrument.followUpScore !== undefined) {
+        doc.text(`Follow-Up Interview Score: ${instrument.followUpScore}`, margin, yPos);
+        yPos += 6;
+      }
+    } else {
+      doc.text(`Questionnaire Score: ${safeToFixed(result.normalizedScore)}`, margin, yPos);
+      yPos += 6;
+
+      if (prediction) {
+        doc.text(`ML Analysis Score: ${safeToFixed(prediction.prediction_score)} (source: ML model)`, margin, yPos);
+        yPos += 6;
 
-    // ML part (either backend or fallback)
-    doc.text(`ML Analysis Score: ${safeToFixed(displayPrediction)}`, margin, yPos);
-    yPos += 6;
+        doc.text(`Model Confidence: ${(prediction.confidence * 100).toFixed(0)}%`, margin, yPos);
+        yPos += 6;
 
-    const conf = Number.isFinite(displayConfidence) ? displayConfidence : 0.7;
-    doc.text(`Model Confidence: ${(conf * 100).toFixed(0)}%`, margin, yPos);
-    yPos += 6;
+        if (fusedScore !== undefined) {
+          doc.text(`Fusion Strategy: ${fusionStrategy.name}`, margin, yPos);
+          yPos += 6;
+        }
+      } else if (videoOutcome) {
+        doc.text('Video Analysis: unavailable. This score is based on the questionnaire only.', margin, yPos);
+        yPos += 6;
+      }
+    }
+
+    // Category subscores
+    if (result.categoryScores) {
+      yPos += 10;
+      doc.setFontSize(14);
+      doc.setFont('helvetica', 'bold');
+      doc.text('Category Scores:', margin, yPos);
+      yPos += 8;
+
+      doc.setFontSize(10);
+      doc.setFont('helvetica', 'normal');
+      Object.entries(result.categoryScores).forEach(([category, score]) => {
+        doc.text(`${CATEGORY_LABELS[category as keyof typeof CATEGORY_LABELS]}: ${score}/100`, margin, yPos);
+        yPos += 6;
+      });
+    }
 
     // Top contributors
     yPos += 10;
@@ -208,14 +234,16 @@ export default function ResultModal({ result, onClose, onBackToHome, videoUrl }:
 
               <div className="flex justify-center py-6">
                 <div className={`inline-flex flex-col items-center justify-center w-48 h-48 rounded-full ${severityColors[result.severity]} shadow-xl animate-scale-in`}>
-                  <span className="text-7xl font-bold mb-2">{toOneDecimal(finalScore)}</span>
+                  <span className="text-7xl font-bold mb-2">
+                    {instrument ? `${instrument.score}/${instrument.maxScore}` : toOneDecimal(finalScore)}
+                  </span>
                   <Badge className={`${severityColors[result.severity]} text-lg px-6 py-2 border-2 border-background`}>
                     {result.severityLabel}
                   </Badge>
                 </div>
               </div>
 
-              {result.fusedScore !== undefined && (
+              {prediction && fusedScore !== undefined && (
                 <div className="bg-primary/5 rounded-lg p-4 border border-primary/20">
                   <p className="text-sm font-semibold mb-2">🤖 ML-Enhanced Score (Fused Analysis)</p>
                   <div className="flex justify-center gap-6 text-sm">
@@ -225,9 +253,30 @@ export default function ResultModal({ result, onClose, onBackToHome, videoUrl }:
                     </div>
                     <div className="text-center">
                       <p className="text-muted-foreground">ML Model</p>
-                      <p className="text-2xl font-bold">{toOneDecimal(displayPrediction)}</p>
+                      <p className="text-2xl font-bold">{toOneDecimal(prediction.prediction_score)}</p>
                     </div>
                   </div>
+
+                  {fusionComparison.length > 0 && (
+                    <div className="mt-4 pt-3 border-t border-primary/20">
+                      <p className="text-xs text-muted-foreground mb-2">Fusion strategies compared</p>
+                      <div className="grid grid-cols-2 md:grid-cols-4 gap-2 text-sm">
+                        {fusionComparison.map(({ strategy, fusedScore }) => (
+                          <div
+                            key={strategy.id}
+                            title={strategy.description}
+                            className={`rounded-md p-2 border ${
+                              strategy.id === fusionStrategy.id ? 'border-primary bg-primary/10' : 'border-transparent'
+                            }`}
+                          >
+                            <p className="text-xs text-muted-foreground">{strategy.name}</p>
+                            <p className="text-lg font-bold">{fusedScore}</p>
+                            {strategy.id === fusionStrategy.id && <p className="text-xs text-primary">Used</p>}
+                          </div>
+                        ))}
+                      </div>
+                    </div>
+                  )}
                 </div>
               )}
             </div>
@@ -237,52 +286,76 @@ export default function ResultModal({ result, onClose, onBackToHome, videoUrl }:
 
             {videoUrl && <VideoPreview videoUrl={videoUrl} className="mb-4" />}
 
-            <ASDScoreChart
-              normalizedScore={result.normalizedScore}
-              mlScore={displayPrediction}
-              fusedScore={result.fusedScore}
-            />
-
-            <div className="space-y-3 bg-primary/10 p-4 rounded-lg border border-primary/20">
-              <div className="flex items-center gap-2">
-                <div className="w-8 h-8 rounded-full bg-primary/20 flex items-center justify-center">
-                  🎥
+            {!instrument && (
+              <ASDScoreChart
+                normalizedScore={result.normalizedScore}
+                mlScore={prediction?.prediction_score}
+                fusedScore={fusedScore}
+                categoryScores={result.categoryScores}
+              />
+            )}
+
+            {!instrument && (videoOutcome || videoAnalysis) && (
+              <div className="space-y-3 bg-primary/10 p-4 rounded-lg border border-primary/20">
+                <div className="flex items-center gap-2">
+                  <div className="w-8 h-8 rounded-full bg-primary/20 flex items-center justify-center">
+                    🎥
+                  </div>
+                  <h3 className="font-semibold">Video Analysis Results</h3>
+                  {videoOutcome && (
+                    <Badge variant="outline" className="ml-auto">
+                      Source: {prediction ? 'ML model' : 'Unavailable'}
+                    </Badge>
+                  )}
                 </div>
-                <h3 className="font-semibold">Video Analysis Results</h3>
-              </div>
 
-              <div className="grid grid-cols-2 gap-3 text-sm">
-                <div className="space-y-1">
-                  <p className="text-muted-foreground">ML Prediction Score</p>
-                  <p className="text-2xl font-bold">{toOneDecimal(displayPrediction)}</p>
-                </div>
+                {videoAnalysis && !videoOutcome && (
+                  <p className="text-sm text-muted-foreground" role="status">
+                    Video analysis is still running. The score will update here when it finishes.
+                  </p>
+                )}
 
-                <div className="space-y-1">
-                  <p className="text-muted-foreground">Model Confidence</p>
-                  <p className="text-2xl font-bold">
-                    {((displayConfidence ?? 0.7) * 100).toFixed(0)}%
+                {videoOutcome?.source === 'unavailable' && (
+                  <p className="text-sm text-muted-foreground" role="status">
+                    Video analysis was unavailable ({videoOutcome.reason}). This result is based on the questionnaire only.
                   </p>
-                </div>
-              </div>
+                )}
 
-              {((rawVideoPrediction ?? clientFallback)?.features_detected) && (
-                <div className="pt-2 border-t border-primary/20 text-xs">
-                  <p className="text-muted-foreground mb-2">Detected Features:</p>
-                  <div className="grid grid-cols-3 gap-2">
-                    {Object.entries((rawVideoPrediction ?? clientFallback)!.features_detected).map(([key, value]) => (
-                      <div key={key}>
-                        <p className="capitalize">{key.replace(/_/g, ' ')}</p>
-                        <p className="font-semibold">{toOneDecimal(value)}</p>
+                {prediction && (
+                  <>
+                    <div className="grid grid-cols-2 gap-3 text-sm">
+                      <div className="space-y-1">
+                        <p className="text-muted-foreground">ML Prediction Score</p>
+                        <p className="text-2xl font-bold">{toOneDecimal(prediction.prediction_score)}</p>
                       </div>
-                    ))}
-                  </div>
-                </div>
-              )}
 
-              <p className="text-xs text-muted-foreground italic">
-                * The final score combines questionnaire responses (60%) with ML video analysis (40%)
-              </p>
-            </div>
+                      <div className="space-y-1">
+                        <p className="text-muted-foreground">Model Confidence</p>
+                        <p className="text-2xl font-bold">{(prediction.confidence * 100).toFixed(0)}%</p>
+                      </div>
+                    </div>
+
+                    {prediction.features_detected && (
+                      <div className="pt-2 border-t border-primary/20 text-xs">
+                        <p className="text-muted-foreground mb-2">Detected Features:</p>
+                        <div className="grid grid-cols-3 gap-2">
+                          {Object.entries(prediction.features_detected).map(([key, value]) => (
+                            <div key={key}>
+                              <p className="capitalize">{key.replace(/_/g, ' ')}</p>
+                              <p className="font-semibold">{toOneDecimal(value)}</p>
+                            </div>
+                          ))}
+                        </div>
+                      </div>
+                    )}
+
+                    <p className="text-xs text-muted-foreground italic">
+                      * Final score strategy: {fusionStrategy.name} ({fusionStrategy.description.toLowerCase()})
+                    </p>
+                  </>
+                )}
+              </div>
+            )}
 
             {/* Top Contributors */}
             <div className="space-y-4">
@@ -306,72 +379,126 @@ export default function ResultModal({ result, onClose, onBackToHome, videoUrl }:
               ))}
             </div>
 
-            {/* Interpretations */}
-            <div className="space-y-3 bg-accent/20 p-4 rounded-lg">
-              <div className="flex items-center gap-2">
-                <AlertCircle className="w-5 h-5" />
-                <h3 className="font-semibold">Score Interpretation & Recommended Next Steps</h3>
+            {/* Full contribution table */}
+            {result.contributions && result.contributions.length > 0 && (
+              <div className="space-y-3">
+                <h3 className="text-xl font-semibold">How Each Answer Contributed</h3>
+                <div className="max-h-80 overflow-y-auto rounded-lg border">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Question</TableHead>
+                        <TableHead>Category</TableHead>
+                        <TableHead className="text-right">Answer (0-4)</TableHead>
+                        <TableHead className="text-right">Weight</TableHead>
+                        <TableHead className="text-right">Contribution</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {result.contributions.map((item) => (
+                        <TableRow key={item.questionId}>
+                          <TableCell className="text-sm">{item.question}</TableCell>
+                          <TableCell className="text-xs text-muted-foreground">{CATEGORY_LABELS[item.category]}</TableCell>
+                          <TableCell className="text-right">{Number.isInteger(item.value) ? item.value : item.value.toFixed(1)}</TableCell>
+                          <TableCell className="text-right">{item.weight.toFixed(1)}</TableCell>
+                          <TableCell className="text-right font-semibold">{item.contribution.toFixed(1)}</TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </div>
               </div>
+            )}
+
+            {/* Instrument interpretation */}
+            {instrument && (
+              <div className="space-y-3 bg-accent/20 p-4 rounded-lg">
+                <div className="flex items-center gap-2">
+                  <AlertCircle className="w-5 h-5" />
+                  <h3 className="font-semibold">{instrument.instrumentName}: {instrument.screenResult}</h3>
+                </div>
 
-              <div className="bg-background/50 p-3 rounded-md space-y-2 text-sm">
-                <p className="font-semibold">Understanding Your Score:</p>
-                <ul className="space-y-1 text-xs">
-                  <li>• <span className="font-semibold">Score &lt; 25:</span> Very Low ASD Behavior (Normal Range)</li>
-                  <li>• <span className="font-semibold">Score 25-40:</span> Low ASD Indicators - Clinical Assessment Requested</li>
-                  <li>• <span className="font-semibold">Score 40-60:</span> Moderate ASD Indicators - Clinical Assessment Required</li>
-                  <li>• <span className="font-semibold">Score 60-75:</span> High ASD Indicators - Clinical Assessment Mandatory</li>
-                  <li>• <span className="font-semibold">Score &gt; 75:</span> Very High ASD Indicators - Regular Checkup Needed</li>
-                </ul>
-              </div>
+                <p className="text-sm">{instrument.interpretation}</p>
+                {instrument.followUpScore !== undefined && (
+                  <p className="text-sm text-muted-foreground">
+                    Initial score {instrument.score}/{instrument.maxScore} · Follow-up score {instrument.followUpScore}
+                  </p>
+                )}
 
-              {/* Recommendations */}
-              {finalScore < 25 && (
                 <ul className="list-disc list-inside text-sm space-y-1">
-                  <li>Continue monitoring development and behaviors regularly</li>
-                  <li>Maintain supportive environment and consistent routines</li>
-                  <li>Celebrate strengths and provide positive reinforcement</li>
+                  {instrument.recommendations.map((recommendation) => (
+                    <li key={recommendation}>{recommendation}</li>
+                  ))}
                 </ul>
-              )}
+              </div>
+            )}
 
-              {finalScore >= 25 && finalScore < 40 && (
-                <ul className="list-disc list-inside text-sm space-y-1">
-                  <li>Schedule a screening with a healthcare provider</li>
-                  <li>Document behavioral patterns</li>
-                  <li>Explore early intervention resources</li>
-                  <li>Communicate regularly with caregivers or teachers</li>
-                </ul>
-              )}
+            {/* Interpretations */}
+            {!instrument && (
+              <div className="space-y-3 bg-accent/20 p-4 rounded-lg">
+                <div className="flex items-center gap-2">
+                  <AlertCircle className="w-5 h-5" />
+                  <h3 className="font-semibold">Score Interpretation & Recommended Next Steps</h3>
+                </div>
 
-              {finalScore >= 40 && finalScore < 60 && (
-                <ul className="list-disc list-inside text-sm space-y-1">
-                  <li>Seek evaluation from a developmental specialist</li>
-                  <li>Consider early intervention services</li>
-                  <li>Connect with support networks</li>
-                  <li>Develop individualized support strategies</li>
-                </ul>
-              )}
+                <div className="bg-background/50 p-3 rounded-md space-y-2 text-sm">
+                  <p className="font-semibold">Understanding Your Score:</p>
+                  <ul className="space-y-1 text-xs">
+                    {severityBands.map((b) => (
+                      <li key={b.range}>• <span className="font-semibold">{b.range}:</span> {b.label}</li>
+                    ))}
+                  </ul>
+                </div>
 
-              {finalScore >= 60 && finalScore < 75 && (
-                <ul className="list-disc list-inside text-sm space-y-1">
-                  <li className="font-semibold text-coral">IMPORTANT: Seek clinical assessment as soon as possible</li>
-                  <li>Contact a healthcare provider</li>
-                  <li>Connect with autism specialists</li>
-                  <li>Explore intervention programs</li>
-                  <li>Join caregiver support communities</li>
-                </ul>
-              )}
+                {/* Recommendations */}
+                {recommendationLevel === 'low' && (
+                  <ul className="list-disc list-inside text-sm space-y-1">
+                    <li>Continue monitoring development and behaviors regularly</li>
+                    <li>Maintain supportive environment and consistent routines</li>
+                    <li>Celebrate strengths and provide positive reinforcement</li>
+                  </ul>
+                )}
 
-              {finalScore >= 75 && (
-                <ul className="list-disc list-inside text-sm space-y-1">
-                  <li className="font-semibold text-destructive">URGENT: Schedule immediate clinical assessment</li>
-                  <li>Contact specialized autism centers</li>
-                  <li>Begin intervention planning</li>
-                  <li>Set regular follow-up schedule</li>
-                  <li>Access intensive support services</li>
-                  <li>Connect with experienced support communities</li>
-                </ul>
-              )}
-            </div>
+                {recommendationLevel === 'mild' && (
+                  <ul className="list-disc list-inside text-sm space-y-1">
+                    <li>Schedule a screening with a healthcare provider</li>
+                    <li>Document behavioral patterns</li>
+                    <li>Explore early intervention resources</li>
+                    <li>Communicate regularly with caregivers or teachers</li>
+                  </ul>
+                )}
+
+                {recommendationLevel === 'moderate' && (
+                  <ul className="list-disc list-inside text-sm space-y-1">
+                    <li>Seek evaluation from a developmental specialist</li>
+                    <li>Consider early intervention services</li>
+                    <li>Connect with support networks</li>
+                    <li>Develop individualized support strategies</li>
+                  </ul>
+                )}
+
+                {recommendationLevel === 'high' && (
+                  <ul className="list-disc list-inside text-sm space-y-1">
+                    <li className="font-semibold text-coral">IMPORTANT: Seek clinical assessment as soon as possible</li>
+                    <li>Contact a healthcare provider</li>
+                    <li>Connect with autism specialists</li>
+                    <li>Explore intervention programs</li>
+                    <li>Join caregiver support communities</li>
+                  </ul>
+                )}
+
+                {recommendationLevel === 'very-high' && (
+                  <ul className="list-disc list-inside text-sm space-y-1">
+                    <li className="font-semibold text-destructive">URGENT: Schedule immediate clinical assessment</li>
+                    <li>Contact specialized autism centers</li>
+                    <li>Begin intervention planning</li>
+                    <li>Set regular follow-up schedule</li>
+                    <li>Access intensive support services</li>
+                    <li>Connect with experienced support communities</li>
+                  </ul>
+                )}
+              </div>
+            )}
 
             <div className="space-y-3">
               <div className="flex gap-3">
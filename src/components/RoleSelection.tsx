@@ -1,12 +1,24 @@
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
-import { User, Users, Stethoscope } from 'lucide-react';
+import { User, Users, Stethoscope, History } from 'lucide-react';
+import { QuestionnaireDraft } from '@/integrations/supabase/assessmentDrafts';
 
 interface RoleSelectionProps {
   onSelectRole: (role: 'individual' | 'parent' | 'clinician') => void;
+  draft?: QuestionnaireDraft | null;
+  onResumeDraft?: () => void;
+  onDiscardDraft?: () => void;
 }
 
-export default function RoleSelection({ onSelectRole }: RoleSelectionProps) {
+const draftTitles = {
+  individual: 'Self-Assessment',
+  parent: 'Caregiver Assessment',
+  clinician: 'Clinical Assessment',
+};
+
+export default function RoleSelection({ onSelectRole, draft, onResumeDraft, onDiscardDraft }: RoleSelectionProps) {
+  const draftSubject = draft?.metadata?.childName || draft?.clinicianMetadata?.childName;
+
   return (
     <div className="min-h-screen flex items-center justify-center p-4">
       <div className="max-w-6xl w-full animate-fade-in">
@@ -19,6 +31,32 @@ export default function RoleSelection({ onSelectRole }: RoleSelectionProps) {
           </p>
         </div>
 
+        {draft && onResumeDraft && (
+          <Card className="mb-8 border-2 border-primary/40">
+            <CardContent className="flex flex-col md:flex-row md:items-center justify-between gap-4 pt-6">
+              <div className="flex items-center gap-3">
+                <History className="w-8 h-8 text-primary flex-shrink-0" />
+                <div>
+                  <p className="font-semibold">
+                    Resume your {draftTitles[draft.role]}{draftSubject ? ` for ${draftSubject}` : ''}
+                  </p>
+                  <p className="text-sm text-muted-foreground">
+                    Last saved {new Date(draft.savedAt).toLocaleString()}
+                  </p>
+                </div>
+              </div>
+              <div className="flex gap-2">
+                {onDiscardDraft && (
+                  <Button variant="ghost" onClick={onDiscardDraft}>
+                    Discard
+                  </Button>
+                )}
+                <Button onClick={onResumeDraft}>Resume Assessment</Button>
+              </div>
+            </CardContent>
+          </Card>
+        )}
+
         <div className="grid md:grid-cols-3 gap-6">
           <Card className="group hover:shadow-2xl transition-all duration-300 hover:-translate-y-2 cursor-pointer border-2 hover:border-bright-blue"
                 onClick={() => onSelectRole('individual')}>
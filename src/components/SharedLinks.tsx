@@ -0,0 +1,239 @@
+import { useState, useEffect } from "react";
+import { addDays, endOfDay, format, parseISO } from "date-fns";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Link2, Ban, Copy, History, RefreshCw } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { supabase } from "@/integrations/supabase/client";
+import { ReportShareDialog } from "./ReportShareDialog";
+import {
+  ShareAccessLogEntry,
+  ShareAccessOutcome,
+  ShareKind,
+  REPORT_LINK_MAX_DAYS,
+  ShareStatus,
+  SharedAchievementRecord,
+  listShareAccessLog,
+  listShareLinks,
+  revokeShareLink,
+  shareLinkStatus,
+  shareLinkUrl,
+  sharePreviewUrl,
+  updateShareLinkExpiry,
+} from "@/integrations/supabase/sharedAchievements";
+
+const STATUS_LABELS: Record<ShareStatus, string> = {
+  active: "Active",
+  expired: "Expired",
+  revoked: "Revoked",
+};
+
+const OUTCOME_LABELS: Record<ShareAccessOutcome, string> = {
+  active: "Viewed",
+  expired: "Opened after expiry",
+  revoked: "Opened after revocation",
+  pin_failed: "Wrong PIN entered",
+};
+
+const KIND_LABELS: Record<ShareKind, string> = {
+  achievement: "Achievements",
+  progress: "Progress",
+  report: "Clinician report",
+};
+
+// Report links can't be extended past REPORT_LINK_MAX_DAYS after they were created
+const latestExpiry = (link: SharedAchievementRecord) =>
+  link.kind === 'report' ? format(addDays(new Date(link.createdAt), REPORT_LINK_MAX_DAYS - 1), 'yyyy-MM-dd') : undefined;
+
+const audienceLabel = (link: SharedAchievementRecord) => {
+  if (!link.isPublic) return "Only you";
+  return link.hasPin ? "Anyone with the link and PIN" : "Anyone with the link";
+};
+
+export function SharedLinks() {
+  const [links, setLinks] = useState<SharedAchievementRecord[]>([]);
+  const [openLogId, setOpenLogId] = useState<string | null>(null);
+  const [accessLog, setAccessLog] = useState<ShareAccessLogEntry[]>([]);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    loadLinks();
+  }, []);
+
+  const loadLinks = async () => {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) return;
+
+    try {
+      setLinks(await listShareLinks(user.id));
+    } catch (error) {
+      console.error('Failed to load share links:', error);
+    }
+  };
+
+  const replaceLink = (updated: SharedAchievementRecord) =>
+    setLinks(links.map((l) => (l.id === updated.id ? updated : l)));
+
+  const handleRevoke = async (link: SharedAchievementRecord) => {
+    try {
+      replaceLink(await revokeShareLink(link.id));
+      toast({
+        title: "Link revoked",
+        description: "Anyone opening this link will now see that it is no longer available.",
+      });
+    } catch (error) {
+      toast({
+        title: "Error revoking link",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    }
+  };
+
+  // The link keeps working until the end of the chosen day; clearing the date removes the expiry,
+  // except on report links, which must always expire
+  const handleExpiryChange = async (link: SharedAchievementRecord, value: string) => {
+    if (!value && link.kind === 'report') return;
+    try {
+      replaceLink(await updateShareLinkExpiry(link.id, value ? endOfDay(parseISO(value)).toISOString() : null));
+    } catch (error) {
+      toast({
+        title: "Error updating expiry",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    }
+  };
+
+  const toggleLog = async (link: SharedAchievementRecord) => {
+    if (openLogId === link.id) {
+      setOpenLogId(null);
+      return;
+    }
+
+    setOpenLogId(link.id);
+    setAccessLog([]);
+    try {
+      setAccessLog(await listShareAccessLog(link.id));
+    } catch (error) {
+      console.error('Failed to load share access log:', error);
+    }
+  };
+
+  const copyLink = async (link: SharedAchievementRecord) => {
+    // Report links skip the preview function so their title never appears in a link preview
+    await navigator.clipboard.writeText(link.kind === 'report' ? shareLinkUrl(link.shareToken) : sharePreviewUrl(link.shareToken));
+    toast({
+      title: "Copied!",
+      description: "Share link copied to clipboard",
+    });
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <Link2 className="h-5 w-5 text-primary" />
+              My Shared Links
+            </CardTitle>
+            <CardDescription>
+              See who can open your share links, change when they expire, or revoke them
+            </CardDescription>
+          </div>
+          <div className="flex items-center gap-2">
+            <ReportShareDialog onCreated={(link) => setLinks([link, ...links])} />
+            <Button size="icon" variant="ghost" onClick={loadLinks} aria-label="Refresh shared links">
+              <RefreshCw className="h-4 w-4" />
+            </Button>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent>
+        <div className="space-y-3">
+          {links.length === 0 ? (
+            <div className="text-center py-6 text-muted-foreground">
+              <p>No share links yet</p>
+              <p className="text-sm">Use the Share button on your achievements or progress, or share a report</p>
+            </div>
+          ) : (
+            links.map((link) => {
+              const status = shareLinkStatus(link);
+              return (
+                <div key={link.id} className="p-3 rounded-lg border bg-card space-y-3">
+                  <div className="flex items-start justify-between gap-3">
+                    <div className="space-y-1">
+                      <p className="font-medium">{link.title}</p>
+                      <div className="flex flex-wrap items-center gap-2 text-xs text-muted-foreground">
+                        <Badge variant="outline">{KIND_LABELS[link.kind]}</Badge>
+                        <Badge variant="outline">{audienceLabel(link)}</Badge>
+                        <span>Created {new Date(link.createdAt).toLocaleDateString()}</span>
+                        {link.revokedReason === 'pin_failures' && (
+                          <span className="text-destructive">· Closed after 10 incorrect PINs</span>
+                        )}
+                        <span>
+                          · {link.viewCount} {link.viewCount === 1 ? 'view' : 'views'}
+                          {link.lastViewedAt && `, last ${new Date(link.lastViewedAt).toLocaleString()}`}
+                        </span>
+                      </div>
+                    </div>
+                    <div className="flex items-center gap-1">
+                      <Badge variant={status === 'active' ? 'default' : 'secondary'}>{STATUS_LABELS[status]}</Badge>
+                      <Button size="icon" variant="ghost" onClick={() => copyLink(link)} aria-label="Copy link">
+                        <Copy className="h-4 w-4" />
+                      </Button>
+                      <Button size="icon" variant="ghost" onClick={() => toggleLog(link)} aria-label="Show access log">
+                        <History className="h-4 w-4" />
+                      </Button>
+                      {status !== 'revoked' && (
+                        <Button size="icon" variant="ghost" onClick={() => handleRevoke(link)} aria-label="Revoke link">
+                          <Ban className="h-4 w-4 text-destructive" />
+                        </Button>
+                      )}
+                    </div>
+                  </div>
+
+                  {status !== 'revoked' && (
+                    <div className="flex items-center gap-2">
+                      <Label htmlFor={`share-expiry-${link.id}`} className="text-xs text-muted-foreground">
+                        Expires on
+                      </Label>
+                      <Input
+                        id={`share-expiry-${link.id}`}
+                        type="date"
+                        className="h-8 w-44"
+                        max={latestExpiry(link)}
+                        value={link.expiresAt ? format(new Date(link.expiresAt), 'yyyy-MM-dd') : ''}
+                        onChange={(e) => handleExpiryChange(link, e.target.value)}
+                      />
+                      {!link.expiresAt && <span className="text-xs text-muted-foreground">Never</span>}
+                    </div>
+                  )}
+
+                  {openLogId === link.id && (
+                    <div className="border-t pt-2 text-xs space-y-1">
+                      {accessLog.length === 0 ? (
+                        <p className="text-muted-foreground">Nobody has opened this link yet</p>
+                      ) : (
+                        accessLog.map((entry) => (
+                          <div key={entry.id} className="flex justify-between">
+                            <span>{OUTCOME_LABELS[entry.outcome]}{entry.viewerUserId ? ' by a signed-in user' : ''}</span>
+                            <span className="text-muted-foreground">{new Date(entry.viewedAt).toLocaleString()}</span>
+                          </div>
+                        ))
+                      )}
+                    </div>
+                  )}
+                </div>
+              );
+            })
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
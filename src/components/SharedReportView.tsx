@@ -0,0 +1,304 @@
+import { useState, useEffect } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Lock, Printer } from 'lucide-react';
+import { CATEGORY_LABELS, isVideoPredictionAvailable } from '@/utils/scoring';
+import { fusionStrategies } from '@/utils/fusion';
+import { MoodValue } from '@/integrations/supabase/moodLogs';
+import { SharedReport, SharedReportView as ReportView, fetchSharedReport } from '@/integrations/supabase/sharedAchievements';
+
+const ROLE_LABELS: Record<SharedReport['role'], string> = {
+  individual: 'Self-assessment',
+  parent: 'Parent / caregiver report',
+  clinician: 'Clinician observation',
+};
+
+const MOOD_LABELS: Record<MoodValue, string> = {
+  good: 'Good',
+  okay: 'Okay',
+  tough: 'Tough',
+};
+
+function ReportSection({ title, children }: { title: string; children: React.ReactNode }) {
+  return (
+    <section className="space-y-2 break-inside-avoid">
+      <h2 className="text-lg font-semibold border-b pb-1">{title}</h2>
+      {children}
+    </section>
+  );
+}
+
+function ReportBody({ report }: { report: SharedReport }) {
+  const { scores, contributors, videoAnalysis, moodHistory } = report;
+  const prediction = videoAnalysis?.prediction ?? null;
+
+  return (
+    <div className="space-y-6 text-sm">
+      <dl className="grid grid-cols-2 gap-x-6 gap-y-1">
+        {report.childName && (
+          <>
+            <dt className="text-muted-foreground">Child</dt>
+            <dd>{report.childName}{report.childAge && `, age ${report.childAge}`}</dd>
+          </>
+        )}
+        <dt className="text-muted-foreground">Assessed</dt>
+        <dd>{new Date(report.assessedAt).toLocaleString()}</dd>
+        <dt className="text-muted-foreground">Completed as</dt>
+        <dd>{ROLE_LABELS[report.role]}</dd>
+        <dt className="text-muted-foreground">Questionnaire</dt>
+        <dd>
+          {scores?.instrument ? scores.instrument.instrumentName : `AutiCare question bank ${report.questionBankVersion}`}
+        </dd>
+      </dl>
+
+      {scores && (
+        <ReportSection title="Scores">
+          {scores.instrument ? (
+            <div className="space-y-1">
+              <p>
+                <span className="font-semibold">{scores.instrument.screenResult}</span> ({scores.instrument.score} /{' '}
+                {scores.instrument.maxScore}
+                {scores.instrument.followUpScore !== undefined && `, follow-up ${scores.instrument.followUpScore}`})
+              </p>
+              <p>{scores.instrument.interpretation}</p>
+            </div>
+          ) : (
+            <>
+              <p>
+                Normalized score <span className="font-semibold">{scores.normalizedScore.toFixed(1)}</span> / 100
+                {scores.fusedScore !== null && (
+                  <> · with video analysis <span className="font-semibold">{scores.fusedScore.toFixed(1)}</span></>
+                )}
+              </p>
+              <p>
+                {scores.severityLabel} (raw {scores.rawTotal} of {scores.maxPossible})
+              </p>
+              {scores.categoryScores && (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Domain</TableHead>
+                      <TableHead className="text-right">Score (0-100)</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {Object.entries(scores.categoryScores).map(([category, value]) => (
+                      <TableRow key={category}>
+                        <TableCell>{CATEGORY_LABELS[category as keyof typeof CATEGORY_LABELS]}</TableCell>
+                        <TableCell className="text-right">{value?.toFixed(1)}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
+            </>
+          )}
+        </ReportSection>
+      )}
+
+      {contributors && (
+        <ReportSection title="Main contributors">
+          {contributors.contributions ? (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Item</TableHead>
+                  <TableHead>Domain</TableHead>
+                  <TableHead className="text-right">Answer (0-4)</TableHead>
+                  <TableHead className="text-right">Contribution</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {contributors.contributions.map((item) => (
+                  <TableRow key={item.questionId}>
+                    <TableCell>{item.question}</TableCell>
+                    <TableCell>{CATEGORY_LABELS[item.category]}</TableCell>
+                    <TableCell className="text-right">{item.value}</TableCell>
+                    <TableCell className="text-right">{item.contribution.toFixed(1)}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          ) : (
+            <ul className="list-disc pl-5 space-y-1">
+              {contributors.topContributors.map((item) => (
+                <li key={item.question}>
+                  {item.question} ({item.contribution.toFixed(1)})
+                </li>
+              ))}
+            </ul>
+          )}
+        </ReportSection>
+      )}
+
+      {videoAnalysis && (
+        <ReportSection title="Video analysis">
+          {isVideoPredictionAvailable(prediction) ? (
+            <div className="space-y-1">
+              <p>
+                Model score <span className="font-semibold">{prediction.prediction_score.toFixed(1)}</span> / 100,
+                confidence {(prediction.confidence * 100).toFixed(0)}% (source: ML model)
+              </p>
+              {videoAnalysis.fusionStrategy && (
+                <p>Combined with the questionnaire using: {fusionStrategies[videoAnalysis.fusionStrategy].name}</p>
+              )}
+            </div>
+          ) : prediction ? (
+            <p>Video analysis was unavailable ({prediction.reason}). Scores are from the questionnaire only.</p>
+          ) : (
+            <p className="text-muted-foreground">No video was analysed for this assessment.</p>
+          )}
+        </ReportSection>
+      )}
+
+      {moodHistory && (
+        <ReportSection title="Mood check-ins (last 90 days)">
+          {moodHistory.length === 0 ? (
+            <p className="text-muted-foreground">No check-ins recorded.</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Date</TableHead>
+                  <TableHead>Mood</TableHead>
+                  <TableHead>Note</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {moodHistory.map((entry) => (
+                  <TableRow key={entry.createdAt}>
+                    <TableCell>{new Date(entry.createdAt).toLocaleDateString()}</TableCell>
+                    <TableCell>{MOOD_LABELS[entry.mood]}</TableCell>
+                    <TableCell>{entry.note}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </ReportSection>
+      )}
+
+      <p className="text-xs text-muted-foreground">
+        AutiCare is a screening aid, not a diagnostic tool. Results should be interpreted alongside a clinical
+        evaluation.
+      </p>
+    </div>
+  );
+}
+
+interface SharedReportViewProps {
+  token: string;
+}
+
+// Clinician-facing report behind a report share link; asks for the PIN when the link has one
+export function SharedReportView({ token }: SharedReportViewProps) {
+  const [view, setView] = useState<ReportView | null | undefined>(undefined);
+  const [pin, setPin] = useState('');
+  const [pinRejected, setPinRejected] = useState(false);
+  const [checking, setChecking] = useState(false);
+
+  useEffect(() => {
+    fetchSharedReport(token)
+      .then(setView)
+      .catch((error) => {
+        console.error('Failed to load shared report:', error);
+        setView(null);
+      });
+  }, [token]);
+
+  const handleSubmitPin = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setChecking(true);
+    try {
+      const next = await fetchSharedReport(token, pin);
+      setPinRejected(next.status === 'pin_required');
+      setView(next);
+    } catch (error) {
+      console.error('Failed to load shared report:', error);
+      setView(null);
+    } finally {
+      setChecking(false);
+    }
+  };
+
+  if (view === undefined) {
+    return <div className="min-h-screen flex items-center justify-center text-muted-foreground">Loading…</div>;
+  }
+
+  if (view === null || view.status !== 'active') {
+    const messages: Record<string, { title: string; description: string }> = {
+      error: { title: 'Something went wrong', description: "We couldn't open this report. Please try again later." },
+      expired: { title: 'This report link has expired', description: 'Ask the family for a new link.' },
+      revoked: {
+        title: 'This report is no longer available',
+        description: 'The family may have revoked the link, or it was closed after too many incorrect PINs.',
+      },
+      pin_required: {
+        title: 'Enter the PIN',
+        description: 'The family protected this report with a PIN. They will have sent it to you separately.',
+      },
+    };
+    const message = messages[view?.status ?? 'error'];
+
+    return (
+      <div className="min-h-screen flex items-center justify-center p-4">
+        <Card className="max-w-md w-full">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              {view?.status === 'pin_required' && <Lock className="h-5 w-5 text-primary" />}
+              {message.title}
+            </CardTitle>
+            <CardDescription>{message.description}</CardDescription>
+          </CardHeader>
+          {view?.status === 'pin_required' && (
+            <CardContent>
+              <form onSubmit={handleSubmitPin} className="space-y-3">
+                <div className="space-y-2">
+                  <Label htmlFor="report-pin">PIN</Label>
+                  <Input
+                    id="report-pin"
+                    inputMode="numeric"
+                    autoComplete="off"
+                    maxLength={8}
+                    value={pin}
+                    onChange={(e) => setPin(e.target.value.replace(/\D/g, ''))}
+                  />
+                  {pinRejected && (
+                    <p className="text-sm text-destructive">
+                      That PIN is not correct. The link stops working after 10 incorrect PINs.
+                    </p>
+                  )}
+                </div>
+                <Button type="submit" className="w-full" disabled={checking || pin.length < 4}>
+                  Open report
+                </Button>
+              </form>
+            </CardContent>
+          )}
+        </Card>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen p-4 md:p-8 max-w-3xl mx-auto space-y-6 print:p-0">
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-bold">{view.title}</h1>
+          <p className="text-sm text-muted-foreground">
+            AutiCare screening report · shared {new Date(view.createdAt).toLocaleDateString()} · link valid until{' '}
+            {new Date(view.expiresAt).toLocaleDateString()}
+          </p>
+        </div>
+        <Button variant="outline" onClick={() => window.print()} className="print:hidden">
+          <Printer className="h-4 w-4 mr-2" />
+          Print
+        </Button>
+      </div>
+      <ReportBody report={view.report} />
+    </div>
+  );
+}
@@ -8,12 +8,13 @@ import { Input } from "@/components/ui/input";
 import { Share2, Copy, Check, ExternalLink } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 import { supabase } from "@/integrations/supabase/client";
+import { NewShareLink, ShareContent, saveShareLink, sharePreviewUrl } from "@/integrations/supabase/sharedAchievements";
 
 interface SocialShareProps {
-  type: 'achievement' | 'progress';
+  type: NewShareLink['kind'];
   data: {
     title: string;
-    content: any;
+    content: ShareContent;
   };
 }
 
@@ -30,21 +31,14 @@ export function SocialShare({ type, data }: SocialShareProps) {
       const { data: { user } } = await supabase.auth.getUser();
       if (!user) throw new Error('Not authenticated');
 
-      const { data: shareData, error } = await supabase
-        .from('shared_achievements')
-        .insert({
-          user_id: user.id,
-          title: data.title,
-          content: data.content,
-          is_public: isPublic,
-        })
-        .select()
-        .single();
-
-      if (error) throw error;
+      const link = await saveShareLink(user.id, {
+        kind: type,
+        title: data.title,
+        content: data.content,
+        isPublic,
+      });
 
-      const url = `${window.location.origin}/shared/${shareData.share_token}`;
-      setShareUrl(url);
+      setShareUrl(sharePreviewUrl(link.shareToken));
       
       toast({
         title: "Share link created!",
@@ -0,0 +1,75 @@
+// AQ-10: Autism Spectrum Quotient, 10-item adult version
+// One point per item answered in the autistic-trait direction (either "definitely" or "slightly");
+// a score of 6 or more suggests referral for a specialist diagnostic assessment.
+import { InstrumentAnswers, InstrumentItem, InstrumentModule, InstrumentResult } from './types';
+
+export const AQ10_REFERRAL_THRESHOLD = 6;
+
+const agreement = [
+  { value: 'definitely_agree', label: 'Definitely agree' },
+  { value: 'slightly_agree', label: 'Slightly agree' },
+  { value: 'slightly_disagree', label: 'Slightly disagree' },
+  { value: 'definitely_disagree', label: 'Definitely disagree' },
+];
+
+// scoresOn: which side of the scale earns the point
+const items: { n: number; text: string; scoresOn: 'agree' | 'disagree' }[] = [
+  { n: 1, text: 'I often notice small sounds when others do not', scoresOn: 'agree' },
+  { n: 2, text: 'I usually concentrate more on the whole picture, rather than the small details', scoresOn: 'disagree' },
+  { n: 3, text: 'I find it easy to do more than one thing at once', scoresOn: 'disagree' },
+  { n: 4, text: 'If there is an interruption, I can switch back to what I was doing very quickly', scoresOn: 'disagree' },
+  { n: 5, text: "I find it easy to 'read between the lines' when someone is talking to me", scoresOn: 'disagree' },
+  { n: 6, text: 'I know how to tell if someone listening to me is getting bored', scoresOn: 'disagree' },
+  { n: 7, text: "When I'm reading a story I find it difficult to work out the characters' intentions", scoresOn: 'agree' },
+  { n: 8, text: 'I like to collect information about categories of things (e.g. types of car, types of bird, types of train, types of plant etc)', scoresOn: 'agree' },
+  { n: 9, text: 'I find it easy to work out what someone is thinking or feeling just by looking at their face', scoresOn: 'disagree' },
+  { n: 10, text: "I find it difficult to work out people's intentions", scoresOn: 'agree' },
+];
+
+const itemId = (n: number) => `aq10_${n}`;
+
+const scoresPoint = (scoresOn: 'agree' | 'disagree', answer: string | undefined) =>
+  answer !== undefined && answer.split('_')[1] === scoresOn;
+
+function getItems(): InstrumentItem[] {
+  return items.map((item) => ({ id: itemId(item.n), text: item.text, options: agreement }));
+}
+
+function score(answers: InstrumentAnswers): InstrumentResult {
+  const flagged = items.filter((item) => scoresPoint(item.scoresOn, answers[itemId(item.n)]));
+  const refer = flagged.length >= AQ10_REFERRAL_THRESHOLD;
+
+  return {
+    instrumentId: 'aq10',
+    instrumentName: 'AQ-10',
+    score: flagged.length,
+    maxScore: items.length,
+    riskLevel: refer ? 'high' : 'low',
+    screenResult: refer ? 'Referral suggested' : 'Below referral threshold',
+    interpretation: refer
+      ? `You scored ${flagged.length} out of 10. A score of ${AQ10_REFERRAL_THRESHOLD} or more suggests a specialist diagnostic assessment may be worthwhile.`
+      : `You scored ${flagged.length} out of 10, below the referral threshold of ${AQ10_REFERRAL_THRESHOLD}. The AQ-10 is a screen, so speak to a professional if you still have concerns.`,
+    recommendations: refer
+      ? [
+          'Ask your GP or healthcare provider for a referral to a specialist autism assessment service',
+          'Take your AQ-10 result to the appointment',
+        ]
+      : [
+          'No referral is indicated by the AQ-10 alone',
+          'Seek advice if everyday difficulties continue',
+        ],
+    flaggedItems: flagged.map((item) => item.text),
+  };
+}
+
+export const aq10: InstrumentModule = {
+  id: 'aq10',
+  name: 'Autism Spectrum Quotient (AQ-10)',
+  shortName: 'AQ-10',
+  description: 'A 10-question self-report screen for adults (16+) without a learning disability, as recommended by NICE.',
+  version: 'aq10-2012',
+  roles: ['individual'],
+  copyright: '© Simon Baron-Cohen, Autism Research Centre, University of Cambridge',
+  getItems,
+  score,
+};
@@ -0,0 +1,19 @@
+// Registry of standard screening instruments offered alongside the AutiCare questionnaire
+import { aq10 } from './aq10';
+import { mchatRF } from './mchatRF';
+import { InstrumentAnswers, InstrumentId, InstrumentModule, toScoringResult } from './types';
+
+export * from './types';
+
+export const instruments: Record<InstrumentId, InstrumentModule> = {
+  'mchat-rf': mchatRF,
+  aq10,
+};
+
+export function getInstrumentsForRole(role: 'individual' | 'parent' | 'clinician'): InstrumentModule[] {
+  return Object.values(instruments).filter((instrument) => (instrument.roles as string[]).includes(role));
+}
+
+export function scoreInstrument(id: InstrumentId, answers: InstrumentAnswers) {
+  return toScoringResult(instruments[id].score(answers));
+}
@@ -0,0 +1,224 @@
+// M-CHAT-R/F: Modified Checklist for Autism in Toddlers, Revised with Follow-Up (16-30 months)
+// Scoring follows the published algorithm: 0-2 low risk, 3-7 medium risk (follow-up interview),
+// 8-20 high risk (refer without follow-up). Follow-up score >= 2 is a positive screen; a negative
+// follow-up settles the screen, so the result is reported as low risk.
+import { InstrumentAnswers, InstrumentItem, InstrumentModule, InstrumentResult } from './types';
+
+const yesNo = [
+  { value: 'yes', label: 'Yes' },
+  { value: 'no', label: 'No' },
+];
+
+const passFail = [
+  { value: 'pass', label: 'Pass - typical response after talking it through' },
+  { value: 'fail', label: 'Fail - concern confirmed' },
+];
+
+// For these items "Yes" indicates risk; for all others "No" does
+const REVERSED_ITEMS = new Set([2, 5, 12]);
+
+const items: { n: number; text: string; followUp: string }[] = [
+  {
+    n: 1,
+    text: 'If you point at something across the room, does your child look at it? (For example, if you point at a toy or an animal, does your child look at the toy or animal?)',
+    followUp: 'Ask for examples of what the child does when you point. Pass if the child usually looks at the object, not just at your hand.',
+  },
+  {
+    n: 2,
+    text: 'Have you ever wondered if your child might be deaf?',
+    followUp: 'Ask what led to the concern and whether hearing has been tested. Pass if hearing was tested and found normal.',
+  },
+  {
+    n: 3,
+    text: 'Does your child play pretend or make-believe? (For example, pretend to drink from an empty cup, pretend to talk on a phone, or pretend to feed a doll or stuffed animal?)',
+    followUp: 'Ask for examples of pretend play. Pass if the child shows any pretend play.',
+  },
+  {
+    n: 4,
+    text: 'Does your child like climbing on things? (For example, furniture, playground equipment, or stairs)',
+    followUp: 'Ask whether the child enjoys climbing stairs, chairs or playground equipment. Pass if the child enjoys any climbing.',
+  },
+  {
+    n: 5,
+    text: 'Does your child make unusual finger movements near his or her eyes? (For example, does your child wiggle his or her fingers close to his or her eyes?)',
+    followUp: 'Ask for a description of the movements and how often they happen. Fail if unusual finger movements near the eyes happen more than twice a week.',
+  },
+  {
+    n: 6,
+    text: 'Does your child point with one finger to ask for something or to get help? (For example, pointing to a snack or toy that is out of reach)',
+    followUp: 'Ask what the child does when they want something out of reach. Pass if the child points with one finger to request.',
+  },
+  {
+    n: 7,
+    text: 'Does your child point with one finger to show you something interesting? (For example, pointing to an airplane in the sky or a big truck in the road)',
+    followUp: 'Ask whether the child points just to share interest, not to request. Pass if the child points to show things.',
+  },
+  {
+    n: 8,
+    text: 'Is your child interested in other children? (For example, does your child watch other children, smile at them, or go to them?)',
+    followUp: 'Ask how the child responds to other children at a playground or gathering. Pass if the child shows interest in children other than siblings.',
+  },
+  {
+    n: 9,
+    text: 'Does your child show you things by bringing them to you or holding them up for you to see - not to get help, but just to share? (For example, showing you a flower, a stuffed animal, or a toy truck)',
+    followUp: 'Ask whether the child brings objects just to share. Pass if the child shows things to share interest.',
+  },
+  {
+    n: 10,
+    text: 'Does your child respond when you call his or her name? (For example, does he or she look up, talk or babble, or stop what he or she is doing when you call his or her name?)',
+    followUp: 'Ask what the child does when called while busy with something they enjoy. Pass if the child usually responds to their name.',
+  },
+  {
+    n: 11,
+    text: 'When you smile at your child, does he or she smile back at you?',
+    followUp: 'Ask what makes the child smile. Pass if the child smiles back at you, not only at objects or when tickled.',
+  },
+  {
+    n: 12,
+    text: 'Does your child get upset by everyday noises? (For example, does your child scream or cry to noise such as a vacuum cleaner or loud music?)',
+    followUp: 'Ask how the child reacts to everyday noises such as a vacuum, blender or loud music. Fail if the child reacts with distress such as covering ears, screaming or crying.',
+  },
+  {
+    n: 13,
+    text: 'Does your child walk?',
+    followUp: 'Ask whether the child walks without holding on to anything. Pass if the child walks independently.',
+  },
+  {
+    n: 14,
+    text: 'Does your child look you in the eye when you are talking to him or her, playing with him or her, or dressing him or her?',
+    followUp: 'Ask whether the child makes eye contact during play, meals, dressing or when wanting something. Pass if the child looks you in the eye in two or more situations.',
+  },
+  {
+    n: 15,
+    text: 'Does your child try to copy what you do? (For example, wave bye-bye, clap, or make a funny noise when you do)',
+    followUp: 'Ask whether the child copies actions such as waving, clapping or silly noises. Pass if the child copies two or more actions.',
+  },
+  {
+    n: 16,
+    text: 'If you turn your head to look at something, does your child look around to see what you are looking at?',
+    followUp: 'Ask what the child does when you look at something interesting. Pass if the child looks toward what you are looking at.',
+  },
+  {
+    n: 17,
+    text: 'Does your child try to get you to watch him or her? (For example, does your child look at you for praise, or say "look" or "watch me"?)',
+    followUp: 'Ask whether the child seeks your attention to watch them play or do something. Pass if the child tries to get you to watch.',
+  },
+  {
+    n: 18,
+    text: 'Does your child understand when you tell him or her to do something? (For example, if you don\'t point, can your child understand "put the book on the chair" or "bring me the blanket"?)',
+    followUp: 'Ask whether the child follows an everyday instruction without gestures or cues. Pass if the child understands a simple instruction from words alone.',
+  },
+  {
+    n: 19,
+    text: 'If something new happens, does your child look at your face to see how you feel about it? (For example, if he or she hears a strange or funny noise, or sees a new toy, will he or she look at your face?)',
+    followUp: 'Ask what the child does on hearing a strange noise or seeing something new. Pass if the child checks your face to see your reaction.',
+  },
+  {
+    n: 20,
+    text: 'Does your child like movement activities? (For example, being swung or bounced on your knee)',
+    followUp: 'Ask how the child reacts to being swung or bounced. Pass if the child enjoys movement activities.',
+  },
+];
+
+const itemId = (n: number) => `mchat_${n}`;
+const followUpId = (n: number) => `mchat_fu_${n}`;
+
+const isAtRisk = (n: number, answer: string | undefined) =>
+  answer !== undefined && (REVERSED_ITEMS.has(n) ? answer === 'yes' : answer === 'no');
+
+const atRiskItems = (answers: InstrumentAnswers) => items.filter((item) => isAtRisk(item.n, answers[itemId(item.n)]));
+
+const initialItemsComplete = (answers: InstrumentAnswers) => items.every((item) => answers[itemId(item.n)] !== undefined);
+
+// The follow-up interview is only given for medium-risk totals, and only for the items that failed
+const needsFollowUp = (answers: InstrumentAnswers) => {
+  if (!initialItemsComplete(answers)) return false;
+  const score = atRiskItems(answers).length;
+  return score >= 3 && score <= 7;
+};
+
+function getItems(answers: InstrumentAnswers): InstrumentItem[] {
+  const initial = items.map((item) => ({ id: itemId(item.n), text: item.text, options: yesNo }));
+  if (!needsFollowUp(answers)) return initial;
+
+  const followUps = atRiskItems(answers).map((item) => ({
+    id: followUpId(item.n),
+    text: `Follow-up for question ${item.n}: ${item.text}`,
+    hint: item.followUp,
+    options: passFail,
+  }));
+  return [...initial, ...followUps];
+}
+
+function score(answers: InstrumentAnswers): InstrumentResult {
+  const failed = atRiskItems(answers);
+  const base = {
+    instrumentId: 'mchat-rf' as const,
+    instrumentName: 'M-CHAT-R/F',
+    score: failed.length,
+    maxScore: items.length,
+    flaggedItems: failed.map((item) => item.text),
+  };
+
+  if (failed.length <= 2) {
+    return {
+      ...base,
+      riskLevel: 'low',
+      screenResult: 'Low risk',
+      interpretation:
+        'The total score is 0-2, which is low risk. No further action is needed unless surveillance indicates risk.',
+      recommendations: [
+        'If your child is younger than 24 months, screen again after their second birthday',
+        'Keep up routine developmental check-ups',
+      ],
+    };
+  }
+
+  if (failed.length >= 8) {
+    return {
+      ...base,
+      riskLevel: 'high',
+      screenResult: 'High risk - refer',
+      interpretation:
+        'The total score is 8-20, which is high risk. The follow-up interview can be skipped and the child should be referred straight away.',
+      recommendations: [
+        'Refer immediately for a diagnostic evaluation',
+        'Refer for an early intervention eligibility evaluation',
+      ],
+    };
+  }
+
+  const followUpFails = failed.filter((item) => answers[followUpId(item.n)] === 'fail').length;
+  const positive = followUpFails >= 2;
+
+  return {
+    ...base,
+    followUpScore: followUpFails,
+    riskLevel: positive ? 'high' : 'low',
+    screenResult: positive ? 'Screen positive after follow-up' : 'Screen negative after follow-up',
+    interpretation: positive
+      ? `The total score is ${failed.length} (medium risk) and ${followUpFails} items still failed in the follow-up interview, which is a positive screen.`
+      : `The total score is ${failed.length} (medium risk), but fewer than 2 items failed in the follow-up interview, so the screen is negative.`,
+    recommendations: positive
+      ? [
+          'Refer for a diagnostic evaluation',
+          'Refer for an early intervention eligibility evaluation',
+        ]
+      : [
+          'Screen again at future well-child visits',
+          'Raise any new concerns with your healthcare provider',
+        ],
+  };
+}
+
+export const mchatRF: InstrumentModule = {
+  id: 'mchat-rf',
+  name: 'Modified Checklist for Autism in Toddlers, Revised with Follow-Up',
+  shortName: 'M-CHAT-R/F',
+  description: 'A 20-question parent checklist for toddlers aged 16-30 months, with a follow-up interview for medium scores.',
+  version: 'mchat-rf-2009',
+  roles: ['parent'],
+  copyright: '© 2009 Diana Robins, Deborah Fein, & Marianne Barton',
+  getItems,
+  score,
+};
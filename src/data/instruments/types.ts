@@ -0,0 +1,60 @@
+// Shared shape for standard screening instruments that run in place of the AutiCare questionnaire
+import type { ScoringResult } from '@/utils/scoring';
+
+export type InstrumentId = 'mchat-rf' | 'aq10';
+
+// Raw answers keyed by item id; values are the instrument's own option values
+export type InstrumentAnswers = Record<string, string>;
+
+export interface InstrumentItem {
+  id: string;
+  text: string;
+  options: { value: string; label: string }[];
+  hint?: string; // Shown under the item, e.g. interviewer guidance for follow-up questions
+}
+
+export interface InstrumentResult {
+  instrumentId: InstrumentId;
+  instrumentName: string;
+  score: number;
+  maxScore: number;
+  followUpScore?: number; // M-CHAT-R/F only, when the follow-up interview was given
+  riskLevel: 'low' | 'medium' | 'high';
+  screenResult: string; // e.g. "Screen positive"
+  interpretation: string;
+  recommendations: string[];
+  flaggedItems: string[]; // Item texts that scored a point
+}
+
+export interface InstrumentModule {
+  id: InstrumentId;
+  name: string;
+  shortName: string;
+  description: string;
+  version: string;
+  roles: Array<'individual' | 'parent'>;
+  copyright: string;
+  // Items to ask given the answers so far, which lets instruments branch (e.g. follow-up interviews)
+  getItems: (answers: InstrumentAnswers) => InstrumentItem[];
+  score: (answers: InstrumentAnswers) => InstrumentResult;
+}
+
+// Instruments report their own risk bands; map them onto the app's severity scale for the dashboard
+export function toScoringResult(result: InstrumentResult): ScoringResult {
+  const severity: ScoringResult['severity'] =
+    result.riskLevel === 'high' ? 'high' : result.riskLevel === 'medium' ? 'moderate' : 'low';
+
+  return {
+    normalizedScore: Math.round((result.score / result.maxScore) * 100),
+    severity,
+    severityLabel: `${result.instrumentName}: ${result.screenResult}`,
+    topContributors: result.flaggedItems.slice(0, 3).map((question) => ({
+      question,
+      contribution: 1,
+      action: result.recommendations[0] ?? 'Discuss this answer with a healthcare provider',
+    })),
+    rawTotal: result.score,
+    maxPossible: result.maxScore,
+    instrument: result,
+  };
+}
@@ -1,12 +1,44 @@
 // Question banks for each role
 // Exactly as specified in requirements
 
-import { QuestionWeight } from '@/utils/scoring';
+import {
+  AnswerValue,
+  QuestionWeight,
+  ClinicianObservation,
+  SeverityThreshold,
+  CLINICIAN_ITEM_IDS,
+  DEFAULT_SEVERITY_THRESHOLDS,
+  VideoOutcome,
+} from '@/utils/scoring';
+import type { FusionStrategyId } from '@/utils/fusion';
+
+// Developmental stage a question applies to, derived from the child's age
+export type AgeBand = 'toddler' | 'preschool' | 'school-age' | 'adolescent';
 
 export interface Question {
   id: string;
   text: string;
   category: QuestionWeight['category'];
+  ageBands?: AgeBand[]; // Omit to ask at every age
+  showIf?: { questionId: string; answers: AnswerValue[] }; // Only asked after one of these answers to an earlier question
+}
+
+// Version of the built-in bank below; published banks in Supabase take precedence.
+// Bump whenever question wording or weights change so stored assessments stay comparable
+export const QUESTION_BANK_VERSION = '1.2.0';
+
+// Everything that affects scoring, stored as one versioned record
+export interface QuestionBankDefinition {
+  individual: Question[];
+  parent: Question[];
+  categoryWeights: Record<QuestionWeight['category'], number>;
+  clinicianItemWeights: Record<string, number>;
+  severityThresholds: SeverityThreshold[];
+}
+
+export interface QuestionBank {
+  version: string;
+  definition: QuestionBankDefinition;
 }
 
 // Individual role questions (15 questions)
@@ -88,7 +120,7 @@ export const individualQuestions: Question[] = [
   },
 ];
 
-// Parent/Caregiver questions (20 questions + metadata)
+// Parent/Caregiver questions (20 core questions + metadata), plus age-specific items and follow-ups
 export const parentQuestions: Question[] = [
   {
     id: 'par_1',
@@ -110,10 +142,17 @@ export const parentQuestions: Question[] = [
     text: 'My child is oversensitive to certain sounds, textures, or lights',
     category: 'repetitive-sensory',
   },
+  {
+    id: 'par_4_fu',
+    text: 'Sensory sensitivities lead to meltdowns or stop my child from joining in activities',
+    category: 'repetitive-sensory',
+    showIf: { questionId: 'par_4', answers: ['often', 'always'] },
+  },
   {
     id: 'par_5',
     text: 'My child rarely initiates conversations or interactions with peers',
     category: 'social-communication',
+    ageBands: ['preschool', 'school-age', 'adolescent'],
   },
   {
     id: 'par_6',
@@ -124,12 +163,19 @@ export const parentQuestions: Question[] = [
     id: 'par_7',
     text: 'My child struggles to make or keep friends',
     category: 'social-communication',
+    ageBands: ['preschool', 'school-age', 'adolescent'],
   },
   {
     id: 'par_8',
     text: 'My child engages in repetitive behaviors like hand-flapping, spinning, or lining up toys',
     category: 'repetitive-sensory',
   },
+  {
+    id: 'par_8_fu',
+    text: 'These repetitive behaviors get in the way of everyday activities like meals, play or learning',
+    category: 'repetitive-sensory',
+    showIf: { questionId: 'par_8', answers: ['often', 'always'] },
+  },
   {
     id: 'par_9',
     text: 'My child has difficulty understanding emotions in themselves or others',
@@ -159,6 +205,7 @@ export const parentQuestions: Question[] = [
     id: 'par_14',
     text: 'My child has difficulty with imaginative or pretend play',
     category: 'social-communication',
+    ageBands: ['toddler', 'preschool', 'school-age'],
   },
   {
     id: 'par_15',
@@ -170,10 +217,17 @@ export const parentQuestions: Question[] = [
     text: 'My child had delays in reaching developmental milestones (speaking, walking, etc.)',
     category: 'developmental',
   },
+  {
+    id: 'par_16_fu',
+    text: 'My child has lost words or skills they used to have',
+    category: 'developmental',
+    showIf: { questionId: 'par_16', answers: ['often', 'always'] },
+  },
   {
     id: 'par_17',
     text: 'My child has difficulty taking turns or understanding social "rules"',
     category: 'social-communication',
+    ageBands: ['preschool', 'school-age', 'adolescent'],
   },
   {
     id: 'par_18',
@@ -185,6 +239,30 @@ export const parentQuestions: Question[] = [
     text: 'My child has unusual reactions to sensory experiences (seeking or avoiding)',
     category: 'repetitive-sensory',
   },
+  {
+    id: 'par_21',
+    text: 'My child does not point to show me things they find interesting',
+    category: 'social-communication',
+    ageBands: ['toddler', 'preschool'],
+  },
+  {
+    id: 'par_22',
+    text: 'My child does not look up or respond when I call their name',
+    category: 'social-communication',
+    ageBands: ['toddler', 'preschool'],
+  },
+  {
+    id: 'par_23',
+    text: 'My child finds group work or unstructured times at school, like breaks, hard to manage',
+    category: 'social-communication',
+    ageBands: ['school-age', 'adolescent'],
+  },
+  {
+    id: 'par_24',
+    text: 'My child struggles with the unwritten social rules of teenage friendships',
+    category: 'social-communication',
+    ageBands: ['adolescent'],
+  },
   {
     id: 'par_20',
     text: 'There is a family history of autism or related developmental conditions',
@@ -193,6 +271,7 @@ export const parentQuestions: Question[] = [
 ];
 
 export interface ParentMetadata {
+  childId?: string; // Saved child profile, when the parent picked or created one
   childName: string;
   childAge: string;
   pronouns: string;
@@ -200,39 +279,107 @@ export interface ParentMetadata {
   schoolType: string;
   diagnosedConditions: string[];
   videoUrl?: string;
-  videoPrediction?: any;
+  videoPrediction?: VideoOutcome | null;
+  videoAnalysisJobId?: string; // Background analysis of videoUrl; videoPrediction is set once it succeeds
+}
+
+// Child details collected on the first step of the clinician flow
+export interface ClinicianMetadata {
+  childName: string;
+  childAge: string;
+  pronoun: string;
+  homeLanguage: string;
+  problemsFaced: string;
+  fusionStrategy?: FusionStrategyId; // How questionnaire and video scores are combined
 }
 
 // Clinician structured inputs
-export interface ClinicianInput {
-  observedSocialReciprocity: number; // 0-4
-  observedRepetitiveBehavior: number; // 0-4
-  adosScore: number | null;
-  adiRScore: number | null;
+export interface ClinicianInput extends ClinicianObservation {
   clinicalNotes: string;
   uploadedFiles: File[];
+  attachmentPaths: string[]; // Paths in the private clinician-attachments bucket
+}
+
+// Clinician observation items (scored from ClinicianInput, not asked as questions)
+export const clinicianObservationItems: Question[] = [
+  {
+    id: CLINICIAN_ITEM_IDS.socialReciprocity,
+    text: 'Observed difficulties with social reciprocity',
+    category: 'social-communication',
+  },
+  {
+    id: CLINICIAN_ITEM_IDS.repetitiveBehavior,
+    text: 'Observed restricted or repetitive behavior',
+    category: 'repetitive-sensory',
+  },
+  {
+    id: CLINICIAN_ITEM_IDS.ados,
+    text: 'ADOS-2 calibrated severity score',
+    category: 'social-communication',
+  },
+  {
+    id: CLINICIAN_ITEM_IDS.adiR,
+    text: 'ADI-R diagnostic algorithm total',
+    category: 'developmental',
+  },
+];
+
+// Clinician item weights: direct observation and standardised instruments
+// outweigh self/parent report (social-communication 2.0, developmental 2.5)
+const clinicianItemWeights: Record<string, number> = {
+  [CLINICIAN_ITEM_IDS.socialReciprocity]: 3.0,
+  [CLINICIAN_ITEM_IDS.repetitiveBehavior]: 2.5,
+  [CLINICIAN_ITEM_IDS.ados]: 4.0,
+  [CLINICIAN_ITEM_IDS.adiR]: 3.5,
+};
+
+// Built-in bank, used until a published version is loaded (and when offline)
+export const defaultQuestionBank: QuestionBank = {
+  version: QUESTION_BANK_VERSION,
+  definition: {
+    individual: individualQuestions,
+    parent: parentQuestions,
+    categoryWeights: {
+      'social-communication': 2.0,
+      'repetitive-sensory': 1.5,
+      'developmental': 2.5,
+      'family-history': 6.0,
+    },
+    clinicianItemWeights,
+    severityThresholds: DEFAULT_SEVERITY_THRESHOLDS,
+  },
+};
+
+// Questions asked in the questionnaire (clinicians fill in a structured observation instead)
+export function getQuestionsForRole(
+  role: 'individual' | 'parent' | 'clinician',
+  bank: QuestionBankDefinition = defaultQuestionBank.definition
+): Question[] {
+  if (role === 'individual') return bank.individual;
+  if (role === 'parent') return bank.parent;
+  return [];
 }
 
 // Generate question weights
-export function getQuestionWeights(role: 'individual' | 'parent' | 'clinician'): QuestionWeight[] {
-  const questions = role === 'individual' ? individualQuestions : parentQuestions;
+export function getQuestionWeights(
+  role: 'individual' | 'parent' | 'clinician',
+  bank: QuestionBankDefinition = defaultQuestionBank.definition
+): QuestionWeight[] {
+  if (role === 'clinician') {
+    return clinicianObservationItems.map((item) => ({
+      id: item.id,
+      weight: bank.clinicianItemWeights[item.id] ?? clinicianItemWeights[item.id],
+      category: item.category,
+      text: item.text,
+    }));
+  }
+
+  const questions = getQuestionsForRole(role, bank);
   
   return questions.map((q) => ({
     id: q.id,
-    weight: getCategoryWeight(q.category),
+    weight: bank.categoryWeights[q.category],
     category: q.category,
+    text: q.text,
   }));
 }
-
-function getCategoryWeight(category: QuestionWeight['category']): number {
-  switch (category) {
-    case 'social-communication':
-      return 2.0;
-    case 'repetitive-sensory':
-      return 1.5;
-    case 'developmental':
-      return 2.5;
-    case 'family-history':
-      return 6.0;
-  }
-}
@@ -1,45 +1,74 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useRef } from 'react';
 import { ScoringResult } from '@/utils/scoring';
+import { supabase } from '@/integrations/supabase/client';
+import { PROGRESS_HISTORY_LIMIT } from '@/integrations/supabase/progressEntries';
+import { clearProgress, flushPendingProgress, loadProgress, mergeEntries, recordProgress } from '@/utils/progressSync';
 
 export interface ProgressEntry {
+  id: string; // Generated where the entry was recorded, so offline uploads are never duplicated
   date: string;
   score: number;
   severity: ScoringResult['severity'];
   role: 'individual' | 'parent' | 'clinician';
   timestamp: number;
+  childId?: string;
 }
 
-export function useProgressTracking() {
+// History is read per child (or for the user themselves without a childId); see utils/progressSync
+export function useProgressTracking(childId?: string) {
+  const [userId, setUserId] = useState<string | null | undefined>(undefined);
   const [history, setHistory] = useState<ProgressEntry[]>([]);
+  // Entries added on this screen, kept if a slower load of the saved history lands afterwards
+  const added = useRef<ProgressEntry[]>([]);
 
   useEffect(() => {
-    const stored = localStorage.getItem('auticare_progress_history');
-    if (stored) {
-      try {
-        setHistory(JSON.parse(stored));
-      } catch (e) {
-        console.error('Failed to parse progress history', e);
-      }
-    }
+    supabase.auth.getUser().then(({ data: { user } }) => setUserId(user?.id ?? null));
   }, []);
 
-  const addEntry = (result: ScoringResult, role: 'individual' | 'parent' | 'clinician') => {
+  useEffect(() => {
+    if (userId === undefined) return;
+
+    let cancelled = false;
+    loadProgress(userId, childId).then((entries) => {
+      if (!cancelled) setHistory(mergeEntries(entries, added.current).slice(-PROGRESS_HISTORY_LIMIT));
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [userId, childId]);
+
+  // Upload anything recorded offline as soon as the connection is back
+  useEffect(() => {
+    if (!userId) return;
+
+    const handleOnline = () => flushPendingProgress(userId);
+    window.addEventListener('online', handleOnline);
+    return () => window.removeEventListener('online', handleOnline);
+  }, [userId]);
+
+  const addEntry = async (result: ScoringResult, role: 'individual' | 'parent' | 'clinician') => {
     const entry: ProgressEntry = {
+      id: crypto.randomUUID(),
       date: new Date().toLocaleDateString(),
       score: result.normalizedScore,
       severity: result.severity,
       role,
       timestamp: Date.now(),
+      ...(childId ? { childId } : {}),
     };
 
-    const updated = [...history, entry].slice(-20); // Keep last 20 entries
-    setHistory(updated);
-    localStorage.setItem('auticare_progress_history', JSON.stringify(updated));
+    added.current = [...added.current, entry];
+    setHistory((prev) => mergeEntries(prev, [entry]).slice(-PROGRESS_HISTORY_LIMIT));
+
+    // Called before the user lookup above has finished, so look the user up here too
+    const { data: { user } } = await supabase.auth.getUser();
+    await recordProgress(user?.id ?? null, entry);
   };
 
-  const clearHistory = () => {
+  const clearHistory = async () => {
+    added.current = [];
     setHistory([]);
-    localStorage.removeItem('auticare_progress_history');
+    await clearProgress(userId ?? null, childId);
   };
 
   const getRecentEntries = (count: number = 5) => {
@@ -52,7 +81,7 @@ export function useProgressTracking() {
     const scores = recent.map(e => e.score);
     const avg = scores.reduce((a, b) => a + b, 0) / scores.length;
     const lastScore = scores[scores.length - 1];
-    
+
     if (lastScore > avg + 5) return 'improving';
     if (lastScore < avg - 5) return 'declining';
     return 'stable';
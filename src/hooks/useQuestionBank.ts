@@ -0,0 +1,14 @@
+import { useState, useEffect } from 'react';
+import { defaultQuestionBank, QuestionBank } from '@/data/questionBanks';
+import { fetchPublishedQuestionBank } from '@/integrations/supabase/questionBanks';
+
+// Start with the built-in bank so the questionnaire never waits on the network
+export function useQuestionBank() {
+  const [bank, setBank] = useState<QuestionBank>(defaultQuestionBank);
+
+  useEffect(() => {
+    fetchPublishedQuestionBank().then(setBank);
+  }, []);
+
+  return bank;
+}
@@ -1,6 +1,11 @@
 import { useState, useEffect } from 'react';
 import { supabase } from '@/integrations/supabase/client';
 import { useToast } from '@/hooks/use-toast';
+import {
+  DEFAULT_NOTIFICATION_PREFERENCES,
+  fetchNotificationPreferences,
+  isChannelEnabled,
+} from '@/integrations/supabase/notificationPreferences';
 
 export interface Badge {
   type: string;
@@ -70,26 +75,26 @@ export function useRewards() {
       .insert({ user_id: userId, badge_type: badgeType });
 
     if (!error) {
-      toast({
-        title: '🎉 Badge Unlocked!',
-        description: `${badge.icon} ${badge.name}: ${badge.description}`,
-      });
+      const preferences = await fetchNotificationPreferences(userId).catch(() => DEFAULT_NOTIFICATION_PREFERENCES);
+      if (isChannelEnabled(preferences, 'achievement', 'in_app')) {
+        toast({
+          title: '🎉 Badge Unlocked!',
+          description: `${badge.icon} ${badge.name}: ${badge.description}`,
+        });
+      }
       
-      // Send email notification
-      const { data: { user } } = await supabase.auth.getUser();
-      if (user?.email) {
-        supabase.functions.invoke('send-notification', {
-          body: {
-            email: user.email,
-            type: 'achievement',
-            data: {
-              title: badge.name,
-              description: badge.description,
-              icon: badge.icon,
-            },
+      // Sent by email and/or push, depending on the user's notification preferences. send-notification
+      // identifies the user from their session and emails their confirmed address.
+      supabase.functions.invoke('send-notification', {
+        body: {
+          type: 'achievement',
+          data: {
+            title: badge.name,
+            description: badge.description,
+            icon: badge.icon,
           },
-        }).catch(err => console.error('Failed to send email:', err));
-      }
+        },
+      }).catch(err => console.error('Failed to send notification:', err));
       
       await fetchBadges();
     }
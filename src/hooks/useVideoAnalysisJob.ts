@@ -0,0 +1,52 @@
+import { useState, useEffect, useRef } from 'react';
+import {
+  VideoAnalysisJob,
+  fetchVideoAnalysisJob,
+  isVideoAnalysisFinished,
+  subscribeToVideoAnalysisJob,
+} from '@/integrations/supabase/videoAnalysisJobs';
+
+// Realtime is the main source of updates; polling covers a dropped connection
+const POLL_INTERVAL_MS = 5000;
+
+// Follows a video analysis job until it succeeds or fails. onFinished runs once, when the job gets there.
+export function useVideoAnalysisJob(
+  jobId: string | null | undefined,
+  onFinished?: (job: VideoAnalysisJob) => void
+) {
+  const [job, setJob] = useState<VideoAnalysisJob | null>(null);
+  const onFinishedRef = useRef(onFinished);
+  onFinishedRef.current = onFinished;
+
+  useEffect(() => {
+    setJob(null);
+    if (!jobId) return;
+
+    let finished = false;
+    const update = (next: VideoAnalysisJob | null) => {
+      if (!next) return;
+      if (!finished && isVideoAnalysisFinished(next)) {
+        finished = true;
+        onFinishedRef.current?.(next);
+      }
+      setJob(next);
+    };
+    const refresh = () => {
+      if (finished) return;
+      fetchVideoAnalysisJob(jobId)
+        .then(update)
+        .catch((error) => console.error('Failed to load video analysis job:', error));
+    };
+
+    const unsubscribe = subscribeToVideoAnalysisJob(jobId, update);
+    refresh();
+    const interval = setInterval(refresh, POLL_INTERVAL_MS);
+
+    return () => {
+      unsubscribe();
+      clearInterval(interval);
+    };
+  }, [jobId]);
+
+  return job;
+}
@@ -0,0 +1,68 @@
+// Typed data layer for autosaved, in-progress questionnaires
+import { supabase } from './client';
+import type { Json, Tables } from './types';
+import type { AnswerValue } from '@/utils/scoring';
+import type { ClinicianInput, ClinicianMetadata, ParentMetadata } from '@/data/questionBanks';
+import type { InstrumentAnswers, InstrumentId } from '@/data/instruments';
+import type { AssessmentRole } from './assessments';
+
+// Everything needed to put a Questionnaire back where the user left it
+export interface QuestionnaireDraft {
+  role: AssessmentRole;
+  currentStep: number;
+  answers: Record<string, AnswerValue>;
+  instrumentId: InstrumentId | null;
+  instrumentAnswers: InstrumentAnswers;
+  metadata: ParentMetadata | null;
+  clinicianMetadata: (ClinicianMetadata & Pick<ParentMetadata, 'videoUrl' | 'videoPrediction' | 'videoAnalysisJobId'>) | null;
+  clinicianInput: Omit<ClinicianInput, 'uploadedFiles'> | null; // Files are re-attached from attachmentPaths
+  questionBankVersion?: string; // Bank the questionnaire started on; missing from older drafts
+  savedAt: string;
+}
+
+export const DRAFT_TTL_DAYS = 7;
+
+const toQuestionnaireDraft = (row: Tables<'assessment_drafts'>): QuestionnaireDraft => ({
+  ...(row.state as unknown as QuestionnaireDraft),
+  role: row.role as AssessmentRole,
+  savedAt: row.updated_at,
+});
+
+// Expired drafts are filtered out by RLS
+export async function fetchAssessmentDraft(userId: string): Promise<QuestionnaireDraft | null> {
+  const { data, error } = await supabase
+    .from('assessment_drafts')
+    .select('*')
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data ? toQuestionnaireDraft(data) : null;
+}
+
+export async function saveAssessmentDraft(userId: string, draft: QuestionnaireDraft): Promise<void> {
+  const expiresAt = new Date(Date.now() + DRAFT_TTL_DAYS * 24 * 60 * 60 * 1000).toISOString();
+
+  const { error } = await supabase
+    .from('assessment_drafts')
+    .upsert(
+      {
+        user_id: userId,
+        role: draft.role,
+        state: draft as unknown as Json,
+        expires_at: expiresAt,
+      },
+      { onConflict: 'user_id' }
+    );
+
+  if (error) throw error;
+}
+
+export async function deleteAssessmentDraft(userId: string): Promise<void> {
+  const { error } = await supabase
+    .from('assessment_drafts')
+    .delete()
+    .eq('user_id', userId);
+
+  if (error) throw error;
+}
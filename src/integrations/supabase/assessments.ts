@@ -0,0 +1,142 @@
+// Typed data layer for persisted assessments
+import { supabase } from './client';
+import type { Json, Tables } from './types';
+import { toVideoOutcome } from '@/utils/scoring';
+import type { Answer, ScoringResult } from '@/utils/scoring';
+import type { ParentMetadata } from '@/data/questionBanks';
+import type { InstrumentId } from '@/data/instruments';
+
+export type AssessmentRole = 'individual' | 'parent' | 'clinician';
+
+// Standard instruments keep their own option values (e.g. 'yes', 'slightly_agree')
+export interface InstrumentAnswer {
+  questionId: string;
+  value: string;
+}
+
+export interface AssessmentRecord {
+  id: string;
+  userId: string;
+  childId: string | null;
+  role: AssessmentRole;
+  instrument: InstrumentId | null; // null for the AutiCare questionnaire
+  answers: Answer[] | InstrumentAnswer[];
+  questionBankVersion: string;
+  metadata: ParentMetadata | null;
+  videoUrl: string | null;
+  videoPrediction: ScoringResult['videoPrediction'] | null;
+  result: ScoringResult;
+  createdAt: string;
+}
+
+export interface NewAssessment {
+  childId?: string | null;
+  role: AssessmentRole;
+  instrument?: InstrumentId | null;
+  answers: Answer[] | InstrumentAnswer[];
+  questionBankVersion: string;
+  metadata?: ParentMetadata | null;
+  result: ScoringResult;
+}
+
+// Placeholder predictions saved by older versions are read back as unavailable and never count as fused
+const toScoringResult = (stored: Json): ScoringResult => {
+  const result = stored as unknown as ScoringResult;
+  const videoPrediction = toVideoOutcome(result.videoPrediction);
+  if (videoPrediction?.source !== 'unavailable') return { ...result, videoPrediction };
+  return { ...result, videoPrediction, fusedScore: undefined, fusionStrategy: undefined };
+};
+
+const toAssessmentRecord = (row: Tables<'assessments'>): AssessmentRecord => ({
+  id: row.id,
+  userId: row.user_id,
+  childId: row.child_id,
+  role: row.role as AssessmentRole,
+  instrument: row.instrument as InstrumentId | null,
+  answers: (row.answers ?? []) as unknown as Answer[] | InstrumentAnswer[],
+  questionBankVersion: row.question_bank_version,
+  metadata: row.metadata as unknown as ParentMetadata | null,
+  videoUrl: row.video_url,
+  videoPrediction: toVideoOutcome(row.video_prediction) ?? null,
+  result: toScoringResult(row.result),
+  createdAt: row.created_at,
+});
+
+export async function saveAssessment(userId: string, assessment: NewAssessment): Promise<AssessmentRecord> {
+  const { result } = assessment;
+
+  const { data, error } = await supabase
+    .from('assessments')
+    .insert({
+      user_id: userId,
+      child_id: assessment.childId ?? null,
+      role: assessment.role,
+      instrument: assessment.instrument ?? null,
+      answers: assessment.answers as unknown as Json,
+      question_bank_version: assessment.questionBankVersion,
+      metadata: (assessment.metadata ?? null) as unknown as Json,
+      video_url: assessment.metadata?.videoUrl || null,
+      video_prediction: (result.videoPrediction ?? null) as unknown as Json,
+      result: result as unknown as Json,
+      normalized_score: result.normalizedScore,
+      fused_score: result.fusedScore ?? null,
+      severity: result.severity,
+    })
+    .select()
+    .single();
+
+  if (error) throw error;
+  return toAssessmentRecord(data);
+}
+
+// Replaces the stored result, e.g. once a background video analysis has been fused in
+export async function updateAssessmentResult(assessmentId: string, result: ScoringResult): Promise<AssessmentRecord> {
+  const { data, error } = await supabase
+    .from('assessments')
+    .update({
+      video_prediction: (result.videoPrediction ?? null) as unknown as Json,
+      result: result as unknown as Json,
+      fused_score: result.fusedScore ?? null,
+      severity: result.severity,
+    })
+    .eq('id', assessmentId)
+    .select()
+    .single();
+
+  if (error) throw error;
+  return toAssessmentRecord(data);
+}
+
+// Pass a childId to scope the lookup to one child's assessments
+export async function fetchLatestAssessment(userId: string, childId?: string): Promise<AssessmentRecord | null> {
+  let query = supabase
+    .from('assessments')
+    .select('*')
+    .eq('user_id', userId);
+
+  if (childId) query = query.eq('child_id', childId);
+
+  const { data, error } = await query
+    .order('created_at', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data ? toAssessmentRecord(data) : null;
+}
+
+export async function listAssessments(userId: string, limit = 20, childId?: string): Promise<AssessmentRecord[]> {
+  let query = supabase
+    .from('assessments')
+    .select('*')
+    .eq('user_id', userId);
+
+  if (childId) query = query.eq('child_id', childId);
+
+  const { data, error } = await query
+    .order('created_at', { ascending: false })
+    .limit(limit);
+
+  if (error) throw error;
+  return (data ?? []).map(toAssessmentRecord);
+}
@@ -0,0 +1,53 @@
+// Typed data layer for iCalendar subscription feeds of a user's reminders
+import { supabase } from './client';
+import type { Tables } from './types';
+
+export interface CalendarFeedRecord {
+  id: string;
+  token: string;
+  url: string;
+  createdAt: string;
+}
+
+const CALENDAR_FEED_FUNCTION_URL = `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/calendar-feed`;
+
+const toCalendarFeedRecord = (row: Tables<'calendar_feeds'>): CalendarFeedRecord => ({
+  id: row.id,
+  token: row.token,
+  url: `${CALENDAR_FEED_FUNCTION_URL}?token=${row.token}`,
+  createdAt: row.created_at,
+});
+
+async function createCalendarFeed(userId: string): Promise<CalendarFeedRecord> {
+  const { data, error } = await supabase
+    .from('calendar_feeds')
+    .insert({ user_id: userId })
+    .select()
+    .single();
+
+  if (error) throw error;
+  return toCalendarFeedRecord(data);
+}
+
+// Feeds are created on first use so users who never subscribe have no live token
+export async function getOrCreateCalendarFeed(userId: string): Promise<CalendarFeedRecord> {
+  const { data, error } = await supabase
+    .from('calendar_feeds')
+    .select('*')
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data ? toCalendarFeedRecord(data) : createCalendarFeed(userId);
+}
+
+// Issues a new token; calendars subscribed to the old URL stop updating
+export async function resetCalendarFeed(userId: string): Promise<CalendarFeedRecord> {
+  const { error } = await supabase
+    .from('calendar_feeds')
+    .delete()
+    .eq('user_id', userId);
+
+  if (error) throw error;
+  return createCalendarFeed(userId);
+}
@@ -0,0 +1,115 @@
+// Typed data layer for clinician-to-family care links
+import { supabase } from './client';
+import type { Tables } from './types';
+
+export type CareLinkStatus = 'pending' | 'active' | 'revoked';
+
+export interface CareLinkRecord {
+  id: string;
+  patientUserId: string;
+  clinicianUserId: string | null;
+  inviteCode: string;
+  status: CareLinkStatus;
+  inviteExpiresAt: string;
+  inviteEmailedAt: string | null;
+  acceptedAt: string | null;
+  revokedAt: string | null;
+  createdAt: string;
+  // Display name of the other side of the link, when visible
+  counterpartName: string | null;
+}
+
+const toCareLinkRecord = (row: Tables<'care_links'>, counterpartName: string | null = null): CareLinkRecord => ({
+  id: row.id,
+  patientUserId: row.patient_user_id,
+  clinicianUserId: row.clinician_user_id,
+  inviteCode: row.invite_code,
+  status: row.status as CareLinkStatus,
+  inviteExpiresAt: row.invite_expires_at,
+  inviteEmailedAt: row.invite_emailed_at,
+  acceptedAt: row.accepted_at,
+  revokedAt: row.revoked_at,
+  createdAt: row.created_at,
+  counterpartName,
+});
+
+// Profiles are only readable across an active link, so missing names are expected for pending/revoked rows
+async function fetchProfileNames(userIds: string[]): Promise<Record<string, string>> {
+  if (userIds.length === 0) return {};
+
+  const { data, error } = await supabase
+    .from('profiles')
+    .select('user_id, name')
+    .in('user_id', userIds);
+
+  if (error) throw error;
+  return Object.fromEntries((data ?? []).map((p) => [p.user_id, p.name]));
+}
+
+export async function createCareInvite(patientUserId: string): Promise<CareLinkRecord> {
+  const { data, error } = await supabase
+    .from('care_links')
+    .insert({ patient_user_id: patientUserId })
+    .select()
+    .single();
+
+  if (error) throw error;
+  return toCareLinkRecord(data);
+}
+
+// Links where the current user is the family side
+export async function listPatientCareLinks(patientUserId: string): Promise<CareLinkRecord[]> {
+  const { data, error } = await supabase
+    .from('care_links')
+    .select('*')
+    .eq('patient_user_id', patientUserId)
+    .order('created_at', { ascending: false });
+
+  if (error) throw error;
+
+  const rows = data ?? [];
+  const names = await fetchProfileNames(
+    rows.filter((r) => r.status === 'active' && r.clinician_user_id).map((r) => r.clinician_user_id!)
+  );
+  return rows.map((r) => toCareLinkRecord(r, r.clinician_user_id ? names[r.clinician_user_id] ?? null : null));
+}
+
+// Links where the current user is the clinician side
+export async function listClinicianCareLinks(clinicianUserId: string): Promise<CareLinkRecord[]> {
+  const { data, error } = await supabase
+    .from('care_links')
+    .select('*')
+    .eq('clinician_user_id', clinicianUserId)
+    .order('accepted_at', { ascending: false });
+
+  if (error) throw error;
+
+  const rows = data ?? [];
+  const names = await fetchProfileNames(
+    rows.filter((r) => r.status === 'active').map((r) => r.patient_user_id)
+  );
+  return rows.map((r) => toCareLinkRecord(r, names[r.patient_user_id] ?? null));
+}
+
+export async function redeemCareInvite(inviteCode: string): Promise<string> {
+  const { data, error } = await supabase.rpc('redeem_care_invite', { invite_code: inviteCode.trim() });
+
+  if (error) throw error;
+  if (!data) throw new Error('Invite code is invalid or has expired');
+  return data;
+}
+
+// Emails a pending invite's code to the clinician; each invite can be emailed once
+export async function emailCareInvite(linkId: string, inviteEmail: string): Promise<void> {
+  const { error } = await supabase.functions.invoke('send-notification', {
+    body: { type: 'care_invite', careLinkId: linkId, inviteEmail: inviteEmail.trim() },
+  });
+
+  if (error) throw error;
+}
+
+export async function revokeCareLink(linkId: string): Promise<void> {
+  const { error } = await supabase.rpc('revoke_care_link', { link_id: linkId });
+
+  if (error) throw error;
+}
@@ -0,0 +1,89 @@
+// Typed data layer for a parent's child profiles
+import { supabase } from './client';
+import type { Tables } from './types';
+import type { ParentMetadata } from '@/data/questionBanks';
+
+export interface ChildProfile {
+  id: string;
+  parentUserId: string;
+  name: string;
+  age: string;
+  pronouns: string;
+  homeLanguage: string;
+  schoolType: string;
+  diagnosedConditions: string[];
+}
+
+const toChildProfile = (row: Tables<'children'>): ChildProfile => ({
+  id: row.id,
+  parentUserId: row.parent_user_id,
+  name: row.name,
+  age: row.age ?? '',
+  pronouns: row.pronouns ?? '',
+  homeLanguage: row.home_language ?? '',
+  schoolType: row.school_type ?? '',
+  diagnosedConditions: row.diagnosed_conditions ?? [],
+});
+
+const toChildColumns = (metadata: ParentMetadata) => ({
+  name: metadata.childName,
+  age: metadata.childAge || null,
+  pronouns: metadata.pronouns || null,
+  home_language: metadata.homeLanguage || null,
+  school_type: metadata.schoolType || null,
+  diagnosed_conditions: metadata.diagnosedConditions ?? [],
+});
+
+// Prefill questionnaire metadata from a saved child profile
+export function toParentMetadata(child: ChildProfile): ParentMetadata {
+  return {
+    childId: child.id,
+    childName: child.name,
+    childAge: child.age,
+    pronouns: child.pronouns,
+    homeLanguage: child.homeLanguage,
+    schoolType: child.schoolType,
+    diagnosedConditions: child.diagnosedConditions,
+  };
+}
+
+export async function listChildren(parentUserId: string): Promise<ChildProfile[]> {
+  const { data, error } = await supabase
+    .from('children')
+    .select('*')
+    .eq('parent_user_id', parentUserId)
+    .order('created_at', { ascending: true });
+
+  if (error) throw error;
+  return (data ?? []).map(toChildProfile);
+}
+
+export async function createChild(parentUserId: string, metadata: ParentMetadata): Promise<ChildProfile> {
+  const { data, error } = await supabase
+    .from('children')
+    .insert({ parent_user_id: parentUserId, ...toChildColumns(metadata) })
+    .select()
+    .single();
+
+  if (error) throw error;
+  return toChildProfile(data);
+}
+
+export async function updateChild(childId: string, metadata: ParentMetadata): Promise<ChildProfile> {
+  const { data, error } = await supabase
+    .from('children')
+    .update(toChildColumns(metadata))
+    .eq('id', childId)
+    .select()
+    .single();
+
+  if (error) throw error;
+  return toChildProfile(data);
+}
+
+// Create the child on first assessment, otherwise keep the saved profile in sync with edits
+export async function upsertChildFromMetadata(parentUserId: string, metadata: ParentMetadata): Promise<ChildProfile> {
+  return metadata.childId
+    ? updateChild(metadata.childId, metadata)
+    : createChild(parentUserId, metadata);
+}
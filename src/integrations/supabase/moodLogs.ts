@@ -0,0 +1,53 @@
+// Typed data layer for mood check-ins
+import { supabase } from './client';
+import type { Tables } from './types';
+
+export type MoodValue = 'good' | 'okay' | 'tough';
+
+export interface MoodLogRecord {
+  id: string;
+  userId: string;
+  mood: MoodValue;
+  note: string | null;
+  createdAt: string;
+}
+
+const toMoodLogRecord = (row: Tables<'mood_logs'>): MoodLogRecord => ({
+  id: row.id,
+  userId: row.user_id,
+  mood: row.mood as MoodValue,
+  note: row.note,
+  createdAt: row.created_at,
+});
+
+export async function logMood(userId: string, mood: MoodValue, note?: string): Promise<MoodLogRecord> {
+  const { data, error } = await supabase
+    .from('mood_logs')
+    .insert({ user_id: userId, mood, note: note ?? null })
+    .select()
+    .single();
+
+  if (error) throw error;
+  return toMoodLogRecord(data);
+}
+
+export async function updateMoodNote(id: string, note: string): Promise<void> {
+  const { error } = await supabase
+    .from('mood_logs')
+    .update({ note })
+    .eq('id', id);
+
+  if (error) throw error;
+}
+
+export async function listMoodLogs(userId: string, limit = 20): Promise<MoodLogRecord[]> {
+  const { data, error } = await supabase
+    .from('mood_logs')
+    .select('*')
+    .eq('user_id', userId)
+    .order('created_at', { ascending: false })
+    .limit(limit);
+
+  if (error) throw error;
+  return (data ?? []).map(toMoodLogRecord);
+}
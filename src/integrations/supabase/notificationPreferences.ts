@@ -0,0 +1,121 @@
+// Typed data layer for notification preferences, which send-notification enforces server-side
+import { supabase } from './client';
+import type { Json, Tables } from './types';
+
+export type NotificationType =
+  | 'achievement'
+  | 'reminder'
+  | 'appointment'
+  | 'progress_digest'
+  | 'report_shared'
+  | 'care_invite';
+export type NotificationChannel = 'email' | 'push' | 'in_app';
+
+export const NOTIFICATION_TYPES: NotificationType[] = [
+  'achievement',
+  'reminder',
+  'appointment',
+  'progress_digest',
+  'report_shared',
+  'care_invite',
+];
+export const NOTIFICATION_CHANNELS: NotificationChannel[] = ['email', 'push', 'in_app'];
+
+export const NOTIFICATION_TYPE_LABELS: Record<NotificationType, string> = {
+  achievement: 'Badges & achievements',
+  reminder: 'Reminders',
+  appointment: 'Appointments',
+  progress_digest: 'Weekly progress summary',
+  report_shared: 'Reports shared with me',
+  care_invite: 'Care team invitations',
+};
+
+export interface NotificationPreferences {
+  channels: Record<NotificationType, Record<NotificationChannel, boolean>>;
+  quietHours: { start: string; end: string } | null; // HH:MM in `timezone`; may span midnight
+  timezone: string;
+  digestEnabled: boolean; // Emails are held and sent together once a day
+  digestTime: string;
+}
+
+const allChannelsOn = () => ({ email: true, push: true, in_app: true });
+
+// What send-notification assumes for users who have never changed their preferences
+export const DEFAULT_NOTIFICATION_PREFERENCES: NotificationPreferences = {
+  channels: Object.fromEntries(
+    NOTIFICATION_TYPES.map((type) => [type, allChannelsOn()])
+  ) as NotificationPreferences['channels'],
+  quietHours: null,
+  timezone: 'UTC',
+  digestEnabled: false,
+  digestTime: '18:00',
+};
+
+const toNotificationPreferences = (row: Tables<'notification_preferences'>): NotificationPreferences => ({
+  // Types added after the row was saved start with every channel on
+  channels: Object.fromEntries(
+    NOTIFICATION_TYPES.map((type) => [
+      type,
+      { ...allChannelsOn(), ...(row.channels as Record<string, Partial<Record<NotificationChannel, boolean>>>)[type] },
+    ])
+  ) as NotificationPreferences['channels'],
+  quietHours:
+    row.quiet_hours_start && row.quiet_hours_end
+      ? { start: row.quiet_hours_start.slice(0, 5), end: row.quiet_hours_end.slice(0, 5) }
+      : null,
+  timezone: row.timezone,
+  digestEnabled: row.digest_enabled,
+  digestTime: row.digest_time.slice(0, 5),
+});
+
+export const isChannelEnabled = (
+  preferences: NotificationPreferences,
+  type: NotificationType,
+  channel: NotificationChannel
+) => preferences.channels[type]?.[channel] ?? true;
+
+export async function fetchNotificationPreferences(userId: string): Promise<NotificationPreferences> {
+  const { data, error } = await supabase
+    .from('notification_preferences')
+    .select('*')
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data ? toNotificationPreferences(data) : DEFAULT_NOTIFICATION_PREFERENCES;
+}
+
+export async function saveNotificationPreferences(
+  userId: string,
+  preferences: NotificationPreferences
+): Promise<NotificationPreferences> {
+  const { data, error } = await supabase
+    .from('notification_preferences')
+    .upsert(
+      {
+        user_id: userId,
+        channels: preferences.channels as unknown as Json,
+        quiet_hours_start: preferences.quietHours?.start ?? null,
+        quiet_hours_end: preferences.quietHours?.end ?? null,
+        timezone: preferences.timezone,
+        digest_enabled: preferences.digestEnabled,
+        digest_time: preferences.digestTime,
+      },
+      { onConflict: 'user_id' }
+    )
+    .select()
+    .single();
+
+  if (error) throw error;
+  return toNotificationPreferences(data);
+}
+
+// Used by the /unsubscribe page behind email links, so it works without signing in; without a type
+// every notification email is turned off
+export async function unsubscribeFromEmails(token: string, type?: NotificationType): Promise<void> {
+  const { error } = await supabase.functions.invoke('unsubscribe', {
+    body: { token, ...(type ? { type } : {}) },
+  });
+
+  if (error) throw error;
+}
@@ -0,0 +1,71 @@
+// Typed data layer for synced progress history
+import { supabase } from './client';
+import type { Tables } from './types';
+import type { ProgressEntry } from '@/hooks/useProgressTracking';
+
+export const PROGRESS_HISTORY_LIMIT = 50;
+
+const toProgressEntry = (row: Tables<'progress_entries'>): ProgressEntry => ({
+  id: row.client_id,
+  date: new Date(row.recorded_at).toLocaleDateString(),
+  score: Number(row.score),
+  severity: row.severity as ProgressEntry['severity'],
+  role: row.role as ProgressEntry['role'],
+  timestamp: new Date(row.recorded_at).getTime(),
+  ...(row.child_id ? { childId: row.child_id } : {}),
+});
+
+// Most recent entries for one child (or the user's own, without a childId), oldest first
+export async function listProgressEntries(
+  userId: string,
+  childId?: string,
+  limit = PROGRESS_HISTORY_LIMIT
+): Promise<ProgressEntry[]> {
+  let query = supabase
+    .from('progress_entries')
+    .select('*')
+    .eq('user_id', userId);
+
+  query = childId ? query.eq('child_id', childId) : query.is('child_id', null);
+
+  const { data, error } = await query
+    .order('recorded_at', { ascending: false })
+    .limit(limit);
+
+  if (error) throw error;
+  return (data ?? []).map(toProgressEntry).reverse();
+}
+
+// Entries already uploaded are skipped, so retrying an upload is harmless
+export async function uploadProgressEntries(userId: string, entries: ProgressEntry[]): Promise<void> {
+  if (entries.length === 0) return;
+
+  const { error } = await supabase
+    .from('progress_entries')
+    .upsert(
+      entries.map((entry) => ({
+        user_id: userId,
+        child_id: entry.childId ?? null,
+        client_id: entry.id,
+        role: entry.role,
+        score: entry.score,
+        severity: entry.severity,
+        recorded_at: new Date(entry.timestamp).toISOString(),
+      })),
+      { onConflict: 'user_id,client_id', ignoreDuplicates: true }
+    );
+
+  if (error) throw error;
+}
+
+export async function deleteProgressEntries(userId: string, childId?: string): Promise<void> {
+  let query = supabase
+    .from('progress_entries')
+    .delete()
+    .eq('user_id', userId);
+
+  query = childId ? query.eq('child_id', childId) : query.is('child_id', null);
+
+  const { error } = await query;
+  if (error) throw error;
+}
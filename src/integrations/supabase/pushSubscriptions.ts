@@ -0,0 +1,32 @@
+// Typed data layer for Web Push subscriptions (one per browser/device)
+import { supabase } from './client';
+
+// Re-subscribing the same browser updates its keys rather than adding a second row
+export async function savePushSubscription(userId: string, subscription: PushSubscription): Promise<void> {
+  const { keys } = subscription.toJSON();
+  if (!keys?.p256dh || !keys?.auth) throw new Error('Push subscription is missing its encryption keys');
+
+  const { error } = await supabase
+    .from('push_subscriptions')
+    .upsert(
+      {
+        user_id: userId,
+        endpoint: subscription.endpoint,
+        p256dh: keys.p256dh,
+        auth: keys.auth,
+        user_agent: navigator.userAgent,
+      },
+      { onConflict: 'endpoint' }
+    );
+
+  if (error) throw error;
+}
+
+export async function deletePushSubscription(endpoint: string): Promise<void> {
+  const { error } = await supabase
+    .from('push_subscriptions')
+    .delete()
+    .eq('endpoint', endpoint);
+
+  if (error) throw error;
+}
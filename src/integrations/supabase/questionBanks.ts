@@ -0,0 +1,143 @@
+// Typed data layer for versioned question banks
+import { supabase } from './client';
+import type { Json, Tables } from './types';
+import { defaultQuestionBank, QuestionBank, QuestionBankDefinition } from '@/data/questionBanks';
+
+export type QuestionBankStatus = 'draft' | 'published';
+
+export interface QuestionBankVersionRecord extends QuestionBank {
+  id: string;
+  status: QuestionBankStatus;
+  notes: string | null;
+  createdBy: string | null;
+  createdAt: string;
+  publishedAt: string | null;
+}
+
+const toQuestionBankVersionRecord = (row: Tables<'question_bank_versions'>): QuestionBankVersionRecord => ({
+  id: row.id,
+  version: row.version,
+  status: row.status as QuestionBankStatus,
+  definition: row.definition as unknown as QuestionBankDefinition,
+  notes: row.notes,
+  createdBy: row.created_by,
+  createdAt: row.created_at,
+  publishedAt: row.published_at,
+});
+
+// Latest published bank, or the built-in one when none is published or the lookup fails
+export async function fetchPublishedQuestionBank(): Promise<QuestionBank> {
+  const { data, error } = await supabase
+    .from('question_bank_versions')
+    .select('*')
+    .eq('status', 'published')
+    .order('published_at', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (error) {
+    console.error('Failed to load question bank, using built-in version:', error);
+    return defaultQuestionBank;
+  }
+  return data ? toQuestionBankVersionRecord(data) : defaultQuestionBank;
+}
+
+// A published version by number, so a resumed questionnaire keeps the bank it started on; null when unavailable
+export async function fetchQuestionBankVersion(version: string): Promise<QuestionBank | null> {
+  if (version === defaultQuestionBank.version) return defaultQuestionBank;
+
+  const { data, error } = await supabase
+    .from('question_bank_versions')
+    .select('*')
+    .eq('version', version)
+    .eq('status', 'published')
+    .maybeSingle();
+
+  if (error) {
+    console.error(`Failed to load question bank ${version}:`, error);
+    return null;
+  }
+  return data ? toQuestionBankVersionRecord(data) : null;
+}
+
+export async function listQuestionBankVersions(): Promise<QuestionBankVersionRecord[]> {
+  const { data, error } = await supabase
+    .from('question_bank_versions')
+    .select('*')
+    .order('created_at', { ascending: false });
+
+  if (error) throw error;
+  return (data ?? []).map(toQuestionBankVersionRecord);
+}
+
+export async function createQuestionBankDraft(
+  userId: string,
+  version: string,
+  definition: QuestionBankDefinition,
+  notes?: string
+): Promise<QuestionBankVersionRecord> {
+  const { data, error } = await supabase
+    .from('question_bank_versions')
+    .insert({
+      version,
+      definition: definition as unknown as Json,
+      notes: notes || null,
+      created_by: userId,
+    })
+    .select()
+    .single();
+
+  if (error) throw error;
+  return toQuestionBankVersionRecord(data);
+}
+
+// Only drafts can be edited; published versions are immutable so stored assessments stay comparable
+export async function updateQuestionBankDraft(
+  id: string,
+  changes: { version?: string; definition?: QuestionBankDefinition; notes?: string | null }
+): Promise<QuestionBankVersionRecord> {
+  const { data, error } = await supabase
+    .from('question_bank_versions')
+    .update({
+      ...(changes.version !== undefined ? { version: changes.version } : {}),
+      ...(changes.definition !== undefined ? { definition: changes.definition as unknown as Json } : {}),
+      ...(changes.notes !== undefined ? { notes: changes.notes } : {}),
+    })
+    .eq('id', id)
+    .eq('status', 'draft')
+    .select()
+    .single();
+
+  if (error) throw error;
+  return toQuestionBankVersionRecord(data);
+}
+
+export async function publishQuestionBank(id: string): Promise<QuestionBankVersionRecord> {
+  const { data, error } = await supabase
+    .from('question_bank_versions')
+    .update({ status: 'published', published_at: new Date().toISOString() })
+    .eq('id', id)
+    .eq('status', 'draft')
+    .select()
+    .single();
+
+  if (error) throw error;
+  return toQuestionBankVersionRecord(data);
+}
+
+export async function deleteQuestionBankDraft(id: string): Promise<void> {
+  const { error } = await supabase
+    .from('question_bank_versions')
+    .delete()
+    .eq('id', id)
+    .eq('status', 'draft');
+
+  if (error) throw error;
+}
+
+export async function isQuestionBankAdmin(userId: string): Promise<boolean> {
+  const { data, error } = await supabase.rpc('has_role', { _user_id: userId, _role: 'admin' });
+
+  if (error) throw error;
+  return data === true;
+}
@@ -0,0 +1,189 @@
+// Typed data layer for reminders; delivery happens server-side in the deliver-reminders function
+import { supabase } from './client';
+import type { Tables } from './types';
+import type { RecurrenceFrequency, RecurrenceRule } from '@/utils/recurrence';
+
+export type ReminderType = 'task' | 'assessment' | 'appointment';
+export type ReminderDeliveryStatus = 'pending' | 'sent' | 'failed';
+
+export interface ReminderRecord {
+  id: string;
+  userId: string;
+  title: string;
+  type: ReminderType;
+  time: string; // HH:MM in the reminder's timezone
+  timezone: string;
+  recurrence: RecurrenceRule;
+  enabled: boolean;
+  snoozedUntil: string | null;
+  nextRunAt: string | null; // Null once a one-off reminder has been sent
+}
+
+export interface ReminderDeliveryRecord {
+  id: string;
+  reminderId: string;
+  scheduledFor: string;
+  channel: string;
+  status: ReminderDeliveryStatus;
+  error: string | null;
+  deliveredAt: string | null;
+}
+
+export interface ReminderInput {
+  title: string;
+  type: ReminderType;
+  time: string;
+  recurrence: RecurrenceRule;
+}
+
+// A reminder created from a calendar event; sourceUid is the event's UID
+export interface ImportedReminderInput extends ReminderInput {
+  timezone: string;
+  sourceUid: string;
+}
+
+const toReminderRecord = (row: Tables<'reminders'>): ReminderRecord => ({
+  id: row.id,
+  userId: row.user_id,
+  title: row.title,
+  type: row.reminder_type as ReminderType,
+  time: row.time_of_day.slice(0, 5), // Postgres returns HH:MM:SS
+  timezone: row.timezone,
+  recurrence: {
+    frequency: row.recurrence as RecurrenceFrequency,
+    interval: row.repeat_interval,
+    weekdays: row.weekdays,
+    startDate: row.start_date,
+    exceptionDates: row.exception_dates,
+  },
+  enabled: row.enabled,
+  snoozedUntil: row.snoozed_until,
+  nextRunAt: row.next_run_at,
+});
+
+const toReminderDeliveryRecord = (row: Tables<'reminder_deliveries'>): ReminderDeliveryRecord => ({
+  id: row.id,
+  reminderId: row.reminder_id,
+  scheduledFor: row.scheduled_for,
+  channel: row.channel,
+  status: row.status as ReminderDeliveryStatus,
+  error: row.error,
+  deliveredAt: row.delivered_at,
+});
+
+export const getBrowserTimezone = () => Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC';
+
+export async function listReminders(userId: string): Promise<ReminderRecord[]> {
+  const { data, error } = await supabase
+    .from('reminders')
+    .select('*')
+    .eq('user_id', userId)
+    .order('time_of_day', { ascending: true });
+
+  if (error) throw error;
+  return (data ?? []).map(toReminderRecord);
+}
+
+const toReminderRow = (userId: string, input: ReminderInput, timezone: string) => ({
+  user_id: userId,
+  title: input.title,
+  reminder_type: input.type,
+  time_of_day: input.time,
+  timezone,
+  recurrence: input.recurrence.frequency,
+  repeat_interval: input.recurrence.interval,
+  weekdays: input.recurrence.frequency === 'weekly' ? input.recurrence.weekdays : [],
+  start_date: input.recurrence.startDate,
+  exception_dates: input.recurrence.exceptionDates,
+});
+
+// next_run_at is filled in by a trigger from the time, timezone and recurrence rule
+export async function createReminder(
+  userId: string,
+  input: ReminderInput,
+  timezone = getBrowserTimezone()
+): Promise<ReminderRecord> {
+  const { data, error } = await supabase
+    .from('reminders')
+    .insert(toReminderRow(userId, input, timezone))
+    .select()
+    .single();
+
+  if (error) throw error;
+  return toReminderRecord(data);
+}
+
+// Re-importing the same calendar updates the reminders it created before
+export async function importReminders(userId: string, inputs: ImportedReminderInput[]): Promise<ReminderRecord[]> {
+  if (inputs.length === 0) return [];
+
+  const { data, error } = await supabase
+    .from('reminders')
+    .upsert(
+      inputs.map((input) => ({ ...toReminderRow(userId, input, input.timezone), source_uid: input.sourceUid })),
+      { onConflict: 'user_id,source_uid' }
+    )
+    .select();
+
+  if (error) throw error;
+  return (data ?? []).map(toReminderRecord);
+}
+
+export async function setReminderEnabled(id: string, enabled: boolean): Promise<ReminderRecord> {
+  const { data, error } = await supabase
+    .from('reminders')
+    .update({ enabled })
+    .eq('id', id)
+    .select()
+    .single();
+
+  if (error) throw error;
+  return toReminderRecord(data);
+}
+
+// Postpone the next delivery; the schedule resumes after the snoozed one is sent
+export async function snoozeReminder(id: string, until: Date): Promise<ReminderRecord> {
+  const { data, error } = await supabase
+    .from('reminders')
+    .update({ snoozed_until: until.toISOString() })
+    .eq('id', id)
+    .select()
+    .single();
+
+  if (error) throw error;
+  return toReminderRecord(data);
+}
+
+// Skip a single day (YYYY-MM-DD, in the reminder's timezone) without changing the rule
+export async function skipReminderDate(reminder: ReminderRecord, date: string): Promise<ReminderRecord> {
+  const { data, error } = await supabase
+    .from('reminders')
+    .update({ exception_dates: Array.from(new Set([...reminder.recurrence.exceptionDates, date])) })
+    .eq('id', reminder.id)
+    .select()
+    .single();
+
+  if (error) throw error;
+  return toReminderRecord(data);
+}
+
+export async function deleteReminder(id: string): Promise<void> {
+  const { error } = await supabase
+    .from('reminders')
+    .delete()
+    .eq('id', id);
+
+  if (error) throw error;
+}
+
+export async function listReminderDeliveries(userId: string, limit = 20): Promise<ReminderDeliveryRecord[]> {
+  const { data, error } = await supabase
+    .from('reminder_deliveries')
+    .select('*')
+    .eq('user_id', userId)
+    .order('scheduled_for', { ascending: false })
+    .limit(limit);
+
+  if (error) throw error;
+  return (data ?? []).map(toReminderDeliveryRecord);
+}
@@ -0,0 +1,292 @@
+// Typed data layer for share links to badges, progress and assessment reports
+import { supabase } from './client';
+import type { Json, Tables } from './types';
+import type { Badge } from '@/hooks/useRewards';
+import type { ProgressEntry } from '@/hooks/useProgressTracking';
+import type { MoodValue } from './moodLogs';
+import type { AssessmentRole } from './assessments';
+import type { InstrumentId, InstrumentResult } from '@/data/instruments';
+import type { FusionStrategyId } from '@/utils/fusion';
+import type { ItemContribution, ScoringResult, VideoOutcome } from '@/utils/scoring';
+
+export type ShareKind = 'achievement' | 'progress' | 'report';
+export type ShareStatus = 'active' | 'expired' | 'revoked';
+export type ShareAccessOutcome = ShareStatus | 'pin_failed';
+
+// Sections of an assessment a report link can include
+export type ReportScope = 'scores' | 'contributors' | 'video_analysis' | 'mood_history';
+export const REPORT_SCOPES: ReportScope[] = ['scores', 'contributors', 'video_analysis', 'mood_history'];
+
+export interface AchievementShareContent {
+  badges: Badge[];
+}
+
+export interface ProgressShareContent {
+  entries: ProgressEntry[];
+  trend: 'improving' | 'declining' | 'stable';
+  totalEntries: number;
+}
+
+export type ShareContent = AchievementShareContent | ProgressShareContent;
+
+// Built by get_shared_report from the live assessment; sections outside the link's scopes are absent
+export interface SharedReport {
+  role: AssessmentRole;
+  instrument: InstrumentId | null;
+  assessedAt: string;
+  questionBankVersion: string;
+  childName: string | null;
+  childAge: string | null;
+  scopes: ReportScope[];
+  scores?: {
+    normalizedScore: number;
+    fusedScore: number | null;
+    severity: ScoringResult['severity'];
+    severityLabel: string;
+    rawTotal: number;
+    maxPossible: number;
+    categoryScores: ScoringResult['categoryScores'] | null;
+    instrument: InstrumentResult | null;
+  };
+  contributors?: {
+    topContributors: ScoringResult['topContributors'];
+    contributions: ItemContribution[] | null;
+  };
+  videoAnalysis?: {
+    prediction: VideoOutcome | null;
+    fusionStrategy: FusionStrategyId | null;
+  };
+  moodHistory?: Array<{ mood: MoodValue; note: string | null; createdAt: string }>;
+}
+
+export interface SharedAchievementRecord {
+  id: string;
+  userId: string;
+  kind: ShareKind;
+  shareToken: string;
+  title: string;
+  content: ShareContent; // empty for reports, which are built from the assessment when opened
+  isPublic: boolean;
+  assessmentId: string | null;
+  reportScopes: ReportScope[];
+  hasPin: boolean;
+  expiresAt: string | null;
+  revokedAt: string | null;
+  revokedReason: 'pin_failures' | null; // Set when too many wrong PINs revoked the link
+  viewCount: number;
+  lastViewedAt: string | null;
+  createdAt: string;
+}
+
+export interface ShareAccessLogEntry {
+  id: string;
+  shareId: string;
+  outcome: ShareAccessOutcome;
+  viewerUserId: string | null;
+  viewedAt: string;
+}
+
+export interface NewShareLink {
+  kind: Exclude<ShareKind, 'report'>;
+  title: string;
+  content: ShareContent;
+  isPublic: boolean;
+}
+
+export interface NewReportShare {
+  assessmentId: string;
+  title: string;
+  scopes: ReportScope[];
+  expiresAt: string;
+  pin?: string;
+}
+
+// What the /share/:token page may show; title and content are only present for active links
+export type SharedView =
+  | {
+      status: 'active';
+      kind: Exclude<ShareKind, 'report'>;
+      title: string;
+      content: ShareContent;
+      createdAt: string;
+      expiresAt: string | null;
+    }
+  | { status: 'active'; kind: 'report'; title: string; createdAt: string; expiresAt: string }
+  | { status: 'expired'; kind: ShareKind; expiresAt: string }
+  | { status: 'revoked' };
+
+const toSharedAchievementRecord = (row: Tables<'shared_achievements'>): SharedAchievementRecord => ({
+  id: row.id,
+  userId: row.user_id,
+  kind: row.kind as ShareKind,
+  shareToken: row.share_token,
+  title: row.title,
+  content: row.content as unknown as ShareContent,
+  isPublic: row.is_public,
+  assessmentId: row.assessment_id,
+  reportScopes: row.report_scopes as ReportScope[],
+  hasPin: row.pin_hash !== null,
+  expiresAt: row.expires_at,
+  revokedAt: row.revoked_at,
+  revokedReason: row.revoked_reason as SharedAchievementRecord['revokedReason'],
+  viewCount: row.view_count,
+  lastViewedAt: row.last_viewed_at,
+  createdAt: row.created_at,
+});
+
+const toShareAccessLogEntry = (row: Tables<'share_access_log'>): ShareAccessLogEntry => ({
+  id: row.id,
+  shareId: row.share_id,
+  outcome: row.outcome as ShareAccessOutcome,
+  viewerUserId: row.viewer_user_id,
+  viewedAt: row.viewed_at,
+});
+
+// How a link currently behaves for people other than its owner
+export const shareLinkStatus = (link: SharedAchievementRecord, now: Date = new Date()): ShareStatus => {
+  if (link.revokedAt) return 'revoked';
+  if (link.expiresAt && new Date(link.expiresAt) <= now) return 'expired';
+  return 'active';
+};
+
+export const shareLinkUrl = (token: string) => `${window.location.origin}/share/${token}`;
+
+// The share-preview function on a custom domain; the default *.supabase.co domain serves its HTML as
+// plain text, so previews stay off until this is set
+const SHARE_PREVIEW_FUNCTION_URL = (import.meta.env.VITE_SHARE_PREVIEW_URL as string | undefined)?.replace(/\/$/, '');
+
+// Link to hand out for badges and progress: it serves Open Graph tags and a preview image to link
+// unfurlers, then forwards browsers to shareLinkUrl. Without a preview URL, the plain link is used.
+export const sharePreviewUrl = (token: string) =>
+  SHARE_PREVIEW_FUNCTION_URL ? `${SHARE_PREVIEW_FUNCTION_URL}?token=${token}` : shareLinkUrl(token);
+
+export async function saveShareLink(userId: string, link: NewShareLink): Promise<SharedAchievementRecord> {
+  const { data, error } = await supabase
+    .from('shared_achievements')
+    .insert({
+      user_id: userId,
+      kind: link.kind,
+      title: link.title,
+      content: link.content as unknown as Json,
+      is_public: link.isPublic,
+    })
+    .select()
+    .single();
+
+  if (error) throw error;
+  return toSharedAchievementRecord(data);
+}
+
+// Expiry and visibility are checked by the database, so nothing is sent for links that are no longer live
+export async function fetchSharedView(token: string): Promise<SharedView> {
+  const { data, error } = await supabase.rpc('get_shared_achievement', { _token: token });
+
+  if (error) throw error;
+  const row = data?.[0];
+  if (!row || row.status === 'revoked') return { status: 'revoked' };
+
+  if (row.status === 'expired') {
+    return { status: 'expired', kind: row.kind as ShareKind, expiresAt: row.expires_at };
+  }
+
+  if (row.kind === 'report') {
+    return { status: 'active', kind: 'report', title: row.title, createdAt: row.created_at, expiresAt: row.expires_at };
+  }
+
+  return {
+    status: 'active',
+    kind: row.kind as Exclude<ShareKind, 'report'>,
+    title: row.title,
+    content: row.content as unknown as ShareContent,
+    createdAt: row.created_at,
+    expiresAt: row.expires_at,
+  };
+}
+
+// Report links expire at most this many days after they are created, even when the expiry is edited later
+export const REPORT_LINK_MAX_DAYS = 90;
+
+// Report links always expire and may carry a PIN of 6-8 digits, which the database stores only as a hash
+export async function saveReportShare(share: NewReportShare): Promise<SharedAchievementRecord> {
+  const { data, error } = await supabase.rpc('create_report_share', {
+    _assessment_id: share.assessmentId,
+    _title: share.title,
+    _scopes: share.scopes,
+    _expires_at: share.expiresAt,
+    ...(share.pin ? { _pin: share.pin } : {}),
+  });
+
+  if (error) throw error;
+  return toSharedAchievementRecord(data);
+}
+
+export type SharedReportView =
+  | { status: 'active'; title: string; report: SharedReport; createdAt: string; expiresAt: string }
+  | { status: 'pin_required' | 'expired' | 'revoked' };
+
+// A wrong PIN comes back as 'pin_required' again; the 10th wrong PIN revokes the link
+export async function fetchSharedReport(token: string, pin?: string): Promise<SharedReportView> {
+  const { data, error } = await supabase.rpc('get_shared_report', { _token: token, ...(pin ? { _pin: pin } : {}) });
+
+  if (error) throw error;
+  const row = data?.[0];
+  if (!row) return { status: 'revoked' };
+  if (row.status !== 'active') return { status: row.status as Exclude<SharedReportView['status'], 'active'> };
+
+  return {
+    status: 'active',
+    title: row.title,
+    report: row.report as unknown as SharedReport,
+    createdAt: row.created_at,
+    expiresAt: row.expires_at,
+  };
+}
+
+export async function listShareLinks(userId: string): Promise<SharedAchievementRecord[]> {
+  const { data, error } = await supabase
+    .from('shared_achievements')
+    .select('*')
+    .eq('user_id', userId)
+    .order('created_at', { ascending: false });
+
+  if (error) throw error;
+  return (data ?? []).map(toSharedAchievementRecord);
+}
+
+// Revoked links stay listed, with their access log, but stop resolving for everyone
+export async function revokeShareLink(id: string): Promise<SharedAchievementRecord> {
+  const { data, error } = await supabase
+    .from('shared_achievements')
+    .update({ revoked_at: new Date().toISOString() })
+    .eq('id', id)
+    .select()
+    .single();
+
+  if (error) throw error;
+  return toSharedAchievementRecord(data);
+}
+
+// Pass null to let the link live until it is revoked
+export async function updateShareLinkExpiry(id: string, expiresAt: string | null): Promise<SharedAchievementRecord> {
+  const { data, error } = await supabase
+    .from('shared_achievements')
+    .update({ expires_at: expiresAt })
+    .eq('id', id)
+    .select()
+    .single();
+
+  if (error) throw error;
+  return toSharedAchievementRecord(data);
+}
+
+export async function listShareAccessLog(shareId: string, limit = 20): Promise<ShareAccessLogEntry[]> {
+  const { data, error } = await supabase
+    .from('share_access_log')
+    .select('*')
+    .eq('share_id', shareId)
+    .order('viewed_at', { ascending: false })
+    .limit(limit);
+
+  if (error) throw error;
+  return (data ?? []).map(toShareAccessLogEntry);
+}
@@ -35,6 +35,36 @@ export type Database = {
         }
         Relationships: []
       }
+      assessment_drafts: {
+        Row: {
+          created_at: string
+          expires_at: string
+          id: string
+          role: string
+          state: Json
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          expires_at?: string
+          id?: string
+          role: string
+          state: Json
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          expires_at?: string
+          id?: string
+          role?: string
+          state?: Json
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
       assessment_history: {
         Row: {
           created_at: string
@@ -74,6 +104,338 @@ export type Database = {
         }
         Relationships: []
       }
+      assessments: {
+        Row: {
+          answers: Json
+          child_id: string | null
+          created_at: string
+          fused_score: number | null
+          id: string
+          instrument: string | null
+          metadata: Json | null
+          normalized_score: number
+          question_bank_version: string
+          result: Json
+          role: string
+          severity: string
+          updated_at: string
+          user_id: string
+          video_prediction: Json | null
+          video_url: string | null
+        }
+        Insert: {
+          answers?: Json
+          child_id?: string | null
+          created_at?: string
+          fused_score?: number | null
+          id?: string
+          instrument?: string | null
+          metadata?: Json | null
+          normalized_score: number
+          question_bank_version: string
+          result: Json
+          role: string
+          severity: string
+          updated_at?: string
+          user_id: string
+          video_prediction?: Json | null
+          video_url?: string | null
+        }
+        Update: {
+          answers?: Json
+          child_id?: string | null
+          created_at?: string
+          fused_score?: number | null
+          id?: string
+          instrument?: string | null
+          metadata?: Json | null
+          normalized_score?: number
+          question_bank_version?: string
+          result?: Json
+          role?: string
+          severity?: string
+          updated_at?: string
+          user_id?: string
+          video_prediction?: Json | null
+          video_url?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "assessments_child_id_fkey"
+            columns: ["child_id"]
+            isOneToOne: false
+            referencedRelation: "children"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      calendar_feeds: {
+        Row: {
+          created_at: string
+          id: string
+          token: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          token?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          token?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      care_links: {
+        Row: {
+          accepted_at: string | null
+          clinician_user_id: string | null
+          created_at: string
+          id: string
+          invite_code: string
+          invite_emailed_at: string | null
+          invite_expires_at: string
+          patient_user_id: string
+          revoked_at: string | null
+          revoked_by: string | null
+          status: string
+        }
+        Insert: {
+          accepted_at?: string | null
+          clinician_user_id?: string | null
+          created_at?: string
+          id?: string
+          invite_code?: string
+          invite_emailed_at?: string | null
+          invite_expires_at?: string
+          patient_user_id: string
+          revoked_at?: string | null
+          revoked_by?: string | null
+          status?: string
+        }
+        Update: {
+          accepted_at?: string | null
+          clinician_user_id?: string | null
+          created_at?: string
+          id?: string
+          invite_code?: string
+          invite_emailed_at?: string | null
+          invite_expires_at?: string
+          patient_user_id?: string
+          revoked_at?: string | null
+          revoked_by?: string | null
+          status?: string
+        }
+        Relationships: []
+      }
+      children: {
+        Row: {
+          age: string | null
+          created_at: string
+          diagnosed_conditions: string[]
+          home_language: string | null
+          id: string
+          name: string
+          parent_user_id: string
+          pronouns: string | null
+          school_type: string | null
+          updated_at: string
+        }
+        Insert: {
+          age?: string | null
+          created_at?: string
+          diagnosed_conditions?: string[]
+          home_language?: string | null
+          id?: string
+          name: string
+          parent_user_id: string
+          pronouns?: string | null
+          school_type?: string | null
+          updated_at?: string
+        }
+        Update: {
+          age?: string | null
+          created_at?: string
+          diagnosed_conditions?: string[]
+          home_language?: string | null
+          id?: string
+          name?: string
+          parent_user_id?: string
+          pronouns?: string | null
+          school_type?: string | null
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      email_outbox: {
+        Row: {
+          attempts: number
+          created_at: string
+          from_address: string
+          headers: Json
+          html: string
+          id: string
+          last_error: string | null
+          next_attempt_at: string
+          notification_type: string
+          provider_message_id: string | null
+          sent_at: string | null
+          status: string
+          subject: string
+          text: string
+          to_address: string
+          transport: string | null
+          updated_at: string
+          user_id: string | null
+        }
+        Insert: {
+          attempts?: number
+          created_at?: string
+          from_address: string
+          headers?: Json
+          html: string
+          id?: string
+          last_error?: string | null
+          next_attempt_at?: string
+          notification_type: string
+          provider_message_id?: string | null
+          sent_at?: string | null
+          status?: string
+          subject: string
+          text: string
+          to_address: string
+          transport?: string | null
+          updated_at?: string
+          user_id?: string | null
+        }
+        Update: {
+          attempts?: number
+          created_at?: string
+          from_address?: string
+          headers?: Json
+          html?: string
+          id?: string
+          last_error?: string | null
+          next_attempt_at?: string
+          notification_type?: string
+          provider_message_id?: string | null
+          sent_at?: string | null
+          status?: string
+          subject?: string
+          text?: string
+          to_address?: string
+          transport?: string | null
+          updated_at?: string
+          user_id?: string | null
+        }
+        Relationships: []
+      }
+      mood_logs: {
+        Row: {
+          created_at: string
+          id: string
+          mood: string
+          note: string | null
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          mood: string
+          note?: string | null
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          mood?: string
+          note?: string | null
+          user_id?: string
+        }
+        Relationships: []
+      }
+      notification_preferences: {
+        Row: {
+          channels: Json
+          created_at: string
+          digest_enabled: boolean
+          digest_time: string
+          id: string
+          quiet_hours_end: string | null
+          quiet_hours_start: string | null
+          timezone: string
+          unsubscribe_token: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          channels?: Json
+          created_at?: string
+          digest_enabled?: boolean
+          digest_time?: string
+          id?: string
+          quiet_hours_end?: string | null
+          quiet_hours_start?: string | null
+          timezone?: string
+          unsubscribe_token?: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          channels?: Json
+          created_at?: string
+          digest_enabled?: boolean
+          digest_time?: string
+          id?: string
+          quiet_hours_end?: string | null
+          quiet_hours_start?: string | null
+          timezone?: string
+          unsubscribe_token?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      notification_queue: {
+        Row: {
+          channel: string
+          created_at: string
+          deliver_after: string
+          digest: boolean
+          id: string
+          notification_type: string
+          payload: Json
+          sent_at: string | null
+          user_id: string
+        }
+        Insert: {
+          channel: string
+          created_at?: string
+          deliver_after: string
+          digest?: boolean
+          id?: string
+          notification_type: string
+          payload: Json
+          sent_at?: string | null
+          user_id: string
+        }
+        Update: {
+          channel?: string
+          created_at?: string
+          deliver_after?: string
+          digest?: boolean
+          id?: string
+          notification_type?: string
+          payload?: Json
+          sent_at?: string | null
+          user_id?: string
+        }
+        Relationships: []
+      }
       profiles: {
         Row: {
           age: number | null
@@ -110,36 +472,399 @@ export type Database = {
         }
         Relationships: []
       }
+      progress_entries: {
+        Row: {
+          child_id: string | null
+          client_id: string
+          created_at: string
+          id: string
+          recorded_at: string
+          role: string
+          score: number
+          severity: string
+          user_id: string
+        }
+        Insert: {
+          child_id?: string | null
+          client_id: string
+          created_at?: string
+          id?: string
+          recorded_at: string
+          role: string
+          score: number
+          severity: string
+          user_id: string
+        }
+        Update: {
+          child_id?: string | null
+          client_id?: string
+          created_at?: string
+          id?: string
+          recorded_at?: string
+          role?: string
+          score?: number
+          severity?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "progress_entries_child_id_fkey"
+            columns: ["child_id"]
+            isOneToOne: false
+            referencedRelation: "children"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      push_subscriptions: {
+        Row: {
+          auth: string
+          created_at: string
+          endpoint: string
+          id: string
+          last_used_at: string | null
+          p256dh: string
+          user_agent: string | null
+          user_id: string
+        }
+        Insert: {
+          auth: string
+          created_at?: string
+          endpoint: string
+          id?: string
+          last_used_at?: string | null
+          p256dh: string
+          user_agent?: string | null
+          user_id: string
+        }
+        Update: {
+          auth?: string
+          created_at?: string
+          endpoint?: string
+          id?: string
+          last_used_at?: string | null
+          p256dh?: string
+          user_agent?: string | null
+          user_id?: string
+        }
+        Relationships: []
+      }
+      question_bank_versions: {
+        Row: {
+          created_at: string
+          created_by: string | null
+          definition: Json
+          id: string
+          notes: string | null
+          published_at: string | null
+          status: string
+          version: string
+        }
+        Insert: {
+          created_at?: string
+          created_by?: string | null
+          definition: Json
+          id?: string
+          notes?: string | null
+          published_at?: string | null
+          status?: string
+          version: string
+        }
+        Update: {
+          created_at?: string
+          created_by?: string | null
+          definition?: Json
+          id?: string
+          notes?: string | null
+          published_at?: string | null
+          status?: string
+          version?: string
+        }
+        Relationships: []
+      }
+      rate_limits: {
+        Row: {
+          bucket: string
+          hits: number
+          user_id: string
+          window_start: string
+        }
+        Insert: {
+          bucket: string
+          hits?: number
+          user_id: string
+          window_start: string
+        }
+        Update: {
+          bucket?: string
+          hits?: number
+          user_id?: string
+          window_start?: string
+        }
+        Relationships: []
+      }
+      reminder_deliveries: {
+        Row: {
+          channel: string
+          created_at: string
+          delivered_at: string | null
+          error: string | null
+          id: string
+          reminder_id: string
+          scheduled_for: string
+          status: string
+          user_id: string
+        }
+        Insert: {
+          channel?: string
+          created_at?: string
+          delivered_at?: string | null
+          error?: string | null
+          id?: string
+          reminder_id: string
+          scheduled_for: string
+          status?: string
+          user_id: string
+        }
+        Update: {
+          channel?: string
+          created_at?: string
+          delivered_at?: string | null
+          error?: string | null
+          id?: string
+          reminder_id?: string
+          scheduled_for?: string
+          status?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      reminders: {
+        Row: {
+          created_at: string
+          enabled: boolean
+          exception_dates: string[]
+          id: string
+          next_run_at: string | null
+          recurrence: string
+          reminder_type: string
+          repeat_interval: number
+          snoozed_until: string | null
+          source_uid: string | null
+          start_date: string
+          time_of_day: string
+          timezone: string
+          title: string
+          updated_at: string
+          user_id: string
+          weekdays: number[]
+        }
+        Insert: {
+          created_at?: string
+          enabled?: boolean
+          exception_dates?: string[]
+          id?: string
+          next_run_at?: string | null
+          recurrence?: string
+          reminder_type?: string
+          repeat_interval?: number
+          snoozed_until?: string | null
+          source_uid?: string | null
+          start_date?: string
+          time_of_day: string
+          timezone?: string
+          title: string
+          updated_at?: string
+          user_id: string
+          weekdays?: number[]
+        }
+        Update: {
+          created_at?: string
+          enabled?: boolean
+          exception_dates?: string[]
+          id?: string
+          next_run_at?: string | null
+          recurrence?: string
+          reminder_type?: string
+          repeat_interval?: number
+          snoozed_until?: string | null
+          source_uid?: string | null
+          start_date?: string
+          time_of_day?: string
+          timezone?: string
+          title?: string
+          updated_at?: string
+          user_id?: string
+          weekdays?: number[]
+        }
+        Relationships: []
+      }
+      share_access_log: {
+        Row: {
+          id: string
+          outcome: string
+          share_id: string
+          viewed_at: string
+          viewer_user_id: string | null
+        }
+        Insert: {
+          id?: string
+          outcome: string
+          share_id: string
+          viewed_at?: string
+          viewer_user_id?: string | null
+        }
+        Update: {
+          id?: string
+          outcome?: string
+          share_id?: string
+          viewed_at?: string
+          viewer_user_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "share_access_log_share_id_fkey"
+            columns: ["share_id"]
+            isOneToOne: false
+            referencedRelation: "shared_achievements"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       shared_achievements: {
         Row: {
+          assessment_id: string | null
           content: Json
           created_at: string
           expires_at: string | null
           id: string
           is_public: boolean
+          kind: string
+          last_viewed_at: string | null
+          pin_hash: string | null
+          report_scopes: string[]
+          revoked_at: string | null
+          revoked_reason: string | null
           share_token: string
           title: string
           user_id: string
+          view_count: number
         }
         Insert: {
+          assessment_id?: string | null
           content: Json
           created_at?: string
           expires_at?: string | null
           id?: string
           is_public?: boolean
+          kind?: string
+          last_viewed_at?: string | null
+          pin_hash?: string | null
+          report_scopes?: string[]
+          revoked_at?: string | null
+          revoked_reason?: string | null
           share_token?: string
           title: string
           user_id: string
+          view_count?: number
         }
         Update: {
+          assessment_id?: string | null
           content?: Json
           created_at?: string
           expires_at?: string | null
           id?: string
           is_public?: boolean
+          kind?: string
+          last_viewed_at?: string | null
+          pin_hash?: string | null
+          report_scopes?: string[]
+          revoked_at?: string | null
+          revoked_reason?: string | null
           share_token?: string
           title?: string
           user_id?: string
+          view_count?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "shared_achievements_assessment_id_fkey"
+            columns: ["assessment_id"]
+            isOneToOne: false
+            referencedRelation: "assessments"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      user_roles: {
+        Row: {
+          created_at: string
+          id: string
+          role: Database["public"]["Enums"]["app_role"]
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          role: Database["public"]["Enums"]["app_role"]
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          role?: Database["public"]["Enums"]["app_role"]
+          user_id?: string
+        }
+        Relationships: []
+      }
+      video_analysis_jobs: {
+        Row: {
+          assessment_id: string | null
+          attempts: number
+          completed_at: string | null
+          created_at: string
+          error: string | null
+          id: string
+          max_attempts: number
+          next_attempt_at: string
+          result: Json | null
+          started_at: string | null
+          status: string
+          updated_at: string
+          user_id: string
+          video_url: string
+        }
+        Insert: {
+          assessment_id?: string | null
+          attempts?: number
+          completed_at?: string | null
+          created_at?: string
+          error?: string | null
+          id?: string
+          max_attempts?: number
+          next_attempt_at?: string
+          result?: Json | null
+          started_at?: string | null
+          status?: string
+          updated_at?: string
+          user_id: string
+          video_url: string
+        }
+        Update: {
+          assessment_id?: string | null
+          attempts?: number
+          completed_at?: string | null
+          created_at?: string
+          error?: string | null
+          id?: string
+          max_attempts?: number
+          next_attempt_at?: string
+          result?: Json | null
+          started_at?: string | null
+          status?: string
+          updated_at?: string
+          user_id?: string
+          video_url?: string
         }
         Relationships: []
       }
@@ -148,10 +873,204 @@ export type Database = {
       [_ in never]: never
     }
     Functions: {
-      [_ in never]: never
+      attach_video_analysis_job: {
+        Args: { _assessment_id: string; _job_id: string }
+        Returns: {
+          assessment_id: string | null
+          attempts: number
+          completed_at: string | null
+          created_at: string
+          error: string | null
+          id: string
+          max_attempts: number
+          next_attempt_at: string
+          result: Json | null
+          started_at: string | null
+          status: string
+          updated_at: string
+          user_id: string
+          video_url: string
+        }
+      }
+      calendar_feed_reminders: {
+        Args: { _token: string }
+        Returns: {
+          exception_dates: string[]
+          first_run_local: string
+          id: string
+          recurrence: string
+          reminder_type: string
+          repeat_interval: number
+          start_date: string
+          time_of_day: string
+          timezone: string
+          title: string
+          updated_at: string
+          weekdays: number[]
+        }[]
+      }
+      claim_due_reminders: {
+        Args: { _limit?: number }
+        Returns: {
+          delivery_id: string
+          reminder_id: string
+          reminder_type: string
+          scheduled_for: string
+          timezone: string
+          title: string
+          user_id: string
+        }[]
+      }
+      claim_email_outbox: {
+        Args: { _limit?: number }
+        Returns: {
+          attempts: number
+          created_at: string
+          from_address: string
+          headers: Json
+          html: string
+          id: string
+          last_error: string | null
+          next_attempt_at: string
+          notification_type: string
+          provider_message_id: string | null
+          sent_at: string | null
+          status: string
+          subject: string
+          text: string
+          to_address: string
+          transport: string | null
+          updated_at: string
+          user_id: string | null
+        }[]
+      }
+      claim_queued_notifications: {
+        Args: { _limit?: number }
+        Returns: {
+          channel: string
+          created_at: string
+          deliver_after: string
+          digest: boolean
+          id: string
+          notification_type: string
+          payload: Json
+          sent_at: string | null
+          user_id: string
+        }[]
+      }
+      claim_video_analysis_jobs: {
+        Args: { _limit?: number }
+        Returns: {
+          assessment_id: string | null
+          attempts: number
+          completed_at: string | null
+          created_at: string
+          error: string | null
+          id: string
+          max_attempts: number
+          next_attempt_at: string
+          result: Json | null
+          started_at: string | null
+          status: string
+          updated_at: string
+          user_id: string
+          video_url: string
+        }[]
+      }
+      create_report_share: {
+        Args: {
+          _assessment_id: string
+          _expires_at: string
+          _pin?: string
+          _scopes: string[]
+          _title: string
+        }
+        Returns: {
+          assessment_id: string | null
+          content: Json
+          created_at: string
+          expires_at: string | null
+          id: string
+          is_public: boolean
+          kind: string
+          last_viewed_at: string | null
+          pin_hash: string | null
+          report_scopes: string[]
+          revoked_at: string | null
+          revoked_reason: string | null
+          share_token: string
+          title: string
+          user_id: string
+          view_count: number
+        }
+      }
+      get_shared_achievement: {
+        Args: { _token: string }
+        Returns: {
+          content: Json
+          created_at: string
+          expires_at: string
+          kind: string
+          status: string
+          title: string
+        }[]
+      }
+      get_shared_report: {
+        Args: { _pin?: string; _token: string }
+        Returns: {
+          created_at: string
+          expires_at: string
+          report: Json
+          status: string
+          title: string
+        }[]
+      }
+      has_care_access: {
+        Args: { patient: string }
+        Returns: boolean
+      }
+      has_role: {
+        Args: {
+          _role: Database["public"]["Enums"]["app_role"]
+          _user_id: string
+        }
+        Returns: boolean
+      }
+      hit_rate_limit: {
+        Args: {
+          _bucket: string
+          _limit: number
+          _user_id: string
+          _window_seconds: number
+        }
+        Returns: boolean
+      }
+      is_linked_clinician: {
+        Args: { clinician: string }
+        Returns: boolean
+      }
+      next_reminder_run: {
+        Args: {
+          _after: string
+          _reminder: Database["public"]["Tables"]["reminders"]["Row"]
+        }
+        Returns: string
+      }
+      purge_expired_assessment_drafts: {
+        Args: never
+        Returns: number
+      }
+      redeem_care_invite: {
+        Args: { invite_code: string }
+        Returns: string | null
+      }
+      revoke_care_link: {
+        Args: { link_id: string }
+        Returns: undefined
+      }
     }
     Enums: {
-      [_ in never]: never
+      app_role: "admin"
     }
     CompositeTypes: {
       [_ in never]: never
@@ -278,6 +1197,8 @@ export type CompositeTypes<
 
 export const Constants = {
   public: {
-    Enums: {},
+    Enums: {
+      app_role: ["admin"],
+    },
   },
 } as const
@@ -0,0 +1,83 @@
+// Typed data layer for background video analysis jobs (queued by predict-video, run by analyze-video)
+import { supabase } from './client';
+import type { Tables } from './types';
+import type { VideoPrediction } from '@/utils/scoring';
+
+export type VideoAnalysisStatus = 'queued' | 'running' | 'succeeded' | 'failed';
+
+export interface VideoAnalysisJob {
+  id: string;
+  assessmentId: string | null;
+  videoUrl: string;
+  status: VideoAnalysisStatus;
+  attempts: number;
+  maxAttempts: number;
+  result: VideoPrediction | null; // Set once the job has succeeded
+  error: string | null; // Last failure, kept while a retry is pending
+  createdAt: string;
+  completedAt: string | null;
+}
+
+const toVideoAnalysisJob = (row: Tables<'video_analysis_jobs'>): VideoAnalysisJob => ({
+  id: row.id,
+  assessmentId: row.assessment_id,
+  videoUrl: row.video_url,
+  status: row.status as VideoAnalysisStatus,
+  attempts: row.attempts,
+  maxAttempts: row.max_attempts,
+  result: row.result as unknown as VideoPrediction | null,
+  error: row.error,
+  createdAt: row.created_at,
+  completedAt: row.completed_at,
+});
+
+export const isVideoAnalysisFinished = (job: VideoAnalysisJob) =>
+  job.status === 'succeeded' || job.status === 'failed';
+
+// Queues an uploaded video for analysis and returns straight away
+export async function requestVideoAnalysis(videoUrl: string): Promise<VideoAnalysisJob> {
+  const { data, error } = await supabase.functions.invoke('predict-video', {
+    body: { video_url: videoUrl },
+  });
+
+  if (error) throw error;
+  return toVideoAnalysisJob(data);
+}
+
+export async function fetchVideoAnalysisJob(jobId: string): Promise<VideoAnalysisJob | null> {
+  const { data, error } = await supabase
+    .from('video_analysis_jobs')
+    .select('*')
+    .eq('id', jobId)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data ? toVideoAnalysisJob(data) : null;
+}
+
+// Links the job to its saved assessment so the prediction is stored there when it arrives
+export async function attachVideoAnalysisJob(jobId: string, assessmentId: string): Promise<VideoAnalysisJob> {
+  const { data, error } = await supabase.rpc('attach_video_analysis_job', {
+    _job_id: jobId,
+    _assessment_id: assessmentId,
+  });
+
+  if (error) throw error;
+  return toVideoAnalysisJob(data);
+}
+
+// Calls onChange with every update to the job; returns the unsubscribe function
+export function subscribeToVideoAnalysisJob(jobId: string, onChange: (job: VideoAnalysisJob) => void): () => void {
+  const channel = supabase
+    .channel(`video-analysis-job-${jobId}`)
+    .on(
+      'postgres_changes',
+      { event: 'UPDATE', schema: 'public', table: 'video_analysis_jobs', filter: `id=eq.${jobId}` },
+      (payload) => onChange(toVideoAnalysisJob(payload.new as Tables<'video_analysis_jobs'>))
+    )
+    .subscribe();
+
+  return () => {
+    supabase.removeChannel(channel);
+  };
+}
@@ -1,4 +1,4 @@
-import { useState } from 'react';
+import { useState, useEffect, useRef } from 'react';
 import { Auth } from '@/components/Auth';
 import RoleSelection from '@/components/RoleSelection';
 import Questionnaire from '@/components/Questionnaire';
@@ -7,11 +7,36 @@ import Dashboard from '@/components/Dashboard';
 import CalmZone from '@/components/CalmZone';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
-import { individualQuestions, parentQuestions, getQuestionWeights, ParentMetadata } from '@/data/questionBanks';
-import { calculateScore, ScoringResult, Answer, AnswerValue } from '@/utils/scoring';
+import { getQuestionsForRole, getQuestionWeights, ParentMetadata, QuestionBank } from '@/data/questionBanks';
+import type { FusionStrategyId } from '@/utils/fusion';
+import {
+  applyVideoPrediction,
+  calculateScore,
+  isVideoPredictionAvailable,
+  ScoringResult,
+  Answer,
+  AnswerValue,
+  VideoOutcome,
+} from '@/utils/scoring';
+import { InstrumentAnswers, InstrumentId, instruments, scoreInstrument } from '@/data/instruments';
 import { Sparkles } from 'lucide-react';
 import { User } from '@supabase/supabase-js';
 import { supabase } from '@/integrations/supabase/client';
+import {
+  AssessmentRecord,
+  fetchLatestAssessment,
+  saveAssessment,
+  updateAssessmentResult,
+  InstrumentAnswer,
+} from '@/integrations/supabase/assessments';
+import { attachVideoAnalysisJob } from '@/integrations/supabase/videoAnalysisJobs';
+import { ChildProfile, toParentMetadata, upsertChildFromMetadata } from '@/integrations/supabase/children';
+import { useToast } from '@/hooks/use-toast';
+import { useQuestionBank } from '@/hooks/useQuestionBank';
+import { useVideoAnalysisJob } from '@/hooks/useVideoAnalysisJob';
+import { QuestionnaireDraft } from '@/integrations/supabase/assessmentDrafts';
+import { fetchQuestionBankVersion } from '@/integrations/supabase/questionBanks';
+import { clearLocalDraft, discardDraft, loadDraft } from '@/utils/assessmentDrafts';
 
 type AppState = 'role-selection' | 'questionnaire' | 'results' | 'dashboard' | 'calm-zone';
 type Role = 'individual' | 'parent' | 'clinician';
@@ -24,14 +49,71 @@ export default function Index() {
   const [demoMode, setDemoMode] = useState(false);
   const [user, setUser] = useState<User | null>(null);
   const [isAuthenticated, setIsAuthenticated] = useState(false);
+  const [draft, setDraft] = useState<QuestionnaireDraft | null>(null);
+  const [resumingDraft, setResumingDraft] = useState<QuestionnaireDraft | null>(null);
+  const { toast } = useToast();
+  const latestQuestionBank = useQuestionBank();
+  // Pinned when a questionnaire starts, so its questions, scoring, stored version and score explanations
+  // all come from one bank even if the published bank finishes loading part-way through
+  const [questionBank, setQuestionBank] = useState<QuestionBank>(latestQuestionBank);
+  const { definition } = questionBank;
+  // A video analysis that had not finished when the questionnaire was submitted
+  const [pendingVideoJobId, setPendingVideoJobId] = useState<string | null>(null);
+  const savedAssessment = useRef<Promise<AssessmentRecord | null>>(Promise.resolve(null));
+  const pendingFusionStrategy = useRef<FusionStrategyId | undefined>(undefined);
+  const currentResult = useRef(scoringResult);
+  currentResult.current = scoringResult;
 
-  const handleAuthSuccess = (authenticatedUser: User, role: string) => {
+  // Fuse the late prediction into the result on screen and the saved assessment, or record that
+  // the analysis was unavailable so the result is marked questionnaire-only
+  const pendingVideoJob = useVideoAnalysisJob(pendingVideoJobId, (job) => {
+    const result = currentResult.current;
+    if (!result || result.instrument) return;
+
+    const outcome: VideoOutcome =
+      job.status === 'succeeded' && job.result
+        ? job.result
+        : { source: 'unavailable', reason: job.error ?? 'Video analysis failed' };
+    const updated = applyVideoPrediction(result, outcome, definition.severityThresholds, pendingFusionStrategy.current);
+    setScoringResult(updated);
+    savedAssessment.current
+      .then((saved) => saved && updateAssessmentResult(saved.id, updated))
+      .catch((error) => console.error('Failed to save video analysis result:', error));
+    if (isVideoPredictionAvailable(outcome)) {
+      toast({
+        title: 'Video analysis finished',
+        description: 'Your results now include the video analysis.',
+      });
+    }
+  });
+
+  // Offer to resume an interrupted questionnaire whenever the user is back on role selection
+  useEffect(() => {
+    if (appState !== 'role-selection' || !user) return;
+    loadDraft(user.id).then(setDraft);
+  }, [appState, user]);
+
+  const handleAuthSuccess = async (authenticatedUser: User, role: string) => {
     setUser(authenticatedUser);
     setIsAuthenticated(true);
     setSelectedRole(role as Role);
+
+    // Restore the most recent assessment so a reload lands on the dashboard
+    try {
+      const latest = await fetchLatestAssessment(authenticatedUser.id);
+      if (latest) {
+        setSelectedRole(latest.role);
+        setScoringResult(latest.result);
+        setParentMetadata(latest.metadata && latest.childId ? { ...latest.metadata, childId: latest.childId } : latest.metadata);
+        setAppState('dashboard');
+      }
+    } catch (error) {
+      console.error('Failed to load latest assessment:', error);
+    }
   };
 
   const handleLogout = async () => {
+    clearLocalDraft();
     await supabase.auth.signOut();
     setUser(null);
     setIsAuthenticated(false);
@@ -41,17 +123,46 @@ export default function Index() {
     setAppState('role-selection');
   };
 
+  const pinQuestionBank = (bank: QuestionBank = latestQuestionBank) => {
+    setQuestionBank(bank);
+    return bank.definition;
+  };
+
   const handleRoleSelection = (role: Role) => {
+    pinQuestionBank();
     setSelectedRole(role);
+    setResumingDraft(null);
+    setAppState('questionnaire');
+  };
+
+  // Drafts go back to the bank they started on; older drafts, or a version that can't be loaded, use the latest
+  const handleResumeDraft = async () => {
+    if (!draft) return;
+    const version = draft.questionBankVersion;
+    const startedOn = version && version !== latestQuestionBank.version ? await fetchQuestionBankVersion(version) : null;
+    pinQuestionBank(startedOn ?? latestQuestionBank);
+    setSelectedRole(draft.role);
+    setResumingDraft(draft);
     setAppState('questionnaire');
   };
 
+  const handleDiscardDraft = () => {
+    if (user) discardDraft(user.id);
+    setDraft(null);
+  };
+
+  const finishDraft = () => {
+    if (user) discardDraft(user.id);
+    setDraft(null);
+    setResumingDraft(null);
+  };
+
   const handleQuestionnaireComplete = (answers: Record<string, AnswerValue>, metadata?: any) => {
     if ((selectedRole === 'parent' || selectedRole === 'clinician') && metadata) {
       setParentMetadata(metadata);
     }
 
-    const questionWeights = getQuestionWeights(selectedRole!);
+    const questionWeights = getQuestionWeights(selectedRole!, definition);
     const answerArray: Answer[] = Object.entries(answers).map(([questionId, value]) => ({
       questionId,
       value,
@@ -62,9 +173,128 @@ export default function Index() {
 
     // Pass video prediction if available from parent metadata
     const videoPrediction = metadata?.videoPrediction;
-    const result = calculateScore(answerArray, questionWeights, hasFamilyHistory, videoPrediction);
+    const clinicianObservation = selectedRole === 'clinician' ? metadata?.clinicianInput : undefined;
+    const fusionStrategy = selectedRole === 'clinician' ? metadata?.fusionStrategy : undefined;
+    // Still-running analyses are followed on the results page and fused in when they arrive
+    const videoJobId = !videoPrediction ? metadata?.videoAnalysisJobId ?? null : null;
+    pendingFusionStrategy.current = fusionStrategy;
+    setPendingVideoJobId(videoJobId);
+    finishDraft();
+    const result = calculateScore(
+      answerArray,
+      questionWeights,
+      hasFamilyHistory,
+      videoPrediction,
+      clinicianObservation,
+      definition.severityThresholds,
+      fusionStrategy
+    );
     setScoringResult(result);
     setAppState('results');
+
+    if (user) {
+      const saving = persistAssessment(user.id, selectedRole!, answerArray, metadata, result);
+      savedAssessment.current = saving.catch(() => null);
+      if (videoJobId) {
+        saving
+          .then((saved) => attachVideoAnalysisJob(videoJobId, saved.id))
+          .catch((error) => console.error('Failed to link video analysis to assessment:', error));
+      }
+      saving.catch((error) => {
+        console.error('Failed to save assessment:', error);
+        toast({
+          title: 'Assessment not saved',
+          description: 'Your results are shown below but could not be stored. Please try again later.',
+          variant: 'destructive',
+        });
+      });
+    }
+  };
+
+  // Standard instruments use their own published scoring rules, so no weights or video fusion apply
+  const handleInstrumentComplete = (instrumentId: InstrumentId, answers: InstrumentAnswers, metadata?: ParentMetadata) => {
+    if (selectedRole === 'parent' && metadata) {
+      setParentMetadata(metadata);
+    }
+
+    finishDraft();
+    const result = scoreInstrument(instrumentId, answers);
+    setScoringResult(result);
+    setAppState('results');
+
+    if (user) {
+      const answerArray: InstrumentAnswer[] = Object.entries(answers).map(([questionId, value]) => ({
+        questionId,
+        value,
+      }));
+      persistAssessment(user.id, selectedRole!, answerArray, metadata ?? null, result, instrumentId).catch((error) => {
+        console.error('Failed to save assessment:', error);
+        toast({
+          title: 'Assessment not saved',
+          description: 'Your results are shown below but could not be stored. Please try again later.',
+          variant: 'destructive',
+        });
+      });
+    }
+  };
+
+  const persistAssessment = async (
+    userId: string,
+    role: Role,
+    answerArray: Answer[] | InstrumentAnswer[],
+    metadata: ParentMetadata | null,
+    result: ScoringResult,
+    instrumentId: InstrumentId | null = null
+  ) => {
+    // Parents' assessments are filed under a saved child profile
+    let childId: string | null = null;
+    if (role === 'parent' && metadata) {
+      const child = await upsertChildFromMetadata(userId, metadata);
+      childId = child.id;
+      setParentMetadata((prev) => (prev ? { ...prev, childId } : prev));
+    }
+
+    return saveAssessment(userId, {
+      childId,
+      role,
+      instrument: instrumentId,
+      answers: answerArray,
+      questionBankVersion: instrumentId ? instruments[instrumentId].version : questionBank.version,
+      metadata: role !== 'individual' && metadata ? { ...metadata, ...(childId ? { childId } : {}) } : null,
+      result,
+    });
+  };
+
+  const handleSelectChild = async (child: ChildProfile) => {
+    if (!user) return;
+
+    try {
+      const latest = await fetchLatestAssessment(user.id, child.id);
+      if (latest) {
+        setScoringResult(latest.result);
+        setParentMetadata({ ...(latest.metadata ?? toParentMetadata(child)), childId: child.id });
+      } else {
+        // No history yet for this child: start an assessment prefilled with their profile
+        pinQuestionBank();
+        setParentMetadata(toParentMetadata(child));
+        setSelectedRole('parent');
+        setAppState('questionnaire');
+      }
+    } catch (error) {
+      console.error('Failed to load child assessment:', error);
+      toast({
+        title: 'Could not switch child',
+        description: 'Please try again.',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const handleAddChild = () => {
+    pinQuestionBank();
+    setParentMetadata(null);
+    setSelectedRole('parent');
+    setAppState('questionnaire');
   };
 
   const handleResultsClose = () => {
@@ -95,20 +325,21 @@ export default function Index() {
 
   const activateDemoMode = () => {
     setDemoMode(true);
+    const definition = pinQuestionBank();
     // Demo: Individual with Low score
     const demoAnswers: Record<string, AnswerValue> = {};
-    individualQuestions.forEach((q, index) => {
+    definition.individual.forEach((q, index) => {
       // Generate low scores
       demoAnswers[q.id] = index % 3 === 0 ? 'never' : index % 3 === 1 ? 'rarely' : 'sometimes';
     });
     
-    const questionWeights = getQuestionWeights('individual');
+    const questionWeights = getQuestionWeights('individual', definition);
     const answerArray: Answer[] = Object.entries(demoAnswers).map(([questionId, value]) => ({
       questionId,
       value,
     }));
     
-    const result = calculateScore(answerArray, questionWeights, false);
+    const result = calculateScore(answerArray, questionWeights, false, undefined, undefined, definition.severityThresholds);
     setSelectedRole('individual');
     setScoringResult(result);
     setAppState('dashboard');
@@ -116,19 +347,20 @@ export default function Index() {
 
   const activateDemoParent = () => {
     setDemoMode(true);
+    const definition = pinQuestionBank();
     const demoAnswers: Record<string, AnswerValue> = {};
-    parentQuestions.forEach((q, index) => {
+    definition.parent.forEach((q, index) => {
       // Generate moderate scores
       demoAnswers[q.id] = index % 2 === 0 ? 'often' : 'sometimes';
     });
     
-    const questionWeights = getQuestionWeights('parent');
+    const questionWeights = getQuestionWeights('parent', definition);
     const answerArray: Answer[] = Object.entries(demoAnswers).map(([questionId, value]) => ({
       questionId,
       value,
     }));
     
-    const result = calculateScore(answerArray, questionWeights, true);
+    const result = calculateScore(answerArray, questionWeights, true, undefined, undefined, definition.severityThresholds);
     setSelectedRole('parent');
     setParentMetadata({
       childName: 'Alex',
@@ -144,19 +376,20 @@ export default function Index() {
 
   const activateDemoHigh = () => {
     setDemoMode(true);
+    const definition = pinQuestionBank();
     const demoAnswers: Record<string, AnswerValue> = {};
-    parentQuestions.forEach((q) => {
+    definition.parent.forEach((q) => {
       // Generate high scores
       demoAnswers[q.id] = 'always';
     });
     
-    const questionWeights = getQuestionWeights('parent');
+    const questionWeights = getQuestionWeights('parent', definition);
     const answerArray: Answer[] = Object.entries(demoAnswers).map(([questionId, value]) => ({
       questionId,
       value,
     }));
     
-    const result = calculateScore(answerArray, questionWeights, true);
+    const result = calculateScore(answerArray, questionWeights, true, undefined, undefined, definition.severityThresholds);
     setSelectedRole('parent');
     setParentMetadata({
       childName: 'Jordan',
@@ -221,15 +454,25 @@ export default function Index() {
       )}
 
       {appState === 'role-selection' && (
-        <RoleSelection onSelectRole={handleRoleSelection} />
+        <RoleSelection
+          onSelectRole={handleRoleSelection}
+          draft={draft}
+          onResumeDraft={handleResumeDraft}
+          onDiscardDraft={handleDiscardDraft}
+        />
       )}
 
       {appState === 'questionnaire' && selectedRole && (
         <Questionnaire
           role={selectedRole}
-          questions={selectedRole === 'individual' ? individualQuestions : parentQuestions}
+          questions={getQuestionsForRole(selectedRole, definition)}
           onComplete={handleQuestionnaireComplete}
           onBack={handleBackToRoles}
+          onInstrumentComplete={handleInstrumentComplete}
+          draft={resumingDraft ?? undefined}
+          userId={user?.id}
+          questionBankVersion={questionBank.version}
+          initialMetadata={selectedRole === 'parent' ? parentMetadata ?? undefined : undefined}
         />
       )}
 
@@ -239,6 +482,8 @@ export default function Index() {
           onClose={handleResultsClose} 
           onBackToHome={handleBackToHomeFromResults}
           videoUrl={parentMetadata?.videoUrl}
+          videoAnalysis={pendingVideoJob}
+          severityThresholds={definition.severityThresholds}
         />
       )}
 
@@ -248,6 +493,8 @@ export default function Index() {
           result={scoringResult}
           metadata={parentMetadata || undefined}
           onNavigateToCalmZone={handleNavigateToCalmZone}
+          onSelectChild={handleSelectChild}
+          onAddChild={handleAddChild}
         />
       )}
 
@@ -0,0 +1,237 @@
+import { useState, useEffect } from 'react';
+import { Link } from 'react-router-dom';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { ArrowLeft, Save } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { supabase } from '@/integrations/supabase/client';
+import {
+  DEFAULT_NOTIFICATION_PREFERENCES,
+  NOTIFICATION_CHANNELS,
+  NOTIFICATION_TYPE_LABELS,
+  NOTIFICATION_TYPES,
+  NotificationChannel,
+  NotificationPreferences,
+  NotificationType,
+  fetchNotificationPreferences,
+  saveNotificationPreferences,
+} from '@/integrations/supabase/notificationPreferences';
+import { getBrowserTimezone } from '@/integrations/supabase/reminders';
+
+const CHANNEL_LABELS: Record<NotificationChannel, string> = {
+  email: 'Email',
+  push: 'Push',
+  in_app: 'In-app',
+};
+
+const DEFAULT_QUIET_HOURS = { start: '21:00', end: '07:00' };
+
+export default function NotificationPreferencesPage() {
+  const [userId, setUserId] = useState<string | null | undefined>(undefined);
+  const [preferences, setPreferences] = useState<NotificationPreferences>(DEFAULT_NOTIFICATION_PREFERENCES);
+  const [saving, setSaving] = useState(false);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    loadPreferences();
+  }, []);
+
+  const loadPreferences = async () => {
+    const { data: { user } } = await supabase.auth.getUser();
+    setUserId(user?.id ?? null);
+    if (!user) return;
+
+    try {
+      setPreferences(await fetchNotificationPreferences(user.id));
+    } catch (error) {
+      console.error('Failed to load notification preferences:', error);
+    }
+  };
+
+  const setChannel = (type: NotificationType, channel: NotificationChannel, enabled: boolean) =>
+    setPreferences({
+      ...preferences,
+      channels: { ...preferences.channels, [type]: { ...preferences.channels[type], [channel]: enabled } },
+    });
+
+  const handleSave = async () => {
+    if (!userId) return;
+    setSaving(true);
+    try {
+      // Quiet hours and the digest time follow the clock of the device that last saved them
+      setPreferences(await saveNotificationPreferences(userId, { ...preferences, timezone: getBrowserTimezone() }));
+      toast({ title: 'Preferences saved' });
+    } catch (error) {
+      toast({
+        title: 'Error saving preferences',
+        description: (error as Error).message,
+        variant: 'destructive',
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (userId === undefined) {
+    return <div className="min-h-screen flex items-center justify-center text-muted-foreground">Loading…</div>;
+  }
+
+  if (userId === null) {
+    return (
+      <div className="min-h-screen flex items-center justify-center p-4">
+        <Card className="max-w-md">
+          <CardHeader>
+            <CardTitle>Sign in required</CardTitle>
+            <CardDescription>Sign in to choose how AutiCare notifies you.</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <Button asChild variant="outline">
+              <Link to="/">Back to AutiCare</Link>
+            </Button>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen p-4 md:p-8 max-w-3xl mx-auto space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold">Notification Preferences</h1>
+          <p className="text-muted-foreground">Choose what reaches you, how, and when</p>
+        </div>
+        <Button asChild variant="ghost">
+          <Link to="/">
+            <ArrowLeft className="h-4 w-4 mr-2" />
+            Back
+          </Link>
+        </Button>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Channels</CardTitle>
+          <CardDescription>
+            Push notifications also need to be switched on for each device from the Notifications card.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Notification</TableHead>
+                {NOTIFICATION_CHANNELS.map((channel) => (
+                  <TableHead key={channel} className="text-center">{CHANNEL_LABELS[channel]}</TableHead>
+                ))}
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {NOTIFICATION_TYPES.map((type) => (
+                <TableRow key={type}>
+                  <TableCell className="font-medium">{NOTIFICATION_TYPE_LABELS[type]}</TableCell>
+                  {NOTIFICATION_CHANNELS.map((channel) => (
+                    <TableCell key={channel} className="text-center">
+                      <Switch
+                        checked={preferences.channels[type][channel]}
+                        onCheckedChange={(checked) => setChannel(type, channel, checked)}
+                        aria-label={`${NOTIFICATION_TYPE_LABELS[type]} by ${CHANNEL_LABELS[channel]}`}
+                      />
+                    </TableCell>
+                  ))}
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <div>
+              <CardTitle>Quiet Hours</CardTitle>
+              <CardDescription>Emails and push notifications wait until quiet hours end</CardDescription>
+            </div>
+            <Switch
+              checked={preferences.quietHours !== null}
+              onCheckedChange={(checked) =>
+                setPreferences({ ...preferences, quietHours: checked ? DEFAULT_QUIET_HOURS : null })
+              }
+              aria-label="Quiet hours"
+            />
+          </div>
+        </CardHeader>
+        {preferences.quietHours && (
+          <CardContent className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="quiet-start">From</Label>
+              <Input
+                id="quiet-start"
+                type="time"
+                value={preferences.quietHours.start}
+                onChange={(e) =>
+                  setPreferences({ ...preferences, quietHours: { ...preferences.quietHours!, start: e.target.value } })
+                }
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="quiet-end">Until</Label>
+              <Input
+                id="quiet-end"
+                type="time"
+                value={preferences.quietHours.end}
+                onChange={(e) =>
+                  setPreferences({ ...preferences, quietHours: { ...preferences.quietHours!, end: e.target.value } })
+                }
+              />
+            </div>
+          </CardContent>
+        )}
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <div>
+              <CardTitle>Daily Digest</CardTitle>
+              <CardDescription>
+                Get one email a day with everything, instead of one email each time. Reminders and
+                appointments are still emailed right away.
+              </CardDescription>
+            </div>
+            <Switch
+              checked={preferences.digestEnabled}
+              onCheckedChange={(checked) => setPreferences({ ...preferences, digestEnabled: checked })}
+              aria-label="Daily digest"
+            />
+          </div>
+        </CardHeader>
+        {preferences.digestEnabled && (
+          <CardContent className="space-y-2">
+            <Label htmlFor="digest-time">Send at</Label>
+            <Input
+              id="digest-time"
+              type="time"
+              className="w-40"
+              value={preferences.digestTime}
+              onChange={(e) => setPreferences({ ...preferences, digestTime: e.target.value })}
+            />
+          </CardContent>
+        )}
+      </Card>
+
+      <div className="flex items-center justify-between">
+        <p className="text-sm text-muted-foreground">Times are in {getBrowserTimezone()}</p>
+        <Button onClick={handleSave} disabled={saving}>
+          <Save className="h-4 w-4 mr-2" />
+          Save Preferences
+        </Button>
+      </div>
+    </div>
+  );
+}
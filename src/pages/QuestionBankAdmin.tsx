@@ -0,0 +1,349 @@
+import { useState, useEffect } from 'react';
+import { Link } from 'react-router-dom';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Badge } from '@/components/ui/badge';
+import { FileText, GitCompare, Plus, Save, Send, Trash2, ArrowLeft } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { supabase } from '@/integrations/supabase/client';
+import { defaultQuestionBank, QuestionBankDefinition } from '@/data/questionBanks';
+import {
+  QuestionBankVersionRecord,
+  createQuestionBankDraft,
+  deleteQuestionBankDraft,
+  isQuestionBankAdmin,
+  listQuestionBankVersions,
+  publishQuestionBank,
+  updateQuestionBankDraft,
+} from '@/integrations/supabase/questionBanks';
+import { diffQuestionBanks } from '@/utils/questionBankDiff';
+import { validateSeverityThresholds } from '@/utils/scoring';
+
+const changeColors = {
+  added: 'bg-mint text-mint-foreground',
+  removed: 'bg-coral text-coral-foreground',
+  changed: 'bg-lavender text-lavender-foreground',
+};
+
+// Reject drafts that would break scoring before they reach the database
+function parseDefinition(json: string): QuestionBankDefinition {
+  const parsed = JSON.parse(json) as QuestionBankDefinition;
+  if (!Array.isArray(parsed.individual) || !Array.isArray(parsed.parent)) {
+    throw new Error('Definition needs "individual" and "parent" question lists');
+  }
+  for (const q of [...parsed.individual, ...parsed.parent]) {
+    if (!q.id || !q.text || !(q.category in parsed.categoryWeights)) {
+      throw new Error(`Question ${q.id ?? '(no id)'} needs an id, text and a weighted category`);
+    }
+  }
+  validateSeverityThresholds(parsed.severityThresholds);
+  return parsed;
+}
+
+// Suggest the next minor version, e.g. 1.1.0 -> 1.2.0
+const nextVersion = (version: string) => {
+  const [major, minor] = version.split('.').map(Number);
+  return Number.isNaN(minor) ? `${version}-draft` : `${major}.${minor + 1}.0`;
+};
+
+export default function QuestionBankAdmin() {
+  const [userId, setUserId] = useState<string | null>(null);
+  const [isAdmin, setIsAdmin] = useState<boolean | null>(null);
+  const [versions, setVersions] = useState<QuestionBankVersionRecord[]>([]);
+  const [selected, setSelected] = useState<QuestionBankVersionRecord | null>(null);
+  const [versionInput, setVersionInput] = useState('');
+  const [notesInput, setNotesInput] = useState('');
+  const [definitionInput, setDefinitionInput] = useState('');
+  const [loading, setLoading] = useState(false);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    loadAdmin();
+  }, []);
+
+  const loadAdmin = async () => {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) {
+      setIsAdmin(false);
+      return;
+    }
+
+    try {
+      setUserId(user.id);
+      const admin = await isQuestionBankAdmin(user.id);
+      setIsAdmin(admin);
+      if (admin) setVersions(await listQuestionBankVersions());
+    } catch (error) {
+      console.error('Failed to load question banks:', error);
+      setIsAdmin(false);
+    }
+  };
+
+  const loadVersions = async () => {
+    setVersions(await listQuestionBankVersions());
+  };
+
+  // The live bank is the most recently published one, matching fetchPublishedQuestionBank
+  const published = versions
+    .filter((v) => v.status === 'published')
+    .sort((a, b) => (b.publishedAt ?? '').localeCompare(a.publishedAt ?? ''))[0];
+
+  const selectVersion = (version: QuestionBankVersionRecord) => {
+    setSelected(version);
+    setVersionInput(version.version);
+    setNotesInput(version.notes ?? '');
+    setDefinitionInput(JSON.stringify(version.definition, null, 2));
+  };
+
+  const runAction = async (title: string, action: () => Promise<void>) => {
+    setLoading(true);
+    try {
+      await action();
+    } catch (error) {
+      toast({
+        title,
+        description: (error as Error).message,
+        variant: 'destructive',
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleNewDraft = () =>
+    runAction('Could not create draft', async () => {
+      const base = published ?? defaultQuestionBank;
+      const draft = await createQuestionBankDraft(userId!, nextVersion(base.version), base.definition);
+      await loadVersions();
+      selectVersion(draft);
+    });
+
+  const handleSave = () =>
+    runAction('Could not save draft', async () => {
+      const saved = await updateQuestionBankDraft(selected!.id, {
+        version: versionInput.trim(),
+        definition: parseDefinition(definitionInput),
+        notes: notesInput.trim() || null,
+      });
+      await loadVersions();
+      selectVersion(saved);
+      toast({ title: 'Draft saved', description: `Version ${saved.version} updated.` });
+    });
+
+  const handlePublish = () =>
+    runAction('Could not publish', async () => {
+      const saved = await updateQuestionBankDraft(selected!.id, {
+        version: versionInput.trim(),
+        definition: parseDefinition(definitionInput),
+        notes: notesInput.trim() || null,
+      });
+      const live = await publishQuestionBank(saved.id);
+      await loadVersions();
+      selectVersion(live);
+      toast({
+        title: 'Question bank published',
+        description: `New assessments will use version ${live.version}.`,
+      });
+    });
+
+  const handleDelete = () =>
+    runAction('Could not delete draft', async () => {
+      await deleteQuestionBankDraft(selected!.id);
+      setSelected(null);
+      await loadVersions();
+    });
+
+  if (isAdmin === null) {
+    return <div className="min-h-screen flex items-center justify-center text-muted-foreground">Loading…</div>;
+  }
+
+  if (!isAdmin) {
+    return (
+      <div className="min-h-screen flex items-center justify-center p-4">
+        <Card className="max-w-md">
+          <CardHeader>
+            <CardTitle>Admins only</CardTitle>
+            <CardDescription>You need the admin role to manage question banks.</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <Button asChild variant="outline">
+              <Link to="/">Back to AutiCare</Link>
+            </Button>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  let draftDefinition: QuestionBankDefinition | null = null;
+  let parseError: string | null = null;
+  if (selected?.status === 'draft') {
+    try {
+      draftDefinition = parseDefinition(definitionInput);
+    } catch (error) {
+      parseError = (error as Error).message;
+    }
+  }
+  const changes = draftDefinition && published ? diffQuestionBanks(published.definition, draftDefinition) : [];
+
+  return (
+    <div className="min-h-screen p-4 md:p-8 max-w-6xl mx-auto space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold">Question Banks</h1>
+          <p className="text-muted-foreground">
+            Draft, compare and publish the questions, weights and severity thresholds used for scoring
+          </p>
+        </div>
+        <Button asChild variant="ghost">
+          <Link to="/">
+            <ArrowLeft className="h-4 w-4 mr-2" />
+            Back
+          </Link>
+        </Button>
+      </div>
+
+      <div className="grid gap-6 md:grid-cols-[280px_1fr]">
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <FileText className="h-5 w-5 text-primary" />
+              Versions
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-2">
+            <Button className="w-full" onClick={handleNewDraft} disabled={loading}>
+              <Plus className="h-4 w-4 mr-2" />
+              New draft from published
+            </Button>
+            {versions.map((version) => (
+              <button
+                key={version.id}
+                onClick={() => selectVersion(version)}
+                className={`w-full text-left p-3 rounded-lg border transition-colors ${
+                  selected?.id === version.id ? 'border-primary bg-primary/5' : 'bg-card hover:bg-muted'
+                }`}
+              >
+                <div className="flex items-center justify-between">
+                  <span className="font-mono font-medium">{version.version}</span>
+                  <Badge variant={version.status === 'published' ? 'default' : 'outline'}>
+                    {version.id === published?.id ? 'live' : version.status}
+                  </Badge>
+                </div>
+                <p className="text-xs text-muted-foreground mt-1">
+                  {version.publishedAt
+                    ? `Published ${new Date(version.publishedAt).toLocaleDateString()}`
+                    : `Created ${new Date(version.createdAt).toLocaleDateString()}`}
+                </p>
+              </button>
+            ))}
+          </CardContent>
+        </Card>
+
+        {selected ? (
+          <div className="space-y-6">
+            <Card>
+              <CardHeader>
+                <CardTitle>Version {selected.version}</CardTitle>
+                <CardDescription>
+                  {selected.status === 'draft'
+                    ? 'Drafts can be edited until they are published'
+                    : 'Published versions are frozen so stored assessments stay comparable'}
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <div className="grid gap-4 md:grid-cols-2">
+                  <div className="space-y-2">
+                    <Label htmlFor="bank-version">Version</Label>
+                    <Input
+                      id="bank-version"
+                      value={versionInput}
+                      onChange={(e) => setVersionInput(e.target.value)}
+                      disabled={selected.status !== 'draft'}
+                      className="font-mono"
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="bank-notes">Change notes</Label>
+                    <Input
+                      id="bank-notes"
+                      value={notesInput}
+                      onChange={(e) => setNotesInput(e.target.value)}
+                      disabled={selected.status !== 'draft'}
+                      placeholder="What changed and why"
+                    />
+                  </div>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="bank-definition">Definition (questions, category weights, severity thresholds)</Label>
+                  <Textarea
+                    id="bank-definition"
+                    value={definitionInput}
+                    onChange={(e) => setDefinitionInput(e.target.value)}
+                    readOnly={selected.status !== 'draft'}
+                    className="font-mono text-xs min-h-[360px]"
+                  />
+                  {parseError && <p className="text-sm text-destructive">{parseError}</p>}
+                </div>
+                {selected.status === 'draft' && (
+                  <div className="flex flex-wrap gap-2">
+                    <Button onClick={handleSave} disabled={loading || !!parseError}>
+                      <Save className="h-4 w-4 mr-2" />
+                      Save draft
+                    </Button>
+                    <Button onClick={handlePublish} disabled={loading || !!parseError} variant="secondary">
+                      <Send className="h-4 w-4 mr-2" />
+                      Publish
+                    </Button>
+                    <Button onClick={handleDelete} disabled={loading} variant="ghost">
+                      <Trash2 className="h-4 w-4 mr-2 text-destructive" />
+                      Delete
+                    </Button>
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+
+            {selected.status === 'draft' && published && (
+              <Card>
+                <CardHeader>
+                  <CardTitle className="flex items-center gap-2">
+                    <GitCompare className="h-5 w-5 text-primary" />
+                    Changes from {published.version}
+                  </CardTitle>
+                  <CardDescription>Unsaved edits are included</CardDescription>
+                </CardHeader>
+                <CardContent className="space-y-2">
+                  {changes.length === 0 ? (
+                    <p className="text-sm text-muted-foreground">No differences from the published version</p>
+                  ) : (
+                    changes.map((change) => (
+                      <div key={`${change.section}-${change.key}`} className="p-3 rounded-lg border bg-card text-sm">
+                        <div className="flex items-center gap-2 mb-1">
+                          <Badge className={changeColors[change.kind]}>{change.kind}</Badge>
+                          <span className="text-muted-foreground">{change.section}</span>
+                          <span className="font-mono">{change.key}</span>
+                        </div>
+                        {change.before && <p className="text-muted-foreground line-through">{change.before}</p>}
+                        {change.after && <p>{change.after}</p>}
+                      </div>
+                    ))
+                  )}
+                </CardContent>
+              </Card>
+            )}
+          </div>
+        ) : (
+          <Card>
+            <CardContent className="py-12 text-center text-muted-foreground">
+              Select a version to view it, or start a new draft
+            </CardContent>
+          </Card>
+        )}
+      </div>
+    </div>
+  );
+}
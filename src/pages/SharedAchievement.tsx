@@ -0,0 +1,164 @@
+import { useState, useEffect } from 'react';
+import { Link, useParams } from 'react-router-dom';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { SharedReportView } from '@/components/SharedReportView';
+import {
+  AchievementShareContent,
+  ProgressShareContent,
+  SharedView,
+  fetchSharedView,
+} from '@/integrations/supabase/sharedAchievements';
+
+const TREND_LABELS: Record<ProgressShareContent['trend'], string> = {
+  improving: 'Improving',
+  declining: 'Working on it',
+  stable: 'Staying steady',
+};
+
+function AchievementContent({ content }: { content: AchievementShareContent }) {
+  return (
+    <div className="grid grid-cols-2 md:grid-cols-3 gap-3">
+      {content.badges.map((badge) => (
+        <div
+          key={badge.type}
+          className="flex flex-col items-center gap-2 p-4 rounded-lg bg-accent/50 border-2 border-primary"
+        >
+          <span className="text-4xl">{badge.icon}</span>
+          <span className="font-semibold text-sm text-center">{badge.name}</span>
+          <span className="text-xs text-muted-foreground text-center">{badge.description}</span>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+function ProgressContent({ content }: { content: ProgressShareContent }) {
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center gap-2 text-sm">
+        <Badge variant="secondary">{TREND_LABELS[content.trend]}</Badge>
+        <span className="text-muted-foreground">
+          Latest {content.entries.length} of {content.totalEntries} check-ins
+        </span>
+      </div>
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Date</TableHead>
+            <TableHead className="text-right">Score</TableHead>
+            <TableHead>Level</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {content.entries.map((entry) => (
+            <TableRow key={entry.timestamp}>
+              <TableCell>{new Date(entry.timestamp).toLocaleDateString()}</TableCell>
+              <TableCell className="text-right">{entry.score.toFixed(1)}</TableCell>
+              <TableCell className="capitalize">{entry.severity}</TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+    </div>
+  );
+}
+
+function Unavailable({ title, description }: { title: string; description: string }) {
+  return (
+    <div className="min-h-screen flex items-center justify-center p-4">
+      <Card className="max-w-md">
+        <CardHeader>
+          <CardTitle>{title}</CardTitle>
+          <CardDescription>{description}</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <Button asChild variant="outline">
+            <Link to="/">Visit AutiCare</Link>
+          </Button>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
+
+// Read-only page behind share links (SocialShare and clinician reports); works without signing in
+export default function SharedAchievementPage() {
+  const { token } = useParams<{ token: string }>();
+  const [view, setView] = useState<SharedView | null | undefined>(undefined);
+
+  useEffect(() => {
+    if (!token) return;
+    fetchSharedView(token)
+      .then(setView)
+      .catch((error) => {
+        console.error('Failed to load shared link:', error);
+        setView(null);
+      });
+  }, [token]);
+
+  if (!token || view === null) {
+    return (
+      <Unavailable
+        title="Something went wrong"
+        description="We couldn't open this link. Please check it and try again later."
+      />
+    );
+  }
+
+  if (view === undefined) {
+    return <div className="min-h-screen flex items-center justify-center text-muted-foreground">Loading…</div>;
+  }
+
+  if (view.status === 'revoked') {
+    return (
+      <Unavailable
+        title="This link is no longer available"
+        description="The person who shared it may have revoked it or made it private."
+      />
+    );
+  }
+
+  if (view.status === 'expired') {
+    return (
+      <Unavailable
+        title="This link has expired"
+        description={`It stopped working on ${new Date(view.expiresAt).toLocaleDateString()}. Ask for a new link if you'd still like to see it.`}
+      />
+    );
+  }
+
+  // Report links are opened separately so the PIN and section scopes are checked on the server
+  if (view.kind === 'report') {
+    return <SharedReportView token={token} />;
+  }
+
+  return (
+    <div className="min-h-screen p-4 md:p-8 max-w-3xl mx-auto space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle>{view.title}</CardTitle>
+          <CardDescription>
+            {view.kind === 'achievement' ? 'Achievements' : 'Progress'} shared on{' '}
+            {new Date(view.createdAt).toLocaleDateString()}
+            {view.expiresAt && ` · available until ${new Date(view.expiresAt).toLocaleDateString()}`}
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {view.kind === 'achievement' ? (
+            <AchievementContent content={view.content as AchievementShareContent} />
+          ) : (
+            <ProgressContent content={view.content as ProgressShareContent} />
+          )}
+        </CardContent>
+      </Card>
+      <div className="text-center">
+        <Button asChild variant="outline">
+          <Link to="/">Visit AutiCare</Link>
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,78 @@
+import { useState } from 'react';
+import { Link, useSearchParams } from 'react-router-dom';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { MailX } from 'lucide-react';
+import {
+  NOTIFICATION_TYPES,
+  NOTIFICATION_TYPE_LABELS,
+  NotificationType,
+  unsubscribeFromEmails,
+} from '@/integrations/supabase/notificationPreferences';
+
+type Status = 'confirm' | 'saving' | 'done' | 'failed';
+
+// Opened from the unsubscribe link in notification emails; works without signing in. Nothing changes
+// until the button is pressed, so mail scanners that follow links can't unsubscribe anyone.
+export default function Unsubscribe() {
+  const [searchParams] = useSearchParams();
+  const token = searchParams.get('token');
+  const typeParam = searchParams.get('type');
+  const type = NOTIFICATION_TYPES.includes(typeParam as NotificationType) ? (typeParam as NotificationType) : undefined;
+  const [status, setStatus] = useState<Status>('confirm');
+
+  const emails = type ? `"${NOTIFICATION_TYPE_LABELS[type]}" emails` : 'all AutiCare emails';
+
+  const handleConfirm = async () => {
+    setStatus('saving');
+    try {
+      await unsubscribeFromEmails(token!, type);
+      setStatus('done');
+    } catch (error) {
+      console.error('Failed to unsubscribe:', error);
+      setStatus('failed');
+    }
+  };
+
+  const invalid = !token || (typeParam !== null && !type);
+
+  return (
+    <div className="min-h-screen flex items-center justify-center p-4">
+      <Card className="max-w-md">
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <MailX className="h-5 w-5 text-primary" />
+            {invalid
+              ? 'This unsubscribe link is not valid'
+              : status === 'done'
+              ? 'You have been unsubscribed'
+              : `Unsubscribe from ${emails}?`}
+          </CardTitle>
+          <CardDescription>
+            {invalid
+              ? 'Please use the link from your most recent AutiCare email.'
+              : status === 'done'
+              ? `You won't get ${emails} any more.`
+              : status === 'failed'
+              ? "We couldn't unsubscribe you. Please check the link and try again later."
+              : 'Push and in-app notifications are not affected.'}
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {!invalid && status !== 'done' && (
+            <Button onClick={handleConfirm} disabled={status === 'saving'} className="w-full">
+              Unsubscribe
+            </Button>
+          )}
+          <p className="text-sm text-muted-foreground">
+            You can change this at any time under{' '}
+            <Link to="/settings/notifications" className="underline">
+              Notification Preferences
+            </Link>
+            .
+          </p>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,69 @@
+// Questionnaire drafts are written to localStorage straight away and synced to Supabase when logged in,
+// so progress survives both a reload and switching devices
+import {
+  DRAFT_TTL_DAYS,
+  QuestionnaireDraft,
+  deleteAssessmentDraft,
+  fetchAssessmentDraft,
+  saveAssessmentDraft,
+} from '@/integrations/supabase/assessmentDrafts';
+
+const DRAFT_STORAGE_KEY = 'auticare_questionnaire_draft';
+
+const isExpired = (draft: QuestionnaireDraft) =>
+  Date.now() - new Date(draft.savedAt).getTime() > DRAFT_TTL_DAYS * 24 * 60 * 60 * 1000;
+
+function readLocalDraft(): QuestionnaireDraft | null {
+  const stored = localStorage.getItem(DRAFT_STORAGE_KEY);
+  if (!stored) return null;
+
+  try {
+    const draft = JSON.parse(stored) as QuestionnaireDraft;
+    if (!isExpired(draft)) return draft;
+  } catch (e) {
+    console.error('Failed to parse questionnaire draft', e);
+  }
+  localStorage.removeItem(DRAFT_STORAGE_KEY);
+  return null;
+}
+
+export function saveLocalDraft(draft: QuestionnaireDraft) {
+  localStorage.setItem(DRAFT_STORAGE_KEY, JSON.stringify(draft));
+}
+
+export function clearLocalDraft() {
+  localStorage.removeItem(DRAFT_STORAGE_KEY);
+}
+
+// Newest of the local and saved drafts wins
+export async function loadDraft(userId: string): Promise<QuestionnaireDraft | null> {
+  const local = readLocalDraft();
+
+  let remote: QuestionnaireDraft | null = null;
+  try {
+    remote = await fetchAssessmentDraft(userId);
+  } catch (error) {
+    console.error('Failed to load saved draft:', error);
+  }
+
+  if (!local) return remote;
+  if (!remote) return local;
+  return new Date(remote.savedAt) > new Date(local.savedAt) ? remote : local;
+}
+
+export async function syncDraft(userId: string, draft: QuestionnaireDraft) {
+  try {
+    await saveAssessmentDraft(userId, draft);
+  } catch (error) {
+    console.error('Failed to sync draft:', error);
+  }
+}
+
+export async function discardDraft(userId: string) {
+  clearLocalDraft();
+  try {
+    await deleteAssessmentDraft(userId);
+  } catch (error) {
+    console.error('Failed to delete draft:', error);
+  }
+}
@@ -0,0 +1,83 @@
+// Strategies for combining the questionnaire score with the video model's prediction
+import type { VideoPrediction } from './scoring';
+
+export type FusionStrategyId = 'fixed-weights' | 'confidence-weighted' | 'bayesian' | 'questionnaire-only';
+
+export interface FusionStrategy {
+  id: FusionStrategyId;
+  name: string;
+  description: string;
+  // Both scores are on the 0-100 scale; returns the fused 0-100 score
+  fuse: (questionnaireScore: number, prediction: VideoPrediction) => number;
+}
+
+// Used when the model doesn't report a confidence
+const DEFAULT_ML_CONFIDENCE = 0.7;
+
+const confidenceOf = (prediction: VideoPrediction) => prediction.confidence || DEFAULT_ML_CONFIDENCE;
+
+// Keep probabilities away from 0 and 1 so odds stay finite
+const toProbability = (score: number) => Math.min(0.99, Math.max(0.01, score / 100));
+
+export const fusionStrategies: Record<FusionStrategyId, FusionStrategy> = {
+  'fixed-weights': {
+    id: 'fixed-weights',
+    name: 'Fixed weights',
+    description: '60% questionnaire, 40% video model, regardless of model confidence',
+    fuse: (questionnaireScore, prediction) =>
+      Math.round(questionnaireScore * 0.6 + prediction.prediction_score * 0.4),
+  },
+  'confidence-weighted': {
+    id: 'confidence-weighted',
+    name: 'Confidence-weighted',
+    description: "60/40 split with the video model's share scaled by its confidence",
+    fuse: (questionnaireScore, prediction) => {
+      const questionnaireWeight = 0.6;
+      const mlWeight = 0.4 * confidenceOf(prediction);
+      return Math.round(
+        (questionnaireScore * questionnaireWeight + prediction.prediction_score * mlWeight) /
+          (questionnaireWeight + mlWeight)
+      );
+    },
+  },
+  bayesian: {
+    id: 'bayesian',
+    name: 'Bayesian update',
+    description: "Questionnaire score as the prior, updated by the video model's evidence tempered by its confidence",
+    fuse: (questionnaireScore, prediction) => {
+      const prior = toProbability(questionnaireScore);
+      const evidence = toProbability(prediction.prediction_score);
+      const likelihoodRatio = Math.pow(evidence / (1 - evidence), confidenceOf(prediction));
+      const posteriorOdds = (prior / (1 - prior)) * likelihoodRatio;
+      return Math.round((posteriorOdds / (1 + posteriorOdds)) * 100);
+    },
+  },
+  'questionnaire-only': {
+    id: 'questionnaire-only',
+    name: 'Questionnaire only',
+    description: 'The video model is shown as an annotation and does not change the score',
+    fuse: (questionnaireScore) => questionnaireScore,
+  },
+};
+
+// Matches the fusion used before strategies were configurable
+export const DEFAULT_FUSION_STRATEGY: FusionStrategyId = 'confidence-weighted';
+
+export function fuseScores(
+  questionnaireScore: number,
+  prediction: VideoPrediction,
+  strategy: FusionStrategyId = DEFAULT_FUSION_STRATEGY
+): number {
+  return fusionStrategies[strategy].fuse(questionnaireScore, prediction);
+}
+
+// Every strategy's result for the same inputs, for side-by-side comparison
+export function compareFusionStrategies(
+  questionnaireScore: number,
+  prediction: VideoPrediction
+): Array<{ strategy: FusionStrategy; fusedScore: number }> {
+  return Object.values(fusionStrategies).map((strategy) => ({
+    strategy,
+    fusedScore: strategy.fuse(questionnaireScore, prediction),
+  }));
+}
@@ -0,0 +1,216 @@
+// Minimal iCalendar (RFC 5545) reader for importing calendar events as reminders. Only what a
+// reminder can represent is imported; everything else is reported back as skipped.
+import { RecurrenceRule, toDateString, toDateStringInTimezone } from './recurrence';
+
+export interface ImportedEvent {
+  sourceUid: string;
+  title: string;
+  time: string; // HH:MM in `timezone`
+  timezone: string;
+  recurrence: RecurrenceRule;
+}
+
+export interface SkippedEvent {
+  title: string;
+  reason: string;
+}
+
+export interface ICalendarImport {
+  events: ImportedEvent[];
+  skipped: SkippedEvent[];
+}
+
+interface Property {
+  name: string;
+  params: Record<string, string>;
+  value: string;
+}
+
+const ICAL_WEEKDAYS = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+
+const isValidTimezone = (timeZone: string) => {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+const unescapeText = (text: string) =>
+  text.replace(/\\n/gi, '\n').replace(/\\([\\;,])/g, '$1');
+
+// NAME;PARAM=VALUE;PARAM="quoted:value":VALUE
+function parseProperty(line: string): Property | null {
+  let inQuotes = false;
+  let colon = -1;
+  for (let i = 0; i < line.length; i++) {
+    if (line[i] === '"') inQuotes = !inQuotes;
+    if (line[i] === ':' && !inQuotes) {
+      colon = i;
+      break;
+    }
+  }
+  if (colon === -1) return null;
+
+  const [name, ...rawParams] = line.slice(0, colon).split(';');
+  const params = Object.fromEntries(
+    rawParams.map((param) => {
+      const [key, ...rest] = param.split('=');
+      return [key.toUpperCase(), rest.join('=').replace(/^"|"$/g, '')];
+    })
+  );
+  return { name: name.toUpperCase(), params, value: line.slice(colon + 1) };
+}
+
+// Each VEVENT's properties, ignoring nested components such as VALARM
+function readEvents(text: string): Property[][] {
+  const lines = text.replace(/\r?\n[ \t]/g, '').split(/\r?\n/);
+  const events: Property[][] = [];
+  let current: Property[] | null = null;
+  let nested = 0;
+
+  for (const line of lines) {
+    if (line === 'BEGIN:VEVENT') {
+      current = [];
+    } else if (line === 'END:VEVENT') {
+      if (current) events.push(current);
+      current = null;
+    } else if (current && line.startsWith('BEGIN:')) {
+      nested++;
+    } else if (current && line.startsWith('END:')) {
+      nested--;
+    } else if (current && nested === 0) {
+      const property = parseProperty(line);
+      if (property) current.push(property);
+    }
+  }
+
+  return events;
+}
+
+// 20251127 or 20251127T073000 or 20251127T073000Z
+function parseDateTime(property: Property, fallbackTimezone: string) {
+  const match = property.value.match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})\d{2}(Z)?)?$/);
+  if (!match) return null;
+  const [, year, month, day, hours, minutes, utc] = match;
+
+  let timezone = fallbackTimezone;
+  if (utc) timezone = 'UTC';
+  else if (property.params.TZID && isValidTimezone(property.params.TZID)) timezone = property.params.TZID;
+
+  return {
+    date: `${year}-${month}-${day}`,
+    time: hours ? `${hours}:${minutes}` : null,
+    timezone,
+  };
+}
+
+// EXDATE values are dates in the event's timezone, except UTC times (...Z), which can fall on a
+// different day there
+function parseExceptionDate(value: string, timezone: string): string | null {
+  const match = value.match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z)?)?$/);
+  if (!match) return null;
+  const [, year, month, day, hours, minutes, seconds, utc] = match;
+  if (utc) return toDateStringInTimezone(`${year}-${month}-${day}T${hours}:${minutes}:${seconds}Z`, timezone);
+  return `${year}-${month}-${day}`;
+}
+
+type RecurrenceResult = { rule: Omit<RecurrenceRule, 'startDate' | 'exceptionDates'> } | { unsupported: string };
+
+function parseRRule(value: string, startDate: string): RecurrenceResult {
+  const parts = Object.fromEntries(
+    value.split(';').map((part) => {
+      const [key, ...rest] = part.split('=');
+      return [key.toUpperCase(), rest.join('=').toUpperCase()];
+    })
+  );
+  const interval = parts.INTERVAL ? Number(parts.INTERVAL) : 1;
+  if (!Number.isInteger(interval) || interval < 1) return { unsupported: `Has an invalid repeat interval (${parts.INTERVAL})` };
+
+  if (parts.COUNT || parts.UNTIL) return { unsupported: 'Repeats a set number of times or until a date' };
+  const unknown = Object.keys(parts).filter((key) => !['FREQ', 'INTERVAL', 'BYDAY', 'BYMONTHDAY', 'WKST'].includes(key));
+  if (unknown.length > 0) return { unsupported: `Uses ${unknown.join(', ')} in its repeat rule` };
+
+  const startDay = new Date(`${startDate}T00:00`);
+  switch (parts.FREQ) {
+    case 'DAILY':
+      if (parts.BYDAY || parts.BYMONTHDAY) break;
+      return { rule: { frequency: 'daily', interval, weekdays: [] } };
+    case 'WEEKLY': {
+      const days = parts.BYDAY ? parts.BYDAY.split(',') : [ICAL_WEEKDAYS[startDay.getDay()]];
+      const weekdays = days.map((day) => ICAL_WEEKDAYS.indexOf(day));
+      if (weekdays.includes(-1) || parts.BYMONTHDAY) break;
+      if (interval === 1 && [...weekdays].sort().join() === '1,2,3,4,5') {
+        return { rule: { frequency: 'weekdays', interval: 1, weekdays: [] } };
+      }
+      return { rule: { frequency: 'weekly', interval, weekdays } };
+    }
+    case 'MONTHLY':
+      if (parts.BYDAY || (parts.BYMONTHDAY && Number(parts.BYMONTHDAY) !== startDay.getDate())) break;
+      return { rule: { frequency: 'monthly', interval, weekdays: [] } };
+  }
+  return { unsupported: `Repeats in a way reminders can't follow (${value})` };
+}
+
+export function parseICalendar(text: string, fallbackTimezone: string, now: Date = new Date()): ICalendarImport {
+  const result: ICalendarImport = { events: [], skipped: [] };
+
+  for (const properties of readEvents(text)) {
+    const get = (name: string) => properties.find((p) => p.name === name);
+    const title = unescapeText(get('SUMMARY')?.value ?? '').trim() || 'Untitled event';
+    const skip = (reason: string) => result.skipped.push({ title, reason });
+
+    if (get('STATUS')?.value.toUpperCase() === 'CANCELLED') continue;
+    // Moved or edited single occurrences of a repeating event
+    if (get('RECURRENCE-ID')) {
+      skip('Changes one occurrence of a repeating event');
+      continue;
+    }
+
+    const dtstart = get('DTSTART');
+    const start = dtstart ? parseDateTime(dtstart, fallbackTimezone) : null;
+    if (!start) {
+      skip('Has no start time');
+      continue;
+    }
+    if (!start.time) {
+      skip('All-day event');
+      continue;
+    }
+
+    const exceptionDates = properties
+      .filter((p) => p.name === 'EXDATE')
+      .flatMap((p) => p.value.split(','))
+      .map((value) => parseExceptionDate(value.trim(), start.timezone))
+      .filter((date): date is string => date !== null);
+
+    const rrule = get('RRULE');
+    let recurrence: RecurrenceRule;
+    if (rrule) {
+      const parsed = parseRRule(rrule.value, start.date);
+      if ('unsupported' in parsed) {
+        skip(parsed.unsupported);
+        continue;
+      }
+      recurrence = { ...parsed.rule, startDate: start.date, exceptionDates };
+    } else {
+      // Compared as calendar dates, so an event later today still counts as upcoming
+      if (start.date < toDateString(now)) {
+        skip('Already happened');
+        continue;
+      }
+      recurrence = { frequency: 'once', interval: 1, weekdays: [], startDate: start.date, exceptionDates: [] };
+    }
+
+    result.events.push({
+      sourceUid: get('UID')?.value || `${title}-${dtstart!.value}`,
+      title,
+      time: start.time,
+      timezone: start.timezone,
+      recurrence,
+    });
+  }
+
+  return result;
+}
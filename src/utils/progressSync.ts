@@ -0,0 +1,135 @@
+// Progress history is stored in Supabase and cached in localStorage per user, so it follows the user
+// across devices but still shows offline. Entries recorded offline wait in a pending list and are
+// uploaded on the next load or as soon as the browser is back online.
+import type { ProgressEntry } from '@/hooks/useProgressTracking';
+import { listChildren } from '@/integrations/supabase/children';
+import {
+  PROGRESS_HISTORY_LIMIT,
+  deleteProgressEntries,
+  listProgressEntries,
+  uploadProgressEntries,
+} from '@/integrations/supabase/progressEntries';
+
+// History recorded while signed out, and everything written by versions before syncing existed.
+// The first user to sign in on this browser adopts it.
+const SIGNED_OUT_STORAGE_KEY = 'auticare_progress_history';
+const SIGNED_OUT_LIMIT = 20; // per child, as before syncing existed
+
+const cacheKey = (userId: string) => `auticare_progress_cache:${userId}`;
+const pendingKey = (userId: string) => `auticare_progress_pending:${userId}`;
+
+// Entries are stored together but read per child, so siblings' trends never mix
+export const inScope = (entry: ProgressEntry, childId?: string) => (entry.childId ?? null) === (childId ?? null);
+
+// Older entries have no id; their timestamp identifies them well enough to upload once
+function readEntries(key: string): ProgressEntry[] {
+  const stored = localStorage.getItem(key);
+  if (!stored) return [];
+
+  try {
+    const entries = JSON.parse(stored) as ProgressEntry[];
+    return entries.map((entry) => ({ ...entry, id: entry.id ?? `legacy-${entry.timestamp}` }));
+  } catch (e) {
+    console.error('Failed to parse progress history', e);
+    return [];
+  }
+}
+
+function writeEntries(key: string, entries: ProgressEntry[]) {
+  if (entries.length === 0) {
+    localStorage.removeItem(key);
+  } else {
+    localStorage.setItem(key, JSON.stringify(entries));
+  }
+}
+
+// Union by id, oldest first
+export function mergeEntries(...lists: ProgressEntry[][]): ProgressEntry[] {
+  const byId = new Map<string, ProgressEntry>();
+  for (const entry of lists.flat()) byId.set(entry.id, entry);
+  return [...byId.values()].sort((a, b) => a.timestamp - b.timestamp);
+}
+
+function adoptSignedOutHistory(userId: string) {
+  const signedOut = readEntries(SIGNED_OUT_STORAGE_KEY);
+  if (signedOut.length === 0) return;
+
+  writeEntries(pendingKey(userId), mergeEntries(readEntries(pendingKey(userId)), signedOut));
+  localStorage.removeItem(SIGNED_OUT_STORAGE_KEY);
+}
+
+// Uploads pending entries. Entries filed under a child that no longer exists can never be
+// accepted, so they are dropped rather than blocking everything queued behind them.
+export async function flushPendingProgress(userId: string) {
+  if (!navigator.onLine) return;
+  const pending = readEntries(pendingKey(userId));
+  if (pending.length === 0) return;
+
+  try {
+    let accepted = pending;
+    try {
+      await uploadProgressEntries(userId, pending);
+    } catch (error) {
+      // The insert policy rejects unknown children (42501) before the foreign key does (23503)
+      if (!['42501', '23503'].includes((error as { code?: string }).code ?? '')) throw error;
+      const children = new Set((await listChildren(userId)).map((c) => c.id));
+      accepted = pending.filter((e) => !e.childId || children.has(e.childId));
+      await uploadProgressEntries(userId, accepted);
+    }
+
+    // Entries recorded while the upload was running stay pending
+    const sent = new Set(pending.map((e) => e.id));
+    writeEntries(pendingKey(userId), readEntries(pendingKey(userId)).filter((e) => !sent.has(e.id)));
+    writeEntries(cacheKey(userId), mergeEntries(readEntries(cacheKey(userId)), accepted));
+  } catch (error) {
+    console.error('Failed to sync progress history:', error);
+  }
+}
+
+// Pass a null userId when signed out; history then stays in this browser only
+export async function loadProgress(userId: string | null, childId?: string): Promise<ProgressEntry[]> {
+  if (!userId) return readEntries(SIGNED_OUT_STORAGE_KEY).filter((e) => inScope(e, childId));
+
+  adoptSignedOutHistory(userId);
+  await flushPendingProgress(userId);
+
+  const pending = readEntries(pendingKey(userId)).filter((e) => inScope(e, childId));
+  const cached = readEntries(cacheKey(userId));
+
+  try {
+    const remote = await listProgressEntries(userId, childId);
+    writeEntries(cacheKey(userId), mergeEntries(cached.filter((e) => !inScope(e, childId)), remote));
+    return mergeEntries(remote, pending).slice(-PROGRESS_HISTORY_LIMIT);
+  } catch (error) {
+    console.error('Failed to load progress history:', error);
+    return mergeEntries(cached.filter((e) => inScope(e, childId)), pending).slice(-PROGRESS_HISTORY_LIMIT);
+  }
+}
+
+export async function recordProgress(userId: string | null, entry: ProgressEntry) {
+  if (!userId) {
+    const entries = readEntries(SIGNED_OUT_STORAGE_KEY);
+    const scoped = entries.filter((e) => inScope(e, entry.childId));
+    const others = entries.filter((e) => !inScope(e, entry.childId));
+    writeEntries(SIGNED_OUT_STORAGE_KEY, [...others, ...[...scoped, entry].slice(-SIGNED_OUT_LIMIT)]);
+    return;
+  }
+
+  writeEntries(pendingKey(userId), mergeEntries(readEntries(pendingKey(userId)), [entry]));
+  await flushPendingProgress(userId);
+}
+
+export async function clearProgress(userId: string | null, childId?: string) {
+  if (!userId) {
+    writeEntries(SIGNED_OUT_STORAGE_KEY, readEntries(SIGNED_OUT_STORAGE_KEY).filter((e) => !inScope(e, childId)));
+    return;
+  }
+
+  writeEntries(pendingKey(userId), readEntries(pendingKey(userId)).filter((e) => !inScope(e, childId)));
+  writeEntries(cacheKey(userId), readEntries(cacheKey(userId)).filter((e) => !inScope(e, childId)));
+  try {
+    await deleteProgressEntries(userId, childId);
+  } catch (error) {
+    console.error('Failed to delete progress history:', error);
+  }
+}
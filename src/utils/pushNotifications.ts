@@ -0,0 +1,56 @@
+// Browser side of Web Push: the service worker in public/sw.js shows the notifications,
+// and this subscribes or unsubscribes the current device
+import { deletePushSubscription, savePushSubscription } from '@/integrations/supabase/pushSubscriptions';
+
+// The site is served under Vite's base path (e.g. /AUTICARE.in/ on GitHub Pages), so the worker lives there too
+const SERVICE_WORKER_URL = `${import.meta.env.BASE_URL}sw.js`;
+const SERVICE_WORKER_SCOPE = import.meta.env.BASE_URL;
+const VAPID_PUBLIC_KEY = import.meta.env.VITE_VAPID_PUBLIC_KEY as string | undefined;
+
+export const isPushSupported = () =>
+  'serviceWorker' in navigator && 'PushManager' in window && 'Notification' in window && !!VAPID_PUBLIC_KEY;
+
+// VAPID keys are URL-safe base64; the Push API wants raw bytes
+function urlBase64ToUint8Array(base64: string): Uint8Array {
+  const padded = (base64 + '='.repeat((4 - (base64.length % 4)) % 4)).replace(/-/g, '+').replace(/_/g, '/');
+  return Uint8Array.from(atob(padded), (char) => char.charCodeAt(0));
+}
+
+export function registerServiceWorker() {
+  if (!('serviceWorker' in navigator)) return;
+  navigator.serviceWorker.register(SERVICE_WORKER_URL, { scope: SERVICE_WORKER_SCOPE }).catch((error) => {
+    console.error('Service worker registration failed:', error);
+  });
+}
+
+export async function getPushSubscription(): Promise<PushSubscription | null> {
+  if (!isPushSupported()) return null;
+  const registration = await navigator.serviceWorker.getRegistration(SERVICE_WORKER_SCOPE);
+  return registration ? registration.pushManager.getSubscription() : null;
+}
+
+export async function enablePushNotifications(userId: string): Promise<void> {
+  if (!isPushSupported()) throw new Error('Push notifications are not supported in this browser');
+
+  const permission = await Notification.requestPermission();
+  if (permission !== 'granted') throw new Error('Notifications are blocked for AutiCare in this browser');
+
+  const registration = await navigator.serviceWorker.register(SERVICE_WORKER_URL, { scope: SERVICE_WORKER_SCOPE });
+  await navigator.serviceWorker.ready;
+  const subscription =
+    (await registration.pushManager.getSubscription()) ??
+    (await registration.pushManager.subscribe({
+      userVisibleOnly: true,
+      applicationServerKey: urlBase64ToUint8Array(VAPID_PUBLIC_KEY!),
+    }));
+
+  await savePushSubscription(userId, subscription);
+}
+
+export async function disablePushNotifications(): Promise<void> {
+  const subscription = await getPushSubscription();
+  if (!subscription) return;
+
+  await deletePushSubscription(subscription.endpoint);
+  await subscription.unsubscribe();
+}
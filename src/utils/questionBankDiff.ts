@@ -0,0 +1,91 @@
+// Human-readable differences between two question bank versions
+import type { Question, QuestionBankDefinition } from '@/data/questionBanks';
+
+export interface QuestionBankChange {
+  kind: 'added' | 'removed' | 'changed';
+  section: 'individual' | 'parent' | 'categoryWeights' | 'clinicianItemWeights' | 'severityThresholds';
+  key: string;
+  before?: string;
+  after?: string;
+}
+
+const describeQuestion = (q: Question) =>
+  [
+    `${q.text} [${q.category}]`,
+    q.ageBands ? `ages: ${q.ageBands.join(', ')}` : null,
+    q.showIf ? `if ${q.showIf.questionId} is ${q.showIf.answers.join('/')}` : null,
+  ]
+    .filter(Boolean)
+    .join(' · ');
+
+function diffQuestions(
+  section: 'individual' | 'parent',
+  before: Question[],
+  after: Question[]
+): QuestionBankChange[] {
+  const changes: QuestionBankChange[] = [];
+  const beforeById = new Map(before.map((q) => [q.id, q]));
+  const afterById = new Map(after.map((q) => [q.id, q]));
+
+  for (const q of before) {
+    const next = afterById.get(q.id);
+    if (!next) {
+      changes.push({ kind: 'removed', section, key: q.id, before: describeQuestion(q) });
+    } else if (describeQuestion(next) !== describeQuestion(q)) {
+      changes.push({ kind: 'changed', section, key: q.id, before: describeQuestion(q), after: describeQuestion(next) });
+    }
+  }
+  for (const q of after) {
+    if (!beforeById.has(q.id)) {
+      changes.push({ kind: 'added', section, key: q.id, after: describeQuestion(q) });
+    }
+  }
+  return changes;
+}
+
+function diffWeights(
+  section: 'categoryWeights' | 'clinicianItemWeights',
+  before: Record<string, number>,
+  after: Record<string, number>
+): QuestionBankChange[] {
+  const keys = Array.from(new Set([...Object.keys(before), ...Object.keys(after)]));
+  return keys.flatMap((key): QuestionBankChange[] => {
+    if (!(key in after)) return [{ kind: 'removed', section, key, before: String(before[key]) }];
+    if (!(key in before)) return [{ kind: 'added', section, key, after: String(after[key]) }];
+    if (before[key] !== after[key]) {
+      return [{ kind: 'changed', section, key, before: String(before[key]), after: String(after[key]) }];
+    }
+    return [];
+  });
+}
+
+export function diffQuestionBanks(
+  before: QuestionBankDefinition,
+  after: QuestionBankDefinition
+): QuestionBankChange[] {
+  const changes = [
+    ...diffQuestions('individual', before.individual, after.individual),
+    ...diffQuestions('parent', before.parent, after.parent),
+    ...diffWeights('categoryWeights', before.categoryWeights, after.categoryWeights),
+    ...diffWeights('clinicianItemWeights', before.clinicianItemWeights, after.clinicianItemWeights),
+  ];
+
+  // Thresholds are an ordered list of bands, so compare them by position
+  const bands = Math.max(before.severityThresholds.length, after.severityThresholds.length);
+  for (let i = 0; i < bands; i++) {
+    const prev = before.severityThresholds[i];
+    const next = after.severityThresholds[i];
+    const describe = (t: typeof prev) => `< ${t.maxScore ?? '∞'}: ${t.severity} (${t.label})`;
+    const key = `band ${i + 1}`;
+
+    if (!next) {
+      changes.push({ kind: 'removed', section: 'severityThresholds', key, before: describe(prev) });
+    } else if (!prev) {
+      changes.push({ kind: 'added', section: 'severityThresholds', key, after: describe(next) });
+    } else if (describe(prev) !== describe(next)) {
+      changes.push({ kind: 'changed', section: 'severityThresholds', key, before: describe(prev), after: describe(next) });
+    }
+  }
+
+  return changes;
+}
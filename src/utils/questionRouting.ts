@@ -0,0 +1,63 @@
+// Works out which questions to ask, and in what order, from the child's age and the answers so far
+import type { AgeBand, Question } from '@/data/questionBanks';
+import type { AnswerValue } from './scoring';
+
+// Parse free-text ages such as "18 months", "5 years", "2 years 6 months", "4y" or "7"
+export function parseAgeInMonths(age: string): number | null {
+  const text = age.trim().toLowerCase();
+  if (!text) return null;
+
+  const years = text.match(/(\d+(?:\.\d+)?)\s*(?:y|yr|yrs|year|years)\b/);
+  const months = text.match(/(\d+)\s*(?:m|mo|mos|month|months)\b/);
+  if (years || months) {
+    return Math.round((years ? parseFloat(years[1]) * 12 : 0) + (months ? parseInt(months[1], 10) : 0));
+  }
+
+  // A bare number is taken as years
+  const bare = text.match(/^(\d+(?:\.\d+)?)$/);
+  return bare ? Math.round(parseFloat(bare[1]) * 12) : null;
+}
+
+export function getAgeBand(ageInMonths: number | null): AgeBand | null {
+  if (ageInMonths === null) return null;
+  if (ageInMonths < 36) return 'toddler';
+  if (ageInMonths < 72) return 'preschool';
+  if (ageInMonths < 156) return 'school-age';
+  return 'adolescent';
+}
+
+// Questions in bank order, skipping ones outside the age band (kept when the age is unknown)
+// and follow-ups whose trigger question hasn't been answered with a triggering value
+export function buildQuestionRoute(
+  questions: Question[],
+  answers: Record<string, AnswerValue>,
+  ageBand: AgeBand | null
+): Question[] {
+  const route: Question[] = [];
+  const asked = new Set<string>();
+
+  for (const question of questions) {
+    if (ageBand && question.ageBands && !question.ageBands.includes(ageBand)) continue;
+
+    if (question.showIf) {
+      const { questionId, answers: triggers } = question.showIf;
+      const answer = answers[questionId];
+      if (!asked.has(questionId) || !answer || !triggers.includes(answer)) continue;
+    }
+
+    route.push(question);
+    asked.add(question.id);
+  }
+
+  return route;
+}
+
+// Drop answers to questions that fell off the route, e.g. a follow-up whose trigger answer was changed
+export function pickRouteAnswers(
+  route: Question[],
+  answers: Record<string, AnswerValue>
+): Record<string, AnswerValue> {
+  return Object.fromEntries(
+    route.filter((q) => answers[q.id] !== undefined).map((q) => [q.id, answers[q.id]])
+  );
+}
@@ -0,0 +1,102 @@
+// Reminder recurrence rules. Mirrors public.next_reminder_run so the Reminders dialog can
+// preview occurrences before anything is saved
+import { addDays, differenceInCalendarDays, format, parseISO, startOfWeek } from 'date-fns';
+
+export type RecurrenceFrequency = 'once' | 'daily' | 'weekdays' | 'weekly' | 'monthly';
+
+export interface RecurrenceRule {
+  frequency: RecurrenceFrequency;
+  interval: number; // Every n days, weeks or months
+  weekdays: number[]; // Weekly rules only; 0 = Sunday to 6 = Saturday
+  startDate: string; // YYYY-MM-DD: the one-off date, otherwise the first day and the anchor for intervals
+  exceptionDates: string[]; // YYYY-MM-DD days to skip
+}
+
+export const WEEKDAY_LABELS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+export const toDateString = (date: Date) => format(date, 'yyyy-MM-dd');
+
+export const defaultRecurrenceRule = (): RecurrenceRule => ({
+  frequency: 'daily',
+  interval: 1,
+  weekdays: [],
+  startDate: toDateString(new Date()),
+  exceptionDates: [],
+});
+
+function matchesRule(rule: RecurrenceRule, day: Date, start: Date): boolean {
+  switch (rule.frequency) {
+    case 'once':
+      return differenceInCalendarDays(day, start) === 0;
+    case 'daily':
+      return differenceInCalendarDays(day, start) % rule.interval === 0;
+    case 'weekdays':
+      return day.getDay() >= 1 && day.getDay() <= 5;
+    case 'weekly': {
+      // Weeks start on Monday, as Postgres date_trunc('week') does
+      const weeks = differenceInCalendarDays(
+        startOfWeek(day, { weekStartsOn: 1 }),
+        startOfWeek(start, { weekStartsOn: 1 })
+      ) / 7;
+      return rule.weekdays.includes(day.getDay()) && weeks % rule.interval === 0;
+    }
+    case 'monthly': {
+      // Months without the start day (e.g. the 31st) are skipped
+      const months = (day.getFullYear() - start.getFullYear()) * 12 + day.getMonth() - start.getMonth();
+      return day.getDate() === start.getDate() && months % rule.interval === 0;
+    }
+  }
+}
+
+// The next `count` occurrences after `after`, in local time
+export function getUpcomingOccurrences(
+  rule: RecurrenceRule,
+  time: string,
+  count = 5,
+  after: Date = new Date()
+): Date[] {
+  if (!time || (rule.frequency === 'weekly' && rule.weekdays.length === 0)) return [];
+
+  const [hours, minutes] = time.split(':').map(Number);
+  const start = parseISO(rule.startDate);
+  const occurrences: Date[] = [];
+
+  let day = start > after ? start : new Date(after.getFullYear(), after.getMonth(), after.getDate());
+  const last = rule.frequency === 'once' ? start : addDays(day, 366 * rule.interval * count);
+  while (day <= last && occurrences.length < count) {
+    if (matchesRule(rule, day, start) && !rule.exceptionDates.includes(toDateString(day))) {
+      const occurrence = new Date(day.getFullYear(), day.getMonth(), day.getDate(), hours, minutes);
+      if (occurrence > after) occurrences.push(occurrence);
+    }
+    day = addDays(day, 1);
+  }
+
+  return occurrences;
+}
+
+const ordinal = (n: number) => {
+  const suffix = n % 10 === 1 && n !== 11 ? 'st' : n % 10 === 2 && n !== 12 ? 'nd' : n % 10 === 3 && n !== 13 ? 'rd' : 'th';
+  return `${n}${suffix}`;
+};
+
+// e.g. "Every weekday", "Every 2 weeks on Thu", "Every month on the 15th"
+export function describeRecurrence(rule: RecurrenceRule): string {
+  const every = (unit: string) => (rule.interval === 1 ? `Every ${unit}` : `Every ${rule.interval} ${unit}s`);
+
+  switch (rule.frequency) {
+    case 'once':
+      return `Once on ${format(parseISO(rule.startDate), 'EEE d MMM yyyy')}`;
+    case 'daily':
+      return every('day');
+    case 'weekdays':
+      return 'Every weekday';
+    case 'weekly':
+      return `${every('week')} on ${[...rule.weekdays].sort((a, b) => a - b).map((d) => WEEKDAY_LABELS[d]).join(', ')}`;
+    case 'monthly':
+      return `${every('month')} on the ${ordinal(parseISO(rule.startDate).getDate())}`;
+  }
+}
+
+// The YYYY-MM-DD calendar day of an instant in a given timezone, e.g. to skip the next occurrence
+export const toDateStringInTimezone = (iso: string, timeZone: string) =>
+  new Intl.DateTimeFormat('en-CA', { timeZone, year: 'numeric', month: '2-digit', day: '2-digit' }).format(new Date(iso));
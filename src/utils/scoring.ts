@@ -1,12 +1,33 @@
 // Scoring utility for AutiCare questionnaire
 // Maps answers to numeric values and calculates weighted scores
 
+import type { InstrumentResult } from '@/data/instruments/types';
+import { DEFAULT_FUSION_STRATEGY, FusionStrategyId, fuseScores } from './fusion';
+
 export type AnswerValue = 'never' | 'rarely' | 'sometimes' | 'often' | 'always';
 
 export interface QuestionWeight {
   id: string;
   weight: number;
   category: 'social-communication' | 'repetitive-sensory' | 'developmental' | 'family-history';
+  text?: string; // Question wording, so results can explain themselves
+}
+
+export const CATEGORY_LABELS: Record<QuestionWeight['category'], string> = {
+  'social-communication': 'Social Communication',
+  'repetitive-sensory': 'Repetitive & Sensory',
+  'developmental': 'Developmental',
+  'family-history': 'Family History',
+};
+
+// One scored item and how much it added to the total
+export interface ItemContribution {
+  questionId: string;
+  question: string;
+  category: QuestionWeight['category'];
+  value: number; // 0-4 on the answer scale
+  weight: number;
+  contribution: number; // value × weight
 }
 
 export interface Answer {
@@ -14,6 +35,58 @@ export interface Answer {
   value: AnswerValue;
 }
 
+// Structured clinician observation, folded into the score alongside questionnaire answers
+export interface ClinicianObservation {
+  observedSocialReciprocity: number; // 0-4
+  observedRepetitiveBehavior: number; // 0-4
+  adosScore: number | null; // ADOS-2 calibrated severity score, 1-10
+  adiRScore: number | null; // ADI-R diagnostic algorithm total, 0-ADI_R_MAX
+}
+
+// A prediction from the video model (source 'python', or absent on results saved before it was recorded)
+export interface VideoPrediction {
+  source?: 'python';
+  prediction_score: number;
+  confidence: number;
+  features_detected?: Record<string, number>;
+}
+
+// No prediction could be made, so the score is questionnaire-only
+export interface VideoAnalysisUnavailable {
+  source: 'unavailable';
+  reason: string;
+}
+
+export type VideoOutcome = VideoPrediction | VideoAnalysisUnavailable;
+
+export const isVideoPredictionAvailable = (outcome: VideoOutcome | null | undefined): outcome is VideoPrediction =>
+  !!outcome && outcome.source !== 'unavailable';
+
+const isFiniteNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+
+// Reads a stored video outcome. Results saved before outcomes were explicit may hold placeholder numbers
+// (source 'fallback' or 'client-fallback'); those never came from the model and are read as unavailable.
+export function toVideoOutcome(raw: unknown): VideoOutcome | undefined {
+  if (!raw || typeof raw !== 'object') return undefined;
+  const stored = raw as Record<string, unknown>;
+
+  if (stored.source === 'unavailable') {
+    return { source: 'unavailable', reason: String(stored.reason ?? 'Video analysis was unavailable') };
+  }
+  if (stored.source === 'fallback' || stored.source === 'client-fallback') {
+    return { source: 'unavailable', reason: 'The video model was not reachable when this assessment was taken' };
+  }
+  if (!isFiniteNumber(stored.prediction_score) || !isFiniteNumber(stored.confidence)) {
+    return { source: 'unavailable', reason: 'The stored video prediction is incomplete' };
+  }
+  return {
+    source: 'python',
+    prediction_score: stored.prediction_score,
+    confidence: stored.confidence,
+    features_detected: stored.features_detected as VideoPrediction['features_detected'],
+  };
+}
+
 export interface ScoringResult {
   normalizedScore: number;
   severity: 'low' | 'mild' | 'moderate' | 'high';
@@ -25,12 +98,13 @@ export interface ScoringResult {
   }>;
   rawTotal: number;
   maxPossible: number;
-  videoPrediction?: {
-    prediction_score: number;
-    confidence: number;
-    features_detected?: any;
-  };
+  // Absent on results saved before the breakdown existed
+  categoryScores?: Partial<Record<QuestionWeight['category'], number>>; // 0-100, only categories with scored items
+  contributions?: ItemContribution[]; // Every scored item, largest contribution first
+  videoPrediction?: VideoOutcome; // Fused into the score only when a prediction is available
   fusedScore?: number;
+  fusionStrategy?: FusionStrategyId; // Strategy that produced fusedScore
+  instrument?: InstrumentResult; // Set when a standard screening instrument was used instead
 }
 
 // Answer value mapping
@@ -42,6 +116,21 @@ const answerValueMap: Record<AnswerValue, number> = {
   always: 4,
 };
 
+// Severity bands, checked in order; a null maxScore catches everything above the previous band
+export interface SeverityThreshold {
+  maxScore: number | null; // exclusive upper bound
+  severity: ScoringResult['severity'];
+  label: string;
+}
+
+export const DEFAULT_SEVERITY_THRESHOLDS: SeverityThreshold[] = [
+  { maxScore: 25, severity: 'low', label: 'Very Low (Normal)' },
+  { maxScore: 40, severity: 'mild', label: 'Low - Assessment Requested' },
+  { maxScore: 60, severity: 'moderate', label: 'Moderate - Assessment Required' },
+  { maxScore: 75, severity: 'high', label: 'High - Assessment Mandatory' },
+  { maxScore: null, severity: 'high', label: 'Very High - Regular Checkup Needed' },
+];
+
 // Weight mappings by category
 const categoryWeights = {
   'social-communication': 2.0,
@@ -50,69 +139,129 @@ const categoryWeights = {
   'family-history': 6.0, // Binary flag adds fixed points
 };
 
+// Clinician observation item IDs, matched against QuestionWeight ids
+export const CLINICIAN_ITEM_IDS = {
+  socialReciprocity: 'clin_social_reciprocity',
+  repetitiveBehavior: 'clin_repetitive_behavior',
+  ados: 'clin_ados',
+  adiR: 'clin_adi_r',
+} as const;
+
+// Instrument ranges used to rescale standardised scores onto the 0-4 answer scale
+export const ADOS_CSS_MIN = 1;
+export const ADOS_CSS_MAX = 10;
+export const ADI_R_MAX = 70;
+
+const clamp = (value: number, min: number, max: number) => Math.max(min, Math.min(max, value));
+
+// Convert a clinician observation into 0-4 item values (null when an instrument was not administered)
+export function getClinicianItemValues(observation: ClinicianObservation): Record<string, number | null> {
+  const ados =
+    observation.adosScore === null || observation.adosScore === undefined
+      ? null
+      : ((clamp(observation.adosScore, ADOS_CSS_MIN, ADOS_CSS_MAX) - ADOS_CSS_MIN) / (ADOS_CSS_MAX - ADOS_CSS_MIN)) * 4;
+  const adiR =
+    observation.adiRScore === null || observation.adiRScore === undefined
+      ? null
+      : (clamp(observation.adiRScore, 0, ADI_R_MAX) / ADI_R_MAX) * 4;
+
+  return {
+    [CLINICIAN_ITEM_IDS.socialReciprocity]: clamp(observation.observedSocialReciprocity, 0, 4),
+    [CLINICIAN_ITEM_IDS.repetitiveBehavior]: clamp(observation.observedRepetitiveBehavior, 0, 4),
+    [CLINICIAN_ITEM_IDS.ados]: ados === null ? null : Math.round(ados * 100) / 100,
+    [CLINICIAN_ITEM_IDS.adiR]: adiR === null ? null : Math.round(adiR * 100) / 100,
+  };
+}
+
 // Calculate score from answers
 export function calculateScore(
   answers: Answer[],
   questionWeights: QuestionWeight[],
   hasFamilyHistory = false,
-  videoPrediction?: { prediction_score: number; confidence: number; features_detected?: any }
+  videoPrediction?: VideoOutcome,
+  clinicianObservation?: ClinicianObservation,
+  severityThresholds: SeverityThreshold[] = DEFAULT_SEVERITY_THRESHOLDS,
+  fusionStrategy: FusionStrategyId = DEFAULT_FUSION_STRATEGY
 ): ScoringResult {
   let rawTotal = 0;
   let maxPossible = 0;
 
-  // Calculate contributions for each answer
-  const contributions: Array<{ questionId: string; contribution: number; value: number }> = [];
-
-  answers.forEach((answer) => {
-    const weight = questionWeights.find((qw) => qw.id === answer.questionId);
-    if (!weight) return;
+  // Calculate contributions for each answer, tracking per-category totals for the breakdown
+  const contributions: ItemContribution[] = [];
+  const categoryTotals: Partial<Record<QuestionWeight['category'], { raw: number; max: number }>> = {};
 
-    const value = answerValueMap[answer.value];
+  const addContribution = (weight: QuestionWeight, value: number) => {
     const contribution = value * weight.weight;
-    
+
     rawTotal += contribution;
     maxPossible += 4 * weight.weight;
 
+    const totals = categoryTotals[weight.category] ?? { raw: 0, max: 0 };
+    categoryTotals[weight.category] = { raw: totals.raw + contribution, max: totals.max + 4 * weight.weight };
+
     contributions.push({
-      questionId: answer.questionId,
-      contribution,
+      questionId: weight.id,
+      question: weight.text ?? weight.id,
+      category: weight.category,
       value,
+      weight: weight.weight,
+      contribution,
     });
+  };
+
+  answers.forEach((answer) => {
+    const weight = questionWeights.find((qw) => qw.id === answer.questionId);
+    if (!weight) return;
+
+    addContribution(weight, answerValueMap[answer.value]);
   });
 
+  // Fold in clinician observation items, already rescaled to the 0-4 answer scale
+  if (clinicianObservation) {
+    Object.entries(getClinicianItemValues(clinicianObservation)).forEach(([questionId, value]) => {
+      const weight = questionWeights.find((qw) => qw.id === questionId);
+      if (!weight || value === null) return;
+
+      addContribution(weight, value);
+    });
+  }
+
   // Add family history bonus
   if (hasFamilyHistory) {
     rawTotal += 6;
     maxPossible += 6;
+
+    const totals = categoryTotals['family-history'] ?? { raw: 0, max: 0 };
+    categoryTotals['family-history'] = { raw: totals.raw + 6, max: totals.max + 6 };
   }
 
+  const categoryScores = Object.fromEntries(
+    Object.entries(categoryTotals).map(([category, totals]) => [
+      category,
+      totals.max > 0 ? Math.round((totals.raw / totals.max) * 100) : 0,
+    ])
+  ) as ScoringResult['categoryScores'];
+
   // Normalize to 0-100
   const normalizedScore = Math.round((rawTotal / maxPossible) * 100);
 
-  // Fuse with video prediction if available
+  // Fuse with video prediction if available; an unavailable analysis leaves the score questionnaire-only
+  const prediction = isVideoPredictionAvailable(videoPrediction) ? videoPrediction : undefined;
   let fusedScore = normalizedScore;
-  if (videoPrediction && videoPrediction.prediction_score !== undefined) {
-    // Weighted fusion: 60% questionnaire, 40% ML prediction
-    // Adjust weights based on ML confidence
-    const questionnaireWeight = 0.6;
-    const mlWeight = 0.4 * (videoPrediction.confidence || 0.7); // Use confidence if available
-    const totalWeight = questionnaireWeight + mlWeight;
-    
-    fusedScore = Math.round(
-      (normalizedScore * questionnaireWeight + videoPrediction.prediction_score * mlWeight) / totalWeight
-    );
+  if (prediction) {
+    fusedScore = fuseScores(normalizedScore, prediction, fusionStrategy);
   }
 
   // Determine severity based on fused score if available, otherwise use normalized score
   const scoreForSeverity = fusedScore;
-  const { severity, severityLabel } = getSeverity(scoreForSeverity);
+  const { severity, severityLabel } = getSeverity(scoreForSeverity, severityThresholds);
 
   // Get top 3 contributors
+  contributions.sort((a, b) => b.contribution - a.contribution);
   const topContributors = contributions
-    .sort((a, b) => b.contribution - a.contribution)
     .slice(0, 3)
     .map((c) => ({
-      question: c.questionId,
+      question: c.question,
       contribution: c.contribution,
       action: getActionForContributor(c.questionId, c.value),
     }));
@@ -124,24 +273,87 @@ export function calculateScore(
     topContributors,
     rawTotal,
     maxPossible,
+    categoryScores,
+    contributions,
     videoPrediction,
-    fusedScore: videoPrediction ? fusedScore : undefined,
+    fusedScore: prediction ? fusedScore : undefined,
+    fusionStrategy: prediction ? fusionStrategy : undefined,
   };
 }
 
-// Get severity level and label
-function getSeverity(score: number): { severity: ScoringResult['severity']; severityLabel: string } {
-  if (score < 25) {
-    return { severity: 'low', severityLabel: 'Very Low (Normal)' };
-  } else if (score < 40) {
-    return { severity: 'mild', severityLabel: 'Low - Assessment Requested' };
-  } else if (score < 60) {
-    return { severity: 'moderate', severityLabel: 'Moderate - Assessment Required' };
-  } else if (score < 75) {
-    return { severity: 'high', severityLabel: 'High - Assessment Mandatory' };
-  } else {
-    return { severity: 'high', severityLabel: 'Very High - Regular Checkup Needed' };
+// Fold a video outcome that arrived after scoring into an existing questionnaire result
+export function applyVideoPrediction(
+  result: ScoringResult,
+  videoPrediction: VideoOutcome,
+  severityThresholds: SeverityThreshold[] = DEFAULT_SEVERITY_THRESHOLDS,
+  fusionStrategy: FusionStrategyId = DEFAULT_FUSION_STRATEGY
+): ScoringResult {
+  if (!isVideoPredictionAvailable(videoPrediction)) {
+    return {
+      ...result,
+      ...getSeverity(result.normalizedScore, severityThresholds),
+      videoPrediction,
+      fusedScore: undefined,
+      fusionStrategy: undefined,
+    };
+  }
+
+  const fusedScore = fuseScores(result.normalizedScore, videoPrediction, fusionStrategy);
+  return {
+    ...result,
+    ...getSeverity(fusedScore, severityThresholds),
+    videoPrediction,
+    fusedScore,
+    fusionStrategy,
+  };
+}
+
+// Bands must rise strictly from 0 and end with an open band, so every 0-100 score lands in exactly one
+export function validateSeverityThresholds(thresholds: SeverityThreshold[]): void {
+  if (!Array.isArray(thresholds) || thresholds.length === 0) {
+    throw new Error('At least one severity threshold is needed');
   }
+
+  let previous = 0;
+  thresholds.forEach((t, index) => {
+    const isLast = index === thresholds.length - 1;
+    if (isLast) {
+      if (t.maxScore !== null) throw new Error('The last severity threshold must have maxScore null');
+    } else if (typeof t.maxScore !== 'number' || t.maxScore <= previous || t.maxScore > 100) {
+      throw new Error(`Severity threshold ${index + 1} needs a maxScore above ${previous} and at most 100`);
+    }
+    if (!(['low', 'mild', 'moderate', 'high'] as const).includes(t.severity) || !t.label) {
+      throw new Error(`Severity threshold ${index + 1} needs a severity and a label`);
+    }
+    previous = t.maxScore ?? previous;
+  });
+}
+
+// The band a score falls in. Banks published before thresholds were validated may have none;
+// those are read with the default bands.
+export function getSeverityBand(score: number, thresholds: SeverityThreshold[]): SeverityThreshold {
+  const bands = thresholds.length > 0 ? thresholds : DEFAULT_SEVERITY_THRESHOLDS;
+  return bands.find((t) => t.maxScore === null || score < t.maxScore) ?? bands[bands.length - 1];
+}
+
+// Score range of each band for explanations, e.g. "Score 25-40"
+export function describeSeverityBands(thresholds: SeverityThreshold[]): Array<{ range: string; label: string }> {
+  const bands = thresholds.length > 0 ? thresholds : DEFAULT_SEVERITY_THRESHOLDS;
+  return bands.map((band, index) => {
+    const min = index === 0 ? null : bands[index - 1].maxScore;
+    const range =
+      min === null ? `Score < ${band.maxScore}` : band.maxScore === null ? `Score ≥ ${min}` : `Score ${min}-${band.maxScore}`;
+    return { range: bands.length === 1 ? 'Any score' : range, label: band.label };
+  });
+}
+
+// Get severity level and label
+function getSeverity(
+  score: number,
+  thresholds: SeverityThreshold[]
+): { severity: ScoringResult['severity']; severityLabel: string } {
+  const band = getSeverityBand(score, thresholds);
+  return { severity: band.severity, severityLabel: band.label };
 }
 
 // Get suggested action for a contributor
@@ -0,0 +1,44 @@
+// Caller identification and per-user rate limiting for functions that browsers call directly.
+// Each function verifies the session token itself (verify_jwt is off in config.toml so that other
+// functions can call in with the service role key).
+import type { SupabaseClient, User } from "https://esm.sh/@supabase/supabase-js@2";
+
+// Carries the HTTP status a function should answer with
+export class HttpError extends Error {
+  constructor(public status: number, message: string) {
+    super(message);
+  }
+}
+
+const bearerToken = (req: Request) => req.headers.get("Authorization")?.replace("Bearer ", "") ?? null;
+
+export const isServiceRole = (req: Request) =>
+  bearerToken(req) === Deno.env.get("SUPABASE_SERVICE_ROLE_KEY");
+
+// The signed-in user behind the request. The anon key alone is not enough.
+export async function requireUser(supabase: SupabaseClient, req: Request): Promise<User> {
+  const token = bearerToken(req);
+  if (!token) throw new HttpError(401, "Sign in required");
+
+  const { data: { user }, error } = await supabase.auth.getUser(token);
+  if (error || !user) throw new HttpError(401, "Sign in required");
+  return user;
+}
+
+// Counts one call against the user's allowance for `bucket` in the current fixed window
+export async function enforceRateLimit(
+  supabase: SupabaseClient,
+  userId: string,
+  bucket: string,
+  limit: number,
+  windowSeconds: number
+): Promise<void> {
+  const { data: allowed, error } = await supabase.rpc("hit_rate_limit", {
+    _user_id: userId,
+    _bucket: bucket,
+    _limit: limit,
+    _window_seconds: windowSeconds,
+  });
+  if (error) throw error;
+  if (!allowed) throw new HttpError(429, "Too many requests, please try again later");
+}
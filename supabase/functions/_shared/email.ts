@@ -0,0 +1,208 @@
+// Email delivery shared by send-notification and send-queued-notifications. Every email is written to the
+// email_outbox table first and then handed to the transport named by EMAIL_TRANSPORT:
+//   resend (default)  RESEND_API_KEY
+//   smtp              SMTP_HOST, SMTP_PORT (587), SMTP_USER, SMTP_PASS
+//   file              writes each email as JSON into EMAIL_FILE_DIR, or only logs that it was sent when that
+//                     is unset (addresses and content stay out of the logs)
+// Failed sends stay in the outbox and are retried with exponential backoff.
+import { Resend } from "https://esm.sh/resend@4.0.0";
+import nodemailer from "npm:nodemailer@6.9.16";
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+
+export const EMAIL_FROM = Deno.env.get("EMAIL_FROM") ?? "AutiCare <onboarding@resend.dev>";
+
+// Six attempts in all, 1, 2, 4, 8 and 16 minutes apart
+export const MAX_EMAIL_ATTEMPTS = 6;
+export const retryDelay = (attempts: number) => 2 ** (attempts - 1) * 60 * 1000;
+
+// While the first attempt is in flight, keep the retry job away from the row
+const SEND_LEASE_MS = 10 * 60 * 1000;
+
+export interface EmailMessage {
+  from: string;
+  to: string;
+  subject: string;
+  html: string;
+  text: string;
+  headers?: Record<string, string>;
+}
+
+export interface EmailTransport {
+  name: string;
+  send(message: EmailMessage): Promise<{ id: string | null }>;
+}
+
+export interface OutboxEmail {
+  id: string;
+  to_address: string;
+  from_address: string;
+  subject: string;
+  html: string;
+  text: string;
+  headers: Record<string, string>;
+  attempts: number;
+}
+
+export type OutboxStatus = 'sent' | 'retrying' | 'failed';
+
+function resendTransport(): EmailTransport {
+  const resend = new Resend(Deno.env.get("RESEND_API_KEY"));
+  return {
+    name: 'resend',
+    async send(message) {
+      const { data, error } = await resend.emails.send({
+        from: message.from,
+        to: [message.to],
+        subject: message.subject,
+        html: message.html,
+        text: message.text,
+        headers: message.headers,
+      });
+      if (error) throw new Error(error.message);
+      return { id: data?.id ?? null };
+    },
+  };
+}
+
+function smtpTransport(): EmailTransport {
+  const host = Deno.env.get("SMTP_HOST");
+  if (!host) throw new Error('SMTP_HOST is not set');
+  const port = Number(Deno.env.get("SMTP_PORT") ?? 587);
+  const user = Deno.env.get("SMTP_USER");
+
+  const transporter = nodemailer.createTransport({
+    host,
+    port,
+    secure: port === 465,
+    auth: user ? { user, pass: Deno.env.get("SMTP_PASS") } : undefined,
+  });
+  return {
+    name: 'smtp',
+    async send(message) {
+      const info = await transporter.sendMail(message);
+      return { id: info.messageId ?? null };
+    },
+  };
+}
+
+// Lets the whole notification flow run locally and in tests without any network access
+function fileTransport(): EmailTransport {
+  const dir = Deno.env.get("EMAIL_FILE_DIR");
+  return {
+    name: dir ? 'file' : 'log',
+    async send(message) {
+      const id = crypto.randomUUID();
+      if (dir) {
+        await Deno.mkdir(dir, { recursive: true });
+        const stamp = new Date().toISOString().replace(/[:.]/g, '-');
+        await Deno.writeTextFile(`${dir}/${stamp}-${id}.json`, JSON.stringify(message, null, 2));
+      } else {
+        console.log(`Email ${id} not delivered (log transport); set EMAIL_FILE_DIR to keep its content`);
+      }
+      return { id };
+    },
+  };
+}
+
+let transport: EmailTransport | null = null;
+
+// Tests swap in their own transport; null goes back to the one named by EMAIL_TRANSPORT
+export function setEmailTransport(next: EmailTransport | null) {
+  transport = next;
+}
+
+export function getEmailTransport(): EmailTransport {
+  if (transport) return transport;
+
+  const name = (Deno.env.get("EMAIL_TRANSPORT") ?? 'resend').toLowerCase();
+  switch (name) {
+    case 'resend':
+      transport = resendTransport();
+      break;
+    case 'smtp':
+      transport = smtpTransport();
+      break;
+    case 'file':
+    case 'log':
+      transport = fileTransport();
+      break;
+    default:
+      throw new Error(`Unknown EMAIL_TRANSPORT "${name}"`);
+  }
+  return transport;
+}
+
+export async function enqueueEmail(
+  supabase: SupabaseClient,
+  userId: string | null,
+  notificationType: string,
+  message: EmailMessage
+): Promise<OutboxEmail> {
+  const { data, error } = await supabase
+    .from('email_outbox')
+    .insert({
+      user_id: userId,
+      notification_type: notificationType,
+      to_address: message.to,
+      from_address: message.from,
+      subject: message.subject,
+      html: message.html,
+      text: message.text,
+      headers: message.headers ?? {},
+      next_attempt_at: new Date(Date.now() + SEND_LEASE_MS).toISOString(),
+    })
+    .select('id, to_address, from_address, subject, html, text, headers, attempts')
+    .single();
+  if (error) throw error;
+  return data as OutboxEmail;
+}
+
+// One delivery attempt. Failures are recorded on the outbox row and scheduled for a retry until
+// MAX_EMAIL_ATTEMPTS is reached.
+export async function deliverOutboxEmail(supabase: SupabaseClient, email: OutboxEmail): Promise<OutboxStatus> {
+  const attempts = email.attempts + 1;
+  let transportName: string | null = null;
+
+  try {
+    const emailTransport = getEmailTransport();
+    transportName = emailTransport.name;
+    const { id } = await emailTransport.send({
+      from: email.from_address,
+      to: email.to_address,
+      subject: email.subject,
+      html: email.html,
+      text: email.text,
+      headers: Object.keys(email.headers).length > 0 ? email.headers : undefined,
+    });
+
+    const { error } = await supabase
+      .from('email_outbox')
+      .update({
+        status: 'sent',
+        attempts,
+        transport: transportName,
+        provider_message_id: id,
+        last_error: null,
+        sent_at: new Date().toISOString(),
+      })
+      .eq('id', email.id);
+    if (error) console.error(`Email ${email.id} was sent but could not be marked:`, error);
+    return 'sent';
+  } catch (error) {
+    const giveUp = attempts >= MAX_EMAIL_ATTEMPTS;
+    console.error(`Email ${email.id} attempt ${attempts} failed:`, error);
+
+    const { error: updateError } = await supabase
+      .from('email_outbox')
+      .update({
+        status: giveUp ? 'failed' : 'pending',
+        attempts,
+        transport: transportName,
+        last_error: (error as Error).message,
+        next_attempt_at: new Date(Date.now() + retryDelay(attempts)).toISOString(),
+      })
+      .eq('id', email.id);
+    if (updateError) console.error(`Could not record failure for email ${email.id}:`, updateError);
+    return giveUp ? 'failed' : 'retrying';
+  }
+}
@@ -0,0 +1,172 @@
+// Outbox delivery, retry backoff and the file transport, run against an in-memory stand-in for the
+// email_outbox table so no database or mail provider is needed.
+import { assert, assertEquals } from "https://deno.land/std@0.190.0/testing/asserts.ts";
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import {
+  EmailMessage,
+  EmailTransport,
+  MAX_EMAIL_ATTEMPTS,
+  OutboxEmail,
+  deliverOutboxEmail,
+  retryDelay,
+  setEmailTransport,
+} from "./email.ts";
+
+const MINUTE = 60 * 1000;
+
+type OutboxUpdate = Record<string, unknown>;
+
+// Records every update made to email_outbox, keyed by row id
+function fakeSupabase() {
+  const updates: Array<{ id: string; values: OutboxUpdate }> = [];
+  const client = {
+    from(table: string) {
+      assertEquals(table, "email_outbox");
+      return {
+        update(values: OutboxUpdate) {
+          return {
+            eq(column: string, id: string) {
+              assertEquals(column, "id");
+              updates.push({ id, values });
+              return Promise.resolve({ error: null });
+            },
+          };
+        },
+      };
+    },
+  };
+  return { supabase: client as unknown as SupabaseClient, updates };
+}
+
+const outboxEmail = (attempts: number): OutboxEmail => ({
+  id: `email-${attempts}`,
+  to_address: "parent@example.com",
+  from_address: "AutiCare <noreply@example.com>",
+  subject: "⏰ Reminder: Morning routine",
+  html: "<p>Morning routine</p>",
+  text: "Morning routine",
+  headers: { "List-Unsubscribe": "<https://example.com/unsubscribe?token=abc>" },
+  attempts,
+});
+
+const failingTransport: EmailTransport = {
+  name: "failing",
+  send: () => Promise.reject(new Error("Provider unavailable")),
+};
+
+Deno.test("retry delay doubles from one minute", () => {
+  assertEquals(
+    [1, 2, 3, 4, 5].map(retryDelay),
+    [1 * MINUTE, 2 * MINUTE, 4 * MINUTE, 8 * MINUTE, 16 * MINUTE],
+  );
+});
+
+Deno.test("a failed attempt is scheduled for a retry after the backoff delay", async () => {
+  setEmailTransport(failingTransport);
+  try {
+    for (let attempts = 0; attempts < MAX_EMAIL_ATTEMPTS - 1; attempts++) {
+      const { supabase, updates } = fakeSupabase();
+      const before = Date.now();
+      const status = await deliverOutboxEmail(supabase, outboxEmail(attempts));
+      const after = Date.now();
+
+      assertEquals(status, "retrying");
+      assertEquals(updates.length, 1);
+      const { values } = updates[0];
+      assertEquals(values.status, "pending");
+      assertEquals(values.attempts, attempts + 1);
+      assertEquals(values.transport, "failing");
+      assertEquals(values.last_error, "Provider unavailable");
+
+      const nextAttempt = new Date(values.next_attempt_at as string).getTime();
+      const delay = retryDelay(attempts + 1);
+      assert(
+        nextAttempt >= before + delay && nextAttempt <= after + delay,
+        `attempt ${attempts + 1} should be retried ${delay / MINUTE} minutes later`,
+      );
+    }
+  } finally {
+    setEmailTransport(null);
+  }
+});
+
+Deno.test("the last failed attempt marks the email as failed", async () => {
+  setEmailTransport(failingTransport);
+  try {
+    const { supabase, updates } = fakeSupabase();
+    const status = await deliverOutboxEmail(supabase, outboxEmail(MAX_EMAIL_ATTEMPTS - 1));
+
+    assertEquals(status, "failed");
+    assertEquals(updates.length, 1);
+    assertEquals(updates[0].values.status, "failed");
+    assertEquals(updates[0].values.attempts, MAX_EMAIL_ATTEMPTS);
+  } finally {
+    setEmailTransport(null);
+  }
+});
+
+Deno.test("a successful send marks the email as sent", async () => {
+  const sent: EmailMessage[] = [];
+  setEmailTransport({
+    name: "memory",
+    send: (message) => {
+      sent.push(message);
+      return Promise.resolve({ id: "provider-1" });
+    },
+  });
+  try {
+    const { supabase, updates } = fakeSupabase();
+    const email = outboxEmail(2);
+    const status = await deliverOutboxEmail(supabase, email);
+
+    assertEquals(status, "sent");
+    assertEquals(sent.length, 1);
+    assertEquals(sent[0].headers, email.headers);
+    assertEquals(updates[0].values.status, "sent");
+    assertEquals(updates[0].values.attempts, 3);
+    assertEquals(updates[0].values.provider_message_id, "provider-1");
+    assertEquals(updates[0].values.last_error, null);
+  } finally {
+    setEmailTransport(null);
+  }
+});
+
+const restoreEnv = (name: string, value: string | undefined) =>
+  value === undefined ? Deno.env.delete(name) : Deno.env.set(name, value);
+
+Deno.test("the file transport writes each email as JSON into EMAIL_FILE_DIR", async () => {
+  const dir = await Deno.makeTempDir();
+  const previous = { transport: Deno.env.get("EMAIL_TRANSPORT"), dir: Deno.env.get("EMAIL_FILE_DIR") };
+  Deno.env.set("EMAIL_TRANSPORT", "file");
+  Deno.env.set("EMAIL_FILE_DIR", dir);
+  setEmailTransport(null);
+
+  try {
+    const { supabase, updates } = fakeSupabase();
+    const email = outboxEmail(0);
+    const status = await deliverOutboxEmail(supabase, email);
+
+    assertEquals(status, "sent");
+    assertEquals(updates[0].values.transport, "file");
+
+    const files = [];
+    for await (const entry of Deno.readDir(dir)) files.push(entry.name);
+    assertEquals(files.length, 1);
+    assert(files[0].endsWith(`${updates[0].values.provider_message_id}.json`));
+
+    const written = JSON.parse(await Deno.readTextFile(`${dir}/${files[0]}`)) as EmailMessage;
+    assertEquals(written, {
+      from: email.from_address,
+      to: email.to_address,
+      subject: email.subject,
+      html: email.html,
+      text: email.text,
+      headers: email.headers,
+    });
+  } finally {
+    setEmailTransport(null);
+    restoreEnv("EMAIL_TRANSPORT", previous.transport);
+    restoreEnv("EMAIL_FILE_DIR", previous.dir);
+    await Deno.remove(dir, { recursive: true });
+  }
+});
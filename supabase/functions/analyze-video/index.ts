@@ -0,0 +1,165 @@
+import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { isServiceRole } from "../_shared/auth.ts";
+
+// Worker for video_analysis_jobs. Started by predict-video for each new job and by pg_cron every minute
+// for retries. Calls PYTHON_ML_ENDPOINT, retrying failed attempts with backoff, and copies the prediction
+// (or, once every attempt has failed, an "unavailable" outcome) onto the job's assessment when one is attached.
+
+const supabase = createClient(
+  Deno.env.get("SUPABASE_URL")!,
+  Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!,
+);
+
+const ML_TIMEOUT_MS = 60_000;
+// 30s, then 1 minute, then 2 minutes, ... between attempts
+const retryDelay = (attempts: number) => 2 ** (attempts - 1) * 30 * 1000;
+
+interface ClaimedJob {
+  id: string;
+  assessment_id: string | null;
+  video_url: string;
+  attempts: number;
+  max_attempts: number;
+}
+
+interface Prediction {
+  source: 'python';
+  prediction_score: number;
+  confidence: number;
+  features_detected: Record<string, number>;
+}
+
+const round1 = (n: number) => Math.round(n * 10) / 10;
+const clamp = (v: number, min: number, max: number) => Math.max(min, Math.min(max, v));
+const isFiniteNumber = (v: unknown): v is number => typeof v === 'number' && Number.isFinite(v);
+
+// The model must answer with a score, a confidence and at least one numeric feature
+function toPrediction(raw: unknown): Prediction | null {
+  if (!raw || typeof raw !== 'object') return null;
+  const { prediction_score, confidence, features_detected } = raw as Record<string, unknown>;
+  if (!isFiniteNumber(prediction_score) || !isFiniteNumber(confidence)) return null;
+  if (!features_detected || typeof features_detected !== 'object') return null;
+
+  const features = Object.entries(features_detected as Record<string, unknown>);
+  if (features.length === 0 || !features.every(([, v]) => isFiniteNumber(v))) return null;
+
+  return {
+    source: 'python',
+    prediction_score: round1(clamp(prediction_score, 0, 100)),
+    confidence: round1(clamp(confidence, 0, 1)),
+    features_detected: Object.fromEntries(features.map(([k, v]) => [k, round1(v as number)])),
+  };
+}
+
+async function callModel(videoUrl: string): Promise<Prediction> {
+  const endpoint = Deno.env.get("PYTHON_ML_ENDPOINT");
+  if (!endpoint) throw new Error('PYTHON_ML_ENDPOINT is not configured');
+
+  const controller = new AbortController();
+  const timeout = setTimeout(() => controller.abort(), ML_TIMEOUT_MS);
+  try {
+    const response = await fetch(endpoint, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ video_url: videoUrl }),
+      signal: controller.signal,
+    });
+    if (!response.ok) throw new Error(`Model endpoint returned HTTP ${response.status}`);
+
+    const prediction = toPrediction(await response.json().catch(() => null));
+    if (!prediction) throw new Error('Model endpoint returned an invalid prediction');
+    return prediction;
+  } finally {
+    clearTimeout(timeout);
+  }
+}
+
+async function runJob(job: ClaimedJob): Promise<'succeeded' | 'retrying' | 'failed'> {
+  try {
+    const prediction = await callModel(job.video_url);
+
+    const { error } = await supabase
+      .from('video_analysis_jobs')
+      .update({ status: 'succeeded', result: prediction, error: null, completed_at: new Date().toISOString() })
+      .eq('id', job.id);
+    if (error) throw error;
+
+    if (job.assessment_id) {
+      const { error: attachError } = await supabase
+        .from('assessments')
+        .update({ video_prediction: prediction })
+        .eq('id', job.assessment_id);
+      if (attachError) console.error(`Could not attach job ${job.id} to its assessment:`, attachError);
+    }
+    return 'succeeded';
+  } catch (error) {
+    const giveUp = job.attempts >= job.max_attempts;
+    console.error(`Video analysis job ${job.id} attempt ${job.attempts} failed:`, error);
+
+    const { error: updateError } = await supabase
+      .from('video_analysis_jobs')
+      .update(
+        giveUp
+          ? { status: 'failed', error: (error as Error).message, completed_at: new Date().toISOString() }
+          : {
+              status: 'queued',
+              error: (error as Error).message,
+              next_attempt_at: new Date(Date.now() + retryDelay(job.attempts)).toISOString(),
+            }
+      )
+      .eq('id', job.id);
+    if (updateError) console.error(`Could not record failure for job ${job.id}:`, updateError);
+
+    // the assessment keeps an explicit "unavailable" outcome rather than a made-up score
+    if (giveUp && job.assessment_id) {
+      const { error: attachError } = await supabase
+        .from('assessments')
+        .update({ video_prediction: { source: 'unavailable', reason: (error as Error).message } })
+        .eq('id', job.assessment_id);
+      if (attachError) console.error(`Could not mark job ${job.id} unavailable on its assessment:`, attachError);
+    }
+    return giveUp ? 'failed' : 'retrying';
+  }
+}
+
+const handler = async (req: Request): Promise<Response> => {
+  const secret = Deno.env.get("REMINDER_CRON_SECRET");
+  const fromCron = !!secret && req.headers.get('x-cron-secret') === secret;
+  if (!fromCron && !isServiceRole(req)) {
+    return new Response(JSON.stringify({ error: 'Unauthorized' }), {
+      status: 401,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+
+  try {
+    const { data, error } = await supabase.rpc('claim_video_analysis_jobs', { _limit: 5 });
+    if (error) throw error;
+
+    const jobs = (data ?? []) as ClaimedJob[];
+    const outcomes = { succeeded: 0, retrying: 0, failed: 0 };
+    // Jobs run side by side; each one mostly waits on the model endpoint
+    for (const outcome of await Promise.all(jobs.map(runJob))) {
+      outcomes[outcome]++;
+    }
+
+    console.log(`Ran ${jobs.length} video analysis jobs`, outcomes);
+
+    return new Response(JSON.stringify({ claimed: jobs.length, ...outcomes }), {
+      status: 200,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  } catch (error) {
+    console.error('Error in analyze-video function:', error);
+    return new Response(
+      JSON.stringify({ error: (error as Error).message }),
+      {
+        status: 500,
+        headers: { 'Content-Type': 'application/json' },
+      }
+    );
+  }
+};
+
+serve(handler);
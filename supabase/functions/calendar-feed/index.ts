@@ -0,0 +1,158 @@
+import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+
+// Serves a user's task and appointment reminders as an iCalendar feed. The unguessable token in the
+// URL is the only credential, so calendar apps can subscribe without signing in.
+
+const supabase = createClient(
+  Deno.env.get("SUPABASE_URL")!,
+  Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!,
+);
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+// Reminders are points in time; give calendar entries a nominal length
+const EVENT_DURATION = 'PT30M';
+
+const ICAL_WEEKDAYS = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+
+interface FeedReminder {
+  id: string;
+  title: string;
+  reminder_type: 'task' | 'appointment';
+  time_of_day: string;
+  timezone: string;
+  recurrence: 'once' | 'daily' | 'weekdays' | 'weekly' | 'monthly';
+  repeat_interval: number;
+  weekdays: number[];
+  start_date: string;
+  exception_dates: string[];
+  first_run_local: string | null;
+  updated_at: string;
+}
+
+const escapeText = (text: string) =>
+  text.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
+
+// "2025-11-27T07:30:00" or "2025-11-27" + "07:30:00" -> "20251127T073000"
+const toLocalDateTime = (date: string, time: string) =>
+  `${date.replace(/-/g, '')}T${time.replace(/:/g, '').slice(0, 6).padEnd(6, '0')}`;
+
+const toUtcDateTime = (iso: string) => new Date(iso).toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+
+// Lines longer than 75 octets are folded onto continuation lines starting with a space
+function foldLine(line: string): string {
+  const parts: string[] = [];
+  let rest = line;
+  while (new TextEncoder().encode(rest).length > 75) {
+    let cut = 74;
+    while (new TextEncoder().encode(rest.slice(0, cut)).length > 74) cut--;
+    parts.push(rest.slice(0, cut));
+    rest = ' ' + rest.slice(cut);
+  }
+  parts.push(rest);
+  return parts.join('\r\n');
+}
+
+function toRRule(reminder: FeedReminder): string | null {
+  const interval = reminder.repeat_interval > 1 ? `;INTERVAL=${reminder.repeat_interval}` : '';
+  switch (reminder.recurrence) {
+    case 'daily':
+      return `FREQ=DAILY${interval}`;
+    case 'weekdays':
+      return 'FREQ=WEEKLY;BYDAY=MO,TU,WE,TH,FR';
+    case 'weekly':
+      return `FREQ=WEEKLY${interval};WKST=MO;BYDAY=${reminder.weekdays.map((d) => ICAL_WEEKDAYS[d]).join(',')}`;
+    case 'monthly':
+      return `FREQ=MONTHLY${interval};BYMONTHDAY=${Number(reminder.start_date.slice(8, 10))}`;
+    default:
+      return null;
+  }
+}
+
+function toEvent(reminder: FeedReminder): string[] {
+  const tzid = `TZID=${reminder.timezone}`;
+  const rrule = toRRule(reminder);
+  const lines = [
+    'BEGIN:VEVENT',
+    `UID:${reminder.id}@auticare`,
+    `DTSTAMP:${toUtcDateTime(reminder.updated_at)}`,
+    `LAST-MODIFIED:${toUtcDateTime(reminder.updated_at)}`,
+    `DTSTART;${tzid}:${toLocalDateTime(reminder.first_run_local!.slice(0, 10), reminder.first_run_local!.slice(11))}`,
+    `DURATION:${EVENT_DURATION}`,
+    `SUMMARY:${escapeText(reminder.title)}`,
+    `CATEGORIES:${reminder.reminder_type.toUpperCase()}`,
+  ];
+  if (rrule) {
+    lines.push(`RRULE:${rrule}`);
+    for (const date of reminder.exception_dates) {
+      lines.push(`EXDATE;${tzid}:${toLocalDateTime(date, reminder.time_of_day)}`);
+    }
+  }
+  lines.push(
+    'BEGIN:VALARM',
+    'ACTION:DISPLAY',
+    `DESCRIPTION:${escapeText(reminder.title)}`,
+    'TRIGGER:PT0M',
+    'END:VALARM',
+    'END:VEVENT',
+  );
+  return lines;
+}
+
+// TZIDs are IANA names, which Google, Apple and Outlook calendars resolve without VTIMEZONE blocks
+function toCalendar(reminders: FeedReminder[]): string {
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//AutiCare//Reminders//EN',
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    'X-WR-CALNAME:AutiCare Reminders',
+    'REFRESH-INTERVAL;VALUE=DURATION:PT1H',
+    ...reminders.filter((r) => r.first_run_local).flatMap(toEvent),
+    'END:VCALENDAR',
+  ];
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+}
+
+const handler = async (req: Request): Promise<Response> => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  const token = new URL(req.url).searchParams.get('token');
+  if (!token) {
+    return new Response('Missing token', { status: 400, headers: corsHeaders });
+  }
+
+  try {
+    const { data, error } = await supabase.rpc('calendar_feed_reminders', { _token: token });
+    if (error) throw error;
+
+    // An unknown token and a feed with no reminders look the same, so tokens can't be probed
+    return new Response(toCalendar((data ?? []) as FeedReminder[]), {
+      status: 200,
+      headers: {
+        'Content-Type': 'text/calendar; charset=utf-8',
+        'Content-Disposition': 'attachment; filename="auticare-reminders.ics"',
+        'Cache-Control': 'private, max-age=300',
+        ...corsHeaders,
+      },
+    });
+  } catch (error) {
+    console.error('Error in calendar-feed function:', error);
+    return new Response(
+      JSON.stringify({ error: (error as Error).message }),
+      {
+        status: 500,
+        headers: { 'Content-Type': 'application/json', ...corsHeaders },
+      }
+    );
+  }
+};
+
+serve(handler);
@@ -0,0 +1,95 @@
+import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+
+// Invoked every minute by pg_cron (see the reminders migration). Claiming is done in
+// claim_due_reminders so each occurrence is delivered at most once, however often this runs.
+
+const supabase = createClient(
+  Deno.env.get("SUPABASE_URL")!,
+  Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!,
+);
+
+const CLAIM_BATCH_SIZE = 100;
+
+interface DueReminder {
+  delivery_id: string;
+  reminder_id: string;
+  user_id: string;
+  title: string;
+  reminder_type: 'task' | 'assessment' | 'appointment';
+  timezone: string;
+  scheduled_for: string;
+}
+
+// Show the time the way the user set it, in their own timezone
+const formatLocalTime = (iso: string, timeZone: string) =>
+  new Intl.DateTimeFormat('en-GB', { timeZone, hour: '2-digit', minute: '2-digit' }).format(new Date(iso));
+
+// send-notification picks email and/or push from the user's preferences
+async function deliver(reminder: DueReminder): Promise<void> {
+  const { error } = await supabase.functions.invoke('send-notification', {
+    body: {
+      userId: reminder.user_id,
+      type: reminder.reminder_type === 'appointment' ? 'appointment' : 'reminder',
+      data: {
+        title: reminder.title,
+        reminderType: reminder.reminder_type, // send-notification words this in the user's language
+        time: formatLocalTime(reminder.scheduled_for, reminder.timezone),
+      },
+    },
+  });
+  if (error) throw error;
+}
+
+const handler = async (req: Request): Promise<Response> => {
+  const secret = Deno.env.get("REMINDER_CRON_SECRET");
+  if (!secret || req.headers.get('x-cron-secret') !== secret) {
+    return new Response(JSON.stringify({ error: 'Unauthorized' }), {
+      status: 401,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+
+  try {
+    const { data, error } = await supabase.rpc('claim_due_reminders', { _limit: CLAIM_BATCH_SIZE });
+    if (error) throw error;
+
+    const due = (data ?? []) as DueReminder[];
+    let sent = 0;
+
+    for (const reminder of due) {
+      try {
+        await deliver(reminder);
+        sent++;
+        await supabase
+          .from('reminder_deliveries')
+          .update({ status: 'sent', delivered_at: new Date().toISOString() })
+          .eq('id', reminder.delivery_id);
+      } catch (deliveryError) {
+        console.error(`Failed to deliver reminder ${reminder.reminder_id}:`, deliveryError);
+        await supabase
+          .from('reminder_deliveries')
+          .update({ status: 'failed', error: (deliveryError as Error).message })
+          .eq('id', reminder.delivery_id);
+      }
+    }
+
+    console.log(`Delivered ${sent}/${due.length} due reminders`);
+
+    return new Response(JSON.stringify({ claimed: due.length, sent, failed: due.length - sent }), {
+      status: 200,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  } catch (error) {
+    console.error('Error in deliver-reminders function:', error);
+    return new Response(
+      JSON.stringify({ error: (error as Error).message }),
+      {
+        status: 500,
+        headers: { 'Content-Type': 'application/json' },
+      }
+    );
+  }
+};
+
+serve(handler);
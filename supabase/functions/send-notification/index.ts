@@ -1,106 +1,415 @@
 import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
-import { Resend } from "https://esm.sh/resend@4.0.0";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import {
+  Language,
+  TemplateData,
+  TemplateType,
+  isTemplateType,
+  renderDigest,
+  renderEmail,
+  renderPushBody,
+  renderSummary,
+  resolveLanguage,
+} from "./templates.ts";
+import { HttpError, enforceRateLimit, isServiceRole, requireUser } from "../_shared/auth.ts";
+import { corsHeaders } from "../_shared/cors.ts";
+import { EMAIL_FROM, OutboxEmail, OutboxStatus, deliverOutboxEmail, enqueueEmail } from "../_shared/email.ts";
 
-const resend = new Resend(Deno.env.get("RESEND_API_KEY"));
+const SUPABASE_URL = Deno.env.get("SUPABASE_URL")!;
+const SERVICE_ROLE_KEY = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+const APP_URL = (Deno.env.get("APP_URL") ?? "http://localhost:5173").replace(/\/$/, "");
 
-const corsHeaders = {
-  "Access-Control-Allow-Origin": "*",
-  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+const supabase = createClient(SUPABASE_URL, SERVICE_ROLE_KEY);
+
+// Browser callers: 30 notifications an hour each
+const RATE_LIMIT = { limit: 30, windowSeconds: 60 * 60 };
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+const EMAIL_PATTERN = /^[^\s@<>,;"]+@[^\s@<>,;"]+\.[^\s@<>,;"]+$/;
+
+type NotificationType = TemplateType;
+
+// Reminders and appointments are only useful on time, so they skip the digest (but not quiet hours)
+const TIME_SENSITIVE_TYPES: NotificationType[] = ['reminder', 'appointment'];
+
+// What browsers may send, and to whom; care invites go through sendCareInvite, and every other type only
+// comes from other functions
+const BROWSER_TYPES: Partial<Record<NotificationType, 'self' | 'care_team'>> = {
+  achievement: 'self',
+  report_shared: 'care_team',
 };
+type Channel = 'email' | 'push';
+type NotificationData = TemplateData;
 
 interface NotificationRequest {
-  email: string;
-  type: 'achievement' | 'reminder' | 'appointment';
-  data: {
-    title: string;
-    description: string;
-    icon?: string;
-    time?: string;
+  userId?: string; // Only honoured from other functions; browsers are identified by their session
+  recipientUserId?: string; // Browsers may notify a member of their care team instead of themselves
+  shareId?: string; // Browsers send report_shared for one of their own report links; data is then built here
+  careLinkId?: string; // Browsers send care_invite for one of their own pending invites...
+  inviteEmail?: string; // ...to the clinician's address, which need not belong to an AutiCare account yet
+  type: NotificationType;
+  data: NotificationData;
+  // Set by send-queued-notifications when delivering something held back for quiet hours or the digest
+  deferred?: { channel: Channel; digest?: Array<{ type: NotificationType; data: NotificationData }> };
+}
+
+interface Preferences {
+  channels: Record<NotificationType, Record<Channel | 'in_app', boolean>>;
+  quiet_hours_start: string | null;
+  quiet_hours_end: string | null;
+  timezone: string;
+  digest_enabled: boolean;
+  digest_time: string;
+  unsubscribe_token: string;
+}
+
+// Other functions name the user and supply the data. Browser callers send achievements to themselves, and
+// shared reports to someone they share an active care link with (a linked clinician, or a linked patient
+// for clinicians); the report email is built here so its text and link can't be chosen by the caller.
+async function resolveRequest(
+  req: Request,
+  request: NotificationRequest
+): Promise<{ userId: string; data: NotificationData }> {
+  if (isServiceRole(req)) {
+    if (!request.userId) throw new HttpError(400, 'userId is required');
+    return { userId: request.userId, data: request.data };
+  }
+
+  const caller = await requireUser(supabase, req);
+  await enforceRateLimit(supabase, caller.id, 'send-notification', RATE_LIMIT.limit, RATE_LIMIT.windowSeconds);
+  if (request.deferred) throw new HttpError(403, 'Deferred notifications can only be sent by the queue');
+
+  const audience = BROWSER_TYPES[request.type];
+  if (!audience) throw new HttpError(403, 'This notification type can only be sent by the server');
+
+  const recipient = request.recipientUserId ?? caller.id;
+  if (audience === 'self') {
+    if (recipient !== caller.id) throw new HttpError(403, 'You can only send this notification to yourself');
+    return { userId: caller.id, data: request.data };
+  }
+
+  if (typeof recipient !== 'string' || !UUID_PATTERN.test(recipient) || recipient === caller.id) {
+    throw new HttpError(400, 'recipientUserId must be a member of your care team');
+  }
+  if (!(await hasActiveCareLink(caller.id, recipient)) && !(await hasActiveCareLink(recipient, caller.id))) {
+    throw new HttpError(403, 'You can only notify yourself or your care team');
+  }
+  return { userId: recipient, data: await sharedReportData(caller.id, request.shareId) };
+}
+
+// Title, sender and link of one of the caller's own live report links
+async function sharedReportData(callerId: string, shareId: unknown): Promise<NotificationData> {
+  if (typeof shareId !== 'string' || !UUID_PATTERN.test(shareId)) throw new HttpError(400, 'shareId is required');
+
+  const { data: share, error } = await supabase
+    .from('shared_achievements')
+    .select('title, share_token, expires_at, revoked_at')
+    .eq('id', shareId)
+    .eq('user_id', callerId)
+    .eq('kind', 'report')
+    .maybeSingle();
+  if (error) throw error;
+  if (!share || share.revoked_at || (share.expires_at && new Date(share.expires_at) <= new Date())) {
+    throw new HttpError(404, 'Report link not found');
+  }
+
+  const { data: profile } = await supabase.from('profiles').select('name').eq('user_id', callerId).maybeSingle();
+  return {
+    title: share.title,
+    senderName: profile?.name || undefined,
+    url: `${APP_URL}/share/${encodeURIComponent(share.share_token)}`,
   };
 }
 
+// Invitees may not have an account, so there are no preferences, quiet hours or unsubscribe link: the email
+// goes out once, in the family's language, with the code and sender taken from their own pending invite
+async function sendCareInvite(req: Request, request: NotificationRequest): Promise<OutboxStatus> {
+  const caller = await requireUser(supabase, req);
+  await enforceRateLimit(supabase, caller.id, 'send-notification', RATE_LIMIT.limit, RATE_LIMIT.windowSeconds);
+
+  const { careLinkId, inviteEmail } = request;
+  if (typeof careLinkId !== 'string' || !UUID_PATTERN.test(careLinkId)) throw new HttpError(400, 'careLinkId is required');
+  if (typeof inviteEmail !== 'string' || inviteEmail.length > 254 || !EMAIL_PATTERN.test(inviteEmail)) {
+    throw new HttpError(400, 'inviteEmail must be an email address');
+  }
+
+  // Claimed before sending, so each invite is emailed at most once
+  const { data: link, error } = await supabase
+    .from('care_links')
+    .update({ invite_emailed_at: new Date().toISOString() })
+    .eq('id', careLinkId)
+    .eq('patient_user_id', caller.id)
+    .eq('status', 'pending')
+    .gt('invite_expires_at', new Date().toISOString())
+    .is('invite_emailed_at', null)
+    .select('invite_code')
+    .maybeSingle();
+  if (error) throw error;
+  if (!link) throw new HttpError(404, 'Invite not found, expired or already emailed');
+
+  const { data: profile } = await supabase.from('profiles').select('name, language').eq('user_id', caller.id).maybeSingle();
+  const senderName = profile?.name || undefined;
+  const { subject, html, text } = renderEmail(
+    'care_invite',
+    { title: senderName ?? 'AutiCare', senderName, inviteCode: link.invite_code, url: APP_URL },
+    resolveLanguage(profile?.language)
+  );
+
+  console.log(`Sending care_invite notification for care link ${careLinkId}`);
+  let outboxEmail: OutboxEmail;
+  try {
+    outboxEmail = await enqueueEmail(supabase, null, 'care_invite', { from: EMAIL_FROM, to: inviteEmail, subject, html, text });
+  } catch (enqueueError) {
+    // Nothing was sent, so the invite can be emailed again
+    await supabase.from('care_links').update({ invite_emailed_at: null }).eq('id', careLinkId);
+    throw enqueueError;
+  }
+  return deliverOutboxEmail(supabase, outboxEmail);
+}
+
+// Emails only ever link back into the app
+function isAppLink(url: unknown): boolean {
+  if (typeof url !== 'string') return false;
+  try {
+    return new URL(url).origin === new URL(APP_URL).origin;
+  } catch {
+    return false;
+  }
+}
+
+async function hasActiveCareLink(patientUserId: string, clinicianUserId: string): Promise<boolean> {
+  const { data, error } = await supabase
+    .from('care_links')
+    .select('id')
+    .eq('status', 'active')
+    .eq('patient_user_id', patientUserId)
+    .eq('clinician_user_id', clinicianUserId)
+    .limit(1)
+    .maybeSingle();
+  if (error) throw error;
+  return !!data;
+}
+
+// Creates the defaults (every channel on, no quiet hours) for users who never opened the preferences page,
+// so every email can carry an unsubscribe link
+async function getPreferences(userId: string): Promise<Preferences> {
+  const { data, error } = await supabase
+    .from('notification_preferences')
+    .upsert({ user_id: userId }, { onConflict: 'user_id', ignoreDuplicates: true })
+    .select('channels, quiet_hours_start, quiet_hours_end, timezone, digest_enabled, digest_time, unsubscribe_token')
+    .maybeSingle();
+  if (error) throw error;
+  if (data) return data as Preferences;
+
+  const { data: existing, error: selectError } = await supabase
+    .from('notification_preferences')
+    .select('channels, quiet_hours_start, quiet_hours_end, timezone, digest_enabled, digest_time, unsubscribe_token')
+    .eq('user_id', userId)
+    .single();
+  if (selectError) throw selectError;
+  return existing as Preferences;
+}
+
+// Templates follow the free-text language chosen at sign-up, falling back to English
+async function getLanguage(userId: string): Promise<Language> {
+  const { data } = await supabase.from('profiles').select('language').eq('user_id', userId).maybeSingle();
+  return resolveLanguage(data?.language);
+}
+
+// Email only goes to addresses the user has confirmed
+async function getUserEmail(userId: string): Promise<string | null> {
+  const { data: { user } } = await supabase.auth.admin.getUserById(userId);
+  return user?.email && user.email_confirmed_at ? user.email : null;
+}
+
+const toMinutes = (time: string) => {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+};
+
+function minutesInTimezone(date: Date, timeZone: string): number {
+  const parts = new Intl.DateTimeFormat('en-GB', { timeZone, hour: '2-digit', minute: '2-digit', hourCycle: 'h23' })
+    .formatToParts(date);
+  const part = (type: string) => Number(parts.find((p) => p.type === type)?.value ?? 0);
+  return part('hour') * 60 + part('minute');
+}
+
+// When the user's clock next reads `time` (HH:MM), at least a minute from now
+function nextLocalTime(time: string, now: Date, timeZone: string): Date {
+  const minutes = (toMinutes(time) - minutesInTimezone(now, timeZone) + 1440) % 1440 || 1440;
+  return new Date(now.getTime() + minutes * 60 * 1000);
+}
+
+// End of the current quiet period, or null outside quiet hours. Periods may span midnight (22:00-07:00).
+function quietHoursEnd(preferences: Preferences, now: Date): Date | null {
+  const { quiet_hours_start: start, quiet_hours_end: end, timezone } = preferences;
+  if (!start || !end) return null;
+
+  const current = minutesInTimezone(now, timezone);
+  const from = toMinutes(start);
+  const to = toMinutes(end);
+  const quiet = from <= to ? current >= from && current < to : current >= from || current < to;
+  return quiet ? nextLocalTime(end, now, timezone) : null;
+}
+
+async function queueNotification(
+  userId: string,
+  type: NotificationType,
+  data: NotificationData,
+  channel: Channel,
+  deliverAfter: Date,
+  digest = false
+) {
+  const { error } = await supabase.from('notification_queue').insert({
+    user_id: userId,
+    notification_type: type,
+    channel,
+    payload: data,
+    digest,
+    deliver_after: deliverAfter.toISOString(),
+  });
+  if (error) throw error;
+}
+
+async function sendPush(
+  userId: string,
+  language: Language,
+  type: NotificationType,
+  data: NotificationData
+): Promise<number> {
+  const { data: pushResult, error } = await supabase.functions.invoke('send-push', {
+    body: {
+      userId,
+      title: renderSummary(type, data, language),
+      body: renderPushBody(type, data, language),
+      tag: `${type}-${data.title}`,
+    },
+  });
+  if (error) console.error('Push delivery failed:', error);
+  return pushResult?.sent ?? 0;
+}
+
+// Without a type the link turns off every notification email. People follow the link in the email to a
+// confirmation page in the app; mail clients POST to the function directly (List-Unsubscribe-Post).
+const unsubscribeQuery = (token: string, type?: NotificationType) =>
+  `token=${encodeURIComponent(token)}${type ? `&type=${type}` : ''}`;
+const unsubscribePageUrl = (token: string, type?: NotificationType) =>
+  `${APP_URL}/unsubscribe?${unsubscribeQuery(token, type)}`;
+const oneClickUnsubscribeUrl = (token: string, type?: NotificationType) =>
+  `${SUPABASE_URL}/functions/v1/unsubscribe?${unsubscribeQuery(token, type)}`;
+
+// Written to the outbox first, so a failed attempt is retried by send-queued-notifications
+async function sendEmail(
+  userId: string,
+  email: string,
+  preferences: Preferences,
+  language: Language,
+  type: NotificationType,
+  data: NotificationData,
+  digest?: Array<{ type: NotificationType; data: NotificationData }>
+): Promise<OutboxStatus> {
+  const unsubscribeType = digest ? undefined : type;
+  const unsubscribe = unsubscribePageUrl(preferences.unsubscribe_token, unsubscribeType);
+  const { subject, html, text } = digest
+    ? renderDigest(digest, language, { unsubscribeUrl: unsubscribe })
+    : renderEmail(type, data, language, { unsubscribeUrl: unsubscribe });
+
+  console.log(`Sending ${digest ? 'digest' : type} notification to user ${userId}`);
+
+  const outboxEmail = await enqueueEmail(supabase, userId, digest ? 'digest' : type, {
+    from: EMAIL_FROM,
+    to: email,
+    subject,
+    html,
+    text,
+    headers: {
+      'List-Unsubscribe': `<${oneClickUnsubscribeUrl(preferences.unsubscribe_token, unsubscribeType)}>`,
+      'List-Unsubscribe-Post': 'List-Unsubscribe=One-Click',
+    },
+  });
+  return deliverOutboxEmail(supabase, outboxEmail);
+}
+
 const handler = async (req: Request): Promise<Response> => {
+  const cors = corsHeaders(req);
   if (req.method === 'OPTIONS') {
-    return new Response(null, { headers: corsHeaders });
+    return new Response(null, { headers: cors });
   }
 
   try {
-    const { email, type, data }: NotificationRequest = await req.json();
-
-    console.log(`Sending ${type} notification to ${email}`);
-
-    let subject = '';
-    let html = '';
-
-    switch (type) {
-      case 'achievement':
-        subject = `🎉 New Achievement Unlocked: ${data.title}`;
-        html = `
-          <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
-            <h1 style="color: #4F46E5; text-align: center;">${data.icon || '🏆'} Achievement Unlocked!</h1>
-            <div style="background: #F3F4F6; padding: 20px; border-radius: 10px; margin: 20px 0;">
-              <h2 style="color: #1F2937; margin-top: 0;">${data.title}</h2>
-              <p style="color: #6B7280; font-size: 16px;">${data.description}</p>
-            </div>
-            <p style="color: #6B7280; text-align: center;">Keep up the great work! 💪</p>
-          </div>
-        `;
-        break;
-
-      case 'reminder':
-        subject = `⏰ Reminder: ${data.title}`;
-        html = `
-          <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
-            <h1 style="color: #4F46E5; text-align: center;">⏰ Reminder</h1>
-            <div style="background: #FEF3C7; padding: 20px; border-radius: 10px; margin: 20px 0; border-left: 4px solid #F59E0B;">
-              <h2 style="color: #1F2937; margin-top: 0;">${data.title}</h2>
-              ${data.time ? `<p style="color: #6B7280; font-size: 16px;">⏰ Scheduled for: ${data.time}</p>` : ''}
-              <p style="color: #6B7280; font-size: 16px;">${data.description}</p>
-            </div>
-            <p style="color: #6B7280; text-align: center;">This is a friendly reminder from AutiCare 💙</p>
-          </div>
-        `;
-        break;
-
-      case 'appointment':
-        subject = `📅 Appointment Alert: ${data.title}`;
-        html = `
-          <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
-            <h1 style="color: #4F46E5; text-align: center;">📅 Appointment Alert</h1>
-            <div style="background: #DBEAFE; padding: 20px; border-radius: 10px; margin: 20px 0; border-left: 4px solid #3B82F6;">
-              <h2 style="color: #1F2937; margin-top: 0;">${data.title}</h2>
-              ${data.time ? `<p style="color: #6B7280; font-size: 16px;">📅 Time: ${data.time}</p>` : ''}
-              <p style="color: #6B7280; font-size: 16px;">${data.description}</p>
-            </div>
-            <p style="color: #6B7280; text-align: center;">Don't forget your upcoming appointment! 🌟</p>
-          </div>
-        `;
-        break;
+    const request: NotificationRequest = await req.json();
+    const { type, deferred } = request;
+    if (!isTemplateType(type)) throw new HttpError(400, 'Unknown notification type');
+
+    if (type === 'care_invite' && !isServiceRole(req)) {
+      const email = await sendCareInvite(req, request);
+      return new Response(JSON.stringify({ success: true, email, pushed: 0 }), {
+        status: 200,
+        headers: { "Content-Type": "application/json", ...cors },
+      });
     }
 
-    const emailResponse = await resend.emails.send({
-      from: "AutiCare <onboarding@resend.dev>",
-      to: [email],
-      subject,
-      html,
-    });
+    const { userId, data } = await resolveRequest(req, request);
+    if (typeof data?.title !== 'string') throw new HttpError(400, 'data.title is required');
+    if (data.url !== undefined && !isAppLink(data.url)) throw new HttpError(400, 'data.url must link to the app');
+
+    const preferences = await getPreferences(userId);
+    const language = await getLanguage(userId);
+    const enabled = preferences.channels[type] ?? { email: true, push: true };
+    const now = new Date();
+    const result = { success: true, email: 'skipped', pushed: 0 };
+
+    if (deferred) {
+      // Quiet hours and the digest were applied when this was queued; channel switches are checked again
+      // in case the user turned the channel off in the meantime
+      if (deferred.channel === 'push' && enabled.push) {
+        result.pushed = await sendPush(userId, language, type, data);
+      }
+      if (deferred.channel === 'email' && (deferred.digest || enabled.email)) {
+        const email = await getUserEmail(userId);
+        if (email) {
+          result.email = await sendEmail(userId, email, preferences, language, type, data, deferred.digest);
+        }
+      }
+    } else {
+      const quietUntil = quietHoursEnd(preferences, now);
 
-    console.log("Email sent successfully:", emailResponse);
+      if (enabled.push) {
+        if (quietUntil) {
+          await queueNotification(userId, type, data, 'push', quietUntil);
+        } else {
+          result.pushed = await sendPush(userId, language, type, data);
+        }
+      }
+
+      if (enabled.email) {
+        if (preferences.digest_enabled && !TIME_SENSITIVE_TYPES.includes(type)) {
+          await queueNotification(userId, type, data, 'email', nextLocalTime(preferences.digest_time, now, preferences.timezone), true);
+          result.email = 'digest';
+        } else if (quietUntil) {
+          await queueNotification(userId, type, data, 'email', quietUntil);
+          result.email = 'queued';
+        } else {
+          const email = await getUserEmail(userId);
+          result.email = email ? await sendEmail(userId, email, preferences, language, type, data) : 'unverified';
+        }
+      }
+    }
 
-    return new Response(JSON.stringify({ success: true }), {
+    return new Response(JSON.stringify(result), {
       status: 200,
       headers: {
         "Content-Type": "application/json",
-        ...corsHeaders,
+        ...cors,
       },
     });
-  } catch (error: any) {
+  } catch (error) {
     console.error("Error sending notification:", error);
     return new Response(
-      JSON.stringify({ error: error.message }),
+      JSON.stringify({ error: (error as Error).message }),
       {
-        status: 500,
-        headers: { "Content-Type": "application/json", ...corsHeaders },
+        status: error instanceof HttpError ? error.status : 500,
+        headers: { "Content-Type": "application/json", ...cors },
       }
     );
   }
@@ -0,0 +1,376 @@
+// Email (and push text) templates for send-notification. Every caller-supplied value is HTML-escaped,
+// each email has a plain-text alternative, and the wording follows the recipient's profile language.
+
+export const TEMPLATE_TYPES = [
+  'achievement',
+  'reminder',
+  'appointment',
+  'progress_digest',
+  'report_shared',
+  'care_invite',
+] as const;
+export type TemplateType = typeof TEMPLATE_TYPES[number];
+
+export const isTemplateType = (value: unknown): value is TemplateType =>
+  typeof value === 'string' && (TEMPLATE_TYPES as readonly string[]).includes(value);
+
+export type Language = 'en' | 'hi' | 'ta';
+
+export type ReminderKind = 'task' | 'assessment' | 'appointment';
+
+export interface TemplateData {
+  title: string;
+  description?: string; // Reminders fall back to a localized "Time for your ..." line
+  icon?: string;
+  time?: string;
+  reminderType?: ReminderKind;
+  url?: string; // Call-to-action link (report, invitation)
+  senderName?: string; // Clinician or family behind a shared report or invite
+  inviteCode?: string;
+  stats?: Array<{ label: string; value: string }>; // Progress digest figures
+}
+
+export interface RenderedEmail {
+  subject: string;
+  html: string;
+  text: string;
+}
+
+export interface RenderOptions {
+  unsubscribeUrl?: string;
+}
+
+interface TypeStrings {
+  subject: (data: TemplateData) => string;
+  heading: (data: TemplateData) => string;
+  closing: string;
+}
+
+interface Strings {
+  types: Record<TemplateType, TypeStrings>;
+  achievementUnlocked: string;
+  scheduledFor: string;
+  time: string;
+  inviteCode: string;
+  viewReport: string;
+  acceptInvite: string;
+  reminderDescription: Record<ReminderKind, string>;
+  digestSubject: (count: number) => string;
+  digestHeading: string;
+  unsubscribe: string;
+  unsubscribeAll: string;
+}
+
+const STRINGS: Record<Language, Strings> = {
+  en: {
+    types: {
+      achievement: {
+        subject: (d) => `🎉 New Achievement Unlocked: ${d.title}`,
+        heading: (d) => `${d.icon || '🏆'} Achievement Unlocked!`,
+        closing: 'Keep up the great work! 💪',
+      },
+      reminder: {
+        subject: (d) => `⏰ Reminder: ${d.title}`,
+        heading: () => '⏰ Reminder',
+        closing: 'This is a friendly reminder from AutiCare 💙',
+      },
+      appointment: {
+        subject: (d) => `📅 Appointment Alert: ${d.title}`,
+        heading: () => '📅 Appointment Alert',
+        closing: "Don't forget your upcoming appointment! 🌟",
+      },
+      progress_digest: {
+        subject: (d) => `📈 Your weekly progress: ${d.title}`,
+        heading: () => '📈 Weekly Progress',
+        closing: 'Small steps add up. See you next week! 🌱',
+      },
+      report_shared: {
+        subject: (d) => `📄 ${d.senderName || 'Your clinician'} shared a report with you`,
+        heading: () => '📄 New Report Shared',
+        closing: 'Reports are only visible to you and your care team.',
+      },
+      care_invite: {
+        subject: (d) => `🤝 ${d.senderName || 'A family'} invited you to their AutiCare care team`,
+        heading: () => '🤝 Care Team Invitation',
+        closing: 'Invite codes expire after 7 days.',
+      },
+    },
+    achievementUnlocked: 'Achievement unlocked',
+    scheduledFor: 'Scheduled for',
+    time: 'Time',
+    inviteCode: 'Invite code',
+    viewReport: 'View report',
+    acceptInvite: 'Accept invitation',
+    reminderDescription: {
+      task: 'Time for your task',
+      assessment: 'Time for your assessment',
+      appointment: 'Time for your appointment',
+    },
+    digestSubject: (count) => `📬 Your AutiCare day: ${count} update${count === 1 ? '' : 's'}`,
+    digestHeading: '📬 Your Daily Digest',
+    unsubscribe: 'Unsubscribe from these emails',
+    unsubscribeAll: 'Unsubscribe from all AutiCare emails',
+  },
+  hi: {
+    types: {
+      achievement: {
+        subject: (d) => `🎉 नई उपलब्धि हासिल: ${d.title}`,
+        heading: (d) => `${d.icon || '🏆'} उपलब्धि हासिल हुई!`,
+        closing: 'ऐसे ही बढ़िया काम करते रहें! 💪',
+      },
+      reminder: {
+        subject: (d) => `⏰ रिमाइंडर: ${d.title}`,
+        heading: () => '⏰ रिमाइंडर',
+        closing: 'यह AutiCare की ओर से एक स्नेहपूर्ण रिमाइंडर है 💙',
+      },
+      appointment: {
+        subject: (d) => `📅 अपॉइंटमेंट सूचना: ${d.title}`,
+        heading: () => '📅 अपॉइंटमेंट सूचना',
+        closing: 'अपना आने वाला अपॉइंटमेंट न भूलें! 🌟',
+      },
+      progress_digest: {
+        subject: (d) => `📈 आपकी साप्ताहिक प्रगति: ${d.title}`,
+        heading: () => '📈 साप्ताहिक प्रगति',
+        closing: 'छोटे-छोटे कदम मिलकर बड़ा बदलाव लाते हैं। अगले हफ़्ते मिलते हैं! 🌱',
+      },
+      report_shared: {
+        subject: (d) => `📄 ${d.senderName || 'आपके क्लिनिशियन'} ने आपके साथ एक रिपोर्ट साझा की है`,
+        heading: () => '📄 नई रिपोर्ट साझा की गई',
+        closing: 'रिपोर्ट केवल आप और आपकी केयर टीम देख सकते हैं।',
+      },
+      care_invite: {
+        subject: (d) => `🤝 ${d.senderName || 'एक परिवार'} ने आपको अपनी AutiCare केयर टीम में आमंत्रित किया है`,
+        heading: () => '🤝 केयर टीम आमंत्रण',
+        closing: 'आमंत्रण कोड 7 दिनों के बाद समाप्त हो जाते हैं।',
+      },
+    },
+    achievementUnlocked: 'उपलब्धि हासिल',
+    scheduledFor: 'निर्धारित समय',
+    time: 'समय',
+    inviteCode: 'आमंत्रण कोड',
+    viewReport: 'रिपोर्ट देखें',
+    acceptInvite: 'आमंत्रण स्वीकार करें',
+    reminderDescription: {
+      task: 'आपके कार्य का समय हो गया है',
+      assessment: 'आपके आकलन का समय हो गया है',
+      appointment: 'आपके अपॉइंटमेंट का समय हो गया है',
+    },
+    digestSubject: (count) => `📬 आज AutiCare पर ${count} अपडेट`,
+    digestHeading: '📬 आपका दैनिक सारांश',
+    unsubscribe: 'इन ईमेल की सदस्यता छोड़ें',
+    unsubscribeAll: 'AutiCare के सभी ईमेल की सदस्यता छोड़ें',
+  },
+  ta: {
+    types: {
+      achievement: {
+        subject: (d) => `🎉 புதிய சாதனை: ${d.title}`,
+        heading: (d) => `${d.icon || '🏆'} சாதனை திறக்கப்பட்டது!`,
+        closing: 'இதே போல் சிறப்பாகத் தொடருங்கள்! 💪',
+      },
+      reminder: {
+        subject: (d) => `⏰ நினைவூட்டல்: ${d.title}`,
+        heading: () => '⏰ நினைவூட்டல்',
+        closing: 'இது AutiCare வழங்கும் அன்பான நினைவூட்டல் 💙',
+      },
+      appointment: {
+        subject: (d) => `📅 சந்திப்பு அறிவிப்பு: ${d.title}`,
+        heading: () => '📅 சந்திப்பு அறிவிப்பு',
+        closing: 'உங்கள் வரவிருக்கும் சந்திப்பை மறக்காதீர்கள்! 🌟',
+      },
+      progress_digest: {
+        subject: (d) => `📈 உங்கள் வாராந்திர முன்னேற்றம்: ${d.title}`,
+        heading: () => '📈 வாராந்திர முன்னேற்றம்',
+        closing: 'சிறு அடிகள் பெரிய மாற்றத்தைத் தரும். அடுத்த வாரம் சந்திப்போம்! 🌱',
+      },
+      report_shared: {
+        subject: (d) => `📄 ${d.senderName || 'உங்கள் மருத்துவர்'} உங்களுடன் ஒரு அறிக்கையைப் பகிர்ந்துள்ளார்`,
+        heading: () => '📄 புதிய அறிக்கை பகிரப்பட்டது',
+        closing: 'அறிக்கைகளை நீங்களும் உங்கள் பராமரிப்புக் குழுவும் மட்டுமே பார்க்க முடியும்.',
+      },
+      care_invite: {
+        subject: (d) => `🤝 ${d.senderName || 'ஒரு குடும்பம்'} உங்களை தங்கள் AutiCare பராமரிப்புக் குழுவில் சேர அழைத்துள்ளனர்`,
+        heading: () => '🤝 பராமரிப்புக் குழு அழைப்பு',
+        closing: 'அழைப்புக் குறியீடுகள் 7 நாட்களில் காலாவதியாகும்.',
+      },
+    },
+    achievementUnlocked: 'சாதனை',
+    scheduledFor: 'திட்டமிட்ட நேரம்',
+    time: 'நேரம்',
+    inviteCode: 'அழைப்புக் குறியீடு',
+    viewReport: 'அறிக்கையைப் பார்க்க',
+    acceptInvite: 'அழைப்பை ஏற்க',
+    reminderDescription: {
+      task: 'உங்கள் பணிக்கான நேரம் இது',
+      assessment: 'உங்கள் மதிப்பீட்டுக்கான நேரம் இது',
+      appointment: 'உங்கள் சந்திப்புக்கான நேரம் இது',
+    },
+    digestSubject: (count) => `📬 இன்று AutiCare-இல் ${count} புதுப்பிப்புகள்`,
+    digestHeading: '📬 உங்கள் தினசரி சுருக்கம்',
+    unsubscribe: 'இந்த மின்னஞ்சல்களை நிறுத்த',
+    unsubscribeAll: 'AutiCare மின்னஞ்சல்கள் அனைத்தையும் நிறுத்த',
+  },
+};
+
+// Card colours per type: [background, left border]
+const ACCENTS: Record<TemplateType, [string, string | null]> = {
+  achievement: ['#F3F4F6', null],
+  reminder: ['#FEF3C7', '#F59E0B'],
+  appointment: ['#DBEAFE', '#3B82F6'],
+  progress_digest: ['#ECFDF5', '#10B981'],
+  report_shared: ['#EDE9FE', '#8B5CF6'],
+  care_invite: ['#FCE7F3', '#EC4899'],
+};
+
+// profiles.language is free text entered at sign-up ("English", "Hindi", "தமிழ்", "ta", ...)
+const LANGUAGE_NAMES: Record<string, Language> = {
+  en: 'en', english: 'en',
+  hi: 'hi', hindi: 'hi', 'हिन्दी': 'hi', 'हिंदी': 'hi',
+  ta: 'ta', tamil: 'ta', 'தமிழ்': 'ta',
+};
+
+export function resolveLanguage(profileLanguage: string | null | undefined): Language {
+  return LANGUAGE_NAMES[(profileLanguage ?? '').trim().toLowerCase()] ?? 'en';
+}
+
+export function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+// Only http(s) links make it into an email
+const safeUrl = (url: string | undefined) => (url && /^https?:\/\//i.test(url) ? url : null);
+
+const describe = (data: TemplateData, strings: Strings) =>
+  data.description ?? (data.reminderType ? strings.reminderDescription[data.reminderType] : '');
+
+// One-line summary used for push notifications and digest entries
+export function renderSummary(type: TemplateType, data: TemplateData, language: Language): string {
+  const strings = STRINGS[language];
+  if (type === 'achievement') return `${data.icon || '🏆'} ${strings.achievementUnlocked}: ${data.title}`;
+  const icon = { reminder: '⏰', appointment: '📅', progress_digest: '📈', report_shared: '📄', care_invite: '🤝' }[type];
+  return `${icon} ${data.title}`;
+}
+
+export function renderPushBody(type: TemplateType, data: TemplateData, language: Language): string {
+  const description = describe(data, STRINGS[language]);
+  return data.time ? `${description} · ${data.time}` : description;
+}
+
+function layout(heading: string, card: string, closing: string, unsubscribe: string | null): string {
+  return `
+        <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+          <h1 style="color: #4F46E5; text-align: center;">${heading}</h1>
+          ${card}
+          <p style="color: #6B7280; text-align: center;">${closing}</p>${unsubscribe ?? ''}
+        </div>
+      `;
+}
+
+const unsubscribeLink = (url: string | undefined, label: string) =>
+  url
+    ? `
+          <p style="color: #9CA3AF; font-size: 12px; text-align: center; margin-top: 30px;">
+            <a href="${escapeHtml(url)}" style="color: #9CA3AF;">${escapeHtml(label)}</a>
+          </p>`
+    : null;
+
+const button = (url: string, label: string) =>
+  `<p style="text-align: center; margin: 24px 0 0;"><a href="${escapeHtml(url)}" style="background: #4F46E5; color: #FFFFFF; padding: 12px 24px; border-radius: 8px; text-decoration: none; display: inline-block;">${escapeHtml(label)}</a></p>`;
+
+export function renderEmail(
+  type: TemplateType,
+  data: TemplateData,
+  language: Language,
+  options: RenderOptions = {}
+): RenderedEmail {
+  const strings = STRINGS[language];
+  const typeStrings = strings.types[type];
+  const description = describe(data, strings);
+  const url = safeUrl(data.url);
+  const [background, border] = ACCENTS[type];
+
+  const body: string[] = [];
+  const text: string[] = [typeStrings.heading(data), '', data.title];
+  if (data.time && (type === 'reminder' || type === 'appointment')) {
+    const label = type === 'reminder' ? `⏰ ${strings.scheduledFor}` : `📅 ${strings.time}`;
+    body.push(`<p style="color: #6B7280; font-size: 16px;">${label}: ${escapeHtml(data.time)}</p>`);
+    text.push(`${label}: ${data.time}`);
+  }
+  if (description) {
+    body.push(`<p style="color: #6B7280; font-size: 16px;">${escapeHtml(description)}</p>`);
+    text.push(description);
+  }
+  if (data.stats?.length) {
+    body.push(
+      `<table style="width: 100%; color: #1F2937; font-size: 15px;">${data.stats
+        .map((s) => `<tr><td>${escapeHtml(s.label)}</td><td style="text-align: right; font-weight: bold;">${escapeHtml(s.value)}</td></tr>`)
+        .join('')}</table>`
+    );
+    text.push(...data.stats.map((s) => `${s.label}: ${s.value}`));
+  }
+  if (data.inviteCode) {
+    body.push(
+      `<p style="color: #1F2937; font-size: 16px;">${strings.inviteCode}: <strong style="font-family: monospace; font-size: 20px;">${escapeHtml(data.inviteCode)}</strong></p>`
+    );
+    text.push(`${strings.inviteCode}: ${data.inviteCode}`);
+  }
+  if (url && (type === 'report_shared' || type === 'care_invite')) {
+    const label = type === 'report_shared' ? strings.viewReport : strings.acceptInvite;
+    body.push(button(url, label));
+    text.push(`${label}: ${url}`);
+  }
+
+  const card = `<div style="background: ${background}; padding: 20px; border-radius: 10px; margin: 20px 0;${border ? ` border-left: 4px solid ${border};` : ''}">
+            <h2 style="color: #1F2937; margin-top: 0;">${escapeHtml(data.title)}</h2>
+            ${body.join('\n            ')}
+          </div>`;
+
+  text.push('', typeStrings.closing);
+  if (options.unsubscribeUrl) text.push('', `${strings.unsubscribe}: ${options.unsubscribeUrl}`);
+
+  return {
+    subject: typeStrings.subject(data),
+    html: layout(
+      escapeHtml(typeStrings.heading(data)),
+      card,
+      typeStrings.closing,
+      unsubscribeLink(options.unsubscribeUrl, strings.unsubscribe)
+    ),
+    text: text.join('\n'),
+  };
+}
+
+export function renderDigest(
+  items: Array<{ type: TemplateType; data: TemplateData }>,
+  language: Language,
+  options: RenderOptions = {}
+): RenderedEmail {
+  const strings = STRINGS[language];
+  const lines = items.map(({ type, data }) => ({
+    summary: renderSummary(type, data, language),
+    detail: renderPushBody(type, data, language),
+  }));
+
+  const rows = lines
+    .map(({ summary, detail }) => `
+            <li style="margin-bottom: 12px;">
+              <strong style="color: #1F2937;">${escapeHtml(summary)}</strong><br />
+              <span style="color: #6B7280;">${escapeHtml(detail)}</span>
+            </li>`)
+    .join('');
+  const card = `<ul style="background: #F3F4F6; padding: 20px 20px 20px 40px; border-radius: 10px; margin: 20px 0;">${rows}
+          </ul>`;
+
+  const text = [strings.digestHeading, '', ...lines.map(({ summary, detail }) => `• ${summary}\n  ${detail}`)];
+  if (options.unsubscribeUrl) text.push('', `${strings.unsubscribeAll}: ${options.unsubscribeUrl}`);
+
+  return {
+    subject: strings.digestSubject(items.length),
+    html: layout(strings.digestHeading, card, '', unsubscribeLink(options.unsubscribeUrl, strings.unsubscribeAll)),
+    text: text.join('\n'),
+  };
+}
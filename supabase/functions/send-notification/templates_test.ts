@@ -0,0 +1,143 @@
+// Snapshot tests for the notification email templates. Each rendered email (subject, HTML and plain text)
+// is compared with its file in __snapshots__. After an intended wording or layout change, regenerate them:
+//   deno test --allow-read --allow-write supabase/functions/send-notification -- --update
+import { assert, assertEquals, assertStringIncludes } from "https://deno.land/std@0.190.0/testing/asserts.ts";
+import {
+  Language,
+  RenderedEmail,
+  TEMPLATE_TYPES,
+  TemplateData,
+  TemplateType,
+  renderDigest,
+  renderEmail,
+} from "./templates.ts";
+
+const UPDATE = Deno.args.includes("--update");
+const LANGUAGES: Language[] = ["en", "hi", "ta"];
+
+// The query string checks that URLs are escaped inside href attributes too
+const OPTIONS = { unsubscribeUrl: "https://auticare.example/unsubscribe?token=abc&type=reminder" };
+
+// Every caller-supplied field carries markup, so the snapshots show it escaped
+const HOSTILE_TITLE = `<script>alert("hi")</script> Tom & Jerry's day`;
+
+const FIXTURES: Record<TemplateType, TemplateData> = {
+  achievement: {
+    title: HOSTILE_TITLE,
+    description: "Completed <b>5</b> calm-zone sessions",
+    icon: "🌟",
+  },
+  reminder: {
+    title: HOSTILE_TITLE,
+    time: "10:30 <am>",
+    reminderType: "task",
+  },
+  appointment: {
+    title: HOSTILE_TITLE,
+    description: `Bring the "blue" folder & notes`,
+    time: "Mon 14:00",
+  },
+  progress_digest: {
+    title: HOSTILE_TITLE,
+    description: "Here is how the week went",
+    stats: [
+      { label: "Check-ins <week>", value: "4 & counting" },
+      { label: `Average "score"`, value: "<42>" },
+    ],
+  },
+  report_shared: {
+    title: HOSTILE_TITLE,
+    description: "A new screening report is ready",
+    senderName: "Dr. <Rao>",
+    url: "https://auticare.example/share/abc?pin=1&x=<y>",
+  },
+  care_invite: {
+    title: HOSTILE_TITLE,
+    description: "Join the care team",
+    senderName: "The Iyer family",
+    inviteCode: `AB<12>&"C'`,
+    url: "https://auticare.example/invite?code=AB12&from=email",
+  },
+};
+
+const formatEmail = (email: RenderedEmail) =>
+  `Subject: ${email.subject}\n\n--- html ---\n${email.html}\n\n--- text ---\n${email.text}\n`;
+
+async function assertMatchesSnapshot(name: string, actual: string) {
+  const file = new URL(`./__snapshots__/${name}.snap`, import.meta.url);
+  if (UPDATE) {
+    await Deno.mkdir(new URL("./__snapshots__/", import.meta.url), { recursive: true });
+    await Deno.writeTextFile(file, actual);
+    return;
+  }
+
+  let expected: string;
+  try {
+    expected = await Deno.readTextFile(file);
+  } catch {
+    throw new Error(`Missing snapshot ${name}.snap; run the tests with -- --update to create it`);
+  }
+  assertEquals(actual, expected, `${name} no longer matches its snapshot; run with -- --update if intended`);
+}
+
+// Raw markup from the fixtures must never reach the HTML
+function assertEscaped(html: string) {
+  for (const raw of ["<script>", "<b>", "<am>", "<week>", "<42>", "<Rao>", "<12>", "<y>"]) {
+    assert(!html.includes(raw), `HTML contains unescaped ${raw}`);
+  }
+  assertStringIncludes(html, "&lt;script&gt;alert(&quot;hi&quot;)&lt;/script&gt; Tom &amp; Jerry&#39;s day");
+  assertStringIncludes(html, 'href="https://auticare.example/unsubscribe?token=abc&amp;type=reminder"');
+}
+
+for (const type of TEMPLATE_TYPES) {
+  for (const language of LANGUAGES) {
+    Deno.test(`renderEmail ${type} (${language})`, async () => {
+      const email = renderEmail(type, FIXTURES[type], language, OPTIONS);
+
+      assertEscaped(email.html);
+      // Plain text is not HTML, so values appear exactly as given
+      assertStringIncludes(email.text, HOSTILE_TITLE);
+      assert(!email.text.includes("&lt;"), "Plain text should not be HTML-escaped");
+      assertStringIncludes(email.text, OPTIONS.unsubscribeUrl);
+
+      await assertMatchesSnapshot(`${type}.${language}`, formatEmail(email));
+    });
+  }
+}
+
+Deno.test("renderEmail escapes description, stats and invite code", () => {
+  const digest = renderEmail("progress_digest", FIXTURES.progress_digest, "en");
+  assertStringIncludes(digest.html, "Check-ins &lt;week&gt;");
+  assertStringIncludes(digest.html, "4 &amp; counting");
+  assertStringIncludes(digest.html, "Average &quot;score&quot;");
+  assertStringIncludes(digest.html, "&lt;42&gt;");
+  assertStringIncludes(digest.text, "Check-ins <week>: 4 & counting");
+
+  const invite = renderEmail("care_invite", FIXTURES.care_invite, "en");
+  assertStringIncludes(invite.html, "AB&lt;12&gt;&amp;&quot;C&#39;");
+  assertStringIncludes(invite.text, `Invite code: AB<12>&"C'`);
+
+  const achievement = renderEmail("achievement", FIXTURES.achievement, "en");
+  assertStringIncludes(achievement.html, "Completed &lt;b&gt;5&lt;/b&gt; calm-zone sessions");
+});
+
+Deno.test("renderEmail leaves out links that are not http(s)", () => {
+  const email = renderEmail("report_shared", { ...FIXTURES.report_shared, url: "javascript:alert(1)" }, "en");
+  assert(!email.html.includes("javascript:"));
+  assert(!email.text.includes("javascript:"));
+});
+
+for (const language of LANGUAGES) {
+  Deno.test(`renderDigest (${language})`, async () => {
+    const email = renderDigest(
+      TEMPLATE_TYPES.map((type) => ({ type, data: FIXTURES[type] })),
+      language,
+      OPTIONS
+    );
+
+    assertEscaped(email.html);
+    assertStringIncludes(email.text, HOSTILE_TITLE);
+
+    await assertMatchesSnapshot(`digest.${language}`, formatEmail(email));
+  });
+}
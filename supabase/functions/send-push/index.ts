@@ -0,0 +1,88 @@
+import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import webpush from "npm:web-push@3.6.7";
+
+// Sends a Web Push message to every device a user has subscribed. Only other functions
+// (with the service role key) may call this; users are reached through send-notification.
+
+const SERVICE_ROLE_KEY = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+
+const supabase = createClient(Deno.env.get("SUPABASE_URL")!, SERVICE_ROLE_KEY);
+
+webpush.setVapidDetails(
+  Deno.env.get("VAPID_SUBJECT") ?? "mailto:support@auticare.in",
+  Deno.env.get("VAPID_PUBLIC_KEY")!,
+  Deno.env.get("VAPID_PRIVATE_KEY")!,
+);
+
+interface PushRequest {
+  userId: string;
+  title: string;
+  body: string;
+  url?: string;
+  tag?: string;
+}
+
+const handler = async (req: Request): Promise<Response> => {
+  if (req.headers.get('Authorization') !== `Bearer ${SERVICE_ROLE_KEY}`) {
+    return new Response(JSON.stringify({ error: 'Unauthorized' }), {
+      status: 401,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+
+  try {
+    const { userId, title, body, url, tag }: PushRequest = await req.json();
+
+    const { data: subscriptions, error } = await supabase
+      .from('push_subscriptions')
+      .select('id, endpoint, p256dh, auth')
+      .eq('user_id', userId);
+    if (error) throw error;
+
+    const payload = JSON.stringify({ title, body, url, tag });
+    let sent = 0;
+    let removed = 0;
+
+    for (const subscription of subscriptions ?? []) {
+      try {
+        await webpush.sendNotification(
+          { endpoint: subscription.endpoint, keys: { p256dh: subscription.p256dh, auth: subscription.auth } },
+          payload,
+        );
+        sent++;
+        await supabase
+          .from('push_subscriptions')
+          .update({ last_used_at: new Date().toISOString() })
+          .eq('id', subscription.id);
+      } catch (pushError) {
+        // 404/410 mean the browser has dropped the subscription for good
+        const statusCode = (pushError as { statusCode?: number }).statusCode;
+        if (statusCode === 404 || statusCode === 410) {
+          removed++;
+          await supabase.from('push_subscriptions').delete().eq('id', subscription.id);
+        } else {
+          console.error(`Push to ${subscription.endpoint} failed:`, pushError);
+        }
+      }
+    }
+
+    console.log(`Push sent to ${sent}/${subscriptions?.length ?? 0} devices for user ${userId}`);
+
+    return new Response(JSON.stringify({ sent, removed }), {
+      status: 200,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  } catch (error) {
+    console.error('Error in send-push function:', error);
+    return new Response(
+      JSON.stringify({ error: (error as Error).message }),
+      {
+        status: 500,
+        headers: { 'Content-Type': 'application/json' },
+      }
+    );
+  }
+};
+
+serve(handler);
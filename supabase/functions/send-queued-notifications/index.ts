@@ -0,0 +1,102 @@
+import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { OutboxEmail, deliverOutboxEmail } from "../_shared/email.ts";
+import type { TemplateData, TemplateType } from "../send-notification/templates.ts";
+
+// Invoked every five minutes by pg_cron. Sends notifications send-notification held back for quiet hours,
+// rolls each user's due digest items into a single email, and retries outbox emails whose last attempt failed.
+
+const supabase = createClient(
+  Deno.env.get("SUPABASE_URL")!,
+  Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!,
+);
+
+interface QueuedNotification {
+  id: string;
+  user_id: string;
+  notification_type: TemplateType;
+  channel: 'email' | 'push';
+  payload: TemplateData;
+  digest: boolean;
+}
+
+const send = (body: Record<string, unknown>) => supabase.functions.invoke('send-notification', { body });
+
+const handler = async (req: Request): Promise<Response> => {
+  const secret = Deno.env.get("REMINDER_CRON_SECRET");
+  if (!secret || req.headers.get('x-cron-secret') !== secret) {
+    return new Response(JSON.stringify({ error: 'Unauthorized' }), {
+      status: 401,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+
+  try {
+    const { data, error } = await supabase.rpc('claim_queued_notifications', { _limit: 200 });
+    if (error) throw error;
+
+    const queued = (data ?? []) as QueuedNotification[];
+    const digests = new Map<string, QueuedNotification[]>();
+    let failed = 0;
+
+    for (const item of queued) {
+      if (item.digest) {
+        digests.set(item.user_id, [...(digests.get(item.user_id) ?? []), item]);
+        continue;
+      }
+      const { error: sendError } = await send({
+        userId: item.user_id,
+        type: item.notification_type,
+        data: item.payload,
+        deferred: { channel: item.channel },
+      });
+      if (sendError) {
+        failed++;
+        console.error(`Failed to send queued notification ${item.id}:`, sendError);
+      }
+    }
+
+    for (const [userId, items] of digests) {
+      const { error: sendError } = await send({
+        userId,
+        type: items[0].notification_type,
+        data: items[0].payload,
+        deferred: {
+          channel: 'email',
+          digest: items.map((item) => ({ type: item.notification_type, data: item.payload })),
+        },
+      });
+      if (sendError) {
+        failed++;
+        console.error(`Failed to send digest for user ${userId}:`, sendError);
+      }
+    }
+
+    const { data: outbox, error: outboxError } = await supabase.rpc('claim_email_outbox', { _limit: 100 });
+    if (outboxError) throw outboxError;
+
+    const retries = { sent: 0, retrying: 0, failed: 0 };
+    for (const email of (outbox ?? []) as OutboxEmail[]) {
+      retries[await deliverOutboxEmail(supabase, email)]++;
+    }
+
+    console.log(`Sent ${queued.length} queued notifications (${digests.size} digests, ${failed} failures)`);
+    console.log(`Retried ${outbox?.length ?? 0} outbox emails (${retries.sent} sent, ${retries.failed} given up)`);
+
+    return new Response(JSON.stringify({ claimed: queued.length, digests: digests.size, failed, retries }), {
+      status: 200,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  } catch (error) {
+    console.error('Error in send-queued-notifications function:', error);
+    return new Response(
+      JSON.stringify({ error: (error as Error).message }),
+      {
+        status: 500,
+        headers: { 'Content-Type': 'application/json' },
+      }
+    );
+  }
+};
+
+serve(handler);
@@ -0,0 +1,279 @@
+// Draws the 1200×630 Open Graph card for a share link as a PNG. Everything is rasterised here —
+// rectangles, circles, 8×8 pixel-art badge icons and a 5×7 pixel font — and encoded with the
+// runtime's own deflate, so no image service or font file is needed.
+
+export const WIDTH = 1200;
+export const HEIGHT = 630;
+
+type Color = [number, number, number];
+
+const INDIGO: Color = [79, 70, 229];
+const INDIGO_LIGHT: Color = [224, 231, 255];
+const WHITE: Color = [255, 255, 255];
+const INK: Color = [31, 41, 55];
+const MUTED: Color = [107, 114, 128];
+const TREND_COLORS: Record<Trend, Color> = {
+  improving: [22, 163, 74],
+  declining: [217, 119, 6],
+  stable: MUTED,
+};
+
+export type Trend = 'improving' | 'declining' | 'stable';
+
+export type PreviewCard =
+  | { kind: 'achievement'; title: string; badgeTypes: string[] }
+  | { kind: 'progress'; title: string; trend: Trend; scores: number[] }
+  | { kind: 'message'; title: string; subtitle: string };
+
+// 5×7 glyphs, one string per row. Text is drawn upper-case; characters without a glyph become '?'.
+const FONT: Record<string, string[]> = {
+  A: ['01110', '10001', '10001', '11111', '10001', '10001', '10001'],
+  B: ['11110', '10001', '10001', '11110', '10001', '10001', '11110'],
+  C: ['01110', '10001', '10000', '10000', '10000', '10001', '01110'],
+  D: ['11110', '10001', '10001', '10001', '10001', '10001', '11110'],
+  E: ['11111', '10000', '10000', '11110', '10000', '10000', '11111'],
+  F: ['11111', '10000', '10000', '11110', '10000', '10000', '10000'],
+  G: ['01110', '10001', '10000', '10111', '10001', '10001', '01111'],
+  H: ['10001', '10001', '10001', '11111', '10001', '10001', '10001'],
+  I: ['01110', '00100', '00100', '00100', '00100', '00100', '01110'],
+  J: ['00111', '00010', '00010', '00010', '00010', '10010', '01100'],
+  K: ['10001', '10010', '10100', '11000', '10100', '10010', '10001'],
+  L: ['10000', '10000', '10000', '10000', '10000', '10000', '11111'],
+  M: ['10001', '11011', '10101', '10101', '10001', '10001', '10001'],
+  N: ['10001', '10001', '11001', '10101', '10011', '10001', '10001'],
+  O: ['01110', '10001', '10001', '10001', '10001', '10001', '01110'],
+  P: ['11110', '10001', '10001', '11110', '10000', '10000', '10000'],
+  Q: ['01110', '10001', '10001', '10001', '10101', '10010', '01101'],
+  R: ['11110', '10001', '10001', '11110', '10100', '10010', '10001'],
+  S: ['01111', '10000', '10000', '01110', '00001', '00001', '11110'],
+  T: ['11111', '00100', '00100', '00100', '00100', '00100', '00100'],
+  U: ['10001', '10001', '10001', '10001', '10001', '10001', '01110'],
+  V: ['10001', '10001', '10001', '10001', '10001', '01010', '00100'],
+  W: ['10001', '10001', '10001', '10101', '10101', '10101', '01010'],
+  X: ['10001', '10001', '01010', '00100', '01010', '10001', '10001'],
+  Y: ['10001', '10001', '01010', '00100', '00100', '00100', '00100'],
+  Z: ['11111', '00001', '00010', '00100', '01000', '10000', '11111'],
+  '0': ['01110', '10001', '10011', '10101', '11001', '10001', '01110'],
+  '1': ['00100', '01100', '00100', '00100', '00100', '00100', '01110'],
+  '2': ['01110', '10001', '00001', '00010', '00100', '01000', '11111'],
+  '3': ['11111', '00010', '00100', '00010', '00001', '10001', '01110'],
+  '4': ['00010', '00110', '01010', '10010', '11111', '00010', '00010'],
+  '5': ['11111', '10000', '11110', '00001', '00001', '10001', '01110'],
+  '6': ['00110', '01000', '10000', '11110', '10001', '10001', '01110'],
+  '7': ['11111', '00001', '00010', '00100', '01000', '01000', '01000'],
+  '8': ['01110', '10001', '10001', '01110', '10001', '10001', '01110'],
+  '9': ['01110', '10001', '10001', '01111', '00001', '00010', '01100'],
+  ' ': ['00000', '00000', '00000', '00000', '00000', '00000', '00000'],
+  '-': ['00000', '00000', '00000', '11111', '00000', '00000', '00000'],
+  '.': ['00000', '00000', '00000', '00000', '00000', '01100', '01100'],
+  ',': ['00000', '00000', '00000', '00000', '01100', '00100', '01000'],
+  '!': ['00100', '00100', '00100', '00100', '00100', '00000', '00100'],
+  '?': ['01110', '10001', '00001', '00010', '00100', '00000', '00100'],
+  "'": ['01100', '00100', '01000', '00000', '00000', '00000', '00000'],
+  ':': ['00000', '01100', '01100', '00000', '01100', '01100', '00000'],
+  '/': ['00000', '00001', '00010', '00100', '01000', '10000', '00000'],
+  '&': ['01100', '10010', '10100', '01000', '10101', '10010', '01101'],
+  '(': ['00010', '00100', '01000', '01000', '01000', '00100', '00010'],
+  ')': ['01000', '00100', '00010', '00010', '00010', '00100', '01000'],
+  '%': ['11000', '11001', '00010', '00100', '01000', '10011', '00011'],
+  '+': ['00000', '00100', '00100', '11111', '00100', '00100', '00000'],
+};
+
+// Pixel-art stand-ins for the emoji on each badge in useRewards' BADGE_DEFINITIONS
+const BADGE_ICONS: Record<string, string[]> = {
+  first_assessment: ['00011000', '00011000', '11111111', '01111110', '00111100', '01111110', '01100110', '11000011'],
+  five_assessments: ['11111111', '11111111', '01111110', '00111100', '00011000', '00011000', '00111100', '01111110'],
+  calm_zone_visit: ['00011000', '00011000', '00000000', '00111100', '01011010', '10011001', '00111100', '11111111'],
+  three_tasks: ['00000001', '00000011', '00000110', '10001100', '11011000', '01110000', '00100000', '00000000'],
+  game_player: ['00000000', '01111110', '11011111', '10001011', '11011101', '11111111', '11100111', '01000010'],
+  progress_tracker: ['10000000', '10000011', '10000110', '10001100', '10011000', '10110000', '10000000', '11111111'],
+};
+
+class Canvas {
+  readonly pixels = new Uint8Array(WIDTH * HEIGHT * 3);
+
+  fillRect(x: number, y: number, w: number, h: number, color: Color) {
+    const x0 = Math.max(0, Math.round(x));
+    const y0 = Math.max(0, Math.round(y));
+    const x1 = Math.min(WIDTH, Math.round(x + w));
+    const y1 = Math.min(HEIGHT, Math.round(y + h));
+    for (let py = y0; py < y1; py++) {
+      for (let px = x0; px < x1; px++) {
+        this.pixels.set(color, (py * WIDTH + px) * 3);
+      }
+    }
+  }
+
+  fillCircle(cx: number, cy: number, r: number, color: Color) {
+    for (let dy = -r; dy <= r; dy++) {
+      const half = Math.floor(Math.sqrt(r * r - dy * dy));
+      this.fillRect(cx - half, cy + dy, half * 2 + 1, 1, color);
+    }
+  }
+
+  fillRoundedRect(x: number, y: number, w: number, h: number, r: number, color: Color) {
+    this.fillRect(x + r, y, w - 2 * r, h, color);
+    this.fillRect(x, y + r, w, h - 2 * r, color);
+    for (const [cx, cy] of [[x + r, y + r], [x + w - r - 1, y + r], [x + r, y + h - r - 1], [x + w - r - 1, y + h - r - 1]]) {
+      this.fillCircle(cx, cy, r, color);
+    }
+  }
+
+  bitmap(rows: string[], x: number, y: number, scale: number, color: Color) {
+    rows.forEach((row, ry) => {
+      for (let rx = 0; rx < row.length; rx++) {
+        if (row[rx] === '1') this.fillRect(x + rx * scale, y + ry * scale, scale, scale, color);
+      }
+    });
+  }
+
+  // Returns the width drawn, so callers can centre or follow on
+  text(value: string, x: number, y: number, scale: number, color: Color): number {
+    const chars = [...value.toUpperCase()];
+    chars.forEach((ch, i) => this.bitmap(FONT[ch] ?? FONT['?'], x + i * 6 * scale, y, scale, color));
+    return textWidth(value, scale);
+  }
+}
+
+const textWidth = (value: string, scale: number) => Math.max(0, [...value].length * 6 - 1) * scale;
+
+// Greedy word wrap by character count; the last line is cut with '...' if the text does not fit
+function wrap(value: string, maxChars: number, maxLines: number): string[] {
+  const lines: string[] = [];
+  let line = '';
+  for (const word of value.trim().split(/\s+/)) {
+    const next = line ? `${line} ${word}` : word;
+    if (next.length <= maxChars) {
+      line = next;
+      continue;
+    }
+    if (line) lines.push(line);
+    line = word.slice(0, maxChars);
+  }
+  if (line) lines.push(line);
+
+  if (lines.length <= maxLines) return lines;
+  const kept = lines.slice(0, maxLines);
+  kept[maxLines - 1] = `${kept[maxLines - 1].slice(0, maxChars - 3)}...`;
+  return kept;
+}
+
+function drawTitle(canvas: Canvas, title: string, y: number, scale: number, maxLines: number) {
+  const maxChars = Math.floor((WIDTH - 240) / (6 * scale));
+  wrap(title, maxChars, maxLines).forEach((line, i) => {
+    canvas.text(line, (WIDTH - textWidth(line, scale)) / 2, y + i * 10 * scale, scale, INK);
+  });
+}
+
+function drawAchievement(canvas: Canvas, card: Extract<PreviewCard, { kind: 'achievement' }>) {
+  const icons = card.badgeTypes.slice(0, 5);
+  const spacing = 200;
+  const startX = WIDTH / 2 - ((icons.length - 1) * spacing) / 2;
+  icons.forEach((type, i) => {
+    const cx = Math.round(startX + i * spacing);
+    canvas.fillCircle(cx, 270, 80, INDIGO_LIGHT);
+    canvas.bitmap(BADGE_ICONS[type] ?? BADGE_ICONS.first_assessment, cx - 48, 222, 12, INDIGO);
+  });
+  drawTitle(canvas, card.title, 400, 7, 2);
+}
+
+function drawProgress(canvas: Canvas, card: Extract<PreviewCard, { kind: 'progress' }>) {
+  drawTitle(canvas, card.title, 170, 6, 2);
+
+  // One bar per recent score on a 0-100 scale
+  const scores = card.scores.slice(-10);
+  const chartX = 200;
+  const chartW = WIDTH - 400;
+  const chartBottom = 480;
+  const chartH = 160;
+  const barW = scores.length ? Math.min(80, chartW / scores.length - 20) : 0;
+  scores.forEach((score, i) => {
+    const h = Math.max(6, (Math.max(0, Math.min(100, score)) / 100) * chartH);
+    const x = chartX + (chartW / scores.length) * i + (chartW / scores.length - barW) / 2;
+    canvas.fillRect(x, chartBottom - h, barW, h, INDIGO);
+  });
+  canvas.fillRect(chartX, chartBottom, chartW, 4, MUTED);
+
+  const label = `Trend: ${card.trend === 'stable' ? 'steady' : card.trend}`;
+  canvas.text(label, (WIDTH - textWidth(label, 5)) / 2, 505, 5, TREND_COLORS[card.trend]);
+}
+
+function drawMessage(canvas: Canvas, card: Extract<PreviewCard, { kind: 'message' }>) {
+  drawTitle(canvas, card.title, 250, 8, 2);
+  wrap(card.subtitle, 40, 2).forEach((line, i) => {
+    canvas.text(line, (WIDTH - textWidth(line, 4)) / 2, 420 + i * 44, 4, MUTED);
+  });
+}
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+function crc32(bytes: Uint8Array): number {
+  let c = 0xffffffff;
+  for (const b of bytes) c = CRC_TABLE[(c ^ b) & 0xff] ^ (c >>> 8);
+  return (c ^ 0xffffffff) >>> 0;
+}
+
+function chunk(type: string, data: Uint8Array): Uint8Array {
+  const out = new Uint8Array(12 + data.length);
+  const view = new DataView(out.buffer);
+  view.setUint32(0, data.length);
+  out.set(new TextEncoder().encode(type), 4);
+  out.set(data, 8);
+  view.setUint32(8 + data.length, crc32(out.subarray(4, 8 + data.length)));
+  return out;
+}
+
+// 'deflate' in CompressionStream is the zlib format PNG's IDAT expects
+async function zlib(data: Uint8Array): Promise<Uint8Array> {
+  const stream = new Blob([data]).stream().pipeThrough(new CompressionStream('deflate'));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+async function encodePng(pixels: Uint8Array): Promise<Uint8Array> {
+  // Each scanline starts with filter type 0 (none)
+  const raw = new Uint8Array(HEIGHT * (WIDTH * 3 + 1));
+  for (let y = 0; y < HEIGHT; y++) {
+    raw.set(pixels.subarray(y * WIDTH * 3, (y + 1) * WIDTH * 3), y * (WIDTH * 3 + 1) + 1);
+  }
+
+  const header = new Uint8Array(13);
+  const view = new DataView(header.buffer);
+  view.setUint32(0, WIDTH);
+  view.setUint32(4, HEIGHT);
+  header.set([8, 2, 0, 0, 0], 8); // 8-bit RGB, no interlace
+
+  const parts = [
+    new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]),
+    chunk('IHDR', header),
+    chunk('IDAT', await zlib(raw)),
+    chunk('IEND', new Uint8Array()),
+  ];
+  const png = new Uint8Array(parts.reduce((n, p) => n + p.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    png.set(part, offset);
+    offset += part.length;
+  }
+  return png;
+}
+
+export async function renderPreviewImage(card: PreviewCard): Promise<Uint8Array> {
+  const canvas = new Canvas();
+  canvas.fillRect(0, 0, WIDTH, HEIGHT, INDIGO);
+  canvas.fillRoundedRect(60, 60, WIDTH - 120, HEIGHT - 120, 32, WHITE);
+  canvas.text('AutiCare', 110, 100, 4, INDIGO);
+
+  if (card.kind === 'achievement') drawAchievement(canvas, card);
+  else if (card.kind === 'progress') drawProgress(canvas, card);
+  else drawMessage(canvas, card);
+
+  return encodePng(canvas.pixels);
+}
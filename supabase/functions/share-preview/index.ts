@@ -0,0 +1,158 @@
+import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { HEIGHT, PreviewCard, Trend, WIDTH, renderPreviewImage } from "./image.ts";
+
+// Link previews for share links. Social apps don't run the single-page app, so the copied link
+// points here: `?token=` answers with an HTML page of Open Graph tags that sends browsers on to
+// /share/:token, and `&format=png` answers with the preview image itself.
+// Lookups use the table directly, so crawler fetches never count as views in share_access_log.
+
+const supabase = createClient(
+  Deno.env.get("SUPABASE_URL")!,
+  Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!,
+);
+
+const APP_URL = (Deno.env.get("APP_URL") ?? "http://localhost:5173").replace(/\/$/, "");
+
+// Supabase serves text/html from the default *.supabase.co functions domain as text/plain, so the preview
+// page only works behind a custom domain. SHARE_PREVIEW_URL is this function's address on that domain
+// (the app's VITE_SHARE_PREVIEW_URL must match). Without it, page requests go straight on to the app;
+// the PNG is not affected.
+const PUBLIC_URL = Deno.env.get("SHARE_PREVIEW_URL")?.replace(/\/$/, "") || null;
+const FUNCTION_URL = PUBLIC_URL ?? `${Deno.env.get("SUPABASE_URL")}/functions/v1/share-preview`;
+
+// Previews can be cached briefly; revoking a link should not take long to show
+const CACHE_CONTROL = "public, max-age=300";
+
+interface Preview {
+  title: string;
+  description: string;
+  card: PreviewCard;
+}
+
+const escapeHtml = (value: string) =>
+  value.replace(/[&<>"']/g, (ch) => ({ "&": "&amp;", "<": "&lt;", ">": "&gt;", '"': "&quot;", "'": "&#39;" }[ch]!));
+
+const unavailable = (title: string, subtitle: string): Preview => ({
+  title,
+  description: subtitle,
+  card: { kind: "message", title, subtitle },
+});
+
+async function loadPreview(token: string): Promise<Preview> {
+  const { data: share, error } = await supabase
+    .from("shared_achievements")
+    .select("kind, title, content, is_public, expires_at, revoked_at")
+    .eq("share_token", token)
+    .maybeSingle();
+  if (error) throw error;
+
+  if (!share || share.revoked_at || !share.is_public) {
+    return unavailable("Link not available", "This share link is no longer available");
+  }
+  if (share.expires_at && new Date(share.expires_at) <= new Date()) {
+    return unavailable("Link expired", "This share link has expired");
+  }
+
+  // Report titles name the child, so report previews stay generic
+  if (share.kind === "report") {
+    return unavailable("Screening report", "A report has been shared with you on AutiCare");
+  }
+
+  if (share.kind === "progress") {
+    const content = share.content as { entries?: Array<{ score: number }>; trend?: Trend };
+    const trend = content.trend ?? "stable";
+    return {
+      title: share.title,
+      description: `Progress shared from AutiCare · trend: ${trend === "stable" ? "steady" : trend}`,
+      card: {
+        kind: "progress",
+        title: share.title,
+        trend,
+        scores: (content.entries ?? []).map((e) => e.score).filter((s) => Number.isFinite(s)),
+      },
+    };
+  }
+
+  const badges = (share.content as { badges?: Array<{ type: string; name: string }> }).badges ?? [];
+  return {
+    title: share.title,
+    description: badges.length ? `Badges earned on AutiCare: ${badges.map((b) => b.name).join(", ")}` : "Shared from AutiCare",
+    card: { kind: "achievement", title: share.title, badgeTypes: badges.map((b) => b.type) },
+  };
+}
+
+const appShareUrl = (token: string) => `${APP_URL}/share/${encodeURIComponent(token)}`;
+
+function previewPage(token: string, preview: Preview): string {
+  const appUrl = appShareUrl(token);
+  const imageUrl = `${FUNCTION_URL}?token=${encodeURIComponent(token)}&format=png`;
+  const title = escapeHtml(preview.title);
+  const description = escapeHtml(preview.description);
+
+  return `<!doctype html>
+<html>
+  <head>
+    <meta charset="utf-8" />
+    <meta name="viewport" content="width=device-width, initial-scale=1" />
+    <meta name="robots" content="noindex" />
+    <title>${title} · AutiCare</title>
+    <meta name="description" content="${description}" />
+    <meta property="og:type" content="website" />
+    <meta property="og:site_name" content="AutiCare" />
+    <meta property="og:title" content="${title}" />
+    <meta property="og:description" content="${description}" />
+    <meta property="og:url" content="${escapeHtml(appUrl)}" />
+    <meta property="og:image" content="${escapeHtml(imageUrl)}" />
+    <meta property="og:image:type" content="image/png" />
+    <meta property="og:image:width" content="${WIDTH}" />
+    <meta property="og:image:height" content="${HEIGHT}" />
+    <meta name="twitter:card" content="summary_large_image" />
+    <meta name="twitter:title" content="${title}" />
+    <meta name="twitter:description" content="${description}" />
+    <meta name="twitter:image" content="${escapeHtml(imageUrl)}" />
+    <meta http-equiv="refresh" content="0; url=${escapeHtml(appUrl)}" />
+  </head>
+  <body style="font-family: Arial, sans-serif; max-width: 480px; margin: 60px auto; text-align: center; color: #1F2937;">
+    <p><a href="${escapeHtml(appUrl)}">Open ${title} on AutiCare</a></p>
+  </body>
+</html>`;
+}
+
+const handler = async (req: Request): Promise<Response> => {
+  const params = new URL(req.url).searchParams;
+  const token = params.get("token");
+  const wantsImage = params.get("format") === "png";
+
+  if (!token) {
+    return new Response("Missing token", { status: 400, headers: { "Content-Type": "text/plain" } });
+  }
+  if (!wantsImage && !PUBLIC_URL) {
+    return new Response(null, { status: 302, headers: { Location: appShareUrl(token) } });
+  }
+
+  try {
+    const preview = await loadPreview(token);
+
+    if (wantsImage) {
+      return new Response(await renderPreviewImage(preview.card), {
+        headers: { "Content-Type": "image/png", "Cache-Control": CACHE_CONTROL },
+      });
+    }
+
+    return new Response(previewPage(token, preview), {
+      headers: { "Content-Type": "text/html; charset=utf-8", "Cache-Control": CACHE_CONTROL },
+    });
+  } catch (error) {
+    console.error("Error in share-preview function:", error);
+    if (wantsImage) {
+      return new Response("Preview unavailable", { status: 500, headers: { "Content-Type": "text/plain" } });
+    }
+    return new Response(previewPage(token, unavailable("AutiCare", "Something went wrong")), {
+      status: 500,
+      headers: { "Content-Type": "text/html; charset=utf-8" },
+    });
+  }
+};
+
+serve(handler);
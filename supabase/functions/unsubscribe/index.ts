@@ -0,0 +1,82 @@
+import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { corsHeaders } from "../_shared/cors.ts";
+import { TEMPLATE_TYPES, TemplateType, isTemplateType } from "../send-notification/templates.ts";
+
+// Unsubscribe from notification emails. The token identifies the user, so no sign-in is needed.
+// Only POST changes anything: RFC 8058 one-click POSTs from mail clients (token in the query string)
+// and the confirm button on the app's /unsubscribe page (token in a JSON body). A GET, which mail
+// scanners and link prefetchers also send, is redirected to that page and changes nothing.
+
+const supabase = createClient(
+  Deno.env.get("SUPABASE_URL")!,
+  Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!,
+);
+
+const APP_URL = (Deno.env.get("APP_URL") ?? "http://localhost:5173").replace(/\/$/, "");
+
+async function readRequest(req: Request): Promise<{ token: string | null; type: string | null }> {
+  const params = new URL(req.url).searchParams;
+  if (!(req.headers.get('Content-Type') ?? '').includes('application/json')) {
+    return { token: params.get('token'), type: params.get('type') };
+  }
+
+  const body = await req.json().catch(() => ({}));
+  return {
+    token: typeof body.token === 'string' ? body.token : null,
+    type: typeof body.type === 'string' ? body.type : null,
+  };
+}
+
+const handler = async (req: Request): Promise<Response> => {
+  const cors = corsHeaders(req);
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: cors });
+  }
+
+  const json = (body: unknown, status = 200) =>
+    new Response(JSON.stringify(body), { status, headers: { ...cors, 'Content-Type': 'application/json' } });
+
+  if (req.method === 'GET') {
+    return new Response(null, {
+      status: 303,
+      headers: { Location: `${APP_URL}/unsubscribe${new URL(req.url).search}` },
+    });
+  }
+  if (req.method !== 'POST') {
+    return json({ error: 'Method not allowed' }, 405);
+  }
+
+  const { token, type } = await readRequest(req);
+  if (!token || (type && !isTemplateType(type))) {
+    return json({ error: 'This unsubscribe link is not valid' }, 400);
+  }
+
+  try {
+    const { data: preferences, error } = await supabase
+      .from('notification_preferences')
+      .select('id, channels')
+      .eq('unsubscribe_token', token)
+      .maybeSingle();
+    if (error) throw error;
+    if (!preferences) return json({ error: 'This unsubscribe link is not valid' }, 404);
+
+    const channels = preferences.channels as Record<TemplateType, Record<string, boolean>>;
+    for (const t of type ? [type as TemplateType] : TEMPLATE_TYPES) {
+      channels[t] = { ...channels[t], email: false };
+    }
+
+    const { error: updateError } = await supabase
+      .from('notification_preferences')
+      .update({ channels, ...(type ? {} : { digest_enabled: false }) })
+      .eq('id', preferences.id);
+    if (updateError) throw updateError;
+
+    return json({ unsubscribed: type ?? 'all' });
+  } catch (error) {
+    console.error('Error in unsubscribe function:', error);
+    return json({ error: 'Something went wrong. Please try again later.' }, 500);
+  }
+};
+
+serve(handler);
@@ -0,0 +1,45 @@
+-- Create assessments table to persist completed questionnaires
+CREATE TABLE public.assessments (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  role TEXT NOT NULL CHECK (role IN ('individual', 'parent', 'clinician')),
+  answers JSONB NOT NULL DEFAULT '[]'::jsonb,
+  question_bank_version TEXT NOT NULL,
+  metadata JSONB,
+  video_url TEXT,
+  video_prediction JSONB,
+  result JSONB NOT NULL,
+  normalized_score INTEGER NOT NULL,
+  fused_score INTEGER,
+  severity TEXT NOT NULL CHECK (severity IN ('low', 'mild', 'moderate', 'high')),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Enable RLS
+ALTER TABLE public.assessments ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies
+CREATE POLICY "Users can view their own assessments"
+  ON public.assessments FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert their own assessments"
+  ON public.assessments FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own assessments"
+  ON public.assessments FOR UPDATE
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own assessments"
+  ON public.assessments FOR DELETE
+  USING (auth.uid() = user_id);
+
+-- Latest-assessment lookups on login
+CREATE INDEX idx_assessments_user_created ON public.assessments(user_id, created_at DESC);
+
+CREATE TRIGGER update_assessments_updated_at
+  BEFORE UPDATE ON public.assessments
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
@@ -0,0 +1,16 @@
+-- Private storage bucket for clinician report and score-sheet attachments
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('clinician-attachments', 'clinician-attachments', false);
+
+-- RLS Policies for clinician attachments (files live under the uploader's user id folder)
+CREATE POLICY "Clinicians can upload their own attachments"
+  ON storage.objects FOR INSERT
+  WITH CHECK (bucket_id = 'clinician-attachments' AND auth.uid()::text = (storage.foldername(name))[1]);
+
+CREATE POLICY "Clinicians can view their own attachments"
+  ON storage.objects FOR SELECT
+  USING (bucket_id = 'clinician-attachments' AND auth.uid()::text = (storage.foldername(name))[1]);
+
+CREATE POLICY "Clinicians can delete their own attachments"
+  ON storage.objects FOR DELETE
+  USING (bucket_id = 'clinician-attachments' AND auth.uid()::text = (storage.foldername(name))[1]);
@@ -0,0 +1,155 @@
+-- Mood check-ins, so they can be reviewed over time and shared with a care team
+CREATE TABLE public.mood_logs (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  mood TEXT NOT NULL CHECK (mood IN ('good', 'okay', 'tough')),
+  note TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.mood_logs ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own mood logs"
+  ON public.mood_logs FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert their own mood logs"
+  ON public.mood_logs FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own mood logs"
+  ON public.mood_logs FOR UPDATE
+  USING (auth.uid() = user_id);
+
+CREATE INDEX idx_mood_logs_user_created ON public.mood_logs(user_id, created_at DESC);
+
+-- Care links: a family (parent or individual) invites a clinician with a one-time code
+CREATE TABLE public.care_links (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  patient_user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  clinician_user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE,
+  invite_code TEXT NOT NULL UNIQUE DEFAULT upper(encode(gen_random_bytes(4), 'hex')),
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'active', 'revoked')),
+  invite_expires_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now() + interval '7 days',
+  accepted_at TIMESTAMP WITH TIME ZONE,
+  revoked_at TIMESTAMP WITH TIME ZONE,
+  revoked_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.care_links ENABLE ROW LEVEL SECURITY;
+
+-- Both sides can see their links; redemption and revocation go through the functions below
+CREATE POLICY "Patients can view their care links"
+  ON public.care_links FOR SELECT
+  USING (auth.uid() = patient_user_id);
+
+CREATE POLICY "Clinicians can view their care links"
+  ON public.care_links FOR SELECT
+  USING (auth.uid() = clinician_user_id);
+
+CREATE POLICY "Patients can create pending invites"
+  ON public.care_links FOR INSERT
+  WITH CHECK (auth.uid() = patient_user_id AND clinician_user_id IS NULL AND status = 'pending');
+
+CREATE INDEX idx_care_links_patient ON public.care_links(patient_user_id);
+CREATE INDEX idx_care_links_clinician ON public.care_links(clinician_user_id);
+
+-- True when the caller is a clinician with an active link to the given patient
+CREATE OR REPLACE FUNCTION public.has_care_access(patient UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.care_links
+    WHERE patient_user_id = patient
+      AND clinician_user_id = auth.uid()
+      AND status = 'active'
+  );
+$$;
+
+-- True when the given user is a clinician actively linked to the caller
+CREATE OR REPLACE FUNCTION public.is_linked_clinician(clinician UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.care_links
+    WHERE clinician_user_id = clinician
+      AND patient_user_id = auth.uid()
+      AND status = 'active'
+  );
+$$;
+
+-- Redeem an invite code as a clinician; returns the activated link id
+CREATE OR REPLACE FUNCTION public.redeem_care_invite(invite_code TEXT)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  link public.care_links%ROWTYPE;
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM public.profiles WHERE user_id = auth.uid() AND role = 'clinician') THEN
+    RAISE EXCEPTION 'Only clinicians can redeem care invites';
+  END IF;
+
+  SELECT * INTO link FROM public.care_links
+  WHERE care_links.invite_code = upper(trim(redeem_care_invite.invite_code))
+  FOR UPDATE;
+
+  IF NOT FOUND OR link.status <> 'pending' OR link.invite_expires_at < now() THEN
+    RAISE EXCEPTION 'Invite code is invalid or has expired';
+  END IF;
+
+  IF link.patient_user_id = auth.uid() THEN
+    RAISE EXCEPTION 'You cannot redeem your own invite';
+  END IF;
+
+  UPDATE public.care_links
+  SET clinician_user_id = auth.uid(), status = 'active', accepted_at = now()
+  WHERE id = link.id;
+
+  RETURN link.id;
+END;
+$$;
+
+-- Either side of a link can revoke it
+CREATE OR REPLACE FUNCTION public.revoke_care_link(link_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+BEGIN
+  UPDATE public.care_links
+  SET status = 'revoked', revoked_at = now(), revoked_by = auth.uid()
+  WHERE id = link_id
+    AND status <> 'revoked'
+    AND (patient_user_id = auth.uid() OR clinician_user_id = auth.uid());
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Care link not found';
+  END IF;
+END;
+$$;
+
+-- Linked clinicians get read access to the family's data
+CREATE POLICY "Linked clinicians can view patient profiles"
+  ON public.profiles FOR SELECT
+  USING (public.has_care_access(user_id));
+
+CREATE POLICY "Patients can view their linked clinicians' profiles"
+  ON public.profiles FOR SELECT
+  USING (public.is_linked_clinician(user_id));
+
+CREATE POLICY "Linked clinicians can view patient assessments"
+  ON public.assessments FOR SELECT
+  USING (public.has_care_access(user_id));
+
+CREATE POLICY "Linked clinicians can view patient mood logs"
+  ON public.mood_logs FOR SELECT
+  USING (public.has_care_access(user_id));
@@ -0,0 +1,48 @@
+-- Child profiles, so parents with several children keep separate histories
+CREATE TABLE public.children (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  parent_user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  name TEXT NOT NULL,
+  age TEXT,
+  pronouns TEXT,
+  home_language TEXT,
+  school_type TEXT,
+  diagnosed_conditions TEXT[] NOT NULL DEFAULT '{}',
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.children ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Parents can view their own children"
+  ON public.children FOR SELECT
+  USING (auth.uid() = parent_user_id);
+
+CREATE POLICY "Parents can insert their own children"
+  ON public.children FOR INSERT
+  WITH CHECK (auth.uid() = parent_user_id);
+
+CREATE POLICY "Parents can update their own children"
+  ON public.children FOR UPDATE
+  USING (auth.uid() = parent_user_id);
+
+CREATE POLICY "Parents can delete their own children"
+  ON public.children FOR DELETE
+  USING (auth.uid() = parent_user_id);
+
+CREATE POLICY "Linked clinicians can view patient children"
+  ON public.children FOR SELECT
+  USING (public.has_care_access(parent_user_id));
+
+CREATE INDEX idx_children_parent ON public.children(parent_user_id);
+
+CREATE TRIGGER update_children_updated_at
+  BEFORE UPDATE ON public.children
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Scope assessments to a child (null for individual and clinician assessments)
+ALTER TABLE public.assessments
+  ADD COLUMN child_id UUID REFERENCES public.children(id) ON DELETE SET NULL;
+
+CREATE INDEX idx_assessments_child_created ON public.assessments(child_id, created_at DESC);
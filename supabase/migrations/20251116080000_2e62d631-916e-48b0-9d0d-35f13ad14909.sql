@@ -0,0 +1,297 @@
+-- Application roles (kept separate from profiles.role so it can't be self-assigned)
+CREATE TYPE public.app_role AS ENUM ('admin');
+
+CREATE TABLE public.user_roles (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  role public.app_role NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (user_id, role)
+);
+
+ALTER TABLE public.user_roles ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own roles"
+  ON public.user_roles FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE OR REPLACE FUNCTION public.has_role(_user_id UUID, _role public.app_role)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.user_roles
+    WHERE user_id = _user_id AND role = _role
+  );
+$$;
+
+-- Versioned question banks: questions, categories, weights and severity thresholds
+CREATE TABLE public.question_bank_versions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  version TEXT NOT NULL UNIQUE,
+  status TEXT NOT NULL DEFAULT 'draft' CHECK (status IN ('draft', 'published')),
+  definition JSONB NOT NULL,
+  notes TEXT,
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  published_at TIMESTAMP WITH TIME ZONE
+);
+
+ALTER TABLE public.question_bank_versions ENABLE ROW LEVEL SECURITY;
+
+-- Published versions are readable by everyone so old assessments can be re-interpreted
+CREATE POLICY "Anyone can view published question banks"
+  ON public.question_bank_versions FOR SELECT
+  USING (status = 'published');
+
+CREATE POLICY "Admins can view all question banks"
+  ON public.question_bank_versions FOR SELECT
+  USING (public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Admins can create draft question banks"
+  ON public.question_bank_versions FOR INSERT
+  WITH CHECK (public.has_role(auth.uid(), 'admin') AND status = 'draft');
+
+-- Only drafts are editable; once published a version is frozen
+CREATE POLICY "Admins can update draft question banks"
+  ON public.question_bank_versions FOR UPDATE
+  USING (public.has_role(auth.uid(), 'admin') AND status = 'draft')
+  WITH CHECK (public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Admins can delete draft question banks"
+  ON public.question_bank_versions FOR DELETE
+  USING (public.has_role(auth.uid(), 'admin') AND status = 'draft');
+
+CREATE INDEX idx_question_bank_versions_published ON public.question_bank_versions(published_at DESC);
+
+-- Seed the bank currently built into the app
+INSERT INTO public.question_bank_versions (version, status, definition, notes, published_at)
+VALUES (
+  '1.1.0',
+  'published',
+  '{
+  "individual": [
+    {
+      "id": "ind_1",
+      "text": "I find it difficult to make eye contact during conversations",
+      "category": "social-communication"
+    },
+    {
+      "id": "ind_2",
+      "text": "I prefer to stick to familiar routines and get upset when they change",
+      "category": "repetitive-sensory"
+    },
+    {
+      "id": "ind_3",
+      "text": "I have trouble understanding when someone is joking or being sarcastic",
+      "category": "social-communication"
+    },
+    {
+      "id": "ind_4",
+      "text": "Certain sounds, lights, or textures bother me more than they seem to bother others",
+      "category": "repetitive-sensory"
+    },
+    {
+      "id": "ind_5",
+      "text": "I find it hard to start or maintain conversations with others",
+      "category": "social-communication"
+    },
+    {
+      "id": "ind_6",
+      "text": "I have specific interests that I focus on intensely",
+      "category": "repetitive-sensory"
+    },
+    {
+      "id": "ind_7",
+      "text": "I struggle to understand what others are feeling just by looking at their faces",
+      "category": "social-communication"
+    },
+    {
+      "id": "ind_8",
+      "text": "I prefer to do activities alone rather than with others",
+      "category": "social-communication"
+    },
+    {
+      "id": "ind_9",
+      "text": "I engage in repetitive movements like hand-flapping or rocking",
+      "category": "repetitive-sensory"
+    },
+    {
+      "id": "ind_10",
+      "text": "I find it difficult to adapt to new social situations",
+      "category": "social-communication"
+    },
+    {
+      "id": "ind_11",
+      "text": "I have trouble knowing how to join a group conversation",
+      "category": "social-communication"
+    },
+    {
+      "id": "ind_12",
+      "text": "I need things to be organized in a very specific way",
+      "category": "repetitive-sensory"
+    },
+    {
+      "id": "ind_13",
+      "text": "I find it exhausting to be in social situations for long periods",
+      "category": "social-communication"
+    },
+    {
+      "id": "ind_14",
+      "text": "I tend to take things literally and miss implied meanings",
+      "category": "social-communication"
+    },
+    {
+      "id": "ind_15",
+      "text": "I experienced delays in learning to speak or communicate as a child",
+      "category": "developmental"
+    }
+  ],
+  "parent": [
+    {
+      "id": "par_1",
+      "text": "My child avoids making eye contact with others",
+      "category": "social-communication"
+    },
+    {
+      "id": "par_2",
+      "text": "My child becomes very upset when daily routines change",
+      "category": "repetitive-sensory"
+    },
+    {
+      "id": "par_3",
+      "text": "My child has difficulty understanding social cues like body language or tone of voice",
+      "category": "social-communication"
+    },
+    {
+      "id": "par_4",
+      "text": "My child is oversensitive to certain sounds, textures, or lights",
+      "category": "repetitive-sensory"
+    },
+    {
+      "id": "par_5",
+      "text": "My child rarely initiates conversations or interactions with peers",
+      "category": "social-communication"
+    },
+    {
+      "id": "par_6",
+      "text": "My child has intense, focused interests in specific topics or objects",
+      "category": "repetitive-sensory"
+    },
+    {
+      "id": "par_7",
+      "text": "My child struggles to make or keep friends",
+      "category": "social-communication"
+    },
+    {
+      "id": "par_8",
+      "text": "My child engages in repetitive behaviors like hand-flapping, spinning, or lining up toys",
+      "category": "repetitive-sensory"
+    },
+    {
+      "id": "par_9",
+      "text": "My child has difficulty understanding emotions in themselves or others",
+      "category": "social-communication"
+    },
+    {
+      "id": "par_10",
+      "text": "My child prefers to play alone rather than with other children",
+      "category": "social-communication"
+    },
+    {
+      "id": "par_11",
+      "text": "My child has trouble adapting to new environments or situations",
+      "category": "repetitive-sensory"
+    },
+    {
+      "id": "par_12",
+      "text": "My child rarely shares their interests or achievements with others",
+      "category": "social-communication"
+    },
+    {
+      "id": "par_13",
+      "text": "My child insists on sameness and becomes distressed by small changes",
+      "category": "repetitive-sensory"
+    },
+    {
+      "id": "par_14",
+      "text": "My child has difficulty with imaginative or pretend play",
+      "category": "social-communication"
+    },
+    {
+      "id": "par_15",
+      "text": "My child makes unusual or repetitive vocalizations",
+      "category": "repetitive-sensory"
+    },
+    {
+      "id": "par_16",
+      "text": "My child had delays in reaching developmental milestones (speaking, walking, etc.)",
+      "category": "developmental"
+    },
+    {
+      "id": "par_17",
+      "text": "My child has difficulty taking turns or understanding social \"rules\"",
+      "category": "social-communication"
+    },
+    {
+      "id": "par_18",
+      "text": "My child shows little interest in what others are doing or saying",
+      "category": "social-communication"
+    },
+    {
+      "id": "par_19",
+      "text": "My child has unusual reactions to sensory experiences (seeking or avoiding)",
+      "category": "repetitive-sensory"
+    },
+    {
+      "id": "par_20",
+      "text": "There is a family history of autism or related developmental conditions",
+      "category": "family-history"
+    }
+  ],
+  "categoryWeights": {
+    "social-communication": 2.0,
+    "repetitive-sensory": 1.5,
+    "developmental": 2.5,
+    "family-history": 6.0
+  },
+  "clinicianItemWeights": {
+    "clin_social_reciprocity": 3.0,
+    "clin_repetitive_behavior": 2.5,
+    "clin_ados": 4.0,
+    "clin_adi_r": 3.5
+  },
+  "severityThresholds": [
+    {
+      "maxScore": 25,
+      "severity": "low",
+      "label": "Very Low (Normal)"
+    },
+    {
+      "maxScore": 40,
+      "severity": "mild",
+      "label": "Low - Assessment Requested"
+    },
+    {
+      "maxScore": 60,
+      "severity": "moderate",
+      "label": "Moderate - Assessment Required"
+    },
+    {
+      "maxScore": 75,
+      "severity": "high",
+      "label": "High - Assessment Mandatory"
+    },
+    {
+      "maxScore": null,
+      "severity": "high",
+      "label": "Very High - Regular Checkup Needed"
+    }
+  ]
+}
+'::jsonb,
+  'Initial bank: 15 individual and 20 parent questions, clinician observation weights',
+  now()
+);
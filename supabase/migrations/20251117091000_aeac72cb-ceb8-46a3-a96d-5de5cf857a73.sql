@@ -0,0 +1,4 @@
+-- Standard screening instruments (M-CHAT-R/F, AQ-10) are stored alongside AutiCare questionnaires.
+-- NULL means the AutiCare questionnaire; answers then hold the instrument's own option values.
+ALTER TABLE public.assessments
+  ADD COLUMN instrument TEXT CHECK (instrument IN ('mchat-rf', 'aq10'));
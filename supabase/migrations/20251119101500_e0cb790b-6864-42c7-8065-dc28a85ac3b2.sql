@@ -0,0 +1,51 @@
+-- Autosaved in-progress questionnaires, one per user, so an interrupted assessment can be resumed
+CREATE TABLE public.assessment_drafts (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL UNIQUE,
+  role TEXT NOT NULL CHECK (role IN ('individual', 'parent', 'clinician')),
+  state JSONB NOT NULL,
+  expires_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT (now() + interval '7 days'),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.assessment_drafts ENABLE ROW LEVEL SECURITY;
+
+-- Expired drafts are hidden even before they are cleaned up
+CREATE POLICY "Users can view their own unexpired drafts"
+  ON public.assessment_drafts FOR SELECT
+  USING (auth.uid() = user_id AND expires_at > now());
+
+CREATE POLICY "Users can insert their own drafts"
+  ON public.assessment_drafts FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own drafts"
+  ON public.assessment_drafts FOR UPDATE
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own drafts"
+  ON public.assessment_drafts FOR DELETE
+  USING (auth.uid() = user_id);
+
+CREATE TRIGGER update_assessment_drafts_updated_at
+  BEFORE UPDATE ON public.assessment_drafts
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Remove drafts nobody came back to
+CREATE OR REPLACE FUNCTION public.purge_expired_assessment_drafts()
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  removed INTEGER;
+BEGIN
+  DELETE FROM public.assessment_drafts WHERE expires_at <= now();
+  GET DIAGNOSTICS removed = ROW_COUNT;
+  RETURN removed;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.purge_expired_assessment_drafts() FROM PUBLIC, anon, authenticated;
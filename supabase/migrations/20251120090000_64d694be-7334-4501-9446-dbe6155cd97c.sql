@@ -0,0 +1,162 @@
+-- Reminders stored server-side and delivered by the deliver-reminders edge function
+CREATE TABLE public.reminders (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  title TEXT NOT NULL,
+  reminder_type TEXT NOT NULL DEFAULT 'task' CHECK (reminder_type IN ('task', 'assessment', 'appointment')),
+  time_of_day TIME NOT NULL,
+  timezone TEXT NOT NULL DEFAULT 'UTC',
+  enabled BOOLEAN NOT NULL DEFAULT true,
+  next_run_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.reminders ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own reminders"
+  ON public.reminders FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert their own reminders"
+  ON public.reminders FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own reminders"
+  ON public.reminders FOR UPDATE
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own reminders"
+  ON public.reminders FOR DELETE
+  USING (auth.uid() = user_id);
+
+CREATE INDEX idx_reminders_due ON public.reminders(next_run_at) WHERE enabled;
+
+CREATE TRIGGER update_reminders_updated_at
+  BEFORE UPDATE ON public.reminders
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Next time the wall-clock time comes round in the reminder's own timezone (DST-safe)
+CREATE OR REPLACE FUNCTION public.next_reminder_run(_time TIME, _timezone TEXT, _after TIMESTAMP WITH TIME ZONE)
+RETURNS TIMESTAMP WITH TIME ZONE
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT CASE
+    WHEN today > _after THEN today
+    ELSE (((_after AT TIME ZONE _timezone)::date + 1 + _time) AT TIME ZONE _timezone)
+  END
+  FROM (SELECT (((_after AT TIME ZONE _timezone)::date + _time) AT TIME ZONE _timezone) AS today) t;
+$$;
+
+-- Keep next_run_at in step with the schedule so clients only ever write title/time/timezone/enabled
+CREATE OR REPLACE FUNCTION public.schedule_reminder()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  NEW.next_run_at := CASE
+    WHEN NEW.enabled THEN public.next_reminder_run(NEW.time_of_day, NEW.timezone, now())
+    ELSE NULL
+  END;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER schedule_reminder_on_change
+  BEFORE INSERT OR UPDATE OF time_of_day, timezone, enabled ON public.reminders
+  FOR EACH ROW
+  EXECUTE FUNCTION public.schedule_reminder();
+
+-- One row per reminder occurrence; the unique key is what stops double sends
+CREATE TABLE public.reminder_deliveries (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  reminder_id UUID REFERENCES public.reminders(id) ON DELETE CASCADE NOT NULL,
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  scheduled_for TIMESTAMP WITH TIME ZONE NOT NULL,
+  channel TEXT NOT NULL DEFAULT 'email',
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'sent', 'failed')),
+  error TEXT,
+  delivered_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (reminder_id, scheduled_for, channel)
+);
+
+ALTER TABLE public.reminder_deliveries ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own reminder deliveries"
+  ON public.reminder_deliveries FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE INDEX idx_reminder_deliveries_user ON public.reminder_deliveries(user_id, created_at DESC);
+
+-- Atomically claim due reminders: lock them, move next_run_at on, and record a pending delivery.
+-- SKIP LOCKED plus the unique key mean overlapping scheduler runs never deliver the same occurrence twice.
+CREATE OR REPLACE FUNCTION public.claim_due_reminders(_limit INTEGER DEFAULT 100)
+RETURNS TABLE (
+  delivery_id UUID,
+  reminder_id UUID,
+  user_id UUID,
+  title TEXT,
+  reminder_type TEXT,
+  timezone TEXT,
+  scheduled_for TIMESTAMP WITH TIME ZONE
+)
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+#variable_conflict use_column
+BEGIN
+  RETURN QUERY
+  WITH due AS (
+    SELECT r.id, r.user_id, r.title, r.reminder_type, r.time_of_day, r.timezone, r.next_run_at
+    FROM public.reminders r
+    WHERE r.enabled AND r.next_run_at <= now()
+    ORDER BY r.next_run_at
+    LIMIT _limit
+    FOR UPDATE SKIP LOCKED
+  ),
+  advanced AS (
+    -- Skip straight past any occurrences missed while the scheduler was down
+    UPDATE public.reminders r
+    SET next_run_at = public.next_reminder_run(due.time_of_day, due.timezone, GREATEST(due.next_run_at, now()))
+    FROM due
+    WHERE r.id = due.id
+    RETURNING due.id, due.user_id, due.title, due.reminder_type, due.timezone, due.next_run_at
+  ),
+  claimed AS (
+    INSERT INTO public.reminder_deliveries (reminder_id, user_id, scheduled_for)
+    SELECT a.id, a.user_id, a.next_run_at FROM advanced a
+    ON CONFLICT (reminder_id, scheduled_for, channel) DO NOTHING
+    RETURNING reminder_deliveries.id, reminder_deliveries.reminder_id
+  )
+  SELECT c.id, a.id, a.user_id, a.title, a.reminder_type, a.timezone, a.next_run_at
+  FROM claimed c
+  JOIN advanced a ON a.id = c.reminder_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.claim_due_reminders(INTEGER) FROM PUBLIC, anon, authenticated;
+
+-- Run the scheduler every minute. The shared secret lives in Vault as 'reminder_cron_secret'
+-- and must match the REMINDER_CRON_SECRET function secret.
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+CREATE EXTENSION IF NOT EXISTS pg_net;
+
+SELECT cron.schedule(
+  'deliver-reminders',
+  '* * * * *',
+  $$
+  SELECT net.http_post(
+    url := 'https://jdmgwvewvaluchnvlkzd.supabase.co/functions/v1/deliver-reminders',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'x-cron-secret', (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'reminder_cron_secret')
+    ),
+    body := '{}'::jsonb
+  );
+  $$
+);
@@ -0,0 +1,138 @@
+-- Recurrence rules, exception dates and snooze for reminders
+ALTER TABLE public.reminders
+  ADD COLUMN recurrence TEXT NOT NULL DEFAULT 'daily' CHECK (recurrence IN ('once', 'daily', 'weekdays', 'weekly', 'monthly')),
+  ADD COLUMN repeat_interval INTEGER NOT NULL DEFAULT 1 CHECK (repeat_interval >= 1),
+  ADD COLUMN weekdays SMALLINT[] NOT NULL DEFAULT '{}',
+  ADD COLUMN start_date DATE NOT NULL DEFAULT CURRENT_DATE,
+  ADD COLUMN exception_dates DATE[] NOT NULL DEFAULT '{}',
+  ADD COLUMN snoozed_until TIMESTAMP WITH TIME ZONE,
+  ADD CONSTRAINT reminders_weekly_has_weekdays CHECK (recurrence <> 'weekly' OR cardinality(weekdays) > 0);
+
+COMMENT ON COLUMN public.reminders.weekdays IS 'Days for weekly reminders, 0 = Sunday to 6 = Saturday';
+COMMENT ON COLUMN public.reminders.start_date IS 'Date of a one-off reminder; otherwise the first day, which anchors intervals and the day of the month';
+
+-- First occurrence after _after, walking the reminder's local calendar day by day.
+-- Weeks start on Monday, so "every other Thursday" counts whole weeks from start_date's week.
+-- Monthly reminders on the 29th-31st skip months that don't have that day, as RRULE does.
+-- Returns NULL once a one-off reminder has passed.
+DROP FUNCTION public.next_reminder_run(TIME, TEXT, TIMESTAMP WITH TIME ZONE);
+
+CREATE OR REPLACE FUNCTION public.next_reminder_run(_reminder public.reminders, _after TIMESTAMP WITH TIME ZONE)
+RETURNS TIMESTAMP WITH TIME ZONE
+LANGUAGE plpgsql
+STABLE
+SET search_path = public
+AS $$
+DECLARE
+  _day DATE := GREATEST((_after AT TIME ZONE _reminder.timezone)::date, _reminder.start_date);
+  _last DATE := _day + 366 * _reminder.repeat_interval;
+  _matches BOOLEAN;
+  _candidate TIMESTAMP WITH TIME ZONE;
+BEGIN
+  IF _reminder.recurrence = 'once' THEN
+    _last := _reminder.start_date;
+  END IF;
+
+  WHILE _day <= _last LOOP
+    _matches := CASE _reminder.recurrence
+      WHEN 'once' THEN _day = _reminder.start_date
+      WHEN 'daily' THEN (_day - _reminder.start_date) % _reminder.repeat_interval = 0
+      WHEN 'weekdays' THEN EXTRACT(ISODOW FROM _day) BETWEEN 1 AND 5
+      WHEN 'weekly' THEN EXTRACT(DOW FROM _day)::SMALLINT = ANY (_reminder.weekdays)
+        AND ((date_trunc('week', _day)::date - date_trunc('week', _reminder.start_date)::date) / 7)
+          % _reminder.repeat_interval = 0
+      WHEN 'monthly' THEN EXTRACT(DAY FROM _day) = EXTRACT(DAY FROM _reminder.start_date)
+        AND ((EXTRACT(YEAR FROM _day) - EXTRACT(YEAR FROM _reminder.start_date)) * 12
+          + EXTRACT(MONTH FROM _day) - EXTRACT(MONTH FROM _reminder.start_date))::INTEGER
+          % _reminder.repeat_interval = 0
+      ELSE false
+    END;
+
+    IF _matches AND NOT (_day = ANY (_reminder.exception_dates)) THEN
+      _candidate := (_day + _reminder.time_of_day) AT TIME ZONE _reminder.timezone;
+      IF _candidate > _after THEN
+        RETURN _candidate;
+      END IF;
+    END IF;
+
+    _day := _day + 1;
+  END LOOP;
+
+  RETURN NULL;
+END;
+$$;
+
+-- A snooze replaces the next run until it has been delivered
+CREATE OR REPLACE FUNCTION public.schedule_reminder()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT NEW.enabled THEN
+    NEW.next_run_at := NULL;
+  ELSIF NEW.snoozed_until > now() THEN
+    NEW.next_run_at := NEW.snoozed_until;
+  ELSE
+    NEW.snoozed_until := NULL;
+    NEW.next_run_at := public.next_reminder_run(NEW, now());
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER schedule_reminder_on_change ON public.reminders;
+
+CREATE TRIGGER schedule_reminder_on_change
+  BEFORE INSERT OR UPDATE OF time_of_day, timezone, enabled, recurrence, repeat_interval, weekdays, start_date, exception_dates, snoozed_until
+  ON public.reminders
+  FOR EACH ROW
+  EXECUTE FUNCTION public.schedule_reminder();
+
+-- Re-run the schedule for existing reminders now the function has changed
+UPDATE public.reminders SET recurrence = recurrence;
+
+CREATE OR REPLACE FUNCTION public.claim_due_reminders(_limit INTEGER DEFAULT 100)
+RETURNS TABLE (
+  delivery_id UUID,
+  reminder_id UUID,
+  user_id UUID,
+  title TEXT,
+  reminder_type TEXT,
+  timezone TEXT,
+  scheduled_for TIMESTAMP WITH TIME ZONE
+)
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+#variable_conflict use_column
+BEGIN
+  RETURN QUERY
+  WITH due AS (
+    SELECT r.id, r.user_id, r.title, r.reminder_type, r.timezone, r.next_run_at
+    FROM public.reminders r
+    WHERE r.enabled AND r.next_run_at <= now()
+    ORDER BY r.next_run_at
+    LIMIT _limit
+    FOR UPDATE SKIP LOCKED
+  ),
+  advanced AS (
+    -- Clearing the snooze fires schedule_reminder, which moves next_run_at to the first
+    -- occurrence after now(), skipping any missed while the scheduler was down
+    UPDATE public.reminders r
+    SET snoozed_until = NULL
+    FROM due
+    WHERE r.id = due.id
+    RETURNING due.id, due.user_id, due.title, due.reminder_type, due.timezone, due.next_run_at
+  ),
+  claimed AS (
+    INSERT INTO public.reminder_deliveries (reminder_id, user_id, scheduled_for)
+    SELECT a.id, a.user_id, a.next_run_at FROM advanced a
+    ON CONFLICT (reminder_id, scheduled_for, channel) DO NOTHING
+    RETURNING reminder_deliveries.id, reminder_deliveries.reminder_id
+  )
+  SELECT c.id, a.id, a.user_id, a.title, a.reminder_type, a.timezone, a.next_run_at
+  FROM claimed c
+  JOIN advanced a ON a.id = c.reminder_id;
+END;
+$$;
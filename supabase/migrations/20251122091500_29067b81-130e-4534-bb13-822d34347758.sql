@@ -0,0 +1,61 @@
+-- Per-user iCalendar subscription feeds, and de-duplication of reminders imported from .ics files
+CREATE TABLE public.calendar_feeds (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL UNIQUE,
+  token TEXT NOT NULL UNIQUE DEFAULT encode(gen_random_bytes(24), 'hex'),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.calendar_feeds ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own calendar feed"
+  ON public.calendar_feeds FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own calendar feed"
+  ON public.calendar_feeds FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own calendar feed"
+  ON public.calendar_feeds FOR DELETE
+  USING (auth.uid() = user_id);
+
+-- UID of the calendar event a reminder was imported from, so importing the same file twice updates instead of duplicating
+ALTER TABLE public.reminders
+  ADD COLUMN source_uid TEXT,
+  ADD CONSTRAINT reminders_user_source_uid_key UNIQUE (user_id, source_uid);
+
+-- Task and appointment reminders for a feed token, with the first occurrence as local wall-clock time
+-- for DTSTART. Only the calendar-feed edge function (service role) may call this.
+CREATE OR REPLACE FUNCTION public.calendar_feed_reminders(_token TEXT)
+RETURNS TABLE (
+  id UUID,
+  title TEXT,
+  reminder_type TEXT,
+  time_of_day TIME,
+  timezone TEXT,
+  recurrence TEXT,
+  repeat_interval INTEGER,
+  weekdays SMALLINT[],
+  start_date DATE,
+  exception_dates DATE[],
+  first_run_local TIMESTAMP,
+  updated_at TIMESTAMP WITH TIME ZONE
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER SET search_path = public
+AS $$
+  SELECT r.id, r.title, r.reminder_type, r.time_of_day, r.timezone, r.recurrence, r.repeat_interval,
+    r.weekdays, r.start_date, r.exception_dates,
+    public.next_reminder_run(r, ((r.start_date + TIME '00:00') AT TIME ZONE r.timezone) - INTERVAL '1 second')
+      AT TIME ZONE r.timezone,
+    r.updated_at
+  FROM public.calendar_feeds f
+  JOIN public.reminders r ON r.user_id = f.user_id
+  WHERE f.token = _token
+    AND r.enabled
+    AND r.reminder_type IN ('task', 'appointment');
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.calendar_feed_reminders(TEXT) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,82 @@
+-- Per-type channel choices, quiet hours, a daily email digest and one-click unsubscribe.
+-- send-notification enforces these; anything held back for quiet hours or the digest waits in notification_queue.
+ALTER TABLE public.notification_preferences
+  ADD COLUMN channels JSONB NOT NULL DEFAULT '{
+    "achievement": {"email": true, "push": true, "in_app": true},
+    "reminder": {"email": true, "push": true, "in_app": true},
+    "appointment": {"email": true, "push": true, "in_app": true}
+  }'::jsonb,
+  ADD COLUMN quiet_hours_start TIME,
+  ADD COLUMN quiet_hours_end TIME,
+  ADD COLUMN timezone TEXT NOT NULL DEFAULT 'UTC',
+  ADD COLUMN digest_enabled BOOLEAN NOT NULL DEFAULT false,
+  ADD COLUMN digest_time TIME NOT NULL DEFAULT '18:00',
+  ADD COLUMN unsubscribe_token TEXT NOT NULL UNIQUE DEFAULT encode(gen_random_bytes(24), 'hex'),
+  ADD CONSTRAINT notification_preferences_quiet_hours CHECK ((quiet_hours_start IS NULL) = (quiet_hours_end IS NULL));
+
+-- Carry the account-wide email/push switches over to every notification type
+UPDATE public.notification_preferences
+SET channels = jsonb_build_object(
+  'achievement', jsonb_build_object('email', email_enabled, 'push', push_enabled, 'in_app', true),
+  'reminder', jsonb_build_object('email', email_enabled, 'push', push_enabled, 'in_app', true),
+  'appointment', jsonb_build_object('email', email_enabled, 'push', push_enabled, 'in_app', true)
+);
+
+ALTER TABLE public.notification_preferences
+  DROP COLUMN email_enabled,
+  DROP COLUMN push_enabled;
+
+-- Notifications waiting for quiet hours to end or for the daily digest. Only the service role reads or writes this.
+CREATE TABLE public.notification_queue (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  notification_type TEXT NOT NULL,
+  channel TEXT NOT NULL CHECK (channel IN ('email', 'push')),
+  payload JSONB NOT NULL,
+  digest BOOLEAN NOT NULL DEFAULT false,
+  deliver_after TIMESTAMP WITH TIME ZONE NOT NULL,
+  sent_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.notification_queue ENABLE ROW LEVEL SECURITY;
+
+CREATE INDEX idx_notification_queue_due ON public.notification_queue(deliver_after) WHERE sent_at IS NULL;
+
+-- Mark due notifications as sent and hand them over, so overlapping runs never send one twice
+CREATE OR REPLACE FUNCTION public.claim_queued_notifications(_limit INTEGER DEFAULT 200)
+RETURNS SETOF public.notification_queue
+LANGUAGE sql
+SECURITY DEFINER SET search_path = public
+AS $$
+  UPDATE public.notification_queue q
+  SET sent_at = now()
+  WHERE q.id IN (
+    SELECT id FROM public.notification_queue
+    WHERE sent_at IS NULL AND deliver_after <= now()
+    ORDER BY deliver_after
+    LIMIT _limit
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING q.*;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.claim_queued_notifications(INTEGER) FROM PUBLIC, anon, authenticated;
+
+SELECT cron.schedule(
+  'send-queued-notifications',
+  '*/5 * * * *',
+  $$
+  SELECT net.http_post(
+    url := 'https://jdmgwvewvaluchnvlkzd.supabase.co/functions/v1/send-queued-notifications',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'x-cron-secret', (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'reminder_cron_secret')
+    ),
+    body := '{}'::jsonb
+  );
+  $$
+);
+
+-- Lets an open Reminders card show an in-app alert when a reminder goes out
+ALTER PUBLICATION supabase_realtime ADD TABLE public.reminder_deliveries;
@@ -0,0 +1,53 @@
+-- Every rendered notification email is written here before it is handed to the configured transport
+-- (Resend, SMTP, or the local file/log stand-in). Failed sends are retried with exponential backoff by
+-- send-queued-notifications. Only the service role reads or writes this.
+CREATE TABLE public.email_outbox (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  notification_type TEXT NOT NULL,
+  to_address TEXT NOT NULL,
+  from_address TEXT NOT NULL,
+  subject TEXT NOT NULL,
+  html TEXT NOT NULL,
+  text TEXT NOT NULL,
+  headers JSONB NOT NULL DEFAULT '{}'::jsonb,
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'sent', 'failed')),
+  attempts INTEGER NOT NULL DEFAULT 0,
+  next_attempt_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  last_error TEXT,
+  transport TEXT,
+  provider_message_id TEXT,
+  sent_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.email_outbox ENABLE ROW LEVEL SECURITY;
+
+CREATE INDEX idx_email_outbox_due ON public.email_outbox(next_attempt_at) WHERE status = 'pending';
+
+CREATE TRIGGER update_email_outbox_updated_at
+BEFORE UPDATE ON public.email_outbox
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Hand over emails due for another attempt. Each claimed row is leased for ten minutes by pushing
+-- next_attempt_at forward, so overlapping runs never send one twice while it is in flight.
+CREATE OR REPLACE FUNCTION public.claim_email_outbox(_limit INTEGER DEFAULT 100)
+RETURNS SETOF public.email_outbox
+LANGUAGE sql
+SECURITY DEFINER SET search_path = public
+AS $$
+  UPDATE public.email_outbox o
+  SET next_attempt_at = now() + interval '10 minutes'
+  WHERE o.id IN (
+    SELECT id FROM public.email_outbox
+    WHERE status = 'pending' AND next_attempt_at <= now()
+    ORDER BY next_attempt_at
+    LIMIT _limit
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING o.*;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.claim_email_outbox(INTEGER) FROM PUBLIC, anon, authenticated;
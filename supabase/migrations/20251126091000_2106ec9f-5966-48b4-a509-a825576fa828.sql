@@ -0,0 +1,41 @@
+-- Per-user call counters for edge functions that browsers call directly (send-notification, predict-video).
+-- Fixed windows: one row per user, function and window. Only the service role reads or writes this.
+CREATE TABLE public.rate_limits (
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  bucket TEXT NOT NULL,
+  window_start TIMESTAMP WITH TIME ZONE NOT NULL,
+  hits INTEGER NOT NULL DEFAULT 0,
+  PRIMARY KEY (user_id, bucket, window_start)
+);
+
+ALTER TABLE public.rate_limits ENABLE ROW LEVEL SECURITY;
+
+-- Records one call and returns false once the user is over _limit calls in the current window
+CREATE OR REPLACE FUNCTION public.hit_rate_limit(
+  _user_id UUID,
+  _bucket TEXT,
+  _limit INTEGER,
+  _window_seconds INTEGER
+)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  _window TIMESTAMP WITH TIME ZONE := to_timestamp(floor(extract(epoch FROM now()) / _window_seconds) * _window_seconds);
+  _hits INTEGER;
+BEGIN
+  INSERT INTO public.rate_limits AS r (user_id, bucket, window_start, hits)
+  VALUES (_user_id, _bucket, _window, 1)
+  ON CONFLICT (user_id, bucket, window_start) DO UPDATE SET hits = r.hits + 1
+  RETURNING r.hits INTO _hits;
+
+  -- Earlier windows are no longer needed
+  DELETE FROM public.rate_limits
+  WHERE user_id = _user_id AND bucket = _bucket AND window_start < _window;
+
+  RETURN _hits <= _limit;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.hit_rate_limit(UUID, TEXT, INTEGER, INTEGER) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,104 @@
+-- Video analysis runs in the background: predict-video queues a job, the analyze-video worker calls the
+-- model endpoint (retrying with backoff) and stores the prediction. Browsers follow progress over realtime.
+CREATE TABLE public.video_analysis_jobs (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  assessment_id UUID REFERENCES public.assessments(id) ON DELETE SET NULL,
+  video_url TEXT NOT NULL,
+  status TEXT NOT NULL DEFAULT 'queued' CHECK (status IN ('queued', 'running', 'succeeded', 'failed')),
+  attempts INTEGER NOT NULL DEFAULT 0,
+  max_attempts INTEGER NOT NULL DEFAULT 3,
+  next_attempt_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  result JSONB,
+  error TEXT,
+  started_at TIMESTAMP WITH TIME ZONE,
+  completed_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.video_analysis_jobs ENABLE ROW LEVEL SECURITY;
+
+-- Jobs are created by predict-video and advanced by the worker; users only read them
+CREATE POLICY "Users can view their own video analysis jobs"
+  ON public.video_analysis_jobs FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE INDEX idx_video_analysis_jobs_user ON public.video_analysis_jobs(user_id, created_at DESC);
+CREATE INDEX idx_video_analysis_jobs_due ON public.video_analysis_jobs(next_attempt_at) WHERE status = 'queued';
+
+CREATE TRIGGER update_video_analysis_jobs_updated_at
+  BEFORE UPDATE ON public.video_analysis_jobs
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Hand due jobs to the worker. Jobs left running for ten minutes (a worker that died mid-call) are picked
+-- up again; SKIP LOCKED keeps overlapping workers from taking the same job.
+CREATE OR REPLACE FUNCTION public.claim_video_analysis_jobs(_limit INTEGER DEFAULT 5)
+RETURNS SETOF public.video_analysis_jobs
+LANGUAGE sql
+SECURITY DEFINER SET search_path = public
+AS $$
+  UPDATE public.video_analysis_jobs j
+  SET status = 'running', attempts = j.attempts + 1, started_at = now()
+  WHERE j.id IN (
+    SELECT id FROM public.video_analysis_jobs
+    WHERE (status = 'queued' AND next_attempt_at <= now())
+       OR (status = 'running' AND started_at < now() - interval '10 minutes')
+    ORDER BY next_attempt_at
+    LIMIT _limit
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING j.*;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.claim_video_analysis_jobs(INTEGER) FROM PUBLIC, anon, authenticated;
+
+-- Link a job to the assessment it was uploaded for. A prediction that has already arrived is copied
+-- onto the assessment straight away; later ones are copied by the worker.
+CREATE OR REPLACE FUNCTION public.attach_video_analysis_job(_job_id UUID, _assessment_id UUID)
+RETURNS public.video_analysis_jobs
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  _job public.video_analysis_jobs;
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM public.assessments WHERE id = _assessment_id AND user_id = auth.uid()) THEN
+    RAISE EXCEPTION 'Assessment not found';
+  END IF;
+
+  UPDATE public.video_analysis_jobs
+  SET assessment_id = _assessment_id
+  WHERE id = _job_id AND user_id = auth.uid()
+  RETURNING * INTO _job;
+
+  IF _job.id IS NULL THEN
+    RAISE EXCEPTION 'Video analysis job not found';
+  END IF;
+
+  IF _job.status = 'succeeded' THEN
+    UPDATE public.assessments SET video_prediction = _job.result WHERE id = _assessment_id;
+  END IF;
+
+  RETURN _job;
+END;
+$$;
+
+ALTER PUBLICATION supabase_realtime ADD TABLE public.video_analysis_jobs;
+
+-- Backstop for jobs whose immediate run was cut short, and for retries
+SELECT cron.schedule(
+  'analyze-video',
+  '* * * * *',
+  $$
+  SELECT net.http_post(
+    url := 'https://jdmgwvewvaluchnvlkzd.supabase.co/functions/v1/analyze-video',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'x-cron-secret', (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'reminder_cron_secret')
+    ),
+    body := '{}'::jsonb
+  );
+  $$
+);
@@ -0,0 +1,40 @@
+-- A job that failed on every attempt marks its assessment's video analysis as unavailable
+-- instead of leaving it empty, so the result is clearly questionnaire-only
+CREATE OR REPLACE FUNCTION public.attach_video_analysis_job(_job_id UUID, _assessment_id UUID)
+RETURNS public.video_analysis_jobs
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  _job public.video_analysis_jobs;
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM public.assessments WHERE id = _assessment_id AND user_id = auth.uid()) THEN
+    RAISE EXCEPTION 'Assessment not found';
+  END IF;
+
+  UPDATE public.video_analysis_jobs
+  SET assessment_id = _assessment_id
+  WHERE id = _job_id AND user_id = auth.uid()
+  RETURNING * INTO _job;
+
+  IF _job.id IS NULL THEN
+    RAISE EXCEPTION 'Video analysis job not found';
+  END IF;
+
+  IF _job.status = 'succeeded' THEN
+    UPDATE public.assessments SET video_prediction = _job.result WHERE id = _assessment_id;
+  ELSIF _job.status = 'failed' THEN
+    UPDATE public.assessments
+    SET video_prediction = jsonb_build_object('source', 'unavailable', 'reason', COALESCE(_job.error, 'Video analysis failed'))
+    WHERE id = _assessment_id;
+  END IF;
+
+  RETURN _job;
+END;
+$$;
+
+-- Placeholder predictions written by the old random fallback are not model output
+UPDATE public.assessments
+SET video_prediction = jsonb_build_object('source', 'unavailable', 'reason', 'Recorded before video analysis results were verified'),
+    fused_score = NULL
+WHERE video_prediction->>'source' IN ('fallback', 'client-fallback');
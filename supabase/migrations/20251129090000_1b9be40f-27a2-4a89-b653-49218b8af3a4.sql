@@ -0,0 +1,45 @@
+-- What a share link shows, so the viewer page can render badges and progress differently
+ALTER TABLE public.shared_achievements
+ADD COLUMN kind TEXT NOT NULL DEFAULT 'achievement' CHECK (kind IN ('achievement', 'progress'));
+
+UPDATE public.shared_achievements SET kind = 'progress' WHERE content ? 'entries';
+
+-- Shared rows were readable by anyone who could list the table, expired or not.
+-- Links are now only resolved one token at a time through get_shared_achievement.
+DROP POLICY "Public shared achievements can be viewed with token" ON public.shared_achievements;
+
+-- Resolves a share token for the /share/:token page. Expired, private and unknown links
+-- return a status without their content; the owner can always open their own links.
+CREATE OR REPLACE FUNCTION public.get_shared_achievement(_token TEXT)
+RETURNS TABLE (
+  status TEXT,
+  kind TEXT,
+  title TEXT,
+  content JSONB,
+  created_at TIMESTAMP WITH TIME ZONE,
+  expires_at TIMESTAMP WITH TIME ZONE
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  _share public.shared_achievements%ROWTYPE;
+BEGIN
+  SELECT * INTO _share FROM public.shared_achievements WHERE share_token = _token;
+
+  IF NOT FOUND OR (NOT _share.is_public AND _share.user_id IS DISTINCT FROM auth.uid()) THEN
+    RETURN QUERY SELECT 'revoked'::TEXT, NULL::TEXT, NULL::TEXT, NULL::JSONB, NULL::TIMESTAMPTZ, NULL::TIMESTAMPTZ;
+    RETURN;
+  END IF;
+
+  IF _share.expires_at IS NOT NULL AND _share.expires_at <= now() THEN
+    RETURN QUERY SELECT 'expired'::TEXT, _share.kind, NULL::TEXT, NULL::JSONB, _share.created_at, _share.expires_at;
+    RETURN;
+  END IF;
+
+  RETURN QUERY SELECT 'active'::TEXT, _share.kind, _share.title, _share.content, _share.created_at, _share.expires_at;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_shared_achievement(TEXT) TO anon, authenticated;
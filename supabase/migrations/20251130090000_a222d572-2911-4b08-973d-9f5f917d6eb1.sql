@@ -0,0 +1,82 @@
+-- Share links can be revoked without deleting them, and keep a running view count
+ALTER TABLE public.shared_achievements
+ADD COLUMN revoked_at TIMESTAMP WITH TIME ZONE,
+ADD COLUMN view_count INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN last_viewed_at TIMESTAMP WITH TIME ZONE;
+
+-- Every time someone else opens a share link, whether or not it was still live
+CREATE TABLE public.share_access_log (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  share_id UUID NOT NULL REFERENCES public.shared_achievements(id) ON DELETE CASCADE,
+  outcome TEXT NOT NULL CHECK (outcome IN ('active', 'expired', 'revoked')),
+  viewer_user_id UUID,
+  viewed_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.share_access_log ENABLE ROW LEVEL SECURITY;
+
+-- Owners can read the log for their links. There are no insert, update or delete policies:
+-- rows are only written by get_shared_achievement, so the log is append-only.
+CREATE POLICY "Users can view access to their own share links"
+ON public.share_access_log
+FOR SELECT
+USING (EXISTS (
+  SELECT 1 FROM public.shared_achievements
+  WHERE shared_achievements.id = share_access_log.share_id AND shared_achievements.user_id = auth.uid()
+));
+
+CREATE INDEX idx_share_access_log_share ON public.share_access_log(share_id, viewed_at DESC);
+
+-- Same lookup as before, now honouring revocation and logging views by anyone but the owner
+CREATE OR REPLACE FUNCTION public.get_shared_achievement(_token TEXT)
+RETURNS TABLE (
+  status TEXT,
+  kind TEXT,
+  title TEXT,
+  content JSONB,
+  created_at TIMESTAMP WITH TIME ZONE,
+  expires_at TIMESTAMP WITH TIME ZONE
+)
+LANGUAGE plpgsql
+VOLATILE
+SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  _share public.shared_achievements%ROWTYPE;
+  _is_owner BOOLEAN;
+  _status TEXT;
+BEGIN
+  SELECT * INTO _share FROM public.shared_achievements WHERE share_token = _token;
+
+  IF NOT FOUND THEN
+    RETURN QUERY SELECT 'revoked'::TEXT, NULL::TEXT, NULL::TEXT, NULL::JSONB, NULL::TIMESTAMPTZ, NULL::TIMESTAMPTZ;
+    RETURN;
+  END IF;
+
+  _is_owner := _share.user_id = auth.uid();
+  _status := CASE
+    WHEN _share.revoked_at IS NOT NULL OR (NOT _share.is_public AND NOT _is_owner) THEN 'revoked'
+    WHEN _share.expires_at IS NOT NULL AND _share.expires_at <= now() THEN 'expired'
+    ELSE 'active'
+  END;
+
+  IF NOT _is_owner THEN
+    INSERT INTO public.share_access_log (share_id, outcome, viewer_user_id)
+    VALUES (_share.id, _status, auth.uid());
+
+    IF _status = 'active' THEN
+      UPDATE public.shared_achievements
+      SET view_count = view_count + 1, last_viewed_at = now()
+      WHERE id = _share.id;
+    END IF;
+  END IF;
+
+  IF _status = 'revoked' THEN
+    RETURN QUERY SELECT 'revoked'::TEXT, NULL::TEXT, NULL::TEXT, NULL::JSONB, NULL::TIMESTAMPTZ, NULL::TIMESTAMPTZ;
+  ELSIF _status = 'expired' THEN
+    RETURN QUERY SELECT 'expired'::TEXT, _share.kind, NULL::TEXT, NULL::JSONB, _share.created_at, _share.expires_at;
+  ELSE
+    RETURN QUERY SELECT 'active'::TEXT, _share.kind, _share.title, _share.content, _share.created_at, _share.expires_at;
+  END IF;
+END;
+$$;
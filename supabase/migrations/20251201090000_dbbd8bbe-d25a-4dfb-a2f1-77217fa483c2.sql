@@ -0,0 +1,245 @@
+-- Assessment reports shared with clinicians outside AutiCare. A report link points at one assessment,
+-- shows only the sections chosen when it was created, always expires and may be protected by a PIN.
+ALTER TABLE public.shared_achievements DROP CONSTRAINT shared_achievements_kind_check;
+ALTER TABLE public.shared_achievements
+ADD CONSTRAINT shared_achievements_kind_check CHECK (kind IN ('achievement', 'progress', 'report'));
+
+ALTER TABLE public.shared_achievements
+ADD COLUMN assessment_id UUID REFERENCES public.assessments(id) ON DELETE CASCADE,
+ADD COLUMN report_scopes TEXT[] NOT NULL DEFAULT '{}'
+  CHECK (report_scopes <@ ARRAY['scores', 'contributors', 'video_analysis', 'mood_history']),
+ADD COLUMN pin_hash TEXT,
+ADD CONSTRAINT shared_achievements_report_check
+  CHECK (kind <> 'report' OR (assessment_id IS NOT NULL AND expires_at IS NOT NULL AND cardinality(report_scopes) > 0));
+
+-- Report links are only created through create_report_share, which checks the assessment and hashes the PIN
+DROP POLICY "Users can insert their own shared achievements" ON public.shared_achievements;
+CREATE POLICY "Users can insert their own shared achievements"
+ON public.shared_achievements
+FOR INSERT
+WITH CHECK (auth.uid() = user_id AND kind <> 'report');
+
+-- Owners may retitle, revoke or re-time a link, but not repoint it or touch its PIN and counters
+REVOKE UPDATE ON public.shared_achievements FROM anon, authenticated;
+GRANT UPDATE (title, is_public, expires_at, revoked_at) ON public.shared_achievements TO authenticated;
+
+-- Wrong PINs are logged too, so repeated guesses can be throttled
+ALTER TABLE public.share_access_log DROP CONSTRAINT share_access_log_outcome_check;
+ALTER TABLE public.share_access_log
+ADD CONSTRAINT share_access_log_outcome_check CHECK (outcome IN ('active', 'expired', 'revoked', 'pin_failed'));
+
+CREATE OR REPLACE FUNCTION public.create_report_share(
+  _assessment_id UUID,
+  _title TEXT,
+  _scopes TEXT[],
+  _expires_at TIMESTAMP WITH TIME ZONE,
+  _pin TEXT DEFAULT NULL
+)
+RETURNS public.shared_achievements
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  _share public.shared_achievements;
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM public.assessments WHERE id = _assessment_id AND user_id = auth.uid()) THEN
+    RAISE EXCEPTION 'Assessment not found';
+  END IF;
+
+  IF _expires_at IS NULL OR _expires_at <= now() OR _expires_at > now() + INTERVAL '90 days' THEN
+    RAISE EXCEPTION 'Report links must expire within 90 days';
+  END IF;
+
+  IF _pin IS NOT NULL AND _pin !~ '^[0-9]{4,8}$' THEN
+    RAISE EXCEPTION 'PIN must be 4 to 8 digits';
+  END IF;
+
+  INSERT INTO public.shared_achievements
+    (user_id, kind, title, content, is_public, expires_at, assessment_id, report_scopes, pin_hash)
+  VALUES (
+    auth.uid(), 'report', _title, '{}'::JSONB, true, _expires_at, _assessment_id, _scopes,
+    CASE WHEN _pin IS NULL THEN NULL ELSE extensions.crypt(_pin, extensions.gen_salt('bf')) END
+  )
+  RETURNING * INTO _share;
+
+  RETURN _share;
+END;
+$$;
+
+-- Share lookup for the /share/:token page. Report links only report their status here; their
+-- content comes from get_shared_report, which also logs the view.
+CREATE OR REPLACE FUNCTION public.get_shared_achievement(_token TEXT)
+RETURNS TABLE (
+  status TEXT,
+  kind TEXT,
+  title TEXT,
+  content JSONB,
+  created_at TIMESTAMP WITH TIME ZONE,
+  expires_at TIMESTAMP WITH TIME ZONE
+)
+LANGUAGE plpgsql
+VOLATILE
+SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  _share public.shared_achievements%ROWTYPE;
+  _is_owner BOOLEAN;
+  _status TEXT;
+BEGIN
+  SELECT * INTO _share FROM public.shared_achievements WHERE share_token = _token;
+
+  IF NOT FOUND THEN
+    RETURN QUERY SELECT 'revoked'::TEXT, NULL::TEXT, NULL::TEXT, NULL::JSONB, NULL::TIMESTAMPTZ, NULL::TIMESTAMPTZ;
+    RETURN;
+  END IF;
+
+  _is_owner := _share.user_id = auth.uid();
+  _status := CASE
+    WHEN _share.revoked_at IS NOT NULL OR (NOT _share.is_public AND NOT _is_owner) THEN 'revoked'
+    WHEN _share.expires_at IS NOT NULL AND _share.expires_at <= now() THEN 'expired'
+    ELSE 'active'
+  END;
+
+  IF NOT _is_owner AND NOT (_share.kind = 'report' AND _status = 'active') THEN
+    INSERT INTO public.share_access_log (share_id, outcome, viewer_user_id)
+    VALUES (_share.id, _status, auth.uid());
+
+    IF _status = 'active' THEN
+      UPDATE public.shared_achievements
+      SET view_count = view_count + 1, last_viewed_at = now()
+      WHERE id = _share.id;
+    END IF;
+  END IF;
+
+  IF _status = 'revoked' THEN
+    RETURN QUERY SELECT 'revoked'::TEXT, NULL::TEXT, NULL::TEXT, NULL::JSONB, NULL::TIMESTAMPTZ, NULL::TIMESTAMPTZ;
+  ELSIF _status = 'expired' THEN
+    RETURN QUERY SELECT 'expired'::TEXT, _share.kind, NULL::TEXT, NULL::JSONB, _share.created_at, _share.expires_at;
+  ELSIF _share.kind = 'report' THEN
+    RETURN QUERY SELECT 'active'::TEXT, _share.kind, _share.title, NULL::JSONB, _share.created_at, _share.expires_at;
+  ELSE
+    RETURN QUERY SELECT 'active'::TEXT, _share.kind, _share.title, _share.content, _share.created_at, _share.expires_at;
+  END IF;
+END;
+$$;
+
+-- Builds a report from the live assessment with only the shared sections. Returns 'pin_required'
+-- when the PIN is missing or wrong, and 'locked' after 5 wrong PINs in 15 minutes.
+CREATE OR REPLACE FUNCTION public.get_shared_report(_token TEXT, _pin TEXT DEFAULT NULL)
+RETURNS TABLE (
+  status TEXT,
+  title TEXT,
+  report JSONB,
+  created_at TIMESTAMP WITH TIME ZONE,
+  expires_at TIMESTAMP WITH TIME ZONE
+)
+LANGUAGE plpgsql
+VOLATILE
+SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  _share public.shared_achievements%ROWTYPE;
+  _assessment public.assessments%ROWTYPE;
+  _is_owner BOOLEAN;
+  _report JSONB;
+BEGIN
+  SELECT * INTO _share FROM public.shared_achievements WHERE share_token = _token AND kind = 'report';
+
+  IF NOT FOUND OR _share.revoked_at IS NOT NULL THEN
+    RETURN QUERY SELECT 'revoked'::TEXT, NULL::TEXT, NULL::JSONB, NULL::TIMESTAMPTZ, NULL::TIMESTAMPTZ;
+    RETURN;
+  END IF;
+
+  IF _share.expires_at <= now() THEN
+    RETURN QUERY SELECT 'expired'::TEXT, NULL::TEXT, NULL::JSONB, _share.created_at, _share.expires_at;
+    RETURN;
+  END IF;
+
+  _is_owner := _share.user_id = auth.uid();
+
+  IF _share.pin_hash IS NOT NULL AND NOT _is_owner THEN
+    IF (
+      SELECT count(*) FROM public.share_access_log
+      WHERE share_id = _share.id AND outcome = 'pin_failed' AND viewed_at > now() - INTERVAL '15 minutes'
+    ) >= 5 THEN
+      RETURN QUERY SELECT 'locked'::TEXT, NULL::TEXT, NULL::JSONB, NULL::TIMESTAMPTZ, NULL::TIMESTAMPTZ;
+      RETURN;
+    END IF;
+
+    IF _pin IS NULL OR extensions.crypt(_pin, _share.pin_hash) <> _share.pin_hash THEN
+      IF _pin IS NOT NULL THEN
+        INSERT INTO public.share_access_log (share_id, outcome, viewer_user_id)
+        VALUES (_share.id, 'pin_failed', auth.uid());
+      END IF;
+      RETURN QUERY SELECT 'pin_required'::TEXT, NULL::TEXT, NULL::JSONB, NULL::TIMESTAMPTZ, NULL::TIMESTAMPTZ;
+      RETURN;
+    END IF;
+  END IF;
+
+  SELECT * INTO _assessment FROM public.assessments WHERE id = _share.assessment_id;
+
+  _report := jsonb_build_object(
+    'role', _assessment.role,
+    'instrument', _assessment.instrument,
+    'assessedAt', _assessment.created_at,
+    'questionBankVersion', _assessment.question_bank_version,
+    'childName', _assessment.metadata->>'childName',
+    'childAge', _assessment.metadata->>'childAge',
+    'scopes', to_jsonb(_share.report_scopes)
+  );
+
+  IF 'scores' = ANY(_share.report_scopes) THEN
+    _report := _report || jsonb_build_object('scores', jsonb_build_object(
+      'normalizedScore', _assessment.result->'normalizedScore',
+      'fusedScore', _assessment.fused_score,
+      'severity', _assessment.severity,
+      'severityLabel', _assessment.result->'severityLabel',
+      'rawTotal', _assessment.result->'rawTotal',
+      'maxPossible', _assessment.result->'maxPossible',
+      'categoryScores', _assessment.result->'categoryScores',
+      'instrument', _assessment.result->'instrument'
+    ));
+  END IF;
+
+  IF 'contributors' = ANY(_share.report_scopes) THEN
+    _report := _report || jsonb_build_object('contributors', jsonb_build_object(
+      'topContributors', _assessment.result->'topContributors',
+      'contributions', _assessment.result->'contributions'
+    ));
+  END IF;
+
+  IF 'video_analysis' = ANY(_share.report_scopes) THEN
+    _report := _report || jsonb_build_object('videoAnalysis', jsonb_build_object(
+      'prediction', _assessment.video_prediction,
+      'fusionStrategy', _assessment.result->'fusionStrategy'
+    ));
+  END IF;
+
+  -- The 60 most recent check-ins from the 90 days before the report was opened
+  IF 'mood_history' = ANY(_share.report_scopes) THEN
+    _report := _report || jsonb_build_object('moodHistory', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object('mood', m.mood, 'note', m.note, 'createdAt', m.created_at) ORDER BY m.created_at DESC)
+      FROM (
+        SELECT mood, note, mood_logs.created_at FROM public.mood_logs
+        WHERE user_id = _assessment.user_id AND mood_logs.created_at > now() - INTERVAL '90 days'
+        ORDER BY mood_logs.created_at DESC
+        LIMIT 60
+      ) m
+    ), '[]'::JSONB));
+  END IF;
+
+  IF NOT _is_owner THEN
+    INSERT INTO public.share_access_log (share_id, outcome, viewer_user_id)
+    VALUES (_share.id, 'active', auth.uid());
+
+    UPDATE public.shared_achievements
+    SET view_count = view_count + 1, last_viewed_at = now()
+    WHERE id = _share.id;
+  END IF;
+
+  RETURN QUERY SELECT 'active'::TEXT, _share.title, _report, _share.created_at, _share.expires_at;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.create_report_share(UUID, TEXT, TEXT[], TIMESTAMPTZ, TEXT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.get_shared_report(TEXT, TEXT) TO anon, authenticated;
@@ -0,0 +1,40 @@
+-- Progress history, previously kept only in one browser's localStorage. client_id is generated on the
+-- device that recorded the entry, so uploads that are retried after being offline never duplicate rows.
+CREATE TABLE public.progress_entries (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  child_id UUID REFERENCES public.children(id) ON DELETE CASCADE,
+  client_id TEXT NOT NULL,
+  role TEXT NOT NULL CHECK (role IN ('individual', 'parent', 'clinician')),
+  score NUMERIC NOT NULL,
+  severity TEXT NOT NULL,
+  recorded_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (user_id, client_id)
+);
+
+ALTER TABLE public.progress_entries ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own progress entries"
+  ON public.progress_entries FOR SELECT
+  USING (auth.uid() = user_id);
+
+-- Entries can only be filed under the user's own children
+CREATE POLICY "Users can insert their own progress entries"
+  ON public.progress_entries FOR INSERT
+  WITH CHECK (
+    auth.uid() = user_id
+    AND (child_id IS NULL OR EXISTS (
+      SELECT 1 FROM public.children WHERE children.id = child_id AND children.parent_user_id = auth.uid()
+    ))
+  );
+
+CREATE POLICY "Users can delete their own progress entries"
+  ON public.progress_entries FOR DELETE
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Linked clinicians can view patient progress entries"
+  ON public.progress_entries FOR SELECT
+  USING (public.has_care_access(user_id));
+
+CREATE INDEX idx_progress_entries_user_child ON public.progress_entries(user_id, child_id, recorded_at DESC);
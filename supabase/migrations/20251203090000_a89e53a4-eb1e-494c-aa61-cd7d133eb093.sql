@@ -0,0 +1,188 @@
+-- Harden report links. New PINs need at least 6 digits. Instead of a rolling lockout, which anyone could
+-- keep triggering to shut the clinician out, a link is revoked for good after 10 wrong PINs in total,
+-- and the owner sees why in their shared links. Report expiry stays within 90 days of creation,
+-- including when the owner edits it later.
+
+-- Set when the link revoked itself; owners revoke with a plain update, which leaves it NULL
+ALTER TABLE public.shared_achievements
+ADD COLUMN revoked_reason TEXT CHECK (revoked_reason IN ('pin_failures'));
+
+CREATE OR REPLACE FUNCTION public.enforce_report_share_expiry()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.kind = 'report' AND (NEW.expires_at IS NULL OR NEW.expires_at > NEW.created_at + INTERVAL '90 days') THEN
+    RAISE EXCEPTION 'Report links must expire within 90 days of being created';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+-- Links already pushed past the cap are brought back to it
+UPDATE public.shared_achievements
+SET expires_at = created_at + INTERVAL '90 days'
+WHERE kind = 'report' AND expires_at > created_at + INTERVAL '90 days';
+
+CREATE TRIGGER enforce_report_share_expiry
+BEFORE INSERT OR UPDATE OF expires_at ON public.shared_achievements
+FOR EACH ROW
+EXECUTE FUNCTION public.enforce_report_share_expiry();
+
+CREATE OR REPLACE FUNCTION public.create_report_share(
+  _assessment_id UUID,
+  _title TEXT,
+  _scopes TEXT[],
+  _expires_at TIMESTAMP WITH TIME ZONE,
+  _pin TEXT DEFAULT NULL
+)
+RETURNS public.shared_achievements
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  _share public.shared_achievements;
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM public.assessments WHERE id = _assessment_id AND user_id = auth.uid()) THEN
+    RAISE EXCEPTION 'Assessment not found';
+  END IF;
+
+  IF _expires_at IS NULL OR _expires_at <= now() OR _expires_at > now() + INTERVAL '90 days' THEN
+    RAISE EXCEPTION 'Report links must expire within 90 days';
+  END IF;
+
+  IF _pin IS NOT NULL AND _pin !~ '^[0-9]{6,8}$' THEN
+    RAISE EXCEPTION 'PIN must be 6 to 8 digits';
+  END IF;
+
+  INSERT INTO public.shared_achievements
+    (user_id, kind, title, content, is_public, expires_at, assessment_id, report_scopes, pin_hash)
+  VALUES (
+    auth.uid(), 'report', _title, '{}'::JSONB, true, _expires_at, _assessment_id, _scopes,
+    CASE WHEN _pin IS NULL THEN NULL ELSE extensions.crypt(_pin, extensions.gen_salt('bf')) END
+  )
+  RETURNING * INTO _share;
+
+  RETURN _share;
+END;
+$$;
+
+-- Builds a report from the live assessment with only the shared sections. Returns 'pin_required'
+-- when the PIN is missing or wrong; the 10th wrong PIN revokes the link.
+CREATE OR REPLACE FUNCTION public.get_shared_report(_token TEXT, _pin TEXT DEFAULT NULL)
+RETURNS TABLE (
+  status TEXT,
+  title TEXT,
+  report JSONB,
+  created_at TIMESTAMP WITH TIME ZONE,
+  expires_at TIMESTAMP WITH TIME ZONE
+)
+LANGUAGE plpgsql
+VOLATILE
+SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  _share public.shared_achievements%ROWTYPE;
+  _assessment public.assessments%ROWTYPE;
+  _is_owner BOOLEAN;
+  _report JSONB;
+BEGIN
+  SELECT * INTO _share FROM public.shared_achievements WHERE share_token = _token AND kind = 'report';
+
+  IF NOT FOUND OR _share.revoked_at IS NOT NULL THEN
+    RETURN QUERY SELECT 'revoked'::TEXT, NULL::TEXT, NULL::JSONB, NULL::TIMESTAMPTZ, NULL::TIMESTAMPTZ;
+    RETURN;
+  END IF;
+
+  IF _share.expires_at <= now() THEN
+    RETURN QUERY SELECT 'expired'::TEXT, NULL::TEXT, NULL::JSONB, _share.created_at, _share.expires_at;
+    RETURN;
+  END IF;
+
+  _is_owner := _share.user_id = auth.uid();
+
+  IF _share.pin_hash IS NOT NULL AND NOT _is_owner THEN
+    IF _pin IS NULL OR extensions.crypt(_pin, _share.pin_hash) <> _share.pin_hash THEN
+      IF _pin IS NOT NULL THEN
+        INSERT INTO public.share_access_log (share_id, outcome, viewer_user_id)
+        VALUES (_share.id, 'pin_failed', auth.uid());
+
+        IF (SELECT count(*) FROM public.share_access_log WHERE share_id = _share.id AND outcome = 'pin_failed') >= 10 THEN
+          UPDATE public.shared_achievements
+          SET revoked_at = now(), revoked_reason = 'pin_failures'
+          WHERE id = _share.id;
+
+          RETURN QUERY SELECT 'revoked'::TEXT, NULL::TEXT, NULL::JSONB, NULL::TIMESTAMPTZ, NULL::TIMESTAMPTZ;
+          RETURN;
+        END IF;
+      END IF;
+      RETURN QUERY SELECT 'pin_required'::TEXT, NULL::TEXT, NULL::JSONB, NULL::TIMESTAMPTZ, NULL::TIMESTAMPTZ;
+      RETURN;
+    END IF;
+  END IF;
+
+  SELECT * INTO _assessment FROM public.assessments WHERE id = _share.assessment_id;
+
+  _report := jsonb_build_object(
+    'role', _assessment.role,
+    'instrument', _assessment.instrument,
+    'assessedAt', _assessment.created_at,
+    'questionBankVersion', _assessment.question_bank_version,
+    'childName', _assessment.metadata->>'childName',
+    'childAge', _assessment.metadata->>'childAge',
+    'scopes', to_jsonb(_share.report_scopes)
+  );
+
+  IF 'scores' = ANY(_share.report_scopes) THEN
+    _report := _report || jsonb_build_object('scores', jsonb_build_object(
+      'normalizedScore', _assessment.result->'normalizedScore',
+      'fusedScore', _assessment.fused_score,
+      'severity', _assessment.severity,
+      'severityLabel', _assessment.result->'severityLabel',
+      'rawTotal', _assessment.result->'rawTotal',
+      'maxPossible', _assessment.result->'maxPossible',
+      'categoryScores', _assessment.result->'categoryScores',
+      'instrument', _assessment.result->'instrument'
+    ));
+  END IF;
+
+  IF 'contributors' = ANY(_share.report_scopes) THEN
+    _report := _report || jsonb_build_object('contributors', jsonb_build_object(
+      'topContributors', _assessment.result->'topContributors',
+      'contributions', _assessment.result->'contributions'
+    ));
+  END IF;
+
+  IF 'video_analysis' = ANY(_share.report_scopes) THEN
+    _report := _report || jsonb_build_object('videoAnalysis', jsonb_build_object(
+      'prediction', _assessment.video_prediction,
+      'fusionStrategy', _assessment.result->'fusionStrategy'
+    ));
+  END IF;
+
+  -- The 60 most recent check-ins from the 90 days before the report was opened
+  IF 'mood_history' = ANY(_share.report_scopes) THEN
+    _report := _report || jsonb_build_object('moodHistory', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object('mood', m.mood, 'note', m.note, 'createdAt', m.created_at) ORDER BY m.created_at DESC)
+      FROM (
+        SELECT mood, note, mood_logs.created_at FROM public.mood_logs
+        WHERE user_id = _assessment.user_id AND mood_logs.created_at > now() - INTERVAL '90 days'
+        ORDER BY mood_logs.created_at DESC
+        LIMIT 60
+      ) m
+    ), '[]'::JSONB));
+  END IF;
+
+  IF NOT _is_owner THEN
+    INSERT INTO public.share_access_log (share_id, outcome, viewer_user_id)
+    VALUES (_share.id, 'active', auth.uid());
+
+    UPDATE public.shared_achievements
+    SET view_count = view_count + 1, last_viewed_at = now()
+    WHERE id = _share.id;
+  END IF;
+
+  RETURN QUERY SELECT 'active'::TEXT, _share.title, _report, _share.created_at, _share.expires_at;
+END;
+$$;
@@ -0,0 +1,52 @@
+-- Care invite codes were 4 random bytes and could be redeemed without limit, so a clinician account could
+-- guess its way onto a family's data. New codes are 16 random bytes, still expire after 7 days, and each
+-- clinician gets 10 redemption attempts an hour.
+ALTER TABLE public.care_links
+ALTER COLUMN invite_code SET DEFAULT upper(encode(gen_random_bytes(16), 'hex'));
+
+-- Links that are already active keep their short code; only new and edited rows are checked
+ALTER TABLE public.care_links
+ADD CONSTRAINT care_links_invite_code_length CHECK (invite_code ~ '^[0-9A-F]{32}$') NOT VALID;
+
+-- Short codes that have not been redeemed yet stop working
+UPDATE public.care_links
+SET invite_expires_at = now()
+WHERE status = 'pending' AND length(invite_code) < 32 AND invite_expires_at > now();
+
+-- Returns the activated link id, or NULL when the code is invalid or has expired. Failures return instead
+-- of raising so the attempt still counts against the rate limit.
+CREATE OR REPLACE FUNCTION public.redeem_care_invite(invite_code TEXT)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  link public.care_links%ROWTYPE;
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM public.profiles WHERE user_id = auth.uid() AND role = 'clinician') THEN
+    RAISE EXCEPTION 'Only clinicians can redeem care invites';
+  END IF;
+
+  IF NOT public.hit_rate_limit(auth.uid(), 'redeem_care_invite', 10, 60 * 60) THEN
+    RAISE EXCEPTION 'Too many invite attempts. Please try again later.';
+  END IF;
+
+  SELECT * INTO link FROM public.care_links
+  WHERE care_links.invite_code = upper(trim(redeem_care_invite.invite_code))
+  FOR UPDATE;
+
+  IF NOT FOUND OR link.status <> 'pending' OR link.invite_expires_at < now() THEN
+    RETURN NULL;
+  END IF;
+
+  IF link.patient_user_id = auth.uid() THEN
+    RAISE EXCEPTION 'You cannot redeem your own invite';
+  END IF;
+
+  UPDATE public.care_links
+  SET clinician_user_id = auth.uid(), status = 'active', accepted_at = now()
+  WHERE id = link.id;
+
+  RETURN link.id;
+END;
+$$;
@@ -0,0 +1,22 @@
+-- Assessments can only be filed under the user's own children, as progress entries already are
+DROP POLICY "Users can insert their own assessments" ON public.assessments;
+DROP POLICY "Users can update their own assessments" ON public.assessments;
+
+CREATE POLICY "Users can insert their own assessments"
+  ON public.assessments FOR INSERT
+  WITH CHECK (
+    auth.uid() = user_id
+    AND (child_id IS NULL OR EXISTS (
+      SELECT 1 FROM public.children WHERE children.id = child_id AND children.parent_user_id = auth.uid()
+    ))
+  );
+
+CREATE POLICY "Users can update their own assessments"
+  ON public.assessments FOR UPDATE
+  USING (auth.uid() = user_id)
+  WITH CHECK (
+    auth.uid() = user_id
+    AND (child_id IS NULL OR EXISTS (
+      SELECT 1 FROM public.children WHERE children.id = child_id AND children.parent_user_id = auth.uid()
+    ))
+  );
@@ -0,0 +1,3 @@
+-- Care invites can be emailed to the clinician once; send-notification sets this when it sends the email
+ALTER TABLE public.care_links
+ADD COLUMN invite_emailed_at TIMESTAMP WITH TIME ZONE;
@@ -0,0 +1,60 @@
+-- auth.uid() is NULL for visitors who aren't signed in, which made the owner check NULL as well: private
+-- links were shown to them and their views were never logged or counted. The owner check is now false for
+-- anyone who isn't signed in as the owner.
+
+-- Share lookup for the /share/:token page. Report links only report their status here; their
+-- content comes from get_shared_report, which also logs the view.
+CREATE OR REPLACE FUNCTION public.get_shared_achievement(_token TEXT)
+RETURNS TABLE (
+  status TEXT,
+  kind TEXT,
+  title TEXT,
+  content JSONB,
+  created_at TIMESTAMP WITH TIME ZONE,
+  expires_at TIMESTAMP WITH TIME ZONE
+)
+LANGUAGE plpgsql
+VOLATILE
+SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  _share public.shared_achievements%ROWTYPE;
+  _is_owner BOOLEAN;
+  _status TEXT;
+BEGIN
+  SELECT * INTO _share FROM public.shared_achievements WHERE share_token = _token;
+
+  IF NOT FOUND THEN
+    RETURN QUERY SELECT 'revoked'::TEXT, NULL::TEXT, NULL::TEXT, NULL::JSONB, NULL::TIMESTAMPTZ, NULL::TIMESTAMPTZ;
+    RETURN;
+  END IF;
+
+  _is_owner := COALESCE(_share.user_id = auth.uid(), false);
+  _status := CASE
+    WHEN _share.revoked_at IS NOT NULL OR (NOT _share.is_public AND NOT _is_owner) THEN 'revoked'
+    WHEN _share.expires_at IS NOT NULL AND _share.expires_at <= now() THEN 'expired'
+    ELSE 'active'
+  END;
+
+  IF NOT _is_owner AND NOT (_share.kind = 'report' AND _status = 'active') THEN
+    INSERT INTO public.share_access_log (share_id, outcome, viewer_user_id)
+    VALUES (_share.id, _status, auth.uid());
+
+    IF _status = 'active' THEN
+      UPDATE public.shared_achievements
+      SET view_count = view_count + 1, last_viewed_at = now()
+      WHERE id = _share.id;
+    END IF;
+  END IF;
+
+  IF _status = 'revoked' THEN
+    RETURN QUERY SELECT 'revoked'::TEXT, NULL::TEXT, NULL::TEXT, NULL::JSONB, NULL::TIMESTAMPTZ, NULL::TIMESTAMPTZ;
+  ELSIF _status = 'expired' THEN
+    RETURN QUERY SELECT 'expired'::TEXT, _share.kind, NULL::TEXT, NULL::JSONB, _share.created_at, _share.expires_at;
+  ELSIF _share.kind = 'report' THEN
+    RETURN QUERY SELECT 'active'::TEXT, _share.kind, _share.title, NULL::JSONB, _share.created_at, _share.expires_at;
+  ELSE
+    RETURN QUERY SELECT 'active'::TEXT, _share.kind, _share.title, _share.content, _share.created_at, _share.expires_at;
+  END IF;
+END;
+$$;
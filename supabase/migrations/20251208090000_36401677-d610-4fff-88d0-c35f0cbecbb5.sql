@@ -0,0 +1,122 @@
+-- The same NULL owner check as in get_shared_achievement: for visitors who aren't signed in, auth.uid() is
+-- NULL, so the PIN check was skipped, wrong PINs were never counted towards revoking the link, and views
+-- were not logged. The owner check is now false for anyone who isn't signed in as the owner.
+
+-- Builds a report from the live assessment with only the shared sections. Returns 'pin_required'
+-- when the PIN is missing or wrong; the 10th wrong PIN revokes the link.
+CREATE OR REPLACE FUNCTION public.get_shared_report(_token TEXT, _pin TEXT DEFAULT NULL)
+RETURNS TABLE (
+  status TEXT,
+  title TEXT,
+  report JSONB,
+  created_at TIMESTAMP WITH TIME ZONE,
+  expires_at TIMESTAMP WITH TIME ZONE
+)
+LANGUAGE plpgsql
+VOLATILE
+SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  _share public.shared_achievements%ROWTYPE;
+  _assessment public.assessments%ROWTYPE;
+  _is_owner BOOLEAN;
+  _report JSONB;
+BEGIN
+  SELECT * INTO _share FROM public.shared_achievements WHERE share_token = _token AND kind = 'report';
+
+  IF NOT FOUND OR _share.revoked_at IS NOT NULL THEN
+    RETURN QUERY SELECT 'revoked'::TEXT, NULL::TEXT, NULL::JSONB, NULL::TIMESTAMPTZ, NULL::TIMESTAMPTZ;
+    RETURN;
+  END IF;
+
+  IF _share.expires_at <= now() THEN
+    RETURN QUERY SELECT 'expired'::TEXT, NULL::TEXT, NULL::JSONB, _share.created_at, _share.expires_at;
+    RETURN;
+  END IF;
+
+  _is_owner := COALESCE(_share.user_id = auth.uid(), false);
+
+  IF _share.pin_hash IS NOT NULL AND NOT _is_owner THEN
+    IF _pin IS NULL OR extensions.crypt(_pin, _share.pin_hash) <> _share.pin_hash THEN
+      IF _pin IS NOT NULL THEN
+        INSERT INTO public.share_access_log (share_id, outcome, viewer_user_id)
+        VALUES (_share.id, 'pin_failed', auth.uid());
+
+        IF (SELECT count(*) FROM public.share_access_log WHERE share_id = _share.id AND outcome = 'pin_failed') >= 10 THEN
+          UPDATE public.shared_achievements
+          SET revoked_at = now(), revoked_reason = 'pin_failures'
+          WHERE id = _share.id;
+
+          RETURN QUERY SELECT 'revoked'::TEXT, NULL::TEXT, NULL::JSONB, NULL::TIMESTAMPTZ, NULL::TIMESTAMPTZ;
+          RETURN;
+        END IF;
+      END IF;
+      RETURN QUERY SELECT 'pin_required'::TEXT, NULL::TEXT, NULL::JSONB, NULL::TIMESTAMPTZ, NULL::TIMESTAMPTZ;
+      RETURN;
+    END IF;
+  END IF;
+
+  SELECT * INTO _assessment FROM public.assessments WHERE id = _share.assessment_id;
+
+  _report := jsonb_build_object(
+    'role', _assessment.role,
+    'instrument', _assessment.instrument,
+    'assessedAt', _assessment.created_at,
+    'questionBankVersion', _assessment.question_bank_version,
+    'childName', _assessment.metadata->>'childName',
+    'childAge', _assessment.metadata->>'childAge',
+    'scopes', to_jsonb(_share.report_scopes)
+  );
+
+  IF 'scores' = ANY(_share.report_scopes) THEN
+    _report := _report || jsonb_build_object('scores', jsonb_build_object(
+      'normalizedScore', _assessment.result->'normalizedScore',
+      'fusedScore', _assessment.fused_score,
+      'severity', _assessment.severity,
+      'severityLabel', _assessment.result->'severityLabel',
+      'rawTotal', _assessment.result->'rawTotal',
+      'maxPossible', _assessment.result->'maxPossible',
+      'categoryScores', _assessment.result->'categoryScores',
+      'instrument', _assessment.result->'instrument'
+    ));
+  END IF;
+
+  IF 'contributors' = ANY(_share.report_scopes) THEN
+    _report := _report || jsonb_build_object('contributors', jsonb_build_object(
+      'topContributors', _assessment.result->'topContributors',
+      'contributions', _assessment.result->'contributions'
+    ));
+  END IF;
+
+  IF 'video_analysis' = ANY(_share.report_scopes) THEN
+    _report := _report || jsonb_build_object('videoAnalysis', jsonb_build_object(
+      'prediction', _assessment.video_prediction,
+      'fusionStrategy', _assessment.result->'fusionStrategy'
+    ));
+  END IF;
+
+  -- The 60 most recent check-ins from the 90 days before the report was opened
+  IF 'mood_history' = ANY(_share.report_scopes) THEN
+    _report := _report || jsonb_build_object('moodHistory', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object('mood', m.mood, 'note', m.note, 'createdAt', m.created_at) ORDER BY m.created_at DESC)
+      FROM (
+        SELECT mood, note, mood_logs.created_at FROM public.mood_logs
+        WHERE user_id = _assessment.user_id AND mood_logs.created_at > now() - INTERVAL '90 days'
+        ORDER BY mood_logs.created_at DESC
+        LIMIT 60
+      ) m
+    ), '[]'::JSONB));
+  END IF;
+
+  IF NOT _is_owner THEN
+    INSERT INTO public.share_access_log (share_id, outcome, viewer_user_id)
+    VALUES (_share.id, 'active', auth.uid());
+
+    UPDATE public.shared_achievements
+    SET view_count = view_count + 1, last_viewed_at = now()
+    WHERE id = _share.id;
+  END IF;
+
+  RETURN QUERY SELECT 'active'::TEXT, _share.title, _report, _share.created_at, _share.expires_at;
+END;
+$$;
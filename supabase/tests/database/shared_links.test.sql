@@ -0,0 +1,99 @@
+-- Share and report lookups by visitors who aren't signed in. Run with `supabase test db`.
+BEGIN;
+CREATE EXTENSION IF NOT EXISTS pgtap WITH SCHEMA extensions;
+
+SELECT plan(10);
+
+-- Share rows don't reference auth.users, so the owner can be any id
+INSERT INTO public.shared_achievements (id, user_id, share_token, title, content, is_public)
+VALUES
+  ('00000000-0000-0000-0000-00000000a001', '00000000-0000-0000-0000-000000000001', 'private-link', 'Private badge', '{"badge": "private"}', false),
+  ('00000000-0000-0000-0000-00000000a002', '00000000-0000-0000-0000-000000000001', 'public-link', 'Public badge', '{"badge": "public"}', true);
+
+-- A PIN-protected report link (PIN 123456) to an assessment of its owner
+INSERT INTO auth.users (id, email) VALUES ('00000000-0000-0000-0000-000000000002', 'parent@example.com');
+INSERT INTO public.assessments (id, user_id, role, question_bank_version, result, normalized_score, severity)
+VALUES ('00000000-0000-0000-0000-00000000b001', '00000000-0000-0000-0000-000000000002', 'parent', '1.2.0', '{}', 42, 'moderate');
+INSERT INTO public.shared_achievements
+  (id, user_id, share_token, kind, title, content, is_public, expires_at, assessment_id, report_scopes, pin_hash)
+VALUES (
+  '00000000-0000-0000-0000-00000000a003', '00000000-0000-0000-0000-000000000002', 'report-link', 'report',
+  'Report for Dr. Rao', '{}', true, now() + INTERVAL '7 days', '00000000-0000-0000-0000-00000000b001',
+  '{scores}', extensions.crypt('123456', extensions.gen_salt('bf'))
+);
+
+-- No JWT claims, so auth.uid() is NULL
+SELECT set_config('request.jwt.claim.sub', '', true);
+SELECT set_config('request.jwt.claims', '', true);
+
+SELECT is(
+  (SELECT status FROM public.get_shared_achievement('private-link')),
+  'revoked',
+  'private links are hidden from anonymous visitors'
+);
+
+SELECT is(
+  (SELECT content FROM public.get_shared_achievement('public-link')),
+  '{"badge": "public"}'::JSONB,
+  'public links are shown to anonymous visitors'
+);
+
+SELECT is(
+  (SELECT array_agg(outcome ORDER BY outcome) FROM public.share_access_log
+   WHERE share_id IN ('00000000-0000-0000-0000-00000000a001', '00000000-0000-0000-0000-00000000a002')),
+  ARRAY['active', 'revoked'],
+  'anonymous visits are logged'
+);
+
+SELECT is(
+  (SELECT view_count FROM public.shared_achievements WHERE id = '00000000-0000-0000-0000-00000000a002'),
+  1,
+  'anonymous views of public links are counted'
+);
+
+SELECT is(
+  (SELECT status FROM public.get_shared_report('report-link')),
+  'pin_required',
+  'anonymous visitors must enter the PIN'
+);
+
+SELECT is(
+  (SELECT report FROM public.get_shared_report('report-link', '654321')),
+  NULL,
+  'a wrong PIN shows nothing'
+);
+
+SELECT is(
+  (SELECT status FROM public.get_shared_report('report-link', '123456')),
+  'active',
+  'the right PIN opens the report'
+);
+
+SELECT is(
+  (SELECT array_agg(outcome ORDER BY outcome) FROM public.share_access_log
+   WHERE share_id = '00000000-0000-0000-0000-00000000a003'),
+  ARRAY['active', 'pin_failed'],
+  'anonymous report views and wrong PINs are logged'
+);
+
+-- Eight more wrong PINs make nine; the tenth revokes the link
+DO $$
+BEGIN
+  PERFORM public.get_shared_report('report-link', '000000') FROM generate_series(1, 8);
+END;
+$$;
+
+SELECT is(
+  (SELECT status FROM public.get_shared_report('report-link', '000000')),
+  'revoked',
+  'the tenth wrong PIN revokes the link'
+);
+
+SELECT is(
+  (SELECT revoked_reason FROM public.shared_achievements WHERE id = '00000000-0000-0000-0000-00000000a003'),
+  'pin_failures',
+  'the link records why it was revoked'
+);
+
+SELECT * FROM finish();
+ROLLBACK;